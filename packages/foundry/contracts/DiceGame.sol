@@ -2,6 +2,7 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
 import "./HousePool.sol";
 import "./VaultManager.sol";
 
@@ -11,10 +12,17 @@ import "./VaultManager.sol";
 contract DiceGame {
     /* ========== CUSTOM ERRORS ========== */
     error GameNotPlayable();
+    error GamePaused();
     error NoCommitment();
     error TooEarly();
     error TooLate();
     error InvalidReveal();
+    error InvalidRollCount();
+    error InvalidTier();
+    error SelfExcluded();
+    error DailySpendLimitExceeded();
+    error HourlyRollLimitExceeded();
+    error InvalidDuration();
 
     /* ========== STATE VARIABLES ========== */
     
@@ -26,37 +34,81 @@ contract DiceGame {
     struct Commitment {
         bytes32 hash;
         uint256 blockNumber;
+        uint256 rolls;          // Number of rolls bought with this commitment
+        uint8 tier;             // Odds tier the rolls are played at
     }
     mapping(address => Commitment) public commits;
+    
+    // Responsible-gaming limits, set by each player for themselves (0 = no limit)
+    struct PlayerLimits {
+        uint256 dailySpendCap;          // Max USDC spent per UTC day
+        uint256 maxRollsPerHour;        // Max rolls per clock hour
+        uint256 excludedUntil;          // No commits before this timestamp
+        uint256 pendingDailySpendCap;   // Looser limits waiting for LIMIT_LOOSEN_DELAY
+        uint256 pendingMaxRollsPerHour;
+        uint256 pendingEffectiveAt;     // 0 = nothing scheduled
+    }
+    mapping(address => PlayerLimits) public limits;
+    
+    // Usage counted against the limits in the current day / hour
+    struct PlayerUsage {
+        uint256 day;
+        uint256 spent;
+        uint256 hour;
+        uint256 rolls;
+    }
+    mapping(address => PlayerUsage) public usage;
 
     /* ========== CONSTANTS ========== */
     
     // Gambling parameters
     uint256 public constant ROLL_COST = 1e5;        // 0.10 USDC (10 cents)
-    uint256 public constant ROLL_PAYOUT = 1e6;      // 1 USDC
-    uint256 public constant WIN_MODULO = 11;        // 1/11 ≈ 9% win rate, 9% house edge
+    uint256 public constant ROLL_PAYOUT = 1e6;      // 1 USDC (default tier)
+    uint256 public constant WIN_MODULO = 11;        // 1/11 ≈ 9% win rate, 9% house edge (default tier)
+    uint256 public constant MAX_ROLLS = 20;         // Max rolls per commitment
+    
+    // Odds tiers: 0 = 1/2, 1 = 1/6, 2 = 1/11, 3 = 1/100 (all with the same ~9% house edge)
+    uint8 public constant TIER_COUNT = 4;
+    uint8 public constant DEFAULT_TIER = 2;         // 1/11, the original game
     
     // Pool thresholds (game-specific reserve requirement)
-    uint256 public constant MIN_RESERVE = 3e6;      // 3 USDC minimum (covers 2 wins in a row)
+    uint256 public constant MIN_RESERVE = 3e6;      // 3 USDC minimum at the default tier (covers 2 wins in a row)
+    
+    // Initial HousePool liquid buffer band (USDC kept out of the vault for payouts)
+    uint256 public constant BUFFER_MIN = 5 * ROLL_PAYOUT;
+    uint256 public constant BUFFER_MAX = 10 * ROLL_PAYOUT;
+    
+    // Responsible gaming
+    uint256 public constant LIMIT_LOOSEN_DELAY = 24 hours;   // Raising or removing a limit waits this long
+    uint256 public constant MAX_SELF_EXCLUSION = 5 * 365 days;
 
     /* ========== EVENTS ========== */
     
-    event RollCommitted(address indexed player, bytes32 commitment);
-    event RollRevealed(address indexed player, bool won, uint256 payout);
+    event RollCommitted(address indexed player, bytes32 commitment, uint256 rolls, uint8 tier);
+    event RollRevealed(address indexed player, bool won, uint256 payout, uint256 rolls, uint256 wins);
+    event LimitsUpdated(address indexed player, uint256 dailySpendCap, uint256 maxRollsPerHour);
+    event LimitsLooseningScheduled(
+        address indexed player,
+        uint256 dailySpendCap,
+        uint256 maxRollsPerHour,
+        uint256 effectiveAt
+    );
+    event SelfExclusionSet(address indexed player, uint256 excludedUntil);
 
     /* ========== CONSTRUCTOR ========== */
     
     /// @notice Deploys VaultManager and HousePool with this DiceGame as the immutable game contract
+    /// @dev The deployer becomes the VaultManager owner (manages the yield strategy registry) and the emergency guardian
     /// @param _usdc Address of the USDC token
     /// @param _fleetCommander Address of Summer.fi FleetCommander vault (LVUSDC on Base)
     constructor(address _usdc, address _fleetCommander) {
         usdc = IERC20(_usdc);
         
         // 1. Deploy VaultManager first
-        vaultManager = new VaultManager(_fleetCommander, _usdc);
+        vaultManager = new VaultManager(_fleetCommander, _usdc, msg.sender);
         
         // 2. Deploy HousePool with VaultManager
-        housePool = new HousePool(_usdc, address(this), address(vaultManager));
+        housePool = new HousePool(_usdc, address(this), address(vaultManager), BUFFER_MIN, BUFFER_MAX, msg.sender);
         
         // 3. Link VaultManager to HousePool (one-time setup)
         vaultManager.setHousePool(address(housePool));
@@ -67,23 +119,54 @@ contract DiceGame {
     /// @notice Step 1: Commit to a roll. Hash = keccak256(abi.encodePacked(secret))
     /// @param commitHash Hash of the player's secret
     function commitRoll(bytes32 commitHash) external {
-        // Check game is playable (enough liquidity)
-        if (!canPlay()) revert GameNotPlayable();
-        
-        // Take payment via HousePool
-        housePool.receivePayment(msg.sender, ROLL_COST);
-        
-        commits[msg.sender] = Commitment({
-            hash: commitHash,
-            blockNumber: block.number
-        });
-        
-        emit RollCommitted(msg.sender, commitHash);
+        _commitRolls(commitHash, 1, DEFAULT_TIER);
+    }
+    
+    /// @notice Step 1 for a batch: pay for `rolls` rolls at `tier` odds that all settle against one secret
+    /// @param commitHash Hash of the player's secret
+    /// @param rolls Number of rolls (1 to MAX_ROLLS)
+    /// @param tier Odds tier (see tierModulo)
+    function commitRolls(bytes32 commitHash, uint256 rolls, uint8 tier) external {
+        _commitRolls(commitHash, rolls, tier);
+    }
+    
+    /// @notice Step 1 in a single transaction: approve the roll cost with an EIP-2612 permit, then commit
+    /// @dev The permit spender is the HousePool (it pulls the payment). A failed permit is ignored so a
+    ///      front-run permit or an existing allowance still lets the commit go through.
+    /// @param commitHash Hash of the player's secret
+    /// @param deadline Permit deadline
+    /// @param v Permit signature v
+    /// @param r Permit signature r
+    /// @param s Permit signature s
+    function commitRollWithPermit(bytes32 commitHash, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external {
+        _permit(ROLL_COST, deadline, v, r, s);
+        _commitRolls(commitHash, 1, DEFAULT_TIER);
+    }
+    
+    /// @notice Batch version of commitRollWithPermit (permit value = rolls * ROLL_COST)
+    /// @param commitHash Hash of the player's secret
+    /// @param rolls Number of rolls (1 to MAX_ROLLS)
+    /// @param tier Odds tier (see tierModulo)
+    /// @param deadline Permit deadline
+    /// @param v Permit signature v
+    /// @param r Permit signature r
+    /// @param s Permit signature s
+    function commitRollsWithPermit(
+        bytes32 commitHash,
+        uint256 rolls,
+        uint8 tier,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        _permit(rolls * ROLL_COST, deadline, v, r, s);
+        _commitRolls(commitHash, rolls, tier);
     }
     
-    /// @notice Step 2: Reveal secret after 1+ block, within 256 blocks
+    /// @notice Step 2: Reveal secret after 1+ block, within 256 blocks. Pays out every winning roll of the batch.
     /// @param secret The secret that was hashed in commitRoll
-    /// @return won Whether the player won
+    /// @return won Whether at least one roll won
     function revealRoll(bytes32 secret) external returns (bool won) {
         Commitment memory c = commits[msg.sender];
         
@@ -97,26 +180,252 @@ contract DiceGame {
         
         delete commits[msg.sender];
         
-        // Fair randomness: player's secret + unknowable commit block hash
-        bytes32 entropy = keccak256(abi.encodePacked(
-            secret,
-            commitBlockHash
-        ));
+        uint256 modulo = tierModulo(c.tier);
+        uint256 wins;
+        for (uint256 i = 0; i < c.rolls; i++) {
+            if (_isWinner(secret, commitBlockHash, i, modulo)) wins++;
+        }
         
-        won = (uint256(entropy) % WIN_MODULO) == 0;
+        won = wins > 0;
+        uint256 totalPayout = wins * tierPayout(c.tier);
         
         if (won) {
-            housePool.payout(msg.sender, ROLL_PAYOUT);
+            housePool.payout(msg.sender, totalPayout);
+        }
+        
+        emit RollRevealed(msg.sender, won, totalPayout, c.rolls, wins);
+    }
+
+    /* ========== RESPONSIBLE GAMING ========== */
+    
+    /// @notice Set your own daily spend cap and hourly roll limit (0 = no limit).
+    ///         Tighter values apply immediately; raising or removing a limit only applies after LIMIT_LOOSEN_DELAY.
+    /// @param dailySpendCap Max USDC (6 decimals) committed per UTC day
+    /// @param maxRollsPerHour Max rolls committed per clock hour
+    function setLimits(uint256 dailySpendCap, uint256 maxRollsPerHour) external {
+        PlayerLimits memory l = _currentLimits(msg.sender);
+        
+        bool loosensSpend = _loosens(l.dailySpendCap, dailySpendCap);
+        bool loosensRolls = _loosens(l.maxRollsPerHour, maxRollsPerHour);
+        
+        if (!loosensSpend) l.dailySpendCap = dailySpendCap;
+        if (!loosensRolls) l.maxRollsPerHour = maxRollsPerHour;
+        
+        // A new call replaces whatever loosening was scheduled before
+        if (loosensSpend || loosensRolls) {
+            l.pendingDailySpendCap = dailySpendCap;
+            l.pendingMaxRollsPerHour = maxRollsPerHour;
+            l.pendingEffectiveAt = block.timestamp + LIMIT_LOOSEN_DELAY;
+            emit LimitsLooseningScheduled(msg.sender, dailySpendCap, maxRollsPerHour, l.pendingEffectiveAt);
+        } else {
+            l.pendingDailySpendCap = 0;
+            l.pendingMaxRollsPerHour = 0;
+            l.pendingEffectiveAt = 0;
         }
         
-        emit RollRevealed(msg.sender, won, won ? ROLL_PAYOUT : 0);
+        limits[msg.sender] = l;
+        emit LimitsUpdated(msg.sender, l.dailySpendCap, l.maxRollsPerHour);
+    }
+    
+    /// @notice Drop a scheduled loosening and keep the current limits
+    function cancelPendingLimits() external {
+        PlayerLimits memory l = _currentLimits(msg.sender);
+        l.pendingDailySpendCap = 0;
+        l.pendingMaxRollsPerHour = 0;
+        l.pendingEffectiveAt = 0;
+        limits[msg.sender] = l;
+    }
+    
+    /// @notice Block yourself from committing for `duration` seconds. Can be extended but never shortened.
+    /// @param duration Exclusion length in seconds (1 to MAX_SELF_EXCLUSION)
+    function selfExclude(uint256 duration) external {
+        if (duration == 0 || duration > MAX_SELF_EXCLUSION) revert InvalidDuration();
+        
+        uint256 until = block.timestamp + duration;
+        if (until > limits[msg.sender].excludedUntil) {
+            limits[msg.sender].excludedUntil = until;
+        }
+        
+        emit SelfExclusionSet(msg.sender, limits[msg.sender].excludedUntil);
+    }
+
+    /* ========== INTERNAL FUNCTIONS ========== */
+    
+    /// @notice Takes the cost of `rolls` rolls and stores the player's commitment
+    function _commitRolls(bytes32 commitHash, uint256 rolls, uint8 tier) internal {
+        if (rolls == 0 || rolls > MAX_ROLLS) revert InvalidRollCount();
+        if (tier >= TIER_COUNT) revert InvalidTier();
+        if (housePool.emergency()) revert GamePaused();
+        
+        // Check game can cover the whole batch winning (enough liquidity)
+        if (!canPlayRolls(rolls, tier)) revert GameNotPlayable();
+        
+        _useAllowance(msg.sender, rolls);
+        
+        // Take payment via HousePool
+        housePool.receivePayment(msg.sender, rolls * ROLL_COST);
+        
+        commits[msg.sender] = Commitment({
+            hash: commitHash,
+            blockNumber: block.number,
+            rolls: rolls,
+            tier: tier
+        });
+        
+        emit RollCommitted(msg.sender, commitHash, rolls, tier);
+    }
+    
+    /// @notice Enforces the player's limits and counts `rolls` against the current day / hour
+    function _useAllowance(address player, uint256 rolls) internal {
+        PlayerLimits memory l = _currentLimits(player);
+        if (l.pendingEffectiveAt == 0 && limits[player].pendingEffectiveAt != 0) {
+            limits[player] = l;
+            emit LimitsUpdated(player, l.dailySpendCap, l.maxRollsPerHour);
+        }
+        
+        if (block.timestamp < l.excludedUntil) revert SelfExcluded();
+        
+        PlayerUsage memory u = _currentUsage(player);
+        u.spent += rolls * ROLL_COST;
+        u.rolls += rolls;
+        
+        if (l.dailySpendCap != 0 && u.spent > l.dailySpendCap) revert DailySpendLimitExceeded();
+        if (l.maxRollsPerHour != 0 && u.rolls > l.maxRollsPerHour) revert HourlyRollLimitExceeded();
+        
+        usage[player] = u;
+    }
+    
+    /// @notice Stored limits with a matured loosening applied
+    function _currentLimits(address player) internal view returns (PlayerLimits memory l) {
+        l = limits[player];
+        if (l.pendingEffectiveAt != 0 && block.timestamp >= l.pendingEffectiveAt) {
+            l.dailySpendCap = l.pendingDailySpendCap;
+            l.maxRollsPerHour = l.pendingMaxRollsPerHour;
+            l.pendingDailySpendCap = 0;
+            l.pendingMaxRollsPerHour = 0;
+            l.pendingEffectiveAt = 0;
+        }
+    }
+    
+    /// @notice Stored usage with the counters reset once the day / hour has rolled over
+    function _currentUsage(address player) internal view returns (PlayerUsage memory u) {
+        u = usage[player];
+        uint256 day = block.timestamp / 1 days;
+        uint256 hour = block.timestamp / 1 hours;
+        if (u.day != day) {
+            u.day = day;
+            u.spent = 0;
+        }
+        if (u.hour != hour) {
+            u.hour = hour;
+            u.rolls = 0;
+        }
+    }
+    
+    /// @notice Whether moving a limit from `current` to `next` makes it less strict (0 = no limit)
+    function _loosens(uint256 current, uint256 next) internal pure returns (bool) {
+        return current != 0 && (next == 0 || next > current);
+    }
+    
+    /// @notice Approves HousePool via EIP-2612. Failures are ignored (see commitRollWithPermit).
+    function _permit(uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) internal {
+        try IERC20Permit(address(usdc)).permit(msg.sender, address(housePool), value, deadline, v, r, s) {} catch {}
+    }
+    
+    /// @notice Fair randomness: player's secret + unknowable commit block hash.
+    ///         Roll 0 uses keccak256(secret, blockhash); roll i > 0 uses keccak256(that entropy, i).
+    function _isWinner(
+        bytes32 secret,
+        bytes32 commitBlockHash,
+        uint256 index,
+        uint256 modulo
+    ) internal pure returns (bool) {
+        bytes32 entropy = keccak256(abi.encodePacked(secret, commitBlockHash));
+        if (index > 0) {
+            entropy = keccak256(abi.encodePacked(entropy, index));
+        }
+        return (uint256(entropy) % modulo) == 0;
     }
 
     /* ========== VIEW FUNCTIONS ========== */
     
-    /// @notice Whether the game can accept new rolls
+    /// @notice Whether the game can accept a new single roll at the default tier
     function canPlay() public view returns (bool) {
-        return housePool.effectivePool() >= MIN_RESERVE + ROLL_PAYOUT;
+        return canPlayRolls(1, DEFAULT_TIER);
+    }
+    
+    /// @notice Whether the game can cover a batch of `rolls` rolls at `tier` all winning (and is not paused)
+    function canPlayRolls(uint256 rolls, uint8 tier) public view returns (bool) {
+        return !housePool.emergency() && housePool.effectivePool() >= requiredReserve(rolls, tier);
+    }
+    
+    /// @notice Pool needed to accept a batch: MIN_RESERVE scaled to the tier's payout, plus every roll winning
+    function requiredReserve(uint256 rolls, uint8 tier) public pure returns (uint256) {
+        uint256 payout = tierPayout(tier);
+        return (MIN_RESERVE * payout) / ROLL_PAYOUT + rolls * payout;
+    }
+    
+    /// @notice Win odds of a tier: a roll wins with probability 1/modulo
+    function tierModulo(uint8 tier) public pure returns (uint256) {
+        if (tier == 0) return 2;
+        if (tier == 1) return 6;
+        if (tier == 2) return WIN_MODULO;
+        if (tier == 3) return 100;
+        revert InvalidTier();
+    }
+    
+    /// @notice Payout of a winning roll at a tier. Keeps the default tier's edge: payout = cost * modulo * 10 / 11
+    function tierPayout(uint8 tier) public pure returns (uint256) {
+        return (ROLL_COST * tierModulo(tier) * 10) / 11;
+    }
+    
+    /// @notice All tiers at once (for the UI)
+    function getTiers() external pure returns (uint256[] memory modulos, uint256[] memory payouts) {
+        modulos = new uint256[](TIER_COUNT);
+        payouts = new uint256[](TIER_COUNT);
+        for (uint8 i = 0; i < TIER_COUNT; i++) {
+            modulos[i] = tierModulo(i);
+            payouts[i] = tierPayout(i);
+        }
+    }
+    
+    /// @notice A player's limits as they apply right now, plus any scheduled loosening
+    function getLimits(address player) external view returns (
+        uint256 dailySpendCap,
+        uint256 maxRollsPerHour,
+        uint256 excludedUntil,
+        uint256 pendingDailySpendCap,
+        uint256 pendingMaxRollsPerHour,
+        uint256 pendingEffectiveAt
+    ) {
+        PlayerLimits memory l = _currentLimits(player);
+        return (
+            l.dailySpendCap,
+            l.maxRollsPerHour,
+            l.excludedUntil,
+            l.pendingDailySpendCap,
+            l.pendingMaxRollsPerHour,
+            l.pendingEffectiveAt
+        );
+    }
+    
+    /// @notice What a player can still commit under their limits (type(uint256).max = no limit)
+    /// @return spendLeft USDC left under today's cap
+    /// @return rollsLeft Rolls left this hour
+    /// @return excluded Whether the player is self-excluded right now
+    function remainingAllowance(address player) external view returns (
+        uint256 spendLeft,
+        uint256 rollsLeft,
+        bool excluded
+    ) {
+        PlayerLimits memory l = _currentLimits(player);
+        PlayerUsage memory u = _currentUsage(player);
+        
+        spendLeft = l.dailySpendCap == 0 ? type(uint256).max
+            : (l.dailySpendCap > u.spent ? l.dailySpendCap - u.spent : 0);
+        rollsLeft = l.maxRollsPerHour == 0 ? type(uint256).max
+            : (l.maxRollsPerHour > u.rolls ? l.maxRollsPerHour - u.rolls : 0);
+        excluded = block.timestamp < l.excludedUntil;
     }
     
     /// @notice Get commitment details for a player
@@ -139,29 +448,50 @@ contract DiceGame {
     /// @param player The player's address
     /// @param secret The secret that was hashed in commitRoll
     /// @return canCheck Whether the result can be checked (valid commitment, correct secret, blockhash available)
-    /// @return isWinner Whether the roll is a winner
+    /// @return isWinner Whether at least one roll of the batch is a winner
     function checkRoll(address player, bytes32 secret) external view returns (bool canCheck, bool isWinner) {
+        uint256 totalPayout;
+        (canCheck, , totalPayout) = checkRolls(player, secret);
+        isWinner = totalPayout > 0;
+    }
+    
+    /// @notice Batch version of checkRoll: the outcome of every roll in the player's commitment
+    /// @param player The player's address
+    /// @param secret The secret that was hashed in commitRoll
+    /// @return canCheck Whether the result can be checked (valid commitment, correct secret, blockhash available)
+    /// @return results Win/loss of each roll (empty if canCheck is false)
+    /// @return totalPayout Amount revealRoll would pay out
+    function checkRolls(address player, bytes32 secret) public view returns (
+        bool canCheck,
+        bool[] memory results,
+        uint256 totalPayout
+    ) {
         Commitment memory c = commits[player];
         
         // No commitment
-        if (c.blockNumber == 0) return (false, false);
+        if (c.blockNumber == 0) return (false, results, 0);
         
         // Too early (still in commit block)
-        if (block.number <= c.blockNumber) return (false, false);
+        if (block.number <= c.blockNumber) return (false, results, 0);
         
         // Wrong secret
-        if (keccak256(abi.encodePacked(secret)) != c.hash) return (false, false);
+        if (keccak256(abi.encodePacked(secret)) != c.hash) return (false, results, 0);
         
         // Get commit block hash
         bytes32 commitBlockHash = blockhash(c.blockNumber);
         
         // Too late (blockhash no longer available)
-        if (commitBlockHash == 0) return (false, false);
+        if (commitBlockHash == 0) return (false, results, 0);
         
-        // Calculate result
-        bytes32 entropy = keccak256(abi.encodePacked(secret, commitBlockHash));
-        isWinner = (uint256(entropy) % WIN_MODULO) == 0;
+        // Calculate results
+        uint256 modulo = tierModulo(c.tier);
+        uint256 payout = tierPayout(c.tier);
+        results = new bool[](c.rolls);
+        for (uint256 i = 0; i < c.rolls; i++) {
+            results[i] = _isWinner(secret, commitBlockHash, i, modulo);
+            if (results[i]) totalPayout += payout;
+        }
         
-        return (true, isWinner);
+        return (true, results, totalPayout);
     }
 }
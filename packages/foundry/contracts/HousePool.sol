@@ -3,16 +3,20 @@ pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/interfaces/IERC4626.sol";
+import "@openzeppelin/contracts/utils/introspection/IERC165.sol";
 import "./VaultManager.sol";
+import "./interfaces/IERC7540.sol";
 
 /// @title HousePool - Liquidity pool for gambling games with DeFi yield generation
 /// @notice Deposit USDC to become the house. Share price grows as house profits + DeFi yield.
-/// @dev Game contract is set immutably at deployment. All USDC is invested in Summer.fi vault.
-contract HousePool is ERC20 {
+/// @dev Game contract is set immutably at deployment. USDC above a liquid buffer band is invested via VaultManager.
+///      HOUSE is an ERC-4626 vault over USDC with ERC-7540 asynchronous redemption: redeem requests wait out the
+///      cooldown in the withdrawal queue before they can be claimed.
+contract HousePool is ERC20, IERC4626, IERC7540Redeem, IERC7575Share, IERC165 {
     /* ========== CUSTOM ERRORS ========== */
     error InsufficientPool();
     error WithdrawalNotReady();
-    error WithdrawalExpired();
     error NoPendingWithdrawal();
     error InsufficientShares();
     error ZeroAmount();
@@ -22,6 +26,14 @@ contract HousePool is ERC20 {
     error ZeroAddress();
     error WithdrawalAlreadyPending();
     error SlippageExceeded();
+    error InvalidBufferBand();
+    error NothingOwed();
+    error InsufficientLiquidity();
+    error EmergencyActive();
+    error NotInEmergency();
+    error AsyncRedeem();
+    error QueueBacklog();
+    error QueueFull();
 
     /* ========== STATE VARIABLES ========== */
     
@@ -29,35 +41,94 @@ contract HousePool is ERC20 {
     address public immutable game;
     VaultManager public immutable vaultManager;
     
-    // Withdrawal tracking
+    // Withdrawal tracking: one request per LP, filled first-in first-out
     struct WithdrawalRequest {
-        uint256 shares;
+        uint256 shares;         // Still to fill
         uint256 unlockTime;
-        uint256 expiryTime;
+        uint256 queueId;        // Position in withdrawalQueue
+        uint256 sharesBefore;   // HOUSE requested ahead of this request, plus its own HOUSE already filled
     }
     mapping(address => WithdrawalRequest) public withdrawals;
     uint256 public totalPendingShares;
+    
+    // Shares requested at each timestamp and still pending. Requests of the last WITHDRAWAL_DELAY seconds
+    // are in cooldown and left out of effectivePool (nobody can fill them yet, so they could be cycled
+    // through cancelWithdrawal to block the game for free).
+    mapping(uint256 => uint256) private _requestedAt;
+    
+    // FIFO withdrawal queue: ids [queueHead, queueTail) are waiting. Entries of cancelled requests
+    // are left behind and skipped when reached.
+    mapping(uint256 => address) public withdrawalQueue;
+    uint256 public queueHead;
+    uint256 public queueTail;
+    
+    // Running totals that give a request's place in the queue without walking it: HOUSE ever requested,
+    // requests filled completely and HOUSE filled, plus a Fenwick tree of cancelled requests by queue id
+    // (request count above bit 192, HOUSE below). Fills only happen at the front, so they are all ahead.
+    uint256 public totalRequestedShares;
+    uint256 public filledRequests;
+    uint256 public filledShares;
+    mapping(uint256 => uint256) private _cancelledTree;
+    
+    // Liquid buffer band: USDC kept in this contract for payouts instead of the vault.
+    // Above bufferMax the excess is swept to the vault, below bufferMin it is refilled (both back to bufferTarget).
+    uint256 public bufferMin;
+    uint256 public bufferMax;
+    
+    // Winnings the pool could not pay on the spot because the vault was short on liquidity (claimable IOUs).
+    // The USDC is still pool value, it just cannot leave the vault yet; totalOwed is excluded from LP value.
+    mapping(address => uint256) public owed;
+    uint256 public totalOwed;
+    
+    // Emergency mode: the vault is unwound into this contract, new bets and deposits are paused
+    // and LPs can exit pro-rata without the withdrawal cooldown.
+    address public guardian;
+    bool public emergency;
+    
+    // ERC-7540 operators: controller => operator => approved to request and claim on the controller's behalf
+    mapping(address => mapping(address => bool)) public isOperator;
 
     /* ========== CONSTANTS ========== */
     
     // Withdrawal timing
     uint256 public constant WITHDRAWAL_DELAY = 10 seconds;
-    uint256 public constant WITHDRAWAL_WINDOW = 1 minutes;
     
     // First deposit minimum (prevents share manipulation attack)
     uint256 public constant MIN_FIRST_DEPOSIT = 1e6; // 1 USDC
+    
+    // HOUSE has 18 decimals, USDC has 6: the first deposit mints 1e12 shares per USDC unit
+    uint256 private constant FIRST_DEPOSIT_SCALE = 1e12;
+    
+    // ERC-7540: every LP has at most one redeem request, so all requests share id 0
+    uint256 private constant REQUEST_ID = 0;
+    
+    // Queue entries withdraw() and the ERC-4626 claims process ahead of the caller; a longer backlog
+    // reverts with QueueBacklog and is cleared with processWithdrawals()
+    uint256 public constant MAX_INLINE_REQUESTS = 20;
+    
+    // Size of the cancelled-requests Fenwick tree (queue ids must stay below it)
+    uint256 private constant QUEUE_CAPACITY = 2**32;
+    uint256 private constant CANCELLED_COUNT_SHIFT = 192;
 
     /* ========== EVENTS ========== */
     
-    event Deposit(address indexed lp, uint256 usdcIn, uint256 sharesOut);
-    event WithdrawalRequested(address indexed lp, uint256 shares, uint256 unlockTime, uint256 expiryTime);
+    // Deposit and Withdraw are the ERC-4626 events (IERC4626), RedeemRequest and OperatorSet the ERC-7540 ones
+    event WithdrawalRequested(address indexed lp, uint256 shares, uint256 unlockTime, uint256 queueId);
     event WithdrawalCancelled(address indexed lp, uint256 shares);
-    event WithdrawalExpiredCleanup(address indexed lp, uint256 shares);
-    event Withdraw(address indexed lp, uint256 sharesIn, uint256 usdcOut);
     event PaymentReceived(address indexed player, uint256 amount);
     event PayoutSent(address indexed player, uint256 amount);
     event DepositedToVault(uint256 amount);
     event WithdrawnFromVault(uint256 amount);
+    event BufferBandUpdated(uint256 bufferMin, uint256 bufferMax);
+    event VaultRebalanced(uint256 amount);
+    event PayoutDeferred(address indexed player, uint256 amount);
+    event OwedClaimed(address indexed player, uint256 amount);
+    event WithdrawalPartiallyFilled(address indexed lp, uint256 remainingShares);
+    event GuardianUpdated(address indexed guardian);
+    event EmergencyTriggered(address indexed by, uint256 recovered);
+    event EmergencyResolved(address indexed by);
+    event VaultUnwound(uint256 amount);
+    event EmergencyExit(address indexed lp, uint256 sharesIn, uint256 usdcOut);
 
     /* ========== MODIFIERS ========== */
     
@@ -65,18 +136,45 @@ contract HousePool is ERC20 {
         if (msg.sender != game) revert Unauthorized();
         _;
     }
+    
+    /// @dev The VaultManager owner manages the treasury (strategies and the liquid buffer)
+    modifier onlyVaultOwner() {
+        if (msg.sender != vaultManager.owner()) revert Unauthorized();
+        _;
+    }
+    
+    /// @dev The guardian can pull the emergency brake fast; the VaultManager owner (e.g. a timelocked multisig) can too
+    modifier onlyGuardian() {
+        if (msg.sender != guardian && msg.sender != vaultManager.owner()) revert Unauthorized();
+        _;
+    }
+    
+    modifier whenNotEmergency() {
+        if (emergency) revert EmergencyActive();
+        _;
+    }
 
     /* ========== CONSTRUCTOR ========== */
     
+    /// @param _bufferMin Liquid USDC below which the buffer is refilled from the vault
+    /// @param _bufferMax Liquid USDC above which the excess is swept into the vault
+    /// @param _guardian Address allowed to trigger emergency mode
     constructor(
         address _usdc,
         address _game,
-        address _vaultManager
+        address _vaultManager,
+        uint256 _bufferMin,
+        uint256 _bufferMax,
+        address _guardian
     ) ERC20("HouseShare", "HOUSE") {
         if (_usdc == address(0) || _game == address(0) || _vaultManager == address(0)) revert ZeroAddress();
+        if (_bufferMin > _bufferMax) revert InvalidBufferBand();
         usdc = IERC20(_usdc);
         game = _game;
         vaultManager = VaultManager(payable(_vaultManager));
+        bufferMin = _bufferMin;
+        bufferMax = _bufferMax;
+        guardian = _guardian;
     }
 
     /* ========== GAME FUNCTIONS ========== */
@@ -84,7 +182,7 @@ contract HousePool is ERC20 {
     /// @notice Receive payment from a player (called by game contract)
     /// @param player Address of the player
     /// @param amount Amount of USDC to receive
-    function receivePayment(address player, uint256 amount) external onlyGame {
+    function receivePayment(address player, uint256 amount) external onlyGame whenNotEmergency {
         if (amount == 0) revert ZeroAmount();
         
         bool success = usdc.transferFrom(player, address(this), amount);
@@ -92,25 +190,67 @@ contract HousePool is ERC20 {
         
         emit PaymentReceived(player, amount);
         
-        // Deposit all USDC to vault for yield
-        _depositAllToVault();
+        // Only touches the vault once the buffer overflows
+        _sweepExcessToVault();
     }
     
     /// @notice Pay out winnings to a player (called by game contract)
+    /// @dev If the vault cannot release enough USDC right now, the unpaid part is recorded as a claimable IOU
     /// @param player Address of the player
     /// @param amount Amount of USDC to pay out
     function payout(address player, uint256 amount) external onlyGame {
         if (amount == 0) revert ZeroAmount();
         
-        // Withdraw from vault to cover payout
-        _withdrawFromVault(amount);
+        // A liquidity shortfall is deferred, but the pool must actually be worth the payout
+        if (_getTotalValue() < amount) revert InsufficientPool();
         
-        if (usdc.balanceOf(address(this)) < amount) revert InsufficientPool();
+        // Pay from the buffer, refilling it from the vault only if it would drop below bufferMin
+        _ensureLiquidity(amount);
         
-        bool success = usdc.transfer(player, amount);
+        uint256 free = _freeLiquidity();
+        uint256 paid = amount > free ? free : amount;
+        
+        if (paid > 0) {
+            bool success = usdc.transfer(player, paid);
+            if (!success) revert TransferFailed();
+            
+            emit PayoutSent(player, paid);
+        }
+        
+        if (paid < amount) {
+            uint256 deferred = amount - paid;
+            owed[player] += deferred;
+            totalOwed += deferred;
+            
+            emit PayoutDeferred(player, deferred);
+        }
+    }
+    
+    /// @notice Pay out a player's IOU, as far as liquidity allows (anyone can call, keeper-friendly)
+    /// @dev Pulls from the vault what it can release; whatever is still short stays claimable
+    /// @param player Address of the player owed winnings
+    /// @return paid Amount of USDC paid to the player
+    function claimOwed(address player) external returns (uint256 paid) {
+        uint256 amount = owed[player];
+        if (amount == 0) revert NothingOwed();
+        
+        // Cash held for IOUs is the balance up to totalOwed; top it up from the vault if it falls short
+        uint256 liquidBalance = usdc.balanceOf(address(this));
+        if (liquidBalance < totalOwed) {
+            _withdrawFromVault(totalOwed - liquidBalance);
+            liquidBalance = usdc.balanceOf(address(this));
+        }
+        
+        paid = amount > liquidBalance ? liquidBalance : amount;
+        if (paid == 0) revert InsufficientLiquidity();
+        
+        owed[player] = amount - paid;
+        totalOwed -= paid;
+        
+        bool success = usdc.transfer(player, paid);
         if (!success) revert TransferFailed();
         
-        emit PayoutSent(player, amount);
+        emit OwedClaimed(player, paid);
     }
 
     /* ========== LP FUNCTIONS ========== */
@@ -119,36 +259,13 @@ contract HousePool is ERC20 {
     /// @param usdcAmount Amount of USDC to deposit
     /// @param minSharesOut Minimum shares to receive (slippage protection, 0 to skip)
     /// @return shares Amount of HOUSE tokens minted
-    function deposit(uint256 usdcAmount, uint256 minSharesOut) public returns (uint256 shares) {
-        if (usdcAmount == 0) revert ZeroAmount();
-        
-        uint256 supply = totalSupply();
-        uint256 pool = _getTotalValue(); // Use total value including vault
-        
-        if (supply == 0) {
-            // First deposit: enforce minimum and 1:1 ratio (scaled to 18 decimals)
-            if (usdcAmount < MIN_FIRST_DEPOSIT) revert InsufficientPool();
-            shares = usdcAmount * 1e12; // Scale 6 decimals → 18 decimals
-        } else {
-            // Proportional shares based on current pool (including vault)
-            shares = (usdcAmount * supply) / pool;
-        }
-        
-        // Security: Ensure shares > 0 (prevents rounding to zero attack)
-        if (shares == 0) revert ZeroShares();
+    function deposit(uint256 usdcAmount, uint256 minSharesOut) public whenNotEmergency returns (uint256 shares) {
+        shares = previewDeposit(usdcAmount);
         
         // Slippage protection
         if (shares < minSharesOut) revert SlippageExceeded();
         
-        bool success = usdc.transferFrom(msg.sender, address(this), usdcAmount);
-        if (!success) revert TransferFailed();
-        
-        _mint(msg.sender, shares);
-        
-        emit Deposit(msg.sender, usdcAmount, shares);
-        
-        // Deposit all USDC to vault for yield
-        _depositAllToVault();
+        _deposit(usdcAmount, shares, msg.sender);
     }
     
     /// @notice Deposit USDC without slippage protection (convenience overload)
@@ -158,146 +275,620 @@ contract HousePool is ERC20 {
         return deposit(usdcAmount, 0);
     }
     
-    /// @notice Request withdrawal - starts cooldown period
-    /// @dev Shares are transferred to contract to prevent transfer-while-pending attack
+    /// @notice Request withdrawal - starts cooldown period and joins the back of the withdrawal queue
+    /// @dev Shares are transferred to contract to prevent transfer-while-pending attack. The request
+    ///      never expires: once unlocked it is filled in queue order, by the LP or any keeper.
     /// @param shares Amount of HOUSE tokens to withdraw
     function requestWithdrawal(uint256 shares) external {
+        _requestRedeem(shares, msg.sender, msg.sender);
+    }
+    
+    /// @notice Execute your withdrawal after the cooldown
+    /// @dev Requests ahead in the queue are filled first, up to MAX_INLINE_REQUESTS of them; with a longer
+    ///      backlog this reverts with QueueBacklog, call processWithdrawals() first. If liquidity runs short,
+    ///      the request is filled as far as it allows: the matching shares are burned and the rest stays at
+    ///      the front of the queue.
+    /// @param minUsdcOut Minimum USDC value of the full request (slippage protection, 0 to skip)
+    /// @return usdcOut Amount of USDC received (0 if liquidity ran out on requests ahead)
+    function withdraw(uint256 minUsdcOut) public returns (uint256 usdcOut) {
+        WithdrawalRequest storage req = withdrawals[msg.sender];
+        
+        if (req.shares == 0) revert NoPendingWithdrawal();
+        if (block.timestamp < req.unlockTime) revert WithdrawalNotReady();
+        
+        // Slippage protection
+        if (convertToAssets(req.shares) < minUsdcOut) revert SlippageExceeded();
+        
+        uint256 queueId = req.queueId;
+        uint256 paidAhead = _processAhead(queueId);
+        
+        bool filled;
+        if (queueHead == queueId) {
+            (usdcOut, filled) = _fill(msg.sender);
+            if (filled) queueHead = queueId + 1;
+        }
+        
+        if (usdcOut == 0 && !filled && paidAhead == 0) revert InsufficientLiquidity();
+    }
+    
+    /// @notice Execute withdrawal without slippage protection (convenience overload)
+    /// @return usdcOut Amount of USDC received
+    function withdraw() external returns (uint256 usdcOut) {
+        return withdraw(0);
+    }
+    
+    /// @notice Fill unlocked requests from the front of the queue (anyone can call, keeper-friendly)
+    /// @dev Stops at the first request still in cooldown, or when liquidity runs out (that request is partially filled)
+    /// @param maxRequests Maximum number of queue entries to process
+    /// @return filled Number of requests filled completely
+    function processWithdrawals(uint256 maxRequests) external returns (uint256 filled) {
+        (filled, ) = _processQueue(queueTail, maxRequests);
+    }
+    
+    /// @notice Cancel pending withdrawal request
+    /// @dev Returns the locked shares still unfilled to the user and leaves the queue
+    function cancelWithdrawal() external {
+        WithdrawalRequest memory req = withdrawals[msg.sender];
+        if (req.shares == 0) revert NoPendingWithdrawal();
+        
+        totalPendingShares -= req.shares;
+        if (block.timestamp < req.unlockTime) _requestedAt[req.unlockTime - WITHDRAWAL_DELAY] -= req.shares;
+        _recordCancel(req.queueId, req.shares);
+        delete withdrawals[msg.sender];
+        
+        // Return locked shares to user
+        _transfer(address(this), msg.sender, req.shares);
+        
+        emit WithdrawalCancelled(msg.sender, req.shares);
+    }
+    
+    /* ========== ERC-4626 / ERC-7540 ========== */
+    
+    /// @notice ERC-4626 deposit: pay `assets` USDC, mint HOUSE to `receiver`
+    /// @return shares Amount of HOUSE tokens minted
+    function deposit(uint256 assets, address receiver) external whenNotEmergency returns (uint256 shares) {
+        shares = previewDeposit(assets);
+        _deposit(assets, shares, receiver);
+    }
+    
+    /// @notice ERC-4626 mint: mint exactly `shares` HOUSE to `receiver`, paying their USDC value rounded up
+    /// @return assets Amount of USDC paid
+    function mint(uint256 shares, address receiver) external whenNotEmergency returns (uint256 assets) {
+        assets = previewMint(shares);
+        _deposit(assets, shares, receiver);
+    }
+    
+    /// @notice ERC-7540 redeem request: lock `shares` of `owner` in a withdrawal request controlled by `controller`
+    /// @dev Same request and queue as requestWithdrawal(). The caller must be the owner, one of its operators,
+    ///      or spend a HOUSE allowance from it. Each controller has a single request, so the id is always 0.
+    /// @return requestId Always 0
+    function requestRedeem(uint256 shares, address controller, address owner) external returns (uint256 requestId) {
+        if (owner != msg.sender && !isOperator[owner][msg.sender]) _spendAllowance(owner, msg.sender, shares);
+        _requestRedeem(shares, controller, owner);
+        return REQUEST_ID;
+    }
+    
+    /// @notice ERC-7540 claim: redeem `shares` of the unlocked request of `controller`, paying `receiver`
+    /// @dev Unlike withdraw(minUsdcOut) this never fills partially: requests ahead are filled first and the
+    ///      call reverts unless all of `shares` can be paid. Callable by the controller or its operators.
+    /// @return assets Amount of USDC paid
+    function redeem(uint256 shares, address receiver, address controller) external returns (uint256 assets) {
+        _checkController(controller);
+        assets = convertToAssets(shares);
+        _claim(controller, receiver, shares, assets);
+    }
+    
+    /// @notice ERC-7540 claim: withdraw exactly `assets` USDC from the unlocked request of `controller`
+    /// @dev Burns the shares worth `assets`, rounded up. Same rules as redeem().
+    /// @return shares Amount of HOUSE tokens burned
+    function withdraw(uint256 assets, address receiver, address controller) external returns (uint256 shares) {
+        _checkController(controller);
+        shares = _convertToSharesUp(assets);
+        _claim(controller, receiver, shares, assets);
+    }
+    
+    /// @notice Allow or disallow `operator` to request and claim redemptions on your behalf
+    function setOperator(address operator, bool approved) external returns (bool) {
+        isOperator[msg.sender][operator] = approved;
+        emit OperatorSet(msg.sender, operator, approved);
+        return true;
+    }
+    
+    /// @notice Underlying asset (USDC)
+    function asset() external view returns (address) {
+        return address(usdc);
+    }
+    
+    /// @notice ERC-7575 share token: HOUSE is its own share
+    function share() external view returns (address) {
+        return address(this);
+    }
+    
+    /// @notice Total USDC managed for LPs (liquid + vault, net of IOUs); same as totalPool()
+    function totalAssets() external view returns (uint256) {
+        return _getTotalValue();
+    }
+    
+    /// @notice HOUSE the pool would mint for `assets` USDC at the current share price (rounded down)
+    function convertToShares(uint256 assets) public view returns (uint256) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return assets * FIRST_DEPOSIT_SCALE;
+        
+        uint256 pool = _getTotalValue();
+        return pool == 0 ? 0 : (assets * supply) / pool;
+    }
+    
+    /// @notice USDC value of `shares` HOUSE at the current share price (rounded down)
+    function convertToAssets(uint256 shares) public view returns (uint256) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return shares / FIRST_DEPOSIT_SCALE;
+        return (shares * _getTotalValue()) / supply;
+    }
+    
+    /// @notice HOUSE minted by deposit(assets, ...) right now
+    function previewDeposit(uint256 assets) public view returns (uint256) {
+        return convertToShares(assets);
+    }
+    
+    /// @notice USDC paid by mint(shares, ...) right now (rounded up)
+    function previewMint(uint256 shares) public view returns (uint256) {
+        uint256 supply = totalSupply();
+        if (supply == 0) return (shares + FIRST_DEPOSIT_SCALE - 1) / FIRST_DEPOSIT_SCALE;
+        return (shares * _getTotalValue() + supply - 1) / supply;
+    }
+    
+    /// @notice Redemptions are asynchronous: use convertToAssets() for a quote
+    function previewRedeem(uint256) external pure returns (uint256) {
+        revert AsyncRedeem();
+    }
+    
+    /// @notice Redemptions are asynchronous: use convertToShares() for a quote
+    function previewWithdraw(uint256) external pure returns (uint256) {
+        revert AsyncRedeem();
+    }
+    
+    /// @notice Deposits are unlimited except in emergency mode
+    function maxDeposit(address) external view returns (uint256) {
+        return emergency ? 0 : type(uint256).max;
+    }
+    
+    /// @notice Mints are unlimited except in emergency mode
+    function maxMint(address) external view returns (uint256) {
+        return emergency ? 0 : type(uint256).max;
+    }
+    
+    /// @notice USDC `controller` can withdraw() from its request right now
+    function maxWithdraw(address controller) external view returns (uint256) {
+        return convertToAssets(_claimableShares(controller));
+    }
+    
+    /// @notice HOUSE `controller` can redeem() from its request right now
+    function maxRedeem(address controller) external view returns (uint256) {
+        return _claimableShares(controller);
+    }
+    
+    /// @notice Shares of the request of `controller` not claimable yet (in cooldown, or waiting for liquidity)
+    function pendingRedeemRequest(uint256 requestId, address controller) external view returns (uint256) {
+        if (requestId != REQUEST_ID) return 0;
+        return withdrawals[controller].shares - _claimableShares(controller);
+    }
+    
+    /// @notice Shares of the request of `controller` that redeem() can claim right now
+    function claimableRedeemRequest(uint256 requestId, address controller) external view returns (uint256) {
+        if (requestId != REQUEST_ID) return 0;
+        return _claimableShares(controller);
+    }
+    
+    /// @notice ERC-165: ERC-7540 operators and async redeem, ERC-7575
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == type(IERC165).interfaceId
+            || interfaceId == type(IERC7540Operator).interfaceId
+            || interfaceId == type(IERC7540Redeem).interfaceId
+            || interfaceId == 0x2f0a18c5; // ERC-7575: the ERC-4626 functions plus share()
+    }
+    
+    /* ========== LP FUNCTIONS (INTERNAL) ========== */
+    
+    /// @notice Take `assets` USDC from the caller and mint `shares` HOUSE to `receiver`
+    function _deposit(uint256 assets, uint256 shares, address receiver) internal {
+        if (assets == 0) revert ZeroAmount();
+        
+        // First deposit: enforce minimum (prevents share manipulation attack)
+        if (totalSupply() == 0 && assets < MIN_FIRST_DEPOSIT) revert InsufficientPool();
+        
+        // Security: Ensure shares > 0 (prevents rounding to zero attack)
+        if (shares == 0) revert ZeroShares();
+        
+        bool success = usdc.transferFrom(msg.sender, address(this), assets);
+        if (!success) revert TransferFailed();
+        
+        _mint(receiver, shares);
+        
+        emit Deposit(msg.sender, receiver, assets, shares);
+        
+        // Invest whatever exceeds the buffer
+        _sweepExcessToVault();
+    }
+    
+    /// @notice Lock `shares` of `owner` in a new withdrawal request of `controller` at the back of the queue
+    function _requestRedeem(uint256 shares, address controller, address owner) internal {
         if (shares == 0) revert ZeroAmount();
-        if (balanceOf(msg.sender) < shares) revert InsufficientShares();
-        if (withdrawals[msg.sender].shares > 0) revert WithdrawalAlreadyPending();
+        if (controller == address(0)) revert ZeroAddress();
+        if (balanceOf(owner) < shares) revert InsufficientShares();
+        if (withdrawals[controller].shares > 0) revert WithdrawalAlreadyPending();
+        
+        if (queueTail >= QUEUE_CAPACITY) revert QueueFull();
         
         uint256 unlockTime = block.timestamp + WITHDRAWAL_DELAY;
-        uint256 expiryTime = unlockTime + WITHDRAWAL_WINDOW;
+        uint256 queueId = queueTail++;
         
-        withdrawals[msg.sender] = WithdrawalRequest({
+        withdrawals[controller] = WithdrawalRequest({
             shares: shares,
             unlockTime: unlockTime,
-            expiryTime: expiryTime
+            queueId: queueId,
+            sharesBefore: totalRequestedShares
         });
+        withdrawalQueue[queueId] = controller;
         
+        totalRequestedShares += shares;
         totalPendingShares += shares;
+        _requestedAt[block.timestamp] += shares;
         
         // Security fix: Lock shares by transferring to contract
         // This prevents the share-transfer-during-pending attack
-        _transfer(msg.sender, address(this), shares);
+        _transfer(owner, address(this), shares);
         
-        emit WithdrawalRequested(msg.sender, shares, unlockTime, expiryTime);
+        emit WithdrawalRequested(controller, shares, unlockTime, queueId);
+        emit RedeemRequest(controller, owner, REQUEST_ID, msg.sender, shares);
     }
     
-    /// @notice Execute withdrawal after cooldown, within window
-    /// @param minUsdcOut Minimum USDC to receive (slippage protection, 0 to skip)
-    /// @return usdcOut Amount of USDC received
-    function withdraw(uint256 minUsdcOut) public returns (uint256 usdcOut) {
-        WithdrawalRequest memory req = withdrawals[msg.sender];
+    /// @notice Pay exactly `assets` for `shares` of the unlocked request of `controller`, or revert
+    function _claim(address controller, address receiver, uint256 shares, uint256 assets) internal {
+        WithdrawalRequest storage req = withdrawals[controller];
         
+        if (shares == 0 || assets == 0) revert ZeroAmount();
         if (req.shares == 0) revert NoPendingWithdrawal();
+        if (shares > req.shares) revert InsufficientShares();
         if (block.timestamp < req.unlockTime) revert WithdrawalNotReady();
-        if (block.timestamp > req.expiryTime) revert WithdrawalExpired();
         
-        uint256 pool = _getTotalValue(); // Use total value including vault
+        // Requests ahead are filled first
+        uint256 queueId = req.queueId;
+        _processAhead(queueId);
+        if (queueHead != queueId) revert InsufficientLiquidity();
+        
+        _ensureLiquidity(assets);
+        if (_freeLiquidity() < assets) revert InsufficientLiquidity();
+        
+        if (_payOut(controller, receiver, shares, assets)) queueHead = queueId + 1;
+    }
+    
+    function _checkController(address controller) internal view {
+        if (controller != msg.sender && !isOperator[controller][msg.sender]) revert Unauthorized();
+    }
+    
+    /// @notice HOUSE worth `assets` USDC, rounded up (the shares a withdraw() of `assets` burns)
+    function _convertToSharesUp(uint256 assets) internal view returns (uint256) {
         uint256 supply = totalSupply();
+        if (supply == 0) return assets * FIRST_DEPOSIT_SCALE;
+        
+        uint256 pool = _getTotalValue();
+        if (pool == 0) revert InsufficientPool();
+        return (assets * supply + pool - 1) / pool;
+    }
+    
+    /* ========== WITHDRAWAL QUEUE (INTERNAL) ========== */
+    
+    /// @notice Fill queue entries in order, from queueHead up to (not including) `untilId`
+    /// @param untilId Queue id to stop before
+    /// @param maxRequests Maximum number of queue entries to process
+    /// @return filled Number of requests filled completely
+    /// @return paid Total USDC paid out
+    function _processQueue(uint256 untilId, uint256 maxRequests) internal returns (uint256 filled, uint256 paid) {
+        uint256 head = queueHead;
+        
+        for (uint256 processed = 0; head < untilId && processed < maxRequests; processed++) {
+            address lp = withdrawalQueue[head];
+            WithdrawalRequest memory req = withdrawals[lp];
+            
+            // Cancelled (or replaced by a later request): skip the stale entry
+            if (req.shares == 0 || req.queueId != head) {
+                head++;
+                continue;
+            }
+            if (block.timestamp < req.unlockTime) break;
+            
+            (uint256 usdcOut, bool complete) = _fill(lp);
+            paid += usdcOut;
+            if (!complete) break;
+            
+            filled++;
+            head++;
+        }
         
-        usdcOut = (req.shares * pool) / supply;
+        queueHead = head;
+    }
+    
+    /// @notice Fill the queue up to `queueId`, processing at most MAX_INLINE_REQUESTS entries
+    /// @dev Reverts with QueueBacklog if that was not enough to reach `queueId`
+    /// @return paid Total USDC paid out to the requests ahead
+    function _processAhead(uint256 queueId) internal returns (uint256 paid) {
+        uint256 headBefore = queueHead;
+        (, paid) = _processQueue(queueId, MAX_INLINE_REQUESTS);
+        if (queueHead != queueId && queueHead - headBefore == MAX_INLINE_REQUESTS) revert QueueBacklog();
+    }
+    
+    /// @notice Pay out an LP's request at the current share price, as far as liquidity allows
+    /// @param lp Address of the LP whose request to fill
+    /// @return usdcOut Amount of USDC paid to the LP
+    /// @return complete Whether the whole request was filled
+    function _fill(address lp) internal returns (uint256 usdcOut, bool complete) {
+        uint256 shares = withdrawals[lp].shares;
         
-        // Slippage protection
-        if (usdcOut < minUsdcOut) revert SlippageExceeded();
+        uint256 pool = _getTotalValue(); // Use total value including vault
+        uint256 supply = totalSupply();
+        
+        uint256 value = (shares * pool) / supply;
         
         // Withdraw from vault to cover withdrawal
-        _withdrawFromVault(usdcOut);
+        _ensureLiquidity(value);
+        
+        // Partial fill if the vault is short on liquidity
+        uint256 sharesIn = shares;
+        uint256 free = _freeLiquidity();
+        if (free < value) {
+            sharesIn = (shares * free) / value;
+            if (sharesIn == 0) return (0, false);
+        }
+        usdcOut = (sharesIn * pool) / supply;
         
-        totalPendingShares -= req.shares;
-        delete withdrawals[msg.sender];
+        complete = _payOut(lp, lp, sharesIn, usdcOut);
+    }
+    
+    /// @notice Burn `sharesIn` of the request of `lp` and pay `usdcOut` to `receiver`
+    /// @return complete Whether the request is now fully filled
+    function _payOut(address lp, address receiver, uint256 sharesIn, uint256 usdcOut) internal returns (bool complete) {
+        WithdrawalRequest storage req = withdrawals[lp];
+        uint256 remaining = req.shares - sharesIn;
+        complete = remaining == 0;
+        
+        totalPendingShares -= sharesIn;
+        filledShares += sharesIn;
+        if (complete) {
+            filledRequests++;
+            delete withdrawals[lp];
+        } else {
+            req.shares = remaining;
+            req.sharesBefore += sharesIn;
+            emit WithdrawalPartiallyFilled(lp, remaining);
+        }
         
-        // Shares are held by contract (transferred in requestWithdrawal)
-        _burn(address(this), req.shares);
+        // Shares are held by contract (transferred in requestRedeem)
+        _burn(address(this), sharesIn);
         
-        bool success = usdc.transfer(msg.sender, usdcOut);
+        bool success = usdc.transfer(receiver, usdcOut);
         if (!success) revert TransferFailed();
         
-        emit Withdraw(msg.sender, req.shares, usdcOut);
+        emit Withdraw(msg.sender, receiver, lp, usdcOut, sharesIn);
     }
     
-    /// @notice Execute withdrawal without slippage protection (convenience overload)
-    /// @return usdcOut Amount of USDC received
-    function withdraw() external returns (uint256 usdcOut) {
-        return withdraw(0);
+    /// @notice Shares of the request of `controller` the liquidity left after the requests ahead can pay now
+    function _claimableShares(address controller) internal view returns (uint256) {
+        WithdrawalRequest memory req = withdrawals[controller];
+        if (req.shares == 0 || block.timestamp < req.unlockTime) return 0;
+        
+        (, uint256 sharesAhead) = _queueAhead(req);
+        uint256 available = availableLiquidity();
+        uint256 valueAhead = convertToAssets(sharesAhead);
+        if (available <= valueAhead) return 0;
+        
+        uint256 coverable = convertToShares(available - valueAhead);
+        return coverable < req.shares ? coverable : req.shares;
     }
     
-    /// @notice Cancel pending withdrawal request
-    /// @dev Returns locked shares to the user
-    function cancelWithdrawal() external {
-        WithdrawalRequest memory req = withdrawals[msg.sender];
-        if (req.shares == 0) revert NoPendingWithdrawal();
+    /// @notice Live requests ahead of `req` in the queue and the HOUSE they are waiting on
+    /// @dev Every earlier queue id is live, filled completely (always ahead) or cancelled
+    function _queueAhead(WithdrawalRequest memory req) internal view returns (uint256 position, uint256 sharesAhead) {
+        (uint256 cancelledCount, uint256 cancelledShares) = _cancelledBefore(req.queueId);
+        position = req.queueId - filledRequests - cancelledCount;
+        sharesAhead = req.sharesBefore - filledShares - cancelledShares;
+    }
+    
+    /// @notice Add a cancelled request to the Fenwick tree (at most log2(QUEUE_CAPACITY) writes)
+    function _recordCancel(uint256 queueId, uint256 shares) internal {
+        uint256 entry = (1 << CANCELLED_COUNT_SHIFT) | shares;
+        for (uint256 i = queueId + 1; i <= QUEUE_CAPACITY; i += i & (~i + 1)) {
+            _cancelledTree[i] += entry;
+        }
+    }
+    
+    /// @notice Requests cancelled with a queue id below `queueId`, and their HOUSE
+    function _cancelledBefore(uint256 queueId) internal view returns (uint256 count, uint256 shares) {
+        uint256 sum;
+        for (uint256 i = queueId; i > 0; i -= i & (~i + 1)) {
+            sum += _cancelledTree[i];
+        }
+        return (sum >> CANCELLED_COUNT_SHIFT, sum & type(uint192).max);
+    }
+
+    /* ========== VAULT INTEGRATION ========== */
+    
+    /// @notice Move vault funds between yield strategies towards their target weights (anyone can call, keeper-friendly)
+    /// @dev The value of pending withdrawals must stay withdrawable on demand, so LPs can always exit
+    /// @return moved Amount of USDC moved between strategies
+    function rebalanceVault() external whenNotEmergency returns (uint256 moved) {
+        moved = vaultManager.rebalance(convertToAssets(totalPendingShares));
+        emit VaultRebalanced(moved);
+    }
+    
+    /// @notice Bring the liquid buffer back to bufferTarget() if it is outside the band (anyone can call, keeper-friendly)
+    function rebalanceBuffer() external {
+        uint256 liquidBalance = _freeLiquidity();
+        
+        if (liquidBalance > bufferMax) {
+            _sweepExcessToVault();
+        } else if (liquidBalance < bufferMin) {
+            _withdrawFromVault(bufferTarget() - liquidBalance);
+        }
+    }
+    
+    /// @notice Set the liquid buffer band (VaultManager owner only)
+    /// @param _bufferMin Liquid USDC below which the buffer is refilled from the vault
+    /// @param _bufferMax Liquid USDC above which the excess is swept into the vault
+    function setBufferBand(uint256 _bufferMin, uint256 _bufferMax) external onlyVaultOwner {
+        if (_bufferMin > _bufferMax) revert InvalidBufferBand();
+        bufferMin = _bufferMin;
+        bufferMax = _bufferMax;
+        emit BufferBandUpdated(_bufferMin, _bufferMax);
+    }
+    
+    /* ========== EMERGENCY ========== */
+    
+    /// @notice Enter emergency mode: unwind the vault into this contract and pause bets and deposits
+    /// @dev Rolls already committed can still be revealed and paid. Funds a strategy cannot release yet
+    ///      stay in the vault until unwindVault() is called again.
+    /// @return recovered Amount of USDC brought back from the vault
+    function triggerEmergency() external onlyGuardian whenNotEmergency returns (uint256 recovered) {
+        emergency = true;
+        recovered = _unwindVault();
+        emit EmergencyTriggered(msg.sender, recovered);
+    }
+    
+    /// @notice Pull whatever the vault can release by now into this contract (anyone can call, emergency only)
+    /// @return recovered Amount of USDC brought back from the vault
+    function unwindVault() external returns (uint256 recovered) {
+        if (!emergency) revert NotInEmergency();
+        recovered = _unwindVault();
+    }
+    
+    /// @notice Leave emergency mode and resume bets and deposits (VaultManager owner only)
+    /// @dev The liquid excess is swept back into the vault
+    function resolveEmergency() external onlyVaultOwner {
+        if (!emergency) revert NotInEmergency();
+        emergency = false;
+        emit EmergencyResolved(msg.sender);
+        
+        _sweepExcessToVault();
+    }
+    
+    /// @notice Set the emergency guardian (VaultManager owner only, address(0) to leave it to the owner)
+    /// @param _guardian Address allowed to trigger emergency mode
+    function setGuardian(address _guardian) external onlyVaultOwner {
+        guardian = _guardian;
+        emit GuardianUpdated(_guardian);
+    }
+    
+    /// @notice Exit pro-rata during an emergency, without the withdrawal cooldown
+    /// @dev Pays the shares' value out of the liquid funds; if part of the vault is still locked, only the
+    ///      matching shares are burned and the LP keeps the rest. Shares locked in a withdrawal request
+    ///      must be released with cancelWithdrawal() first.
+    /// @param shares Amount of HOUSE tokens to redeem
+    /// @return usdcOut Amount of USDC received
+    function emergencyExit(uint256 shares) external returns (uint256 usdcOut) {
+        if (!emergency) revert NotInEmergency();
+        if (shares == 0) revert ZeroAmount();
+        if (balanceOf(msg.sender) < shares) revert InsufficientShares();
         
-        totalPendingShares -= req.shares;
-        delete withdrawals[msg.sender];
+        uint256 pool = _getTotalValue();
+        uint256 supply = totalSupply();
         
-        // Return locked shares to user
-        _transfer(address(this), msg.sender, req.shares);
+        usdcOut = (shares * pool) / supply;
         
-        emit WithdrawalCancelled(msg.sender, req.shares);
-    }
-    
-    /// @notice Clean up expired withdrawal requests (anyone can call)
-    /// @dev Returns locked shares to the LP
-    /// @param lp Address of the LP with expired request
-    function cleanupExpiredWithdrawal(address lp) external {
-        WithdrawalRequest memory req = withdrawals[lp];
+        // Pick up anything the vault released since the emergency was triggered
+        uint256 free = _freeLiquidity();
+        if (free < usdcOut) {
+            _unwindVault();
+            free = _freeLiquidity();
+        }
         
-        if (req.shares == 0) revert NoPendingWithdrawal();
-        if (block.timestamp <= req.expiryTime) revert WithdrawalNotReady();
+        if (free < usdcOut) {
+            shares = (shares * free) / usdcOut;
+            usdcOut = (shares * pool) / supply;
+            if (usdcOut == 0) revert InsufficientLiquidity();
+        }
         
-        totalPendingShares -= req.shares;
-        delete withdrawals[lp];
+        _burn(msg.sender, shares);
         
-        // Return locked shares to LP
-        _transfer(address(this), lp, req.shares);
+        bool success = usdc.transfer(msg.sender, usdcOut);
+        if (!success) revert TransferFailed();
         
-        emit WithdrawalExpiredCleanup(lp, req.shares);
+        emit EmergencyExit(msg.sender, shares, usdcOut);
     }
-
+    
     /* ========== VAULT INTEGRATION (INTERNAL) ========== */
     
-    /// @notice Get total value including both liquid USDC and vault holdings
+    /// @notice Get total value including both liquid USDC and vault holdings, net of IOUs owed to players
     /// @return Total USDC value (6 decimals)
     function _getTotalValue() internal view returns (uint256) {
-        return usdc.balanceOf(address(this)) + vaultManager.getCurrentValue();
+        uint256 gross = usdc.balanceOf(address(this)) + vaultManager.getCurrentValue();
+        return gross > totalOwed ? gross - totalOwed : 0;
     }
     
-    /// @notice Deposit all liquid USDC to the vault
-    /// @dev Called after deposits and receiving payments
-    function _depositAllToVault() internal {
+    /// @notice Liquid USDC not set aside for IOUs
+    function _freeLiquidity() internal view returns (uint256) {
         uint256 liquidBalance = usdc.balanceOf(address(this));
-        
-        if (liquidBalance > 0) {
-            // Transfer USDC to vault manager
-            bool success = usdc.transfer(address(vaultManager), liquidBalance);
-            if (success) {
-                // Deposit into vault
-                vaultManager.depositIntoVault(0); // 0 = deposit all
-                emit DepositedToVault(liquidBalance);
-            }
+        return liquidBalance > totalOwed ? liquidBalance - totalOwed : 0;
+    }
+    
+    /// @notice Deposit liquid USDC above the buffer band into the vault, leaving bufferTarget() liquid
+    /// @dev Called after deposits and receiving payments; a no-op while the buffer is within the band.
+    ///      Cash held for IOUs is never swept back into the vault.
+    function _sweepExcessToVault() internal {
+        if (emergency) return;
+        
+        uint256 liquidBalance = _freeLiquidity();
+        if (liquidBalance <= bufferMax) return;
+        
+        uint256 excess = liquidBalance - bufferTarget();
+        
+        // Transfer USDC to vault manager
+        bool success = usdc.transfer(address(vaultManager), excess);
+        if (success) {
+            // Deposit into vault
+            vaultManager.depositIntoVault(0); // 0 = deposit all
+            emit DepositedToVault(excess);
         }
     }
     
+    /// @notice Make sure `amount` can be paid out of the liquid balance
+    /// @dev Only hits the vault if paying `amount` would leave less than bufferMin, and then also refills to bufferTarget()
+    /// @param amount Amount of USDC about to be paid out (6 decimals)
+    function _ensureLiquidity(uint256 amount) internal {
+        uint256 liquidBalance = _freeLiquidity();
+        if (liquidBalance >= amount + bufferMin) return;
+        
+        _withdrawFromVault(amount + bufferTarget() - liquidBalance);
+    }
+    
     /// @notice Withdraw USDC from vault
-    /// @dev Called before payouts and withdrawals
-    /// @param amount Amount of USDC needed (6 decimals)
-    function _withdrawFromVault(uint256 amount) internal {
-        uint256 liquidBalance = usdc.balanceOf(address(this));
+    /// @dev Withdraws less if the vault can release less right now
+    /// @param needed Amount of USDC to bring into this contract (6 decimals)
+    function _withdrawFromVault(uint256 needed) internal {
+        uint256 withdrawable = vaultManager.getWithdrawableValue();
+        
+        if (withdrawable > 0) {
+            // Withdraw the minimum of needed or withdrawable vault funds
+            uint256 toWithdraw = needed > withdrawable ? withdrawable : needed;
+            vaultManager.withdrawFromVault(toWithdraw);
+            emit WithdrawnFromVault(toWithdraw);
+        }
+    }
+
+    /// @notice Withdraw everything the strategies can release, plus any idle USDC in the VaultManager
+    /// @return recovered Amount of USDC brought into this contract
+    function _unwindVault() internal returns (uint256 recovered) {
+        uint256 balanceBefore = usdc.balanceOf(address(this));
         
-        // Only withdraw if we don't have enough liquid
-        if (liquidBalance < amount) {
-            uint256 needed = amount - liquidBalance;
-            uint256 vaultValue = vaultManager.getCurrentValue();
-            
-            if (vaultValue > 0) {
-                // Withdraw the minimum of needed or available vault funds
-                uint256 toWithdraw = needed > vaultValue ? vaultValue : needed;
-                vaultManager.withdrawFromVault(toWithdraw);
-                emit WithdrawnFromVault(toWithdraw);
-            }
+        if (vaultManager.getWithdrawableValue() > 0) {
+            vaultManager.withdrawFromVault(0); // 0 = withdraw max
+        }
+        
+        uint256 idle = usdc.balanceOf(address(vaultManager));
+        if (idle > 0) {
+            vaultManager.emergencyWithdraw(address(usdc), idle, address(this));
         }
+        
+        recovered = usdc.balanceOf(address(this)) - balanceBefore;
+        if (recovered > 0) emit VaultUnwound(recovered);
     }
 
     /* ========== VIEW FUNCTIONS ========== */
@@ -312,22 +903,47 @@ contract HousePool is ERC20 {
         return usdc.balanceOf(address(this));
     }
     
+    /// @notice Liquid balance the buffer is brought back to when it leaves the band (middle of the band)
+    function bufferTarget() public view returns (uint256) {
+        return (bufferMin + bufferMax) / 2;
+    }
+    
     /// @notice USDC value held in vault
     function vaultPool() public view returns (uint256) {
         return vaultManager.getCurrentValue();
     }
     
-    /// @notice Effective pool = total minus pending withdrawal value
+    /// @notice USDC that can be paid out right now: free liquid balance plus what the vault can release
+    function availableLiquidity() public view returns (uint256) {
+        return _freeLiquidity() + vaultManager.getWithdrawableValue();
+    }
+    
+    /// @notice True while part of the vault cannot be withdrawn, or winnings are still owed to players
+    function isLiquidityConstrained() external view returns (bool) {
+        return totalOwed > 0 || vaultManager.getWithdrawableValue() < vaultManager.getCurrentValue();
+    }
+    
+    /// @notice Effective pool = total minus the value of unlocked withdrawal requests
+    /// @dev Requests still in cooldown are not counted: they cannot leave before anyone can fill them
+    ///      (processWithdrawals), so a request that is cancelled before unlocking never blocks the game
     function effectivePool() public view returns (uint256) {
         uint256 pool = _getTotalValue();
         uint256 supply = totalSupply();
+        uint256 unlockedShares = totalPendingShares - lockedPendingShares();
         
-        if (supply == 0 || totalPendingShares == 0) return pool;
+        if (supply == 0 || unlockedShares == 0) return pool;
         
-        uint256 pendingValue = (totalPendingShares * pool) / supply;
+        uint256 pendingValue = (unlockedShares * pool) / supply;
         return pool > pendingValue ? pool - pendingValue : 0;
     }
     
+    /// @notice HOUSE in withdrawal requests still in their cooldown
+    function lockedPendingShares() public view returns (uint256 shares) {
+        for (uint256 age = 0; age < WITHDRAWAL_DELAY && age <= block.timestamp; age++) {
+            shares += _requestedAt[block.timestamp - age];
+        }
+    }
+    
     /// @notice Current USDC value per HOUSE share (18 decimal precision)
     function sharePrice() external view returns (uint256) {
         uint256 supply = totalSupply();
@@ -347,20 +963,29 @@ contract HousePool is ERC20 {
     }
     
     /// @notice Get withdrawal request details for an LP
+    /// @return shares HOUSE still waiting to be filled
+    /// @return unlockTime When the cooldown ends
+    /// @return position Number of live requests ahead in the queue (0 = next to be filled)
+    /// @return canWithdraw Whether the cooldown has passed
+    /// @return sharesAhead HOUSE waiting in the requests ahead
     function getWithdrawalRequest(address lp) external view returns (
         uint256 shares,
         uint256 unlockTime,
-        uint256 expiryTime,
+        uint256 position,
         bool canWithdraw,
-        bool isExpired
+        uint256 sharesAhead
     ) {
         WithdrawalRequest memory req = withdrawals[lp];
         shares = req.shares;
         unlockTime = req.unlockTime;
-        expiryTime = req.expiryTime;
-        canWithdraw = req.shares > 0 && 
-                      block.timestamp >= req.unlockTime && 
-                      block.timestamp <= req.expiryTime;
-        isExpired = req.shares > 0 && block.timestamp > req.expiryTime;
+        canWithdraw = req.shares > 0 && block.timestamp >= req.unlockTime;
+        if (req.shares == 0) return (shares, unlockTime, position, canWithdraw, sharesAhead);
+        
+        (position, sharesAhead) = _queueAhead(req);
+    }
+    
+    /// @notice Number of queue entries not yet processed (including stale entries of cancelled requests)
+    function queueLength() external view returns (uint256) {
+        return queueTail - queueHead;
     }
 }
@@ -7,8 +7,12 @@ import "@openzeppelin/contracts/interfaces/IERC4626.sol";
 
 /**
  * @title VaultManager
- * @notice Manages USDC deposits into Summer.fi's FleetCommander (LVUSDC) vault on Base
- * @dev Designed to be called by HousePool contract to automatically invest idle USDC
+ * @notice Manages USDC deposits across a registry of ERC-4626 yield strategies on Base
+ * @dev Designed to be called by HousePool contract to automatically invest idle USDC.
+ *      Summer.fi's FleetCommander (LVUSDC) is registered as the first strategy at 100% weight.
+ *      The owner can register other ERC-4626 USDC vaults (Aave, Morpho, Spark wrappers...) and
+ *      set target weights; deposits are split by weight and HousePool.rebalanceVault() moves funds
+ *      back to the targets. Both changes only take effect after STRATEGY_DELAY, so LPs can exit first.
  */
 contract VaultManager {
     using SafeERC20 for IERC20;
@@ -22,10 +26,31 @@ contract VaultManager {
     error NoFundsInVault();
     error InsufficientBalance();
     error ETHTransferFailed();
+    error AssetMismatch();
+    error StrategyAlreadyRegistered();
+    error UnknownStrategy();
+    error TooManyStrategies();
+    error InvalidWeights();
+    error StrategyHasWeight();
+    error StrategyNotEmpty();
+    error CannotRemoveFleetCommander();
+    error LiquidityShortfall();
+    error ChangeNotReady();
+
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Strategy weights are in basis points and must sum to this
+    uint256 public constant TOTAL_WEIGHT = 10_000;
+
+    /// @notice Upper bound on registered strategies (keeps deposit / withdraw loops cheap)
+    uint256 public constant MAX_STRATEGIES = 8;
+
+    /// @notice Registering a strategy or changing weights waits this long after it is scheduled
+    uint256 public constant STRATEGY_DELAY = 2 days;
 
     /* ========== STATE VARIABLES ========== */
 
-    /// @notice The ERC4626 vault (Summer.fi FleetCommander LVUSDC)
+    /// @notice The default ERC4626 vault (Summer.fi FleetCommander LVUSDC), registered as the first strategy
     IERC4626 public immutable fleetCommander;
     
     /// @notice The USDC token
@@ -37,12 +62,53 @@ contract VaultManager {
     /// @notice Whether the HousePool address has been set
     bool public housePoolSet;
 
+    /// @notice Can register strategies and set their target weights, both after STRATEGY_DELAY
+    /// @dev Strategies hold the vaulted USDC and report its value, so a malicious vault registered by the owner
+    ///      could take the funds sent to it. LPs trust the owner to register sound vaults; the delay only gives
+    ///      them time to review a scheduled change and exit before it applies.
+    address public owner;
+
+    // A yield strategy: an ERC-4626 vault over USDC and its target share of the vaulted funds
+    struct Strategy {
+        IERC4626 vault;
+        uint256 weight;     // Basis points of TOTAL_WEIGHT
+    }
+    Strategy[] internal _strategies;
+
+    /// @notice When a proposed strategy can be registered (0 = not proposed)
+    mapping(address => uint256) public strategyReadyAt;
+
+    // Scheduled target weights, in registry order (cleared when the registry changes)
+    uint256[] internal _pendingWeights;
+
+    /// @notice When the scheduled weights can be applied (0 = nothing scheduled)
+    uint256 public pendingWeightsAt;
+
+    /// @notice Cumulative USDC deposited into the vault
+    uint256 public totalDeposited;
+
+    /// @notice Cumulative USDC withdrawn from the vault (principal and yield)
+    uint256 public totalWithdrawn;
+
+    /// @notice Net principal multiplied by the seconds it was held, summed up to `lastAccountedAt`
+    uint256 public principalSeconds;
+
+    /// @notice Timestamp `principalSeconds` was last brought up to date
+    uint256 public lastAccountedAt;
+
     /* ========== EVENTS ========== */
 
     event HousePoolSet(address indexed housePool);
     event DepositedIntoVault(uint256 usdcAmount, uint256 sharesReceived);
     event WithdrawnFromVault(uint256 usdcAmount, uint256 sharesBurned);
     event EmergencyWithdraw(address indexed token, uint256 amount, address indexed to);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event StrategyProposed(address indexed vault, uint256 readyAt);
+    event StrategyAdded(address indexed vault);
+    event StrategyRemoved(address indexed vault);
+    event WeightsScheduled(uint256[] weights, uint256 readyAt);
+    event WeightsUpdated(uint256[] weights);
+    event Rebalanced(uint256 usdcMoved);
 
     /* ========== MODIFIERS ========== */
 
@@ -52,20 +118,32 @@ contract VaultManager {
         _;
     }
 
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert Unauthorized();
+        _;
+    }
+
     /* ========== CONSTRUCTOR ========== */
 
     /**
      * @notice Constructor
-     * @param _fleetCommander Address of Summer.fi FleetCommander vault (LVUSDC)
+     * @param _fleetCommander Address of Summer.fi FleetCommander vault (LVUSDC), the first strategy
      * @param _usdc Address of USDC token
+     * @param _owner Address allowed to manage the strategy registry
      */
-    constructor(address _fleetCommander, address _usdc) {
+    constructor(address _fleetCommander, address _usdc, address _owner) {
         if (_fleetCommander == address(0)) revert InvalidAddress();
         if (_usdc == address(0)) revert InvalidAddress();
+        if (_owner == address(0)) revert InvalidAddress();
         
         fleetCommander = IERC4626(_fleetCommander);
         usdc = IERC20(_usdc);
         housePoolSet = false;
+        owner = _owner;
+        
+        _strategies.push(Strategy({ vault: IERC4626(_fleetCommander), weight: TOTAL_WEIGHT }));
+        emit OwnershipTransferred(address(0), _owner);
+        emit StrategyAdded(_fleetCommander);
     }
 
     /* ========== ADMIN FUNCTIONS ========== */
@@ -84,13 +162,134 @@ contract VaultManager {
         emit HousePoolSet(_housePool);
     }
 
+    /**
+     * @notice Hand the strategy registry over to a new owner
+     * @param newOwner Address of the new owner
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        if (newOwner == address(0)) revert InvalidAddress();
+        
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /* ========== STRATEGY REGISTRY ========== */
+
+    /**
+     * @notice Announce an ERC-4626 USDC vault that can be registered with addStrategy after STRATEGY_DELAY
+     * @dev Proposing the same vault again restarts the delay
+     * @param vault Address of the ERC-4626 vault
+     */
+    function proposeStrategy(address vault) external onlyOwner {
+        _checkNewStrategy(vault);
+        
+        uint256 readyAt = block.timestamp + STRATEGY_DELAY;
+        strategyReadyAt[vault] = readyAt;
+        emit StrategyProposed(vault, readyAt);
+    }
+
+    /// @notice Drop a proposed strategy before it is registered
+    function cancelStrategy(address vault) external onlyOwner {
+        delete strategyReadyAt[vault];
+    }
+
+    /**
+     * @notice Register a proposed vault once its STRATEGY_DELAY has passed
+     * @dev Starts at 0 weight; schedule weights with setWeights, then HousePool.rebalanceVault() moves funds in.
+     *      Clears any scheduled weights, since they were set for the old registry.
+     * @param vault Address of the ERC-4626 vault
+     */
+    function addStrategy(address vault) external onlyOwner {
+        uint256 readyAt = strategyReadyAt[vault];
+        if (readyAt == 0 || block.timestamp < readyAt) revert ChangeNotReady();
+        _checkNewStrategy(vault);
+        
+        delete strategyReadyAt[vault];
+        _strategies.push(Strategy({ vault: IERC4626(vault), weight: 0 }));
+        _clearPendingWeights();
+        emit StrategyAdded(vault);
+    }
+
+    /**
+     * @notice Remove a strategy. Its weight must already be 0; whatever it still holds is moved to the others.
+     * @dev Reverts with StrategyNotEmpty if the vault cannot release all of its shares right now.
+     *      The FleetCommander stays registered (set its weight to 0 to move out of it).
+     *      Clears any scheduled weights, since they were set for the old registry.
+     * @param vault Address of the ERC-4626 vault
+     */
+    function removeStrategy(address vault) external onlyOwner {
+        if (vault == address(fleetCommander)) revert CannotRemoveFleetCommander();
+        uint256 index = _strategyIndex(vault);
+        if (_strategies[index].weight != 0) revert StrategyHasWeight();
+        
+        // Redeem shares rather than withdraw assets, so rounding leaves no dust behind
+        IERC4626 strategyVault = _strategies[index].vault;
+        uint256 redeemable = strategyVault.maxRedeem(address(this));
+        uint256 received;
+        if (redeemable > 0) {
+            received = strategyVault.redeem(redeemable, address(this), address(this));
+        }
+        if (strategyVault.balanceOf(address(this)) > 0) revert StrategyNotEmpty();
+        
+        _strategies[index] = _strategies[_strategies.length - 1];
+        _strategies.pop();
+        _clearPendingWeights();
+        
+        if (received > 0) {
+            _depositByWeight(received);
+        }
+        
+        emit StrategyRemoved(vault);
+    }
+
+    /**
+     * @notice Schedule the target weight of every strategy, in registry order
+     * @dev Weights always sum to TOTAL_WEIGHT, so every change raises some strategy and waits STRATEGY_DELAY.
+     *      A new call replaces the scheduled weights and restarts the delay.
+     * @param weights Basis points per strategy, summing to TOTAL_WEIGHT
+     */
+    function setWeights(uint256[] calldata weights) external onlyOwner {
+        if (weights.length != _strategies.length) revert InvalidWeights();
+        
+        uint256 sum;
+        for (uint256 i = 0; i < weights.length; i++) {
+            sum += weights[i];
+        }
+        if (sum != TOTAL_WEIGHT) revert InvalidWeights();
+        
+        _pendingWeights = weights;
+        pendingWeightsAt = block.timestamp + STRATEGY_DELAY;
+        emit WeightsScheduled(weights, pendingWeightsAt);
+    }
+
+    /// @notice Drop the scheduled weights and keep the current targets
+    function cancelWeights() external onlyOwner {
+        _clearPendingWeights();
+    }
+
+    /**
+     * @notice Apply the scheduled weights once their STRATEGY_DELAY has passed (callable by anyone)
+     * @dev Only changes targets; funds move on the next deposit, withdrawal or rebalance
+     */
+    function applyWeights() external {
+        if (pendingWeightsAt == 0 || block.timestamp < pendingWeightsAt) revert ChangeNotReady();
+        
+        uint256[] memory weights = _pendingWeights;
+        for (uint256 i = 0; i < weights.length; i++) {
+            _strategies[i].weight = weights[i];
+        }
+        _clearPendingWeights();
+        
+        emit WeightsUpdated(weights);
+    }
+
     /* ========== VAULT FUNCTIONS ========== */
 
     /**
-     * @notice Deposits USDC into the FleetCommander vault
+     * @notice Deposits USDC into the strategies, split by target weight
      * @dev If amount is 0, deposits all USDC balance held by this contract
      * @param amount The amount of USDC to deposit (0 for all)
-     * @return shares The amount of vault shares received
+     * @return shares The amount of vault shares received (summed across strategies)
      */
     function depositIntoVault(uint256 amount) external onlyHousePool returns (uint256 shares) {
         uint256 usdcBalance = usdc.balanceOf(address(this));
@@ -101,23 +300,23 @@ contract VaultManager {
             ? usdcBalance 
             : amount;
 
-        // Approve FleetCommander to spend USDC
-        usdc.forceApprove(address(fleetCommander), depositAmount);
+        shares = _depositByWeight(depositAmount);
 
-        // Deposit USDC and receive vault shares
-        shares = fleetCommander.deposit(depositAmount, address(this));
+        _accruePrincipalSeconds();
+        totalDeposited += depositAmount;
 
         emit DepositedIntoVault(depositAmount, shares);
     }
 
     /**
-     * @notice Withdraws specified amount of USDC from the vault to HousePool contract
-     * @dev If amount is 0, withdraws maximum available
+     * @notice Withdraws specified amount of USDC from the strategies to HousePool contract
+     * @dev If amount is 0, withdraws maximum available. Strategies above their target weight are drawn
+     *      first, then any strategy with liquidity left, so a payout is never blocked by the allocation.
      * @param amount The amount of USDC to withdraw (0 for max)
-     * @return shares The amount of vault shares burned
+     * @return shares The amount of vault shares burned (summed across strategies)
      */
     function withdrawFromVault(uint256 amount) external onlyHousePool returns (uint256 shares) {
-        uint256 maxWithdrawable = fleetCommander.maxWithdraw(address(this));
+        (uint256[] memory available, uint256 maxWithdrawable) = _strategyLiquidity();
         if (maxWithdrawable == 0) revert NoFundsInVault();
 
         // If amount is 0 or exceeds max, withdraw everything
@@ -125,15 +324,76 @@ contract VaultManager {
             ? maxWithdrawable 
             : amount;
 
-        // Withdraw USDC from vault directly to HousePool
-        shares = fleetCommander.withdraw(withdrawAmount, housePool, address(this));
+        // Withdraw USDC from the strategies directly to HousePool
+        (uint256[] memory assets, uint256 totalAssets) = _strategyAssets();
+        uint256 remaining = withdrawAmount;
+        uint256 targetTotal = totalAssets > withdrawAmount ? totalAssets - withdrawAmount : 0;
+        for (uint256 pass = 0; pass < 2 && remaining > 0; pass++) {
+            for (uint256 i = 0; i < _strategies.length && remaining > 0; i++) {
+                uint256 target = pass == 0 ? (targetTotal * _strategies[i].weight) / TOTAL_WEIGHT : 0;
+                if (assets[i] <= target || available[i] == 0) continue;
+                
+                uint256 take = _min(_min(assets[i] - target, available[i]), remaining);
+                shares += _strategies[i].vault.withdraw(take, housePool, address(this));
+                assets[i] -= take;
+                available[i] -= take;
+                remaining -= take;
+            }
+        }
+
+        _accruePrincipalSeconds();
+        totalWithdrawn += withdrawAmount;
 
         emit WithdrawnFromVault(withdrawAmount, shares);
     }
 
+    /**
+     * @notice Moves funds between strategies towards their target weights
+     * @dev Called by HousePool.rebalanceVault(). Only moves what a strategy can release now, and reverts if the
+     *      USDC withdrawable on demand afterwards would drop below `minLiquidity` (HousePool's pending needs)
+     * @param minLiquidity USDC that must stay withdrawable on demand (capped at what was withdrawable before)
+     * @return moved The amount of USDC moved between strategies
+     */
+    function rebalance(uint256 minLiquidity) external onlyHousePool returns (uint256 moved) {
+        (uint256[] memory available, uint256 liquidityBefore) = _strategyLiquidity();
+        (uint256[] memory assets, uint256 totalAssets) = _strategyAssets();
+        
+        // Pull the excess out of strategies above target (as far as they can release it)...
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            uint256 target = (totalAssets * _strategies[i].weight) / TOTAL_WEIGHT;
+            if (assets[i] > target) {
+                uint256 excess = _min(assets[i] - target, available[i]);
+                if (excess == 0) continue;
+                _strategies[i].vault.withdraw(excess, address(this), address(this));
+                assets[i] -= excess;
+                moved += excess;
+            }
+        }
+        
+        // ...and top up the ones below target, in registry order
+        uint256 idle = moved;
+        for (uint256 i = 0; i < _strategies.length && idle > 0; i++) {
+            uint256 target = (totalAssets * _strategies[i].weight) / TOTAL_WEIGHT;
+            if (assets[i] < target) {
+                uint256 amount = _min(target - assets[i], idle);
+                _depositInto(_strategies[i].vault, amount);
+                idle -= amount;
+            }
+        }
+        // Rounding dust goes back by weight
+        if (idle > 0) {
+            _depositByWeight(idle);
+        }
+        
+        (, uint256 liquidityAfter) = _strategyLiquidity();
+        if (liquidityAfter < _min(minLiquidity, liquidityBefore)) revert LiquidityShortfall();
+        
+        emit Rebalanced(moved);
+    }
+
     /**
      * @notice Emergency function to withdraw any tokens from this contract
-     * @dev Only HousePool can call. Use to rescue tokens if needed.
+     * @dev Only HousePool can call. HousePool uses it to sweep idle USDC when unwinding in emergency mode.
      * @param token Address of token to withdraw (address(0) for ETH)
      * @param amount Amount to withdraw (0 for all)
      * @param to Address to send tokens to
@@ -164,19 +424,128 @@ contract VaultManager {
         }
     }
 
+    /* ========== INTERNAL FUNCTIONS ========== */
+
+    /**
+     * @notice Splits `amount` of idle USDC across the strategies by weight
+     * @dev The rounding remainder goes to the heaviest strategy
+     * @return shares Vault shares received (summed across strategies)
+     */
+    function _depositByWeight(uint256 amount) internal returns (uint256 shares) {
+        uint256 heaviest;
+        uint256 allocated;
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            if (_strategies[i].weight > _strategies[heaviest].weight) heaviest = i;
+        }
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            if (i == heaviest) continue;
+            uint256 slice = (amount * _strategies[i].weight) / TOTAL_WEIGHT;
+            if (slice > 0) {
+                shares += _depositInto(_strategies[i].vault, slice);
+                allocated += slice;
+            }
+        }
+        if (amount > allocated) {
+            shares += _depositInto(_strategies[heaviest].vault, amount - allocated);
+        }
+    }
+
+    /**
+     * @notice Deposits `amount` of idle USDC into one strategy vault
+     */
+    function _depositInto(IERC4626 vault, uint256 amount) internal returns (uint256) {
+        usdc.forceApprove(address(vault), amount);
+        return vault.deposit(amount, address(this));
+    }
+
+    /**
+     * @notice USDC withdrawable on demand from each strategy, and the sum
+     * @dev Can be below the position's value while a vault is short on liquidity
+     */
+    function _strategyLiquidity() internal view returns (uint256[] memory values, uint256 total) {
+        values = new uint256[](_strategies.length);
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            values[i] = _strategies[i].vault.maxWithdraw(address(this));
+            total += values[i];
+        }
+    }
+
+    /**
+     * @notice USDC value of the shares held in each strategy, and the sum
+     */
+    function _strategyAssets() internal view returns (uint256[] memory values, uint256 total) {
+        values = new uint256[](_strategies.length);
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            IERC4626 vault = _strategies[i].vault;
+            values[i] = vault.convertToAssets(vault.balanceOf(address(this)));
+            total += values[i];
+        }
+    }
+
+    /**
+     * @notice Registry index of a strategy vault
+     */
+    function _strategyIndex(address vault) internal view returns (uint256) {
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            if (address(_strategies[i].vault) == vault) return i;
+        }
+        revert UnknownStrategy();
+    }
+
+    /**
+     * @notice Reverts unless `vault` is a USDC ERC-4626 vault that fits in the registry and is not registered yet
+     */
+    function _checkNewStrategy(address vault) internal view {
+        if (vault == address(0)) revert InvalidAddress();
+        if (_strategies.length >= MAX_STRATEGIES) revert TooManyStrategies();
+        if (IERC4626(vault).asset() != address(usdc)) revert AssetMismatch();
+        
+        for (uint256 i = 0; i < _strategies.length; i++) {
+            if (address(_strategies[i].vault) == vault) revert StrategyAlreadyRegistered();
+        }
+    }
+
+    function _clearPendingWeights() internal {
+        delete _pendingWeights;
+        pendingWeightsAt = 0;
+    }
+
+    function _min(uint256 a, uint256 b) internal pure returns (uint256) {
+        return a < b ? a : b;
+    }
+
+    /**
+     * @notice Brings `principalSeconds` up to now, before the net principal changes
+     */
+    function _accruePrincipalSeconds() internal {
+        principalSeconds += netPrincipal() * (block.timestamp - lastAccountedAt);
+        lastAccountedAt = block.timestamp;
+    }
+
     /* ========== VIEW FUNCTIONS ========== */
 
     /**
-     * @notice Returns the current USDC value of the vault position
-     * @dev Uses maxWithdraw which accounts for vault share price and available liquidity
-     * @return The current USDC value (with 6 decimals)
+     * @notice Returns the current USDC value of the position across all strategies
+     * @dev Values the shares at the vault share price (convertToAssets), whether or not the vault
+     *      has the liquidity to release them right now - see getWithdrawableValue()
+     * @return value The current USDC value (with 6 decimals)
+     */
+    function getCurrentValue() public view returns (uint256 value) {
+        (, value) = _strategyAssets();
+    }
+
+    /**
+     * @notice Returns the USDC that can be withdrawn from the strategies right now
+     * @dev Sum of maxWithdraw; lower than getCurrentValue() while a vault is liquidity-constrained
+     * @return value The withdrawable USDC (with 6 decimals)
      */
-    function getCurrentValue() external view returns (uint256) {
-        return fleetCommander.maxWithdraw(address(this));
+    function getWithdrawableValue() public view returns (uint256 value) {
+        (, value) = _strategyLiquidity();
     }
 
     /**
-     * @notice Returns the amount of vault shares this contract holds
+     * @notice Returns the amount of FleetCommander vault shares this contract holds
+     * @dev Per-strategy shares are in getStrategies()
      * @return The vault share balance
      */
     function getVaultShares() external view returns (uint256) {
@@ -196,7 +565,80 @@ contract VaultManager {
      * @return The total USDC value
      */
     function getTotalValue() external view returns (uint256) {
-        return fleetCommander.maxWithdraw(address(this)) + usdc.balanceOf(address(this));
+        return getCurrentValue() + usdc.balanceOf(address(this));
+    }
+
+    /**
+     * @notice Number of registered strategies
+     */
+    function strategyCount() external view returns (uint256) {
+        return _strategies.length;
+    }
+
+    /**
+     * @notice Every strategy with its target weight and current position (for the UI and keepers)
+     * @return vaults ERC-4626 vault addresses, in registry order
+     * @return weights Target weights in basis points
+     * @return values USDC value of each position (with 6 decimals)
+     * @return shares Vault shares held in each strategy
+     * @return withdrawable USDC each strategy can release right now (with 6 decimals)
+     */
+    function getStrategies() external view returns (
+        address[] memory vaults,
+        uint256[] memory weights,
+        uint256[] memory values,
+        uint256[] memory shares,
+        uint256[] memory withdrawable
+    ) {
+        uint256 n = _strategies.length;
+        vaults = new address[](n);
+        weights = new uint256[](n);
+        shares = new uint256[](n);
+        (values, ) = _strategyAssets();
+        (withdrawable, ) = _strategyLiquidity();
+        for (uint256 i = 0; i < n; i++) {
+            vaults[i] = address(_strategies[i].vault);
+            weights[i] = _strategies[i].weight;
+            shares[i] = _strategies[i].vault.balanceOf(address(this));
+        }
+    }
+
+    /**
+     * @notice Target weights scheduled by setWeights, in registry order
+     * @return weights Scheduled weights in basis points (empty when nothing is scheduled)
+     * @return readyAt When applyWeights can apply them (0 when nothing is scheduled)
+     */
+    function getPendingWeights() external view returns (uint256[] memory weights, uint256 readyAt) {
+        return (_pendingWeights, pendingWeightsAt);
+    }
+
+    /**
+     * @notice Returns the USDC principal still in the vault (deposited minus withdrawn)
+     * @dev Floors at 0 once withdrawals, which include yield, exceed deposits
+     * @return The net principal (with 6 decimals)
+     */
+    function netPrincipal() public view returns (uint256) {
+        return totalDeposited > totalWithdrawn ? totalDeposited - totalWithdrawn : 0;
+    }
+
+    /**
+     * @notice Returns the lifetime yield earned in the vault: current value plus withdrawals minus deposits
+     * @dev Negative if the vault lost value
+     * @return The accrued yield (with 6 decimals)
+     */
+    function accruedYield() public view returns (int256) {
+        return int256(getCurrentValue() + totalWithdrawn) - int256(totalDeposited);
+    }
+
+    /**
+     * @notice Returns the annualized vault return since the first deposit, in basis points
+     * @dev Accrued yield over the time-weighted average principal (simple, not compounded)
+     * @return The running APY in basis points (0 before any principal has been held)
+     */
+    function runningApy() external view returns (int256) {
+        uint256 weighted = principalSeconds + netPrincipal() * (block.timestamp - lastAccountedAt);
+        if (weighted == 0) return 0;
+        return (accruedYield() * 365 days * 10_000) / int256(weighted);
     }
 
     /**
@@ -0,0 +1,42 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title IERC7540Operator - Operator approvals of ERC-7540 asynchronous vaults
+/// @dev https://eips.ethereum.org/EIPS/eip-7540
+interface IERC7540Operator {
+    event OperatorSet(address indexed controller, address indexed operator, bool approved);
+
+    /// @notice Grant or revoke `operator` the right to manage the caller's requests
+    function setOperator(address operator, bool approved) external returns (bool);
+
+    /// @notice Whether `operator` may manage the requests of `controller`
+    function isOperator(address controller, address operator) external view returns (bool status);
+}
+
+/// @title IERC7540Redeem - Asynchronous redemption of ERC-7540 vaults
+/// @dev https://eips.ethereum.org/EIPS/eip-7540. Claims go through the ERC-4626 redeem/withdraw entry points,
+///      called with the request's controller as `owner`.
+interface IERC7540Redeem is IERC7540Operator {
+    event RedeemRequest(
+        address indexed controller, address indexed owner, uint256 indexed requestId, address sender, uint256 shares
+    );
+
+    /// @notice Take `shares` from `owner` and submit a redeem request controlled by `controller`
+    function requestRedeem(uint256 shares, address controller, address owner) external returns (uint256 requestId);
+
+    /// @notice Shares of a request still waiting to become claimable
+    function pendingRedeemRequest(uint256 requestId, address controller) external view returns (uint256 pendingShares);
+
+    /// @notice Shares of a request that can be claimed with redeem/withdraw now
+    function claimableRedeemRequest(uint256 requestId, address controller)
+        external
+        view
+        returns (uint256 claimableShares);
+}
+
+/// @title IERC7575Share - Share token lookup of ERC-7575 vaults (required by ERC-7540)
+/// @dev https://eips.ethereum.org/EIPS/eip-7575
+interface IERC7575Share {
+    /// @notice Token representing the vault's shares
+    function share() external view returns (address);
+}
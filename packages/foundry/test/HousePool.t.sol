@@ -6,11 +6,12 @@ import "../contracts/HousePool.sol";
 import "../contracts/DiceGame.sol";
 import "../contracts/VaultManager.sol";
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/interfaces/IERC4626.sol";
 
-/// @dev Simple mock USDC for testing
-contract MockUSDC is ERC20 {
-    constructor() ERC20("USD Coin", "USDC") {}
+/// @dev Simple mock USDC for testing (with EIP-2612 permit like Base USDC)
+contract MockUSDC is ERC20, ERC20Permit {
+    constructor() ERC20("USD Coin", "USDC") ERC20Permit("USD Coin") {}
     
     function decimals() public pure override returns (uint8) { return 6; }
     
@@ -23,6 +24,8 @@ contract MockUSDC is ERC20 {
 contract MockFleetCommander is ERC20 {
     IERC20 public immutable asset;
     uint256 public yieldAccrued; // Simulated yield
+    bool public liquidityCapped;
+    uint256 public liquidityCap; // Max assets withdrawable per owner while capped
     
     constructor(address _asset) ERC20("Mock Vault Shares", "mvUSDC") {
         asset = IERC20(_asset);
@@ -43,9 +46,22 @@ contract MockFleetCommander is ERC20 {
         asset.transfer(receiver, assets);
     }
     
+    function redeem(uint256 shares, address receiver, address owner) external returns (uint256 assets) {
+        assets = convertToAssets(shares);
+        _burn(owner, shares);
+        asset.transfer(receiver, assets);
+    }
+    
+    function maxRedeem(address owner) external view returns (uint256) {
+        uint256 shares = balanceOf(owner);
+        if (liquidityCapped && convertToAssets(shares) > liquidityCap) return previewWithdraw(liquidityCap);
+        return shares;
+    }
+    
     function maxWithdraw(address owner) external view returns (uint256) {
         uint256 shares = balanceOf(owner);
-        return convertToAssets(shares);
+        uint256 assets = convertToAssets(shares);
+        return liquidityCapped && assets > liquidityCap ? liquidityCap : assets;
     }
     
     function previewWithdraw(uint256 assets) public view returns (uint256) {
@@ -66,6 +82,12 @@ contract MockFleetCommander is ERC20 {
         MockUSDC(address(asset)).mint(address(this), amount);
         yieldAccrued += amount;
     }
+    
+    // Test helper: simulate a liquidity-constrained vault
+    function setLiquidityCap(uint256 cap) external {
+        liquidityCapped = true;
+        liquidityCap = cap;
+    }
 }
 
 contract HousePoolTest is Test {
@@ -177,15 +199,16 @@ contract HousePoolTest is Test {
         vm.prank(lp1);
         housePool.requestWithdrawal(shares);
         
-        (uint256 reqShares, uint256 unlockTime, uint256 expiryTime, bool canWithdraw, bool isExpired) = 
+        (uint256 reqShares, uint256 unlockTime, uint256 position, bool canWithdraw, uint256 sharesAhead) = 
             housePool.getWithdrawalRequest(lp1);
         
         assertEq(reqShares, shares);
         assertEq(unlockTime, block.timestamp + 10); // 10 second cooldown
-        assertEq(expiryTime, unlockTime + 60);       // 1 minute window
+        assertEq(position, 0);                      // Front of the queue
         assertFalse(canWithdraw); // Can't withdraw yet
-        assertFalse(isExpired);
+        assertEq(sharesAhead, 0);
         assertEq(housePool.totalPendingShares(), shares);
+        assertEq(housePool.queueLength(), 1);
     }
     
     function test_Withdraw_AfterCooldown() public {
@@ -201,7 +224,7 @@ contract HousePoolTest is Test {
         vm.prank(lp1);
         housePool.requestWithdrawal(sharesToWithdraw);
         
-        // Fast forward past cooldown (10 seconds) but within window (1 minute)
+        // Fast forward past cooldown (10 seconds)
         vm.warp(block.timestamp + 11);
         
         uint256 usdcBefore = usdc.balanceOf(lp1);
@@ -232,7 +255,7 @@ contract HousePoolTest is Test {
         housePool.withdraw();
     }
     
-    function test_Withdraw_AfterExpiry_Reverts() public {
+    function test_Withdraw_LongAfterUnlock_DoesNotExpire() public {
         vm.prank(lp1);
         housePool.deposit(300 * 10**6);
         
@@ -240,38 +263,160 @@ contract HousePoolTest is Test {
         vm.prank(lp1);
         housePool.requestWithdrawal(sharesToWithdraw);
         
-        // Fast forward past expiry (10 seconds cooldown + 1 minute window + 1 second)
-        vm.warp(block.timestamp + 10 + 60 + 1);
+        // The LP steps away for a day; the request keeps its place in line
+        vm.warp(block.timestamp + 1 days);
         
         vm.prank(lp1);
-        vm.expectRevert(HousePool.WithdrawalExpired.selector);
-        housePool.withdraw();
+        assertApproxEqAbs(housePool.withdraw(), 200 * 10**6, 1);
     }
     
-    function test_CleanupExpiredWithdrawal() public {
+    function test_ProcessWithdrawals_AnyoneFillsUnlockedRequests() public {
         vm.prank(lp1);
         uint256 shares = housePool.deposit(200 * 10**6);
         
         vm.prank(lp1);
         housePool.requestWithdrawal(shares);
         
+        // Nothing is filled during the cooldown
+        vm.prank(player1);
+        assertEq(housePool.processWithdrawals(10), 0);
         assertEq(housePool.totalPendingShares(), shares);
         
-        // Fast forward past expiry (10 seconds cooldown + 1 minute window + 1 second)
-        vm.warp(block.timestamp + 10 + 60 + 1);
+        vm.warp(block.timestamp + 11);
         
-        // Anyone can cleanup
+        // A keeper fills it; the USDC goes to the LP
+        uint256 usdcBefore = usdc.balanceOf(lp1);
         vm.prank(player1);
-        housePool.cleanupExpiredWithdrawal(lp1);
+        assertEq(housePool.processWithdrawals(10), 1);
         
-        // LP1 still has shares, but request is cleared
-        assertEq(housePool.balanceOf(lp1), shares);
+        assertEq(usdc.balanceOf(lp1), usdcBefore + 200 * 10**6);
         assertEq(housePool.totalPendingShares(), 0);
+        assertEq(housePool.queueLength(), 0);
         
         (uint256 reqShares,,,,) = housePool.getWithdrawalRequest(lp1);
         assertEq(reqShares, 0);
     }
     
+    function test_WithdrawalQueue_FillsInOrderUpToLiquidity() public {
+        // Keep 150 USDC liquid, the rest goes to the vault
+        housePool.setBufferBand(150 * 10**6, 150 * 10**6);
+        
+        vm.prank(lp1);
+        uint256 shares1 = housePool.deposit(100 * 10**6);
+        vm.prank(lp2);
+        uint256 shares2 = housePool.deposit(100 * 10**6);
+        
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares1);
+        vm.prank(lp2);
+        housePool.requestWithdrawal(shares2);
+        
+        (, , uint256 position, , uint256 sharesAhead) = housePool.getWithdrawalRequest(lp2);
+        assertEq(position, 1);
+        assertEq(sharesAhead, shares1);
+        
+        // Only the 150 USDC buffer can be paid out right now
+        mockVault.setLiquidityCap(0);
+        assertEq(housePool.availableLiquidity(), 150 * 10**6);
+        vm.warp(block.timestamp + 11);
+        
+        // lp2 executing its own request fills lp1 first, then gets what is left
+        uint256 lp1Before = usdc.balanceOf(lp1);
+        vm.prank(lp2);
+        uint256 out2 = housePool.withdraw();
+        
+        assertEq(usdc.balanceOf(lp1), lp1Before + 100 * 10**6);
+        assertEq(out2, 50 * 10**6);
+        
+        // lp2's remainder stays at the front of the line
+        (uint256 remaining, , uint256 positionAfter, bool canWithdraw, ) = housePool.getWithdrawalRequest(lp2);
+        assertEq(remaining, shares2 / 2);
+        assertEq(positionAfter, 0);
+        assertTrue(canWithdraw);
+        
+        mockVault.setLiquidityCap(type(uint256).max);
+        housePool.processWithdrawals(10);
+        assertEq(housePool.totalPendingShares(), 0);
+        assertEq(housePool.totalSupply(), 0);
+    }
+    
+    function test_WithdrawalQueue_SkipsCancelledRequests() public {
+        vm.prank(lp1);
+        uint256 shares1 = housePool.deposit(100 * 10**6);
+        vm.prank(lp2);
+        uint256 shares2 = housePool.deposit(100 * 10**6);
+        
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares1);
+        vm.prank(lp2);
+        housePool.requestWithdrawal(shares2);
+        
+        // lp1 leaves the line and rejoins at the back
+        vm.prank(lp1);
+        housePool.cancelWithdrawal();
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares1);
+        
+        (, , uint256 position2, , ) = housePool.getWithdrawalRequest(lp2);
+        (, , uint256 position1, , uint256 sharesAhead1) = housePool.getWithdrawalRequest(lp1);
+        assertEq(position2, 0);
+        assertEq(position1, 1);
+        assertEq(sharesAhead1, shares2);
+        assertEq(housePool.queueLength(), 3);
+        
+        vm.warp(block.timestamp + 11);
+        assertEq(housePool.processWithdrawals(10), 2);
+        assertEq(housePool.queueLength(), 0);
+        assertEq(housePool.totalSupply(), 0);
+    }
+    
+    function test_WithdrawalQueue_PositionAfterPartialFillAndCancel() public {
+        // Keep 150 USDC liquid, the rest goes to the vault
+        housePool.setBufferBand(150 * 10**6, 150 * 10**6);
+        
+        vm.prank(lp1);
+        uint256 shares1 = housePool.deposit(100 * 10**6);
+        vm.prank(lp2);
+        uint256 shares2 = housePool.deposit(100 * 10**6);
+        vm.prank(player1);
+        uint256 shares3 = housePool.deposit(100 * 10**6);
+        
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares1);
+        vm.prank(lp2);
+        housePool.requestWithdrawal(shares2);
+        vm.prank(player1);
+        housePool.requestWithdrawal(shares3);
+        
+        (, , uint256 position, , uint256 sharesAhead) = housePool.getWithdrawalRequest(player1);
+        assertEq(position, 2);
+        assertEq(sharesAhead, shares1 + shares2);
+        
+        // 150 USDC fills lp1 and half of lp2
+        mockVault.setLiquidityCap(0);
+        vm.warp(block.timestamp + housePool.WITHDRAWAL_DELAY() + 1);
+        assertEq(housePool.processWithdrawals(10), 1);
+        
+        (, , position, , sharesAhead) = housePool.getWithdrawalRequest(lp2);
+        assertEq(position, 0);
+        assertEq(sharesAhead, 0);
+        (, , position, , sharesAhead) = housePool.getWithdrawalRequest(player1);
+        assertEq(position, 1);
+        assertEq(sharesAhead, shares2 / 2);
+        
+        // lp2 takes its unfilled half back, which moves player1 to the front
+        vm.prank(lp2);
+        housePool.cancelWithdrawal();
+        
+        (, , position, , sharesAhead) = housePool.getWithdrawalRequest(player1);
+        assertEq(position, 0);
+        assertEq(sharesAhead, 0);
+        
+        mockVault.setLiquidityCap(type(uint256).max);
+        assertEq(housePool.claimableRedeemRequest(0, player1), shares3);
+        assertEq(housePool.pendingRedeemRequest(0, player1), 0);
+    }
+    
     function test_CancelWithdrawal() public {
         vm.prank(lp1);
         uint256 shares = housePool.deposit(200 * 10**6);
@@ -302,10 +447,41 @@ contract HousePoolTest is Test {
         vm.prank(lp1);
         housePool.requestWithdrawal(halfShares);
         
-        // Effective pool should be reduced by half
+        // Not counted during the cooldown
+        assertEq(housePool.lockedPendingShares(), halfShares);
+        assertEq(housePool.effectivePool(), 200 * 10**6);
+        
+        // Effective pool should be reduced by half once the request can be filled
+        vm.warp(block.timestamp + housePool.WITHDRAWAL_DELAY());
+        assertEq(housePool.lockedPendingShares(), 0);
         uint256 poolAfter = housePool.effectivePool();
         assertEq(poolAfter, 100 * 10**6);
     }
+    
+    function test_EffectivePool_CancelledInCooldownNeverCounted() public {
+        vm.prank(lp1);
+        uint256 shares1 = housePool.deposit(200 * 10**6);
+        vm.prank(lp2);
+        uint256 shares2 = housePool.deposit(100 * 10**6);
+        
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares1);
+        vm.warp(block.timestamp + 5);
+        vm.prank(lp2);
+        housePool.requestWithdrawal(shares2);
+        assertEq(housePool.lockedPendingShares(), shares1 + shares2);
+        
+        vm.prank(lp1);
+        housePool.cancelWithdrawal();
+        assertEq(housePool.lockedPendingShares(), shares2);
+        
+        // lp1's request would have unlocked by now: only lp2's counts, once it unlocks
+        vm.warp(block.timestamp + 6);
+        assertEq(housePool.effectivePool(), 300 * 10**6);
+        vm.warp(block.timestamp + 4);
+        assertEq(housePool.lockedPendingShares(), 0);
+        assertEq(housePool.effectivePool(), 200 * 10**6);
+    }
 
     /* ========== GAME FUNCTIONS TESTS ========== */
     
@@ -352,23 +528,24 @@ contract HousePoolTest is Test {
 
     /* ========== VAULT INTEGRATION TESTS ========== */
     
-    function test_AllFundsGoToVault_OnDeposit() public {
-        // Deposit 100 USDC - ALL should go to vault
+    function test_Deposit_KeepsLiquidBuffer() public {
+        // Deposit 100 USDC - everything above the buffer target goes to the vault
         vm.prank(lp1);
         housePool.deposit(100 * 10**6);
         
-        // 100% should be in vault, 0 liquid
-        assertEq(housePool.liquidPool(), 0);
-        assertEq(housePool.vaultPool(), 100 * 10**6);
+        uint256 target = housePool.bufferTarget();
+        assertEq(target, 7.5 * 10**6); // Middle of the 5-10 USDC default band
+        assertEq(housePool.liquidPool(), target);
+        assertEq(housePool.vaultPool(), 100 * 10**6 - target);
         assertEq(housePool.totalPool(), 100 * 10**6);
     }
     
     function test_VaultWithdraw_OnPayout() public {
-        // Deposit 100 USDC (all goes to vault)
+        // Deposit 100 USDC (all but the buffer goes to vault)
         vm.prank(lp1);
         housePool.deposit(100 * 10**6);
         
-        assertEq(housePool.vaultPool(), 100 * 10**6);
+        assertEq(housePool.vaultPool(), 100 * 10**6 - housePool.bufferTarget());
         
         // Player commits to use pool (adds 0.1 USDC)
         bytes32 secret = bytes32("test_secret");
@@ -419,17 +596,17 @@ contract HousePoolTest is Test {
         uint256 total = housePool.totalPool();
         
         assertEq(total, liquid + vault);
-        assertEq(liquid, 0); // All in vault
-        assertEq(vault, 100 * 10**6);
+        assertEq(liquid, housePool.bufferTarget()); // Buffer stays liquid
+        assertEq(vault, 100 * 10**6 - housePool.bufferTarget());
     }
     
     function test_Withdraw_FromVault() public {
-        // Deposit 100 USDC - all goes to vault
+        // Deposit 100 USDC - all but the buffer goes to vault
         vm.prank(lp1);
         housePool.deposit(100 * 10**6);
         
-        assertEq(housePool.vaultPool(), 100 * 10**6);
-        assertEq(housePool.liquidPool(), 0);
+        assertEq(housePool.vaultPool(), 100 * 10**6 - housePool.bufferTarget());
+        assertEq(housePool.liquidPool(), housePool.bufferTarget());
         
         uint256 shares = housePool.balanceOf(lp1);
         
@@ -450,229 +627,802 @@ contract HousePoolTest is Test {
         assertEq(usdc.balanceOf(lp1), usdcBefore + 100 * 10**6);
     }
     
-    function test_MultipleDeposits_AllGoToVault() public {
+    function test_MultipleDeposits_SweepExcessToVault() public {
+        uint256 target = housePool.bufferTarget();
+        
         // First deposit
         vm.prank(lp1);
         housePool.deposit(100 * 10**6);
         
-        assertEq(housePool.vaultPool(), 100 * 10**6);
-        assertEq(housePool.liquidPool(), 0);
+        assertEq(housePool.vaultPool(), 100 * 10**6 - target);
+        assertEq(housePool.liquidPool(), target);
         
         // Second deposit
         vm.prank(lp2);
         housePool.deposit(50 * 10**6);
         
-        // All 150 should be in vault
-        assertEq(housePool.vaultPool(), 150 * 10**6);
-        assertEq(housePool.liquidPool(), 0);
+        // All of it overflows the buffer into the vault
+        assertEq(housePool.vaultPool(), 150 * 10**6 - target);
+        assertEq(housePool.liquidPool(), target);
         assertEq(housePool.totalPool(), 150 * 10**6);
     }
 
-    /* ========== FUZZ TESTS ========== */
+    /* ========== LIQUID BUFFER TESTS ========== */
     
-    function testFuzz_Deposit(uint256 amount) public {
-        // Bound to reasonable range (1 USDC to available balance)
-        amount = bound(amount, 1 * 10**6, INITIAL_USDC);
-        
+    function test_SmallPayments_StayInBuffer() public {
         vm.prank(lp1);
-        uint256 shares = housePool.deposit(amount);
+        housePool.deposit(100 * 10**6);
+        uint256 vaultBefore = housePool.vaultPool();
         
-        assertTrue(shares > 0);
-        assertEq(housePool.totalPool(), amount);
-        assertEq(housePool.vaultPool(), amount); // All in vault
-        assertEq(housePool.liquidPool(), 0);
+        // A roll payment lands in the buffer without a vault deposit
+        vm.prank(player1);
+        diceGame.commitRoll(keccak256(abi.encodePacked(bytes32("buffer"))));
+        
+        assertEq(housePool.liquidPool(), housePool.bufferTarget() + diceGame.ROLL_COST());
+        assertEq(housePool.vaultPool(), vaultBefore);
     }
     
-    function testFuzz_WithdrawalTiming(uint256 waitTime) public {
+    function test_Payout_UsesBufferBeforeVault() public {
         vm.prank(lp1);
-        uint256 shares = housePool.deposit(200 * 10**6);
-        
+        housePool.deposit(100 * 10**6);
+        uint256 vaultBefore = housePool.vaultPool();
+        
+        // 7.5 liquid - 1 = 6.5, still above the 5 USDC minimum: vault untouched
+        vm.prank(address(diceGame));
+        housePool.payout(player1, 1 * 10**6);
+        assertEq(housePool.liquidPool(), 6.5 * 10**6);
+        assertEq(housePool.vaultPool(), vaultBefore);
+        
+        // 6.5 - 2 would drop below the minimum: the vault refills the buffer to its target
+        vm.prank(address(diceGame));
+        housePool.payout(player1, 2 * 10**6);
+        assertEq(housePool.liquidPool(), housePool.bufferTarget());
+        assertEq(housePool.vaultPool(), vaultBefore - 3 * 10**6);
+        assertEq(housePool.totalPool(), 97 * 10**6);
+    }
+    
+    function test_RebalanceBuffer_BringsBufferBackToTarget() public {
         vm.prank(lp1);
-        housePool.requestWithdrawal(shares);
-        
-        // Bound wait time (10 sec cooldown + 1 min window = 70 sec total)
-        waitTime = bound(waitTime, 0, 5 minutes);
-        vm.warp(block.timestamp + waitTime);
+        housePool.deposit(100 * 10**6);
         
-        (,,,bool canWithdraw, bool isExpired) = housePool.getWithdrawalRequest(lp1);
+        // Widen the band: the buffer is now below its minimum
+        housePool.setBufferBand(20 * 10**6, 40 * 10**6);
+        vm.prank(player1);
+        housePool.rebalanceBuffer();
+        assertEq(housePool.liquidPool(), 30 * 10**6);
+        assertEq(housePool.vaultPool(), 70 * 10**6);
         
-        if (waitTime < 10) {
-            // Before cooldown
-            assertFalse(canWithdraw);
-            assertFalse(isExpired);
-        } else if (waitTime <= 10 + 60) {
-            // In withdrawal window
-            assertTrue(canWithdraw);
-            assertFalse(isExpired);
-        } else {
-            // After window expired
-            assertFalse(canWithdraw);
-            assertTrue(isExpired);
-        }
+        // Tighten the band: the buffer is now above its maximum
+        housePool.setBufferBand(1 * 10**6, 2 * 10**6);
+        vm.prank(player1);
+        housePool.rebalanceBuffer();
+        assertEq(housePool.liquidPool(), 1.5 * 10**6);
+        assertEq(housePool.totalPool(), 100 * 10**6);
     }
-}
-
-/* ========== DICE GAME TESTS ========== */
-
-contract DiceGameTest is Test {
-    HousePool public housePool;
-    DiceGame public diceGame;
-    VaultManager public vaultManager;
-    MockUSDC public usdc;
-    MockFleetCommander public mockVault;
-    
-    address public lp1 = address(2);
-    address public player1 = address(4);
-    address public player2 = address(5);
-    
-    uint256 constant INITIAL_USDC = 10_000 * 10**6;
     
-    function setUp() public {
-        usdc = new MockUSDC();
-        mockVault = new MockFleetCommander(address(usdc));
-        diceGame = new DiceGame(address(usdc), address(mockVault));
-        housePool = diceGame.housePool();
-        vaultManager = diceGame.vaultManager();
-        
-        usdc.mint(lp1, INITIAL_USDC);
-        usdc.mint(player1, INITIAL_USDC);
-        usdc.mint(player2, INITIAL_USDC);
-        
-        // LPs approve HousePool for deposits
+    function test_SetBufferBand_OnlyVaultOwner() public {
         vm.prank(lp1);
-        usdc.approve(address(housePool), type(uint256).max);
-        
-        // Players approve HousePool for game payments
-        vm.prank(player1);
-        usdc.approve(address(housePool), type(uint256).max);
+        vm.expectRevert(HousePool.Unauthorized.selector);
+        housePool.setBufferBand(0, 0);
         
-        vm.prank(player2);
-        usdc.approve(address(housePool), type(uint256).max);
+        vm.expectRevert(HousePool.InvalidBufferBand.selector);
+        housePool.setBufferBand(2 * 10**6, 1 * 10**6);
     }
+
+    /* ========== YIELD STRATEGY TESTS ========== */
     
-    function test_CommitRoll() public {
-        // Setup: LP deposits enough for gambling
+    function test_RebalanceVault_MovesFundsToTargets() public {
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        housePool.deposit(100 * 10**6);
         
-        bytes32 secret = bytes32("my_secret_123");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        // Register a second strategy and target a 70/30 split (test contract deployed DiceGame, so it is owner)
+        MockFleetCommander otherVault = _addStrategy(7_000, 3_000);
         
+        // Anyone can trigger the rebalance
+        uint256 vaulted = housePool.vaultPool();
         vm.prank(player1);
-        diceGame.commitRoll(commitment);
+        uint256 moved = housePool.rebalanceVault();
         
-        (bytes32 hash, uint256 blockNum, bool canReveal, bool isExpired) = 
-            diceGame.getCommitment(player1);
-        
-        assertEq(hash, commitment);
-        assertEq(blockNum, block.number);
-        assertFalse(canReveal); // Can't reveal same block
-        assertFalse(isExpired);
+        assertEq(moved, (vaulted * 3) / 10);
+        assertEq(mockVault.maxWithdraw(address(vaultManager)), (vaulted * 7) / 10);
+        assertEq(otherVault.maxWithdraw(address(vaultManager)), (vaulted * 3) / 10);
+        assertEq(housePool.totalPool(), 100 * 10**6);
         
-        // USDC transferred to pool (deposit + roll cost)
-        assertEq(housePool.totalPool(), 200 * 10**6 + diceGame.ROLL_COST());
+        // New deposits follow the weights (the buffer is already full, so all 10 USDC is swept)
+        vm.prank(lp2);
+        housePool.deposit(10 * 10**6);
+        assertEq(mockVault.maxWithdraw(address(vaultManager)), (vaulted * 7) / 10 + 7 * 10**6);
+        assertEq(otherVault.maxWithdraw(address(vaultManager)), (vaulted * 3) / 10 + 3 * 10**6);
     }
     
-    function test_CommitRoll_InsufficientPool_Reverts() public {
-        // No deposits - pool is empty
-        bytes32 secret = bytes32("my_secret");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+    function test_RebalanceVault_KeepsPendingWithdrawalsLiquid() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
         
-        vm.prank(player1);
-        vm.expectRevert(DiceGame.GameNotPlayable.selector);
-        diceGame.commitRoll(commitment);
-    }
-    
-    function test_RevealRoll_TooEarly_Reverts() public {
+        // An LP is about to take 80 USDC out
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        housePool.requestWithdrawal((shares * 80) / 100);
         
-        bytes32 secret = bytes32("my_secret");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        // Target half of the funds at a vault that cannot release anything right now
+        MockFleetCommander illiquidVault = _addStrategy(5_000, 5_000);
+        illiquidVault.setLiquidityCap(0);
         
-        vm.prank(player1);
-        diceGame.commitRoll(commitment);
+        vm.expectRevert(VaultManager.LiquidityShortfall.selector);
+        housePool.rebalanceVault();
         
-        // Try to reveal in same block - should fail
-        vm.prank(player1);
-        vm.expectRevert(DiceGame.TooEarly.selector);
-        diceGame.revealRoll(secret);
+        // The pending withdrawal (unlocked while the strategy change waited) still pays out in full
+        vm.prank(lp1);
+        assertEq(housePool.withdraw(), 80 * 10**6);
     }
+
+    /* ========== LIQUIDITY SHORTFALL TESTS ========== */
     
-    function test_RevealRoll_AfterOneBlock_Success() public {
+    function test_Payout_DefersShortfallAsIou() public {
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        housePool.deposit(100 * 10**6);
         
-        bytes32 secret = bytes32("my_secret");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        // The vault holds its funds but cannot release any of them right now
+        mockVault.setLiquidityCap(0);
+        assertTrue(housePool.isLiquidityConstrained());
+        assertEq(vaultManager.getWithdrawableValue(), 0);
+        assertEq(vaultManager.getCurrentValue(), 100 * 10**6 - housePool.bufferTarget());
         
-        vm.prank(player1);
-        diceGame.commitRoll(commitment);
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        uint256 buffer = housePool.liquidPool();
         
-        // Advance 1 block - should now work
-        vm.roll(block.number + 1);
+        // A big win is paid from the buffer, the rest becomes an IOU instead of reverting
+        vm.prank(address(diceGame));
+        housePool.payout(player1, 20 * 10**6);
         
-        vm.prank(player1);
-        diceGame.revealRoll(secret); // Should succeed
+        assertEq(usdc.balanceOf(player1), balanceBefore + buffer);
+        assertEq(housePool.owed(player1), 20 * 10**6 - buffer);
+        assertEq(housePool.totalOwed(), 20 * 10**6 - buffer);
         
-        // Commitment should be cleared
-        (bytes32 hash,,,) = diceGame.getCommitment(player1);
-        assertEq(hash, bytes32(0));
+        // LPs already carry the full payout
+        assertEq(housePool.totalPool(), 80 * 10**6);
     }
     
-    function test_RevealRoll_Success() public {
+    function test_Payout_MoreThanPoolValue_Reverts() public {
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        housePool.deposit(10 * 10**6);
         
-        bytes32 secret = bytes32("my_secret");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        vm.prank(address(diceGame));
+        vm.expectRevert(HousePool.InsufficientPool.selector);
+        housePool.payout(player1, 11 * 10**6);
+    }
+    
+    function test_ClaimOwed_PaysOnceLiquidityReturns() public {
+        vm.prank(lp1);
+        housePool.deposit(100 * 10**6);
         
-        vm.prank(player1);
-        diceGame.commitRoll(commitment);
+        mockVault.setLiquidityCap(0);
+        vm.prank(address(diceGame));
+        housePool.payout(player1, 20 * 10**6);
+        uint256 iou = housePool.owed(player1);
+        
+        // Nothing to pay it with yet
+        vm.expectRevert(HousePool.InsufficientLiquidity.selector);
+        housePool.claimOwed(player1);
+        
+        // Liquidity comes back partially: the claim pays what it can
+        mockVault.setLiquidityCap(5 * 10**6);
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        vm.prank(player2); // Anyone can push the claim through
+        assertEq(housePool.claimOwed(player1), 5 * 10**6);
+        assertEq(housePool.owed(player1), iou - 5 * 10**6);
+        
+        // ...and the rest once the vault is liquid again
+        mockVault.setLiquidityCap(type(uint256).max);
+        housePool.claimOwed(player1);
+        assertEq(usdc.balanceOf(player1), balanceBefore + iou);
+        assertEq(housePool.owed(player1), 0);
+        assertEq(housePool.totalOwed(), 0);
+        assertEq(housePool.totalPool(), 80 * 10**6);
+        assertFalse(housePool.isLiquidityConstrained());
+        
+        vm.expectRevert(HousePool.NothingOwed.selector);
+        housePool.claimOwed(player1);
+    }
+    
+    function test_Withdraw_PartialFillWhenVaultIlliquid() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
         
-        // Advance 2 blocks
-        vm.roll(block.number + 2);
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares);
+        vm.warp(block.timestamp + 11);
         
-        uint256 poolBefore = housePool.totalPool();
+        // Only half of the pool can be paid out right now
+        mockVault.setLiquidityCap(50 * 10**6 - housePool.bufferTarget());
+        assertEq(housePool.availableLiquidity(), 50 * 10**6);
         
-        vm.prank(player1);
-        bool won = diceGame.revealRoll(secret);
+        vm.prank(lp1);
+        assertEq(housePool.withdraw(), 50 * 10**6);
         
-        // Commitment should be cleared
-        (bytes32 hash,,,) = diceGame.getCommitment(player1);
-        assertEq(hash, bytes32(0));
+        // The other half stays pending at the front of the queue
+        (uint256 pendingShares, , uint256 position, bool canWithdraw, ) = housePool.getWithdrawalRequest(lp1);
+        assertEq(pendingShares, shares / 2);
+        assertEq(housePool.totalPendingShares(), shares / 2);
+        assertEq(position, 0);
+        assertTrue(canWithdraw);
         
-        // Pool should change based on win/loss
-        if (won) {
-            assertEq(housePool.totalPool(), poolBefore - diceGame.ROLL_PAYOUT()); // 1 USDC payout
-        } else {
-            assertEq(housePool.totalPool(), poolBefore); // No change (already received 0.1 USDC)
-        }
+        // Nothing left to fill with while the vault is locked
+        mockVault.setLiquidityCap(0);
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.InsufficientLiquidity.selector);
+        housePool.withdraw();
+        
+        mockVault.setLiquidityCap(type(uint256).max);
+        vm.prank(lp1);
+        assertEq(housePool.withdraw(), 50 * 10**6);
+        assertEq(housePool.balanceOf(address(housePool)), 0);
     }
+
+    /* ========== EMERGENCY TESTS ========== */
     
-    function test_RevealRoll_TooLate_Reverts() public {
+    function test_TriggerEmergency_OnlyGuardianOrOwner() public {
+        address guardian = address(0x6A);
+        housePool.setGuardian(guardian);
+        assertEq(housePool.guardian(), guardian);
+        
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        vm.expectRevert(HousePool.Unauthorized.selector);
+        housePool.triggerEmergency();
         
-        bytes32 secret = bytes32("my_secret");
-        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.Unauthorized.selector);
+        housePool.setGuardian(lp1);
         
-        vm.prank(player1);
-        diceGame.commitRoll(commitment);
+        vm.prank(guardian);
+        housePool.triggerEmergency();
+        assertTrue(housePool.emergency());
         
-        // Advance 257 blocks (past the 256 block limit)
-        vm.roll(block.number + 257);
+        vm.prank(guardian);
+        vm.expectRevert(HousePool.EmergencyActive.selector);
+        housePool.triggerEmergency();
         
-        vm.prank(player1);
-        vm.expectRevert(DiceGame.TooLate.selector);
-        diceGame.revealRoll(secret);
+        // Only the owner (timelocked multisig) can resume
+        vm.prank(guardian);
+        vm.expectRevert(HousePool.Unauthorized.selector);
+        housePool.resolveEmergency();
     }
     
-    function test_CheckRoll() public {
+    function test_TriggerEmergency_UnwindsVaultAndPauses() public {
         vm.prank(lp1);
-        housePool.deposit(200 * 10**6);
+        housePool.deposit(100 * 10**6);
+        assertGt(housePool.vaultPool(), 0);
         
-        bytes32 secret = bytes32("my_secret");
+        uint256 recovered = housePool.triggerEmergency();
+        
+        assertEq(recovered, 100 * 10**6 - housePool.bufferTarget());
+        assertEq(housePool.vaultPool(), 0);
+        assertEq(housePool.liquidPool(), 100 * 10**6);
+        assertEq(housePool.totalPool(), 100 * 10**6);
+        
+        // New bets and deposits are paused
+        assertFalse(diceGame.canPlay());
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.GamePaused.selector);
+        diceGame.commitRoll(keccak256(abi.encodePacked(bytes32("secret"))));
+        
+        vm.prank(lp2);
+        vm.expectRevert(HousePool.EmergencyActive.selector);
+        housePool.deposit(10 * 10**6);
+    }
+    
+    function test_TriggerEmergency_PendingRollsStillPay() public {
+        vm.prank(lp1);
+        housePool.deposit(100 * 10**6);
+        
+        bytes32 secret = bytes32("test_secret");
+        vm.prank(player1);
+        diceGame.commitRoll(keccak256(abi.encodePacked(secret)));
+        
+        housePool.triggerEmergency();
+        vm.roll(block.number + 2);
+        
+        (, bool isWinner) = diceGame.checkRoll(player1, secret);
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        
+        vm.prank(player1);
+        diceGame.revealRoll(secret);
+        
+        assertEq(usdc.balanceOf(player1), balanceBefore + (isWinner ? diceGame.ROLL_PAYOUT() : 0));
+    }
+    
+    function test_EmergencyExit_ProRata() public {
+        vm.prank(lp1);
+        uint256 shares1 = housePool.deposit(100 * 10**6);
+        vm.prank(lp2);
+        uint256 shares2 = housePool.deposit(50 * 10**6);
+        
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.NotInEmergency.selector);
+        housePool.emergencyExit(shares1);
+        
+        // Yield accrued before the emergency is shared pro-rata
+        mockVault.simulateYield(15 * 10**6);
+        housePool.triggerEmergency();
+        
+        // No cooldown
+        vm.prank(lp1);
+        uint256 out1 = housePool.emergencyExit(shares1);
+        vm.prank(lp2);
+        uint256 out2 = housePool.emergencyExit(shares2);
+        
+        assertApproxEqAbs(out1, 110 * 10**6, 1);
+        assertApproxEqAbs(out2, 55 * 10**6, 1);
+        assertEq(housePool.totalSupply(), 0);
+    }
+    
+    function test_EmergencyExit_LockedFundsReleasedLater() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
+        
+        // Only part of the position can leave the vault when the brake is pulled
+        mockVault.setLiquidityCap(42.5 * 10**6);
+        housePool.triggerEmergency();
+        assertEq(housePool.liquidPool(), 50 * 10**6);
+        
+        // ...and the rest stays locked for now
+        mockVault.setLiquidityCap(0);
+        vm.prank(lp1);
+        assertEq(housePool.emergencyExit(shares), 50 * 10**6);
+        assertEq(housePool.balanceOf(lp1), shares / 2);
+        
+        // Once the vault frees up, a keeper pulls the rest and the LP exits fully
+        mockVault.setLiquidityCap(type(uint256).max);
+        vm.prank(player1);
+        assertEq(housePool.unwindVault(), 50 * 10**6);
+        
+        vm.prank(lp1);
+        assertEq(housePool.emergencyExit(shares / 2), 50 * 10**6);
+        assertEq(housePool.totalSupply(), 0);
+    }
+    
+    function test_ResolveEmergency_ResumesAndReinvests() public {
+        vm.prank(lp1);
+        housePool.deposit(100 * 10**6);
+        housePool.triggerEmergency();
+        
+        housePool.resolveEmergency();
+        
+        assertFalse(housePool.emergency());
+        assertTrue(diceGame.canPlay());
+        assertEq(housePool.liquidPool(), housePool.bufferTarget());
+        assertEq(housePool.vaultPool(), 100 * 10**6 - housePool.bufferTarget());
+        
+        vm.expectRevert(HousePool.NotInEmergency.selector);
+        housePool.resolveEmergency();
+    }
+
+    /* ========== ERC-4626 / ERC-7540 TESTS ========== */
+    
+    function test_Erc4626_PreviewsMatchExecution() public {
+        assertEq(housePool.asset(), address(usdc));
+        assertEq(housePool.share(), address(housePool));
+        assertEq(housePool.previewDeposit(100 * 10**6), 100 * 10**18);
+        
+        vm.prank(lp1);
+        housePool.deposit(100 * 10**6);
+        mockVault.simulateYield(7 * 10**6);
+        assertEq(housePool.totalAssets(), housePool.totalPool());
+        
+        // deposit(assets, receiver) mints exactly the preview, to the receiver
+        uint256 previewShares = housePool.previewDeposit(50 * 10**6);
+        assertEq(previewShares, housePool.convertToShares(50 * 10**6));
+        vm.prank(lp1);
+        assertEq(housePool.deposit(50 * 10**6, lp2), previewShares);
+        assertEq(housePool.balanceOf(lp2), previewShares);
+        
+        // mint(shares, receiver) charges the preview, rounded up in favour of the pool
+        uint256 previewAssets = housePool.previewMint(10 * 10**18);
+        assertGe(previewAssets, housePool.convertToAssets(10 * 10**18));
+        uint256 balanceBefore = usdc.balanceOf(lp2);
+        vm.prank(lp2);
+        assertEq(housePool.mint(10 * 10**18, lp2), previewAssets);
+        assertEq(usdc.balanceOf(lp2), balanceBefore - previewAssets);
+        assertEq(housePool.balanceOf(lp2), previewShares + 10 * 10**18);
+    }
+    
+    function test_Erc4626_NoDepositsInEmergency() public {
+        assertEq(housePool.maxDeposit(lp1), type(uint256).max);
+        
+        vm.prank(lp1);
+        housePool.deposit(100 * 10**6);
+        housePool.triggerEmergency();
+        
+        assertEq(housePool.maxDeposit(lp1), 0);
+        assertEq(housePool.maxMint(lp1), 0);
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.EmergencyActive.selector);
+        housePool.mint(10**18, lp1);
+    }
+    
+    function test_Erc7540_RequestRedeemThenClaim() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
+        
+        vm.prank(lp1);
+        assertEq(housePool.requestRedeem(shares, lp1, lp1), 0);
+        assertEq(housePool.pendingRedeemRequest(0, lp1), shares);
+        assertEq(housePool.claimableRedeemRequest(0, lp1), 0);
+        assertEq(housePool.maxRedeem(lp1), 0);
+        
+        // Synchronous previews are not available for async redemptions
+        vm.expectRevert(HousePool.AsyncRedeem.selector);
+        housePool.previewRedeem(shares);
+        
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.WithdrawalNotReady.selector);
+        housePool.redeem(shares, lp1, lp1);
+        
+        vm.warp(block.timestamp + 11);
+        assertEq(housePool.pendingRedeemRequest(0, lp1), 0);
+        assertEq(housePool.claimableRedeemRequest(0, lp1), shares);
+        assertEq(housePool.maxWithdraw(lp1), 100 * 10**6);
+        
+        // Claim part to another receiver, then the rest by assets
+        uint256 lp2Before = usdc.balanceOf(lp2);
+        vm.prank(lp1);
+        assertEq(housePool.redeem(shares / 4, lp2, lp1), 25 * 10**6);
+        assertEq(usdc.balanceOf(lp2), lp2Before + 25 * 10**6);
+        assertEq(housePool.claimableRedeemRequest(0, lp1), shares - shares / 4);
+        
+        vm.prank(lp1);
+        assertEq(housePool.withdraw(75 * 10**6, lp1, lp1), shares - shares / 4);
+        (uint256 pendingShares, , , , ) = housePool.getWithdrawalRequest(lp1);
+        assertEq(pendingShares, 0);
+        assertEq(housePool.totalSupply(), 0);
+    }
+    
+    function test_Erc7540_OperatorsAndAllowances() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
+        
+        // Strangers can neither request for the owner nor claim for the controller
+        vm.prank(lp2);
+        vm.expectRevert();
+        housePool.requestRedeem(shares, lp2, lp1);
+        
+        // A HOUSE allowance lets the spender request on the owner's behalf
+        vm.prank(lp1);
+        housePool.approve(lp2, shares / 2);
+        vm.prank(lp2);
+        housePool.requestRedeem(shares / 2, lp2, lp1);
+        assertEq(housePool.allowance(lp1, lp2), 0);
+        
+        // An operator can request and claim for the controller
+        vm.prank(lp1);
+        assertTrue(housePool.setOperator(player1, true));
+        assertTrue(housePool.isOperator(lp1, player1));
+        vm.prank(player1);
+        housePool.requestRedeem(shares / 2, lp1, lp1);
+        
+        vm.warp(block.timestamp + 11);
+        
+        vm.prank(lp2);
+        vm.expectRevert(HousePool.Unauthorized.selector);
+        housePool.redeem(shares / 2, lp2, lp1);
+        
+        uint256 operatorBefore = usdc.balanceOf(player1);
+        vm.prank(player1);
+        housePool.redeem(shares / 2, player1, lp1);
+        assertEq(usdc.balanceOf(player1), operatorBefore + 50 * 10**6);
+        
+        // The request ahead (lp2's) was filled first
+        (uint256 aheadShares, , , ) = housePool.withdrawals(lp2);
+        assertEq(aheadShares, 0);
+    }
+    
+    function test_Erc7540_ClaimNeverFillsPartially() public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(100 * 10**6);
+        vm.prank(lp1);
+        housePool.requestRedeem(shares, lp1, lp1);
+        vm.warp(block.timestamp + 11);
+        
+        // Only half of the pool can be paid out right now
+        mockVault.setLiquidityCap(50 * 10**6 - housePool.bufferTarget());
+        assertEq(housePool.claimableRedeemRequest(0, lp1), shares / 2);
+        assertEq(housePool.pendingRedeemRequest(0, lp1), shares - shares / 2);
+        assertEq(housePool.maxWithdraw(lp1), 50 * 10**6);
+        
+        vm.prank(lp1);
+        vm.expectRevert(HousePool.InsufficientLiquidity.selector);
+        housePool.redeem(shares, lp1, lp1);
+        
+        vm.prank(lp1);
+        assertEq(housePool.redeem(shares / 2, lp1, lp1), 50 * 10**6);
+    }
+    
+    function test_SupportsInterface() public view {
+        assertTrue(housePool.supportsInterface(0x01ffc9a7)); // ERC-165
+        assertTrue(housePool.supportsInterface(0xe3bc4e65)); // ERC-7540 operator
+        assertTrue(housePool.supportsInterface(0x620ee8e4)); // ERC-7540 async redeem
+        assertTrue(housePool.supportsInterface(0x2f0a18c5)); // ERC-7575
+        assertFalse(housePool.supportsInterface(0xce3bbe50)); // ERC-7540 async deposit
+    }
+
+    /* ========== FUZZ TESTS ========== */
+    
+    function testFuzz_Deposit(uint256 amount) public {
+        // Bound to reasonable range (1 USDC to available balance)
+        amount = bound(amount, 1 * 10**6, INITIAL_USDC);
+        
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(amount);
+        
+        assertTrue(shares > 0);
+        assertEq(housePool.totalPool(), amount);
+        
+        // Small deposits stay in the buffer, larger ones leave the buffer target liquid
+        uint256 liquid = amount > housePool.bufferMax() ? housePool.bufferTarget() : amount;
+        assertEq(housePool.liquidPool(), liquid);
+        assertEq(housePool.vaultPool(), amount - liquid);
+    }
+    
+    function testFuzz_WithdrawalTiming(uint256 waitTime) public {
+        vm.prank(lp1);
+        uint256 shares = housePool.deposit(200 * 10**6);
+        
+        vm.prank(lp1);
+        housePool.requestWithdrawal(shares);
+        
+        // Bound wait time (10 sec cooldown, no expiry)
+        waitTime = bound(waitTime, 0, 30 days);
+        vm.warp(block.timestamp + waitTime);
+        
+        (uint256 reqShares,,,bool canWithdraw,) = housePool.getWithdrawalRequest(lp1);
+        
+        assertEq(reqShares, shares);
+        if (waitTime < 10) {
+            // Before cooldown
+            assertFalse(canWithdraw);
+        } else {
+            // Unlocked, and stays unlocked
+            assertTrue(canWithdraw);
+        }
+    }
+    
+    /// @dev Registers a second mock strategy and sets the two weights, waiting out both delays
+    function _addStrategy(uint256 defaultWeight, uint256 otherWeight) internal returns (MockFleetCommander otherVault) {
+        otherVault = new MockFleetCommander(address(usdc));
+        vaultManager.proposeStrategy(address(otherVault));
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.addStrategy(address(otherVault));
+        
+        uint256[] memory weights = new uint256[](2);
+        weights[0] = defaultWeight;
+        weights[1] = otherWeight;
+        vaultManager.setWeights(weights);
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.applyWeights();
+    }
+}
+
+/* ========== DICE GAME TESTS ========== */
+
+contract DiceGameTest is Test {
+    HousePool public housePool;
+    DiceGame public diceGame;
+    VaultManager public vaultManager;
+    MockUSDC public usdc;
+    MockFleetCommander public mockVault;
+    
+    address public lp1 = address(2);
+    address public player1 = address(4);
+    address public player2 = address(5);
+    
+    uint256 constant INITIAL_USDC = 10_000 * 10**6;
+    
+    function setUp() public {
+        usdc = new MockUSDC();
+        mockVault = new MockFleetCommander(address(usdc));
+        diceGame = new DiceGame(address(usdc), address(mockVault));
+        housePool = diceGame.housePool();
+        vaultManager = diceGame.vaultManager();
+        
+        usdc.mint(lp1, INITIAL_USDC);
+        usdc.mint(player1, INITIAL_USDC);
+        usdc.mint(player2, INITIAL_USDC);
+        
+        // LPs approve HousePool for deposits
+        vm.prank(lp1);
+        usdc.approve(address(housePool), type(uint256).max);
+        
+        // Players approve HousePool for game payments
+        vm.prank(player1);
+        usdc.approve(address(housePool), type(uint256).max);
+        
+        vm.prank(player2);
+        usdc.approve(address(housePool), type(uint256).max);
+    }
+    
+    function test_CommitRoll() public {
+        // Setup: LP deposits enough for gambling
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret_123");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+        
+        (bytes32 hash, uint256 blockNum, bool canReveal, bool isExpired) = 
+            diceGame.getCommitment(player1);
+        
+        assertEq(hash, commitment);
+        assertEq(blockNum, block.number);
+        assertFalse(canReveal); // Can't reveal same block
+        assertFalse(isExpired);
+        
+        // USDC transferred to pool (deposit + roll cost)
+        assertEq(housePool.totalPool(), 200 * 10**6 + diceGame.ROLL_COST());
+    }
+    
+    function test_CommitRollWithPermit() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        // Fresh player with no allowance
+        uint256 playerKey = 0xA11CE;
+        address player = vm.addr(playerKey);
+        usdc.mint(player, INITIAL_USDC);
+        
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = vm.sign(playerKey, _permitDigest(player, deadline));
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("permit_secret")));
+        vm.prank(player);
+        diceGame.commitRollWithPermit(commitment, deadline, v, r, s);
+        
+        (bytes32 hash, uint256 blockNum,,) = diceGame.getCommitment(player);
+        assertEq(hash, commitment);
+        assertEq(blockNum, block.number);
+        assertEq(usdc.balanceOf(player), INITIAL_USDC - diceGame.ROLL_COST());
+        assertEq(usdc.allowance(player, address(housePool)), 0);
+    }
+    
+    function test_CommitRollWithPermit_InvalidPermit_UsesExistingAllowance() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        // player1 already approved HousePool in setUp, so a bad permit is ignored
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("my_secret")));
+        vm.prank(player1);
+        diceGame.commitRollWithPermit(commitment, block.timestamp, 27, bytes32(0), bytes32(0));
+        
+        (bytes32 hash,,,) = diceGame.getCommitment(player1);
+        assertEq(hash, commitment);
+    }
+    
+    function test_CommitRollWithPermit_InvalidPermit_NoAllowance_Reverts() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        address player = address(6);
+        usdc.mint(player, INITIAL_USDC);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("my_secret")));
+        vm.prank(player);
+        vm.expectRevert();
+        diceGame.commitRollWithPermit(commitment, block.timestamp, 27, bytes32(0), bytes32(0));
+    }
+    
+    function _permitDigest(address owner, uint256 deadline) internal view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(
+            keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"),
+            owner,
+            address(housePool),
+            diceGame.ROLL_COST(),
+            usdc.nonces(owner),
+            deadline
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", usdc.DOMAIN_SEPARATOR(), structHash));
+    }
+    
+    function test_CommitRoll_InsufficientPool_Reverts() public {
+        // No deposits - pool is empty
+        bytes32 secret = bytes32("my_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.GameNotPlayable.selector);
+        diceGame.commitRoll(commitment);
+    }
+    
+    function test_RevealRoll_TooEarly_Reverts() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+        
+        // Try to reveal in same block - should fail
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.TooEarly.selector);
+        diceGame.revealRoll(secret);
+    }
+    
+    function test_RevealRoll_AfterOneBlock_Success() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+        
+        // Advance 1 block - should now work
+        vm.roll(block.number + 1);
+        
+        vm.prank(player1);
+        diceGame.revealRoll(secret); // Should succeed
+        
+        // Commitment should be cleared
+        (bytes32 hash,,,) = diceGame.getCommitment(player1);
+        assertEq(hash, bytes32(0));
+    }
+    
+    function test_RevealRoll_Success() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+        
+        // Advance 2 blocks
+        vm.roll(block.number + 2);
+        
+        uint256 poolBefore = housePool.totalPool();
+        
+        vm.prank(player1);
+        bool won = diceGame.revealRoll(secret);
+        
+        // Commitment should be cleared
+        (bytes32 hash,,,) = diceGame.getCommitment(player1);
+        assertEq(hash, bytes32(0));
+        
+        // Pool should change based on win/loss
+        if (won) {
+            assertEq(housePool.totalPool(), poolBefore - diceGame.ROLL_PAYOUT()); // 1 USDC payout
+        } else {
+            assertEq(housePool.totalPool(), poolBefore); // No change (already received 0.1 USDC)
+        }
+    }
+    
+    function test_RevealRoll_TooLate_Reverts() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+        
+        // Advance 257 blocks (past the 256 block limit)
+        vm.roll(block.number + 257);
+        
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.TooLate.selector);
+        diceGame.revealRoll(secret);
+    }
+    
+    function test_CheckRoll() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("my_secret");
         bytes32 commitment = keccak256(abi.encodePacked(secret));
         
         vm.prank(player1);
@@ -745,6 +1495,7 @@ contract DiceGameTest is Test {
         uint256 mostShares = (housePool.balanceOf(lp1) * 99) / 100;
         vm.prank(lp1);
         housePool.requestWithdrawal(mostShares);
+        vm.warp(block.timestamp + housePool.WITHDRAWAL_DELAY());
         
         // Effective pool should now be below threshold
         assertTrue(housePool.effectivePool() < minRequired);
@@ -756,6 +1507,264 @@ contract DiceGameTest is Test {
         diceGame.commitRoll(commitment);
     }
     
+    function test_CommitRolls() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("batch_secret")));
+        uint8 defaultTier = diceGame.DEFAULT_TIER();
+        
+        vm.prank(player1);
+        diceGame.commitRolls(commitment, 5, defaultTier);
+        
+        (bytes32 hash, uint256 blockNum, uint256 rolls, uint8 tier) = diceGame.commits(player1);
+        assertEq(hash, commitment);
+        assertEq(blockNum, block.number);
+        assertEq(rolls, 5);
+        assertEq(tier, defaultTier);
+        assertEq(usdc.balanceOf(player1), balanceBefore - 5 * diceGame.ROLL_COST());
+    }
+    
+    function test_CommitRolls_InvalidCount_Reverts() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("batch_secret")));
+        uint256 tooMany = diceGame.MAX_ROLLS() + 1;
+        uint8 tier = diceGame.DEFAULT_TIER();
+        
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.InvalidRollCount.selector);
+        diceGame.commitRolls(commitment, 0, tier);
+        
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.InvalidRollCount.selector);
+        diceGame.commitRolls(commitment, tooMany, tier);
+    }
+    
+    function test_CommitRolls_ReserveCoversWholeBatch() public {
+        // Exactly enough for a batch of 2 to win every roll
+        uint256 reserve = diceGame.MIN_RESERVE() + 2 * diceGame.ROLL_PAYOUT();
+        vm.prank(lp1);
+        housePool.deposit(reserve);
+        
+        uint8 tier = diceGame.DEFAULT_TIER();
+        assertTrue(diceGame.canPlayRolls(2, tier));
+        assertFalse(diceGame.canPlayRolls(3, tier));
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("batch_secret")));
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.GameNotPlayable.selector);
+        diceGame.commitRolls(commitment, 3, tier);
+        
+        vm.prank(player1);
+        diceGame.commitRolls(commitment, 2, tier);
+    }
+    
+    function test_RevealRolls_PaysEveryWinner() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("batch_secret");
+        bytes32 commitment = keccak256(abi.encodePacked(secret));
+        uint256 rolls = diceGame.MAX_ROLLS();
+        uint8 tier = diceGame.DEFAULT_TIER();
+        
+        vm.prank(player1);
+        diceGame.commitRolls(commitment, rolls, tier);
+        
+        vm.roll(block.number + 1);
+        
+        (bool canCheck, bool[] memory results, uint256 totalPayout) = diceGame.checkRolls(player1, secret);
+        assertTrue(canCheck);
+        assertEq(results.length, rolls);
+        
+        uint256 wins;
+        for (uint256 i = 0; i < results.length; i++) {
+            if (results[i]) wins++;
+        }
+        assertEq(totalPayout, wins * diceGame.ROLL_PAYOUT());
+        
+        (, bool isWinner) = diceGame.checkRoll(player1, secret);
+        assertEq(isWinner, wins > 0);
+        
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        vm.prank(player1);
+        bool won = diceGame.revealRoll(secret);
+        
+        assertEq(won, wins > 0);
+        assertEq(usdc.balanceOf(player1), balanceBefore + totalPayout);
+    }
+    
+    function test_Tiers_SameHouseEdge() public view {
+        (uint256[] memory modulos, uint256[] memory payouts) = diceGame.getTiers();
+        assertEq(modulos.length, diceGame.TIER_COUNT());
+        
+        // Default tier is the original 1/11 game
+        assertEq(diceGame.tierModulo(diceGame.DEFAULT_TIER()), diceGame.WIN_MODULO());
+        assertEq(diceGame.tierPayout(diceGame.DEFAULT_TIER()), diceGame.ROLL_PAYOUT());
+        
+        // Expected return per roll (payout / modulo) is ~91% of the cost on every tier
+        uint256 expectedReturn = diceGame.ROLL_PAYOUT() / diceGame.WIN_MODULO();
+        for (uint256 i = 0; i < modulos.length; i++) {
+            assertApproxEqAbs(payouts[i] / modulos[i], expectedReturn, 1);
+        }
+    }
+    
+    function test_Tiers_ReserveScalesWithPayout() public {
+        // Enough for the default tier but not for a 1/100 roll
+        vm.prank(lp1);
+        housePool.deposit(20 * 10**6);
+        
+        assertTrue(diceGame.canPlayRolls(1, diceGame.DEFAULT_TIER()));
+        assertFalse(diceGame.canPlayRolls(1, 3));
+        assertEq(diceGame.requiredReserve(1, 3), diceGame.MIN_RESERVE() * 9090909 / 1e6 + 9090909);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("long_shot")));
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.GameNotPlayable.selector);
+        diceGame.commitRolls(commitment, 1, 3);
+    }
+    
+    function test_Tiers_CoinFlipPaysTierPayout() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        bytes32 secret = bytes32("coin_flip");
+        vm.prank(player1);
+        diceGame.commitRolls(keccak256(abi.encodePacked(secret)), 10, 0);
+        
+        vm.roll(block.number + 1);
+        
+        (, bool[] memory results, uint256 totalPayout) = diceGame.checkRolls(player1, secret);
+        uint256 wins;
+        for (uint256 i = 0; i < results.length; i++) {
+            if (results[i]) wins++;
+        }
+        assertEq(totalPayout, wins * diceGame.tierPayout(0));
+        
+        uint256 balanceBefore = usdc.balanceOf(player1);
+        vm.prank(player1);
+        diceGame.revealRoll(secret);
+        assertEq(usdc.balanceOf(player1), balanceBefore + totalPayout);
+    }
+    
+    function test_Tiers_InvalidTier_Reverts() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        uint8 invalidTier = diceGame.TIER_COUNT();
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("secret")));
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.InvalidTier.selector);
+        diceGame.commitRolls(commitment, 1, invalidTier);
+    }
+    
+    function test_Limits_DailySpendCap() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        uint256 cap = 3 * diceGame.ROLL_COST();
+        uint8 tier = diceGame.DEFAULT_TIER();
+        vm.prank(player1);
+        diceGame.setLimits(cap, 0);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("secret")));
+        vm.prank(player1);
+        diceGame.commitRolls(commitment, 3, tier);
+        
+        (uint256 spendLeft, , ) = diceGame.remainingAllowance(player1);
+        assertEq(spendLeft, 0);
+        
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.DailySpendLimitExceeded.selector);
+        diceGame.commitRoll(commitment);
+        
+        // Next UTC day the cap resets
+        vm.warp(block.timestamp + 1 days);
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+    }
+    
+    function test_Limits_MaxRollsPerHour() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        uint8 tier = diceGame.DEFAULT_TIER();
+        vm.prank(player1);
+        diceGame.setLimits(0, 5);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("secret")));
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.HourlyRollLimitExceeded.selector);
+        diceGame.commitRolls(commitment, 6, tier);
+        
+        vm.prank(player1);
+        diceGame.commitRolls(commitment, 5, tier);
+        
+        vm.warp(block.timestamp + 1 hours);
+        (, uint256 rollsLeft, ) = diceGame.remainingAllowance(player1);
+        assertEq(rollsLeft, 5);
+    }
+    
+    function test_Limits_SelfExclusion() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        vm.prank(player1);
+        diceGame.selfExclude(7 days);
+        
+        // Can't be shortened
+        vm.prank(player1);
+        diceGame.selfExclude(1 days);
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("secret")));
+        vm.warp(block.timestamp + 6 days);
+        vm.prank(player1);
+        vm.expectRevert(DiceGame.SelfExcluded.selector);
+        diceGame.commitRoll(commitment);
+        
+        vm.warp(block.timestamp + 1 days);
+        vm.prank(player1);
+        diceGame.commitRoll(commitment);
+    }
+    
+    function test_Limits_LooseningIsDelayed() public {
+        vm.prank(lp1);
+        housePool.deposit(200 * 10**6);
+        
+        vm.startPrank(player1);
+        diceGame.setLimits(1e6, 2);
+        
+        // Tightening applies immediately
+        diceGame.setLimits(5e5, 1);
+        (uint256 cap, uint256 maxRolls, , , , uint256 effectiveAt) = diceGame.getLimits(player1);
+        assertEq(cap, 5e5);
+        assertEq(maxRolls, 1);
+        assertEq(effectiveAt, 0);
+        
+        // Removing the roll limit waits for the delay
+        diceGame.setLimits(5e5, 0);
+        (cap, maxRolls, , , , effectiveAt) = diceGame.getLimits(player1);
+        assertEq(maxRolls, 1);
+        assertEq(effectiveAt, block.timestamp + diceGame.LIMIT_LOOSEN_DELAY());
+        
+        bytes32 commitment = keccak256(abi.encodePacked(bytes32("secret")));
+        uint8 tier = diceGame.DEFAULT_TIER();
+        vm.expectRevert(DiceGame.HourlyRollLimitExceeded.selector);
+        diceGame.commitRolls(commitment, 2, tier);
+        
+        vm.warp(effectiveAt);
+        diceGame.commitRolls(commitment, 2, tier);
+        vm.stopPrank();
+        
+        (cap, maxRolls, , , , effectiveAt) = diceGame.getLimits(player1);
+        assertEq(cap, 5e5);
+        assertEq(maxRolls, 0);
+        assertEq(effectiveAt, 0);
+    }
+    
     function test_CanPlay() public {
         // Empty pool - can't play
         assertFalse(diceGame.canPlay());
@@ -814,7 +1823,7 @@ contract VaultManagerTest is Test {
     function setUp() public {
         usdc = new MockUSDC();
         mockVault = new MockFleetCommander(address(usdc));
-        vaultManager = new VaultManager(address(mockVault), address(usdc));
+        vaultManager = new VaultManager(address(mockVault), address(usdc), address(this));
     }
     
     function test_SetHousePool() public {
@@ -887,6 +1896,268 @@ contract VaultManagerTest is Test {
         assertEq(vaultManager.getTotalValue(), 80 * 10**6);
     }
     
+    function test_AccruedYield_SeparatedFromPrincipal() public {
+        vaultManager.setHousePool(housePool);
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        // 5 USDC of yield on 100 USDC principal
+        mockVault.simulateYield(5 * 10**6);
+        assertEq(vaultManager.netPrincipal(), 100 * 10**6);
+        assertApproxEqAbs(vaultManager.accruedYield(), int256(5 * 10**6), 1);
+        
+        // Withdrawing reduces principal but not the yield already earned
+        vm.prank(housePool);
+        vaultManager.withdrawFromVault(40 * 10**6);
+        assertEq(vaultManager.totalWithdrawn(), 40 * 10**6);
+        assertEq(vaultManager.netPrincipal(), 60 * 10**6);
+        assertApproxEqAbs(vaultManager.accruedYield(), int256(5 * 10**6), 1);
+        
+        // Withdrawing everything leaves no principal, yield stays accounted for
+        vm.prank(housePool);
+        vaultManager.withdrawFromVault(0);
+        assertEq(vaultManager.netPrincipal(), 0);
+        assertApproxEqAbs(vaultManager.accruedYield(), int256(5 * 10**6), 1);
+    }
+    
+    function test_RunningApy() public {
+        vaultManager.setHousePool(housePool);
+        assertEq(vaultManager.runningApy(), 0);
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        // 5 USDC on 100 USDC held for half a year = 10% APY
+        vm.warp(block.timestamp + 365 days / 2);
+        mockVault.simulateYield(5 * 10**6);
+        assertApproxEqAbs(vaultManager.runningApy(), 1000, 1);
+    }
+    
+    function test_Strategies_DefaultToFleetCommander() public view {
+        assertEq(vaultManager.owner(), address(this));
+        assertEq(vaultManager.strategyCount(), 1);
+        
+        (address[] memory vaults, uint256[] memory weights, , , ) = vaultManager.getStrategies();
+        assertEq(vaults[0], address(mockVault));
+        assertEq(weights[0], vaultManager.TOTAL_WEIGHT());
+    }
+    
+    function test_AddStrategy_SplitsDepositsByWeight() public {
+        vaultManager.setHousePool(housePool);
+        MockFleetCommander otherVault = _addStrategy(6_000, 4_000);
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        (, , uint256[] memory values, , ) = vaultManager.getStrategies();
+        assertEq(values[0], 60 * 10**6);
+        assertEq(values[1], 40 * 10**6);
+        assertEq(otherVault.balanceOf(address(vaultManager)), 40 * 10**6);
+        assertEq(vaultManager.getCurrentValue(), 100 * 10**6);
+        assertEq(vaultManager.netPrincipal(), 100 * 10**6);
+    }
+    
+    function test_AddStrategy_Validation() public {
+        MockFleetCommander otherVault = new MockFleetCommander(address(usdc));
+        
+        vm.prank(address(0xBAD));
+        vm.expectRevert(VaultManager.Unauthorized.selector);
+        vaultManager.proposeStrategy(address(otherVault));
+        
+        vm.expectRevert(VaultManager.StrategyAlreadyRegistered.selector);
+        vaultManager.proposeStrategy(address(mockVault));
+        
+        MockFleetCommander wrongAsset = new MockFleetCommander(address(new MockUSDC()));
+        vm.expectRevert(VaultManager.AssetMismatch.selector);
+        vaultManager.proposeStrategy(address(wrongAsset));
+        
+        // Never proposed
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.addStrategy(address(otherVault));
+    }
+    
+    function test_AddStrategy_WaitsForDelay() public {
+        MockFleetCommander otherVault = new MockFleetCommander(address(usdc));
+        vaultManager.proposeStrategy(address(otherVault));
+        assertEq(vaultManager.strategyReadyAt(address(otherVault)), block.timestamp + vaultManager.STRATEGY_DELAY());
+        
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY() - 1);
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.addStrategy(address(otherVault));
+        
+        // A cancelled proposal has to start over
+        vaultManager.cancelStrategy(address(otherVault));
+        vm.warp(block.timestamp + 1);
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.addStrategy(address(otherVault));
+        
+        vaultManager.proposeStrategy(address(otherVault));
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.addStrategy(address(otherVault));
+        assertEq(vaultManager.strategyCount(), 2);
+        assertEq(vaultManager.strategyReadyAt(address(otherVault)), 0);
+    }
+    
+    function test_SetWeights_WaitsForDelay() public {
+        vaultManager.setHousePool(housePool);
+        MockFleetCommander otherVault = _addStrategy(10_000, 0);
+        
+        uint256[] memory weights = new uint256[](2);
+        weights[1] = 10_000;
+        vaultManager.setWeights(weights);
+        
+        // Nothing changes until the delay has passed, so funds keep going to the current targets
+        (, uint256[] memory current, , , ) = vaultManager.getStrategies();
+        assertEq(current[1], 0);
+        (uint256[] memory pending, uint256 readyAt) = vaultManager.getPendingWeights();
+        assertEq(pending[1], 10_000);
+        assertEq(readyAt, block.timestamp + vaultManager.STRATEGY_DELAY());
+        
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.applyWeights();
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        assertEq(otherVault.balanceOf(address(vaultManager)), 0);
+        
+        // Anyone applies them once they are due
+        vm.warp(readyAt);
+        vm.prank(address(0xCAFE));
+        vaultManager.applyWeights();
+        (, current, , , ) = vaultManager.getStrategies();
+        assertEq(current[0], 0);
+        assertEq(current[1], 10_000);
+        (pending, readyAt) = vaultManager.getPendingWeights();
+        assertEq(pending.length, 0);
+        assertEq(readyAt, 0);
+    }
+    
+    function test_SetWeights_ClearedByCancelAndRegistryChanges() public {
+        _addStrategy(5_000, 5_000);
+        
+        uint256[] memory weights = new uint256[](2);
+        weights[0] = 10_000;
+        vaultManager.setWeights(weights);
+        vaultManager.cancelWeights();
+        
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.applyWeights();
+        
+        // Registering a strategy reorders the registry, so weights scheduled before it are dropped
+        MockFleetCommander thirdVault = new MockFleetCommander(address(usdc));
+        vaultManager.proposeStrategy(address(thirdVault));
+        vaultManager.setWeights(weights);
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.addStrategy(address(thirdVault));
+        
+        vm.expectRevert(VaultManager.ChangeNotReady.selector);
+        vaultManager.applyWeights();
+        
+        vm.prank(address(0xBAD));
+        vm.expectRevert(VaultManager.Unauthorized.selector);
+        vaultManager.cancelWeights();
+    }
+    
+    function test_SetWeights_MustSumToTotal() public {
+        _addStrategy(10_000, 0);
+        
+        uint256[] memory weights = new uint256[](2);
+        weights[0] = 5_000;
+        weights[1] = 4_000;
+        vm.expectRevert(VaultManager.InvalidWeights.selector);
+        vaultManager.setWeights(weights);
+        
+        vm.expectRevert(VaultManager.InvalidWeights.selector);
+        vaultManager.setWeights(new uint256[](1));
+    }
+    
+    function test_WithdrawFromVault_DrawsOverweightStrategiesFirst() public {
+        vaultManager.setHousePool(housePool);
+        MockFleetCommander otherVault = _addStrategy(5_000, 5_000);
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        // Shift the target: the default vault is now overweight by 30
+        _setWeights(2_000, 8_000);
+        
+        vm.prank(housePool);
+        vaultManager.withdrawFromVault(30 * 10**6);
+        assertEq(mockVault.maxWithdraw(address(vaultManager)), 20 * 10**6);
+        assertEq(otherVault.maxWithdraw(address(vaultManager)), 50 * 10**6);
+        assertEq(usdc.balanceOf(housePool), 30 * 10**6);
+        
+        // Beyond the overweight part, any liquid strategy pays
+        vm.prank(housePool);
+        vaultManager.withdrawFromVault(60 * 10**6);
+        assertEq(vaultManager.getCurrentValue(), 10 * 10**6);
+        assertEq(usdc.balanceOf(housePool), 90 * 10**6);
+    }
+    
+    function test_RemoveStrategy_MovesFundsToOthers() public {
+        vaultManager.setHousePool(housePool);
+        MockFleetCommander otherVault = _addStrategy(5_000, 5_000);
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        vm.expectRevert(VaultManager.StrategyHasWeight.selector);
+        vaultManager.removeStrategy(address(otherVault));
+        
+        _setWeights(10_000, 0);
+        vaultManager.removeStrategy(address(otherVault));
+        
+        assertEq(vaultManager.strategyCount(), 1);
+        assertEq(mockVault.maxWithdraw(address(vaultManager)), 100 * 10**6);
+        assertEq(otherVault.balanceOf(address(vaultManager)), 0);
+        assertEq(vaultManager.netPrincipal(), 100 * 10**6);
+    }
+    
+    function test_RemoveStrategy_RedeemsEveryShare() public {
+        vaultManager.setHousePool(housePool);
+        MockFleetCommander otherVault = _addStrategy(5_000, 5_000);
+        
+        usdc.mint(address(vaultManager), 100 * 10**6);
+        vm.prank(housePool);
+        vaultManager.depositIntoVault(0);
+        
+        // Another depositor and uneven yield: the vault's share price no longer divides evenly
+        usdc.mint(address(this), 3);
+        usdc.approve(address(otherVault), 3);
+        otherVault.deposit(3, address(this));
+        otherVault.simulateYield(7);
+        uint256 held = otherVault.convertToAssets(otherVault.balanceOf(address(vaultManager)));
+        
+        _setWeights(10_000, 0);
+        vaultManager.removeStrategy(address(otherVault));
+        
+        assertEq(otherVault.balanceOf(address(vaultManager)), 0);
+        assertEq(mockVault.maxWithdraw(address(vaultManager)), 50 * 10**6 + held);
+    }
+    
+    function test_RemoveStrategy_KeepsFleetCommander() public {
+        vaultManager.setHousePool(housePool);
+        _addStrategy(0, 10_000);
+        
+        vm.expectRevert(VaultManager.CannotRemoveFleetCommander.selector);
+        vaultManager.removeStrategy(address(mockVault));
+    }
+    
+    function test_Rebalance_OnlyHousePool() public {
+        vaultManager.setHousePool(housePool);
+        
+        vm.expectRevert(VaultManager.Unauthorized.selector);
+        vaultManager.rebalance(0);
+    }
+    
     function test_EmergencyWithdraw() public {
         vaultManager.setHousePool(housePool);
         usdc.mint(address(vaultManager), 100 * 10**6);
@@ -899,4 +2170,24 @@ contract VaultManagerTest is Test {
         assertEq(usdc.balanceOf(recipient), 50 * 10**6);
         assertEq(usdc.balanceOf(address(vaultManager)), 50 * 10**6);
     }
+    
+    /// @dev Registers a second mock strategy and sets the two weights, waiting out both delays
+    function _addStrategy(uint256 defaultWeight, uint256 otherWeight) internal returns (MockFleetCommander otherVault) {
+        otherVault = new MockFleetCommander(address(usdc));
+        vaultManager.proposeStrategy(address(otherVault));
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.addStrategy(address(otherVault));
+        
+        _setWeights(defaultWeight, otherWeight);
+    }
+    
+    /// @dev Schedules and applies the weights of the two strategies
+    function _setWeights(uint256 defaultWeight, uint256 otherWeight) internal {
+        uint256[] memory weights = new uint256[](2);
+        weights[0] = defaultWeight;
+        weights[1] = otherWeight;
+        vaultManager.setWeights(weights);
+        vm.warp(block.timestamp + vaultManager.STRATEGY_DELAY());
+        vaultManager.applyWeights();
+    }
 }
@@ -0,0 +1,36 @@
+import { parseAbi } from "viem";
+
+export const diceGameEvents = parseAbi([
+  "event RollCommitted(address indexed player, bytes32 commitment, uint256 rolls, uint8 tier)",
+  "event RollRevealed(address indexed player, bool won, uint256 payout, uint256 rolls, uint256 wins)",
+]);
+
+export const housePoolEvents = parseAbi([
+  "event Deposit(address indexed sender, address indexed owner, uint256 assets, uint256 shares)",
+  "event Withdraw(address indexed sender, address indexed receiver, address indexed owner, uint256 assets, uint256 shares)",
+  "event WithdrawalRequested(address indexed lp, uint256 shares, uint256 unlockTime, uint256 queueId)",
+  "event WithdrawalCancelled(address indexed lp, uint256 shares)",
+  "event EmergencyExit(address indexed lp, uint256 sharesIn, uint256 usdcOut)",
+  "event PaymentReceived(address indexed player, uint256 amount)",
+  "event PayoutSent(address indexed player, uint256 amount)",
+  "event PayoutDeferred(address indexed player, uint256 amount)",
+  "event OwedClaimed(address indexed player, uint256 amount)",
+  "event DepositedToVault(uint256 amount)",
+  "event WithdrawnFromVault(uint256 amount)",
+  "event VaultRebalanced(uint256 amount)",
+  "event VaultUnwound(uint256 amount)",
+]);
+
+export const vaultManagerEvents = parseAbi([
+  "event DepositedIntoVault(uint256 usdcAmount, uint256 sharesReceived)",
+  "event WithdrawnFromVault(uint256 usdcAmount, uint256 sharesBurned)",
+  "event Rebalanced(uint256 usdcMoved)",
+]);
+
+// Read at every block with HousePool events to build the pool snapshots
+export const housePoolViews = parseAbi([
+  "function totalPool() view returns (uint256)",
+  "function vaultPool() view returns (uint256)",
+  "function totalSupply() view returns (uint256)",
+  "function sharePrice() view returns (uint256)",
+]);
@@ -0,0 +1,77 @@
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { Address, getAddress } from "viem";
+
+/**
+ * Indexer settings, read from INDEXER_* environment variables.
+ *
+ * Both the indexer (run from packages/indexer) and the Next.js API routes (run from packages/nextjs) resolve paths
+ * from their package directory, so `..` is the packages folder for either of them.
+ */
+
+const PACKAGES_DIR = path.resolve(process.cwd(), "..");
+
+export type IndexedContracts = {
+  diceGame: Address;
+  housePool: Address;
+  vaultManager: Address;
+};
+
+export type IndexerConfig = {
+  rpcUrl: string;
+  chainId: number;
+  dbPath: string;
+  startBlock: bigint;
+  batchSize: number;
+  // Blocks kept behind the head, 0 on anvil
+  confirmations: number;
+  pollIntervalMs: number;
+};
+
+const readNumber = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 0) throw new Error(`${name} must be a non-negative integer`);
+  return parsed;
+};
+
+export const getChainId = () => readNumber("INDEXER_CHAIN_ID", 31337);
+
+export const getDbPath = (chainId = getChainId()) =>
+  process.env.INDEXER_DB_PATH || path.join(PACKAGES_DIR, "indexer", "data", `${chainId}.sqlite`);
+
+export const loadConfig = (): IndexerConfig => {
+  const chainId = getChainId();
+  return {
+    rpcUrl: process.env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    chainId,
+    dbPath: getDbPath(chainId),
+    startBlock: BigInt(readNumber("INDEXER_START_BLOCK", 0)),
+    batchSize: Math.max(readNumber("INDEXER_BATCH_SIZE", 2000), 1),
+    confirmations: readNumber("INDEXER_CONFIRMATIONS", 0),
+    pollIntervalMs: readNumber("INDEXER_POLL_INTERVAL_MS", 2000),
+  };
+};
+
+/**
+ * Contract addresses from the Foundry deployments file of `chainId` (written by `yarn deploy`)
+ */
+export const loadContracts = (chainId: number): IndexedContracts => {
+  const file = path.join(PACKAGES_DIR, "foundry", "deployments", `${chainId}.json`);
+  if (!existsSync(file)) throw new Error(`No deployments for chain ${chainId} at ${file}, run \`yarn deploy\` first`);
+
+  // { [address]: contractName, networkName }
+  const deployments: Record<string, string> = JSON.parse(readFileSync(file, "utf8"));
+  const find = (contractName: string) => {
+    const address = Object.keys(deployments).find(key => deployments[key] === contractName);
+    if (!address) throw new Error(`${contractName} is missing from ${file}`);
+    return getAddress(address);
+  };
+
+  return {
+    diceGame: find("DiceGame"),
+    housePool: find("HousePool"),
+    vaultManager: find("VaultManager"),
+  };
+};
@@ -0,0 +1,146 @@
+import Database from "better-sqlite3";
+import { mkdirSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * SQLite schema of the indexer.
+ *
+ * Every event row keeps its block number, so a reorg is undone by deleting the rows above the last good block.
+ * USDC amounts (6 decimals) fit SQLite integers and are summed in SQL; HOUSE shares (18 decimals) and the pool
+ * snapshots do not, so they are stored as decimal strings.
+ */
+
+const SCHEMA_VERSION = 2;
+
+export type IndexerDb = Database.Database;
+
+export type LpEventKind = "deposit" | "withdraw" | "request" | "cancel" | "emergency_exit";
+
+export type PaymentKind = "bet" | "payout" | "deferred" | "claimed";
+
+const TABLES = ["meta", "blocks", "rolls", "payments", "lp_events", "vault_events", "pool_snapshots"];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Blocks holding indexed events plus the end of every synced batch, checked for reorgs
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  -- One row per commitment, completed by its reveal
+  CREATE TABLE IF NOT EXISTS rolls (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    player TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    commitment TEXT NOT NULL,
+    rolls INTEGER NOT NULL,
+    tier INTEGER NOT NULL,
+    reveal_block INTEGER,
+    reveal_tx_hash TEXT,
+    won INTEGER,
+    wins INTEGER,
+    payout INTEGER,
+    UNIQUE (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS rolls_player ON rolls (player, block_number);
+  CREATE INDEX IF NOT EXISTS rolls_reveal_block ON rolls (reveal_block);
+
+  -- PaymentReceived (bet), PayoutSent (payout), PayoutDeferred (deferred: winnings owed as an IOU)
+  -- and OwedClaimed (claimed: IOU paid later) of the HousePool
+  CREATE TABLE IF NOT EXISTS payments (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    player TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('bet', 'payout', 'deferred', 'claimed')),
+    amount INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS payments_player ON payments (player, kind);
+
+  CREATE TABLE IF NOT EXISTS lp_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    lp TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('deposit', 'withdraw', 'request', 'cancel', 'emergency_exit')),
+    -- USDC in or out, NULL for requests and cancellations
+    assets INTEGER,
+    shares TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS lp_events_lp ON lp_events (lp, block_number);
+
+  -- USDC moved between the HousePool and the yield vault, seen from both contracts
+  CREATE TABLE IF NOT EXISTS vault_events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('HousePool', 'VaultManager')),
+    name TEXT NOT NULL,
+    amount INTEGER NOT NULL,
+    vault_shares TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  -- HousePool state at the end of every block with HousePool events
+  CREATE TABLE IF NOT EXISTS pool_snapshots (
+    block_number INTEGER PRIMARY KEY,
+    total_pool TEXT NOT NULL,
+    vault_pool TEXT NOT NULL,
+    total_supply TEXT NOT NULL,
+    share_price TEXT NOT NULL
+  );
+`;
+
+/**
+ * Open the database at `dbPath`. The indexer opens it read-write and creates the schema; the API routes open it
+ * read-only and fail if the indexer has not created it yet.
+ */
+export const openIndexerDb = (dbPath: string, { readonly = false }: { readonly?: boolean } = {}): IndexerDb => {
+  if (readonly) return new Database(dbPath, { readonly: true, fileMustExist: true });
+
+  mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  // Readers (the API routes) keep working while the indexer writes
+  db.pragma("journal_mode = WAL");
+  // Everything here is rebuilt from the chain, so an index with an older schema is dropped and reindexed
+  const version = db.pragma("user_version", { simple: true });
+  if (version !== 0 && version !== SCHEMA_VERSION) {
+    for (const table of TABLES) db.exec(`DROP TABLE IF EXISTS ${table}`);
+  }
+  db.exec(SCHEMA);
+  db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  return db;
+};
+
+export const getMeta = (db: IndexerDb, key: string) =>
+  (db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined)?.value;
+
+export const setMeta = (db: IndexerDb, key: string, value: string) =>
+  db
+    .prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value")
+    .run(key, value);
+
+/**
+ * Undo everything indexed after `blockNumber`
+ */
+export const deleteAfterBlock = (db: IndexerDb, blockNumber: number) =>
+  db.transaction(() => {
+    for (const table of ["rolls", "payments", "lp_events", "vault_events", "pool_snapshots"]) {
+      db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+    }
+    db.prepare(
+      "UPDATE rolls SET reveal_block = NULL, reveal_tx_hash = NULL, won = NULL, wins = NULL, payout = NULL WHERE reveal_block > ?",
+    ).run(blockNumber);
+    db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+    setMeta(db, "last_block", String(blockNumber));
+  })();
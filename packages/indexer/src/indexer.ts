@@ -0,0 +1,271 @@
+import { diceGameEvents, housePoolEvents, housePoolViews, vaultManagerEvents } from "./abis";
+import { IndexedContracts, IndexerConfig } from "./config";
+import { IndexerDb, LpEventKind, PaymentKind, deleteAfterBlock, getMeta, setMeta } from "./db";
+import { Hash, PublicClient } from "viem";
+
+// Newest synced blocks re-checked against the chain before every sync
+export const REORG_CHECK_DEPTH = 12;
+
+const indexedEvents = [...diceGameEvents, ...housePoolEvents, ...vaultManagerEvents];
+
+type IndexerParams = {
+  db: IndexerDb;
+  client: PublicClient;
+  config: IndexerConfig;
+  contracts: IndexedContracts;
+};
+
+const unique = (values: bigint[]) => [...new Set(values)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+/**
+ * Sync loop of the indexer: fetches the logs of the three contracts in batches of `config.batchSize` blocks and
+ * writes each batch, its block hashes and the pool snapshots in a single transaction, so an interrupted sync
+ * resumes after the last complete batch.
+ */
+export const createIndexer = ({ db, client, config, contracts }: IndexerParams) => {
+  const insertBlock = db.prepare(
+    "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)",
+  );
+  const insertCommit = db.prepare(
+    `INSERT INTO rolls (player, block_number, log_index, tx_hash, commitment, rolls, tier)
+     VALUES (@player, @blockNumber, @logIndex, @txHash, @commitment, @rolls, @tier)`,
+  );
+  // A player has one commitment at a time, so a reveal settles their latest unrevealed one
+  const revealRoll = db.prepare(
+    `UPDATE rolls SET reveal_block = @blockNumber, reveal_tx_hash = @txHash, won = @won, wins = @wins, payout = @payout
+     WHERE id = (
+       SELECT id FROM rolls WHERE player = @player AND reveal_block IS NULL
+       ORDER BY block_number DESC, log_index DESC LIMIT 1
+     )`,
+  );
+  const insertPayment = db.prepare(
+    `INSERT INTO payments (block_number, log_index, tx_hash, player, kind, amount)
+     VALUES (@blockNumber, @logIndex, @txHash, @player, @kind, @amount)`,
+  );
+  const insertLpEvent = db.prepare(
+    `INSERT INTO lp_events (block_number, log_index, tx_hash, lp, kind, assets, shares)
+     VALUES (@blockNumber, @logIndex, @txHash, @lp, @kind, @assets, @shares)`,
+  );
+  const insertVaultEvent = db.prepare(
+    `INSERT INTO vault_events (block_number, log_index, tx_hash, source, name, amount, vault_shares)
+     VALUES (@blockNumber, @logIndex, @txHash, @source, @name, @amount, @vaultShares)`,
+  );
+  const insertSnapshot = db.prepare(
+    `INSERT OR REPLACE INTO pool_snapshots (block_number, total_pool, vault_pool, total_supply, share_price)
+     VALUES (@blockNumber, @totalPool, @vaultPool, @totalSupply, @sharePrice)`,
+  );
+
+  const getLastBlock = () => {
+    const stored = getMeta(db, "last_block");
+    return stored === undefined ? config.startBlock - 1n : BigInt(stored);
+  };
+
+  const fetchLogs = (fromBlock: bigint, toBlock: bigint) =>
+    client.getLogs({
+      address: [contracts.diceGame, contracts.housePool, contracts.vaultManager],
+      events: indexedEvents,
+      fromBlock,
+      toBlock,
+      strict: true,
+    });
+
+  type IndexedLog = Awaited<ReturnType<typeof fetchLogs>>[number];
+
+  const readSnapshot = async (blockNumber: bigint) => {
+    const read = (functionName: (typeof housePoolViews)[number]["name"]) =>
+      client.readContract({ address: contracts.housePool, abi: housePoolViews, functionName, blockNumber });
+    const [totalPool, vaultPool, totalSupply, sharePrice] = await Promise.all([
+      read("totalPool"),
+      read("vaultPool"),
+      read("totalSupply"),
+      read("sharePrice"),
+    ]);
+    return {
+      blockNumber: Number(blockNumber),
+      totalPool: totalPool.toString(),
+      vaultPool: vaultPool.toString(),
+      totalSupply: totalSupply.toString(),
+      sharePrice: sharePrice.toString(),
+    };
+  };
+
+  const writeLog = (log: IndexedLog) => {
+    const position = { blockNumber: Number(log.blockNumber), logIndex: log.logIndex, txHash: log.transactionHash };
+    const lpEvent = (lp: string, kind: LpEventKind, assets: bigint | null, shares: bigint) =>
+      insertLpEvent.run({ ...position, lp, kind, assets, shares: shares.toString() });
+    const payment = (player: string, kind: PaymentKind, amount: bigint) =>
+      insertPayment.run({ ...position, player, kind, amount });
+
+    if (log.address.toLowerCase() === contracts.vaultManager.toLowerCase()) {
+      if (log.eventName === "WithdrawnFromVault" && "usdcAmount" in log.args) {
+        const { usdcAmount, sharesBurned } = log.args;
+        insertVaultEvent.run({
+          ...position,
+          source: "VaultManager",
+          name: log.eventName,
+          amount: usdcAmount,
+          vaultShares: sharesBurned.toString(),
+        });
+      } else if (log.eventName === "DepositedIntoVault") {
+        const { usdcAmount, sharesReceived } = log.args;
+        insertVaultEvent.run({
+          ...position,
+          source: "VaultManager",
+          name: log.eventName,
+          amount: usdcAmount,
+          vaultShares: sharesReceived.toString(),
+        });
+      } else if (log.eventName === "Rebalanced") {
+        insertVaultEvent.run({
+          ...position,
+          source: "VaultManager",
+          name: log.eventName,
+          amount: log.args.usdcMoved,
+          vaultShares: null,
+        });
+      }
+      return;
+    }
+
+    switch (log.eventName) {
+      case "RollCommitted":
+        insertCommit.run({
+          ...position,
+          player: log.args.player,
+          commitment: log.args.commitment,
+          rolls: log.args.rolls,
+          tier: log.args.tier,
+        });
+        break;
+      case "RollRevealed":
+        revealRoll.run({
+          blockNumber: position.blockNumber,
+          txHash: position.txHash,
+          player: log.args.player,
+          won: log.args.won ? 1 : 0,
+          wins: log.args.wins,
+          payout: log.args.payout,
+        });
+        break;
+      case "PaymentReceived":
+        payment(log.args.player, "bet", log.args.amount);
+        break;
+      case "PayoutSent":
+        payment(log.args.player, "payout", log.args.amount);
+        break;
+      case "PayoutDeferred":
+        payment(log.args.player, "deferred", log.args.amount);
+        break;
+      case "OwedClaimed":
+        payment(log.args.player, "claimed", log.args.amount);
+        break;
+      case "Deposit":
+        lpEvent(log.args.owner, "deposit", log.args.assets, log.args.shares);
+        break;
+      case "Withdraw":
+        lpEvent(log.args.owner, "withdraw", log.args.assets, log.args.shares);
+        break;
+      case "WithdrawalRequested":
+        lpEvent(log.args.lp, "request", null, log.args.shares);
+        break;
+      case "WithdrawalCancelled":
+        lpEvent(log.args.lp, "cancel", null, log.args.shares);
+        break;
+      case "EmergencyExit":
+        lpEvent(log.args.lp, "emergency_exit", log.args.usdcOut, log.args.sharesIn);
+        break;
+      case "DepositedToVault":
+      case "WithdrawnFromVault":
+      case "VaultRebalanced":
+      case "VaultUnwound":
+        if ("amount" in log.args) {
+          insertVaultEvent.run({
+            ...position,
+            source: "HousePool",
+            name: log.eventName,
+            amount: log.args.amount,
+            vaultShares: null,
+          });
+        }
+        break;
+    }
+  };
+
+  /**
+   * Drop whatever a reorg replaced: walk back from the newest stored block to the first one still on the chain.
+   * A restarted anvil fails every check and the index starts over.
+   */
+  const rollBackReorgs = async (head: bigint) => {
+    const stored = db
+      .prepare("SELECT number, hash FROM blocks ORDER BY number DESC LIMIT ?")
+      .all(REORG_CHECK_DEPTH) as { number: number; hash: Hash }[];
+    if (stored.length === 0) return;
+
+    for (const [index, { number, hash }] of stored.entries()) {
+      if (BigInt(number) > head) continue;
+      const block = await client.getBlock({ blockNumber: BigInt(number) });
+      if (block.hash !== hash) continue;
+      if (index > 0) {
+        console.log(`Reorg detected, rolling back to block ${number}`);
+        deleteAfterBlock(db, number);
+      }
+      return;
+    }
+
+    console.log("Reorg deeper than the checked blocks, reindexing from the start block");
+    deleteAfterBlock(db, Number(config.startBlock) - 1);
+  };
+
+  const syncBatch = async (fromBlock: bigint, toBlock: bigint) => {
+    const logs = await fetchLogs(fromBlock, toBlock);
+
+    const blockNumbers = unique([...logs.map(log => log.blockNumber), toBlock]);
+    const poolBlocks = unique(
+      logs.filter(log => log.address.toLowerCase() === contracts.housePool.toLowerCase()).map(log => log.blockNumber),
+    );
+    const [blocks, snapshots] = await Promise.all([
+      Promise.all(blockNumbers.map(blockNumber => client.getBlock({ blockNumber }))),
+      Promise.all(poolBlocks.map(readSnapshot)),
+    ]);
+
+    db.transaction(() => {
+      for (const block of blocks) {
+        insertBlock.run({ number: Number(block.number), hash: block.hash, timestamp: Number(block.timestamp) });
+      }
+      for (const log of logs) writeLog(log);
+      for (const snapshot of snapshots) insertSnapshot.run(snapshot);
+      setMeta(db, "last_block", toBlock.toString());
+    })();
+
+    return logs.length;
+  };
+
+  /**
+   * Index every confirmed block not indexed yet. Returns the last indexed block.
+   */
+  const syncOnce = async () => {
+    const chainId = await client.getChainId();
+    if (chainId !== config.chainId) throw new Error(`RPC is on chain ${chainId}, expected ${config.chainId}`);
+    const indexedChain = getMeta(db, "chain_id");
+    if (indexedChain === undefined) setMeta(db, "chain_id", String(chainId));
+    else if (Number(indexedChain) !== chainId) throw new Error(`${config.dbPath} indexes chain ${indexedChain}`);
+
+    const head = (await client.getBlockNumber()) - BigInt(config.confirmations);
+    await rollBackReorgs(head);
+
+    let lastBlock = getLastBlock();
+    while (lastBlock < head) {
+      const fromBlock = lastBlock + 1n;
+      const batchEnd = fromBlock + BigInt(config.batchSize) - 1n;
+      const toBlock = batchEnd < head ? batchEnd : head;
+
+      const count = await syncBatch(fromBlock, toBlock);
+      if (count > 0) console.log(`Indexed ${count} events in blocks ${fromBlock}-${toBlock}`);
+      lastBlock = toBlock;
+    }
+
+    return lastBlock;
+  };
+
+  return { syncOnce, getLastBlock };
+};
@@ -0,0 +1,396 @@
+import { IndexerDb, LpEventKind, getMeta } from "./db";
+import { Address, Hash } from "viem";
+
+/**
+ * Read side of the indexer, used by the Next.js API routes.
+ * Amounts are returned as decimal strings (USDC with 6 decimals, HOUSE shares with 18) so they survive JSON.
+ */
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 500;
+
+export type Page = {
+  limit?: number;
+  offset?: number;
+};
+
+const pageParams = ({ limit = DEFAULT_PAGE_SIZE, offset = 0 }: Page) => ({
+  limit: Math.min(Math.max(Math.floor(limit), 1), MAX_PAGE_SIZE),
+  offset: Math.max(Math.floor(offset), 0),
+});
+
+/* ========== STATUS ========== */
+
+export type IndexerStatus = {
+  chainId: number | null;
+  lastBlock: number | null;
+  lastBlockTimestamp: number | null;
+};
+
+export const getIndexerStatus = (db: IndexerDb): IndexerStatus => {
+  const chainId = getMeta(db, "chain_id");
+  const lastBlock = getMeta(db, "last_block");
+  const block =
+    lastBlock === undefined
+      ? undefined
+      : (db.prepare("SELECT timestamp FROM blocks WHERE number = ?").get(Number(lastBlock)) as
+          | { timestamp: number }
+          | undefined);
+  return {
+    chainId: chainId === undefined ? null : Number(chainId),
+    lastBlock: lastBlock === undefined ? null : Number(lastBlock),
+    lastBlockTimestamp: block?.timestamp ?? null,
+  };
+};
+
+/* ========== PLAYERS ========== */
+
+export const PLAYER_SORTS = ["wagered", "profit", "rolls", "recent"] as const;
+export type PlayerSort = (typeof PLAYER_SORTS)[number];
+
+const PLAYER_SORT_COLUMNS: Record<PlayerSort, string> = {
+  wagered: "wagered",
+  profit: "profit",
+  rolls: "rolls",
+  recent: "last_block",
+};
+
+export type PlayerStats = {
+  player: Address;
+  // Commitments, each buying `rolls` dice
+  sessions: number;
+  rolls: number;
+  wins: number;
+  wagered: string;
+  // USDC received: payouts plus IOUs claimed
+  paidOut: string;
+  // Winnings deferred as IOUs and not claimed yet
+  owed: string;
+  // paidOut + owed - wagered, negative when the house is up
+  profit: string;
+  lastBlock: number;
+  lastTimestamp: number | null;
+};
+
+type PlayerRow = {
+  player: Address;
+  sessions: number;
+  rolls: number;
+  wins: number;
+  wagered: number;
+  paid_out: number;
+  owed: number;
+  profit: number;
+  last_block: number;
+  last_timestamp: number | null;
+};
+
+const playerStatsQuery = (sort: PlayerSort) => `
+  WITH roll_stats AS (
+    SELECT player, COUNT(*) AS sessions, SUM(rolls) AS rolls, SUM(COALESCE(wins, 0)) AS wins,
+      MAX(block_number) AS last_block
+    FROM rolls GROUP BY player
+  ),
+  bets AS (SELECT player, SUM(amount) AS wagered FROM payments WHERE kind = 'bet' GROUP BY player),
+  -- A deferred payout is won when deferred and paid when claimed, so winnings are payout + deferred
+  payouts AS (
+    SELECT player,
+      SUM(CASE WHEN kind IN ('payout', 'claimed') THEN amount ELSE 0 END) AS paid_out,
+      SUM(CASE kind WHEN 'deferred' THEN amount WHEN 'claimed' THEN -amount ELSE 0 END) AS owed
+    FROM payments WHERE kind != 'bet' GROUP BY player
+  )
+  SELECT r.player, r.sessions, r.rolls, r.wins,
+    COALESCE(b.wagered, 0) AS wagered,
+    COALESCE(p.paid_out, 0) AS paid_out,
+    COALESCE(p.owed, 0) AS owed,
+    COALESCE(p.paid_out, 0) + COALESCE(p.owed, 0) - COALESCE(b.wagered, 0) AS profit,
+    r.last_block, blocks.timestamp AS last_timestamp
+  FROM roll_stats r
+  LEFT JOIN bets b ON b.player = r.player
+  LEFT JOIN payouts p ON p.player = r.player
+  LEFT JOIN blocks ON blocks.number = r.last_block
+  WHERE @player IS NULL OR r.player = @player
+  ORDER BY ${PLAYER_SORT_COLUMNS[sort]} DESC, r.player
+  LIMIT @limit OFFSET @offset
+`;
+
+const toPlayerStats = (row: PlayerRow): PlayerStats => ({
+  player: row.player,
+  sessions: row.sessions,
+  rolls: row.rolls,
+  wins: row.wins,
+  wagered: String(row.wagered),
+  paidOut: String(row.paid_out),
+  owed: String(row.owed),
+  profit: String(row.profit),
+  lastBlock: row.last_block,
+  lastTimestamp: row.last_timestamp,
+});
+
+export const getPlayers = (db: IndexerDb, { sort = "wagered", ...page }: Page & { sort?: PlayerSort } = {}) =>
+  (db.prepare(playerStatsQuery(sort)).all({ player: null, ...pageParams(page) }) as PlayerRow[]).map(toPlayerStats);
+
+export const getPlayer = (db: IndexerDb, player: Address) => {
+  const row = db.prepare(playerStatsQuery("recent")).get({ player, limit: 1, offset: 0 }) as PlayerRow | undefined;
+  return row ? toPlayerStats(row) : undefined;
+};
+
+/* ========== ROLLS ========== */
+
+export type IndexedRoll = {
+  player: Address;
+  commitment: Hash;
+  rolls: number;
+  tier: number;
+  blockNumber: number;
+  txHash: Hash;
+  timestamp: number | null;
+  // null until revealed
+  reveal: {
+    blockNumber: number;
+    txHash: Hash;
+    won: boolean;
+    wins: number;
+    payout: string;
+  } | null;
+};
+
+type RollRow = {
+  player: Address;
+  commitment: Hash;
+  rolls: number;
+  tier: number;
+  block_number: number;
+  tx_hash: Hash;
+  timestamp: number | null;
+  reveal_block: number | null;
+  reveal_tx_hash: Hash | null;
+  won: number | null;
+  wins: number | null;
+  payout: number | null;
+};
+
+/**
+ * Commitments newest first, with their reveal once there is one
+ */
+export const getRolls = (db: IndexerDb, { player, ...page }: Page & { player?: Address } = {}): IndexedRoll[] => {
+  const rows = db
+    .prepare(
+      `SELECT rolls.*, blocks.timestamp FROM rolls
+       LEFT JOIN blocks ON blocks.number = rolls.block_number
+       WHERE @player IS NULL OR player = @player
+       ORDER BY block_number DESC, log_index DESC
+       LIMIT @limit OFFSET @offset`,
+    )
+    .all({ player: player ?? null, ...pageParams(page) }) as RollRow[];
+
+  return rows.map(row => ({
+    player: row.player,
+    commitment: row.commitment,
+    rolls: row.rolls,
+    tier: row.tier,
+    blockNumber: row.block_number,
+    txHash: row.tx_hash,
+    timestamp: row.timestamp,
+    reveal:
+      row.reveal_block === null
+        ? null
+        : {
+            blockNumber: row.reveal_block,
+            txHash: row.reveal_tx_hash as Hash,
+            won: row.won === 1,
+            wins: row.wins ?? 0,
+            payout: String(row.payout ?? 0),
+          },
+  }));
+};
+
+/* ========== LP POSITIONS ========== */
+
+export type LpEvent = {
+  kind: LpEventKind;
+  assets: string | null;
+  shares: string;
+  blockNumber: number;
+  txHash: Hash;
+  timestamp: number | null;
+};
+
+/**
+ * An LP's flows through the HousePool. HOUSE transfers between wallets are not indexed, so `netShares` is what the
+ * LP minted minus what they redeemed, not necessarily their balance.
+ */
+export type LpPosition = {
+  lp: Address;
+  deposited: string;
+  withdrawn: string;
+  sharesMinted: string;
+  sharesRedeemed: string;
+  netShares: string;
+  // Requested and neither filled nor cancelled yet
+  pendingShares: string;
+  firstBlock: number;
+  lastBlock: number;
+};
+
+type LpEventRow = {
+  lp: Address;
+  kind: LpEventKind;
+  assets: number | null;
+  shares: string;
+  block_number: number;
+  tx_hash: Hash;
+  timestamp: number | null;
+};
+
+const toLpPositions = (rows: LpEventRow[]) => {
+  const totals = new Map<
+    Address,
+    {
+      deposited: bigint;
+      withdrawn: bigint;
+      minted: bigint;
+      redeemed: bigint;
+      pending: bigint;
+      firstBlock: number;
+      lastBlock: number;
+    }
+  >();
+
+  for (const row of rows) {
+    const total = totals.get(row.lp) ?? {
+      deposited: 0n,
+      withdrawn: 0n,
+      minted: 0n,
+      redeemed: 0n,
+      pending: 0n,
+      firstBlock: row.block_number,
+      lastBlock: row.block_number,
+    };
+    const assets = BigInt(row.assets ?? 0);
+    const shares = BigInt(row.shares);
+
+    if (row.kind === "deposit") {
+      total.deposited += assets;
+      total.minted += shares;
+    } else if (row.kind === "withdraw" || row.kind === "emergency_exit") {
+      total.withdrawn += assets;
+      total.redeemed += shares;
+      // Queue fills take the shares from the pending request, emergency exits from the wallet
+      if (row.kind === "withdraw") total.pending -= shares;
+    } else if (row.kind === "request") {
+      total.pending += shares;
+    } else {
+      total.pending -= shares;
+    }
+    total.lastBlock = row.block_number;
+    totals.set(row.lp, total);
+  }
+
+  return [...totals.entries()].map(
+    ([lp, total]): LpPosition => ({
+      lp,
+      deposited: total.deposited.toString(),
+      withdrawn: total.withdrawn.toString(),
+      sharesMinted: total.minted.toString(),
+      sharesRedeemed: total.redeemed.toString(),
+      netShares: (total.minted - total.redeemed).toString(),
+      pendingShares: (total.pending > 0n ? total.pending : 0n).toString(),
+      firstBlock: total.firstBlock,
+      lastBlock: total.lastBlock,
+    }),
+  );
+};
+
+const LP_EVENTS_QUERY = `
+  SELECT lp_events.*, blocks.timestamp FROM lp_events
+  LEFT JOIN blocks ON blocks.number = lp_events.block_number
+  WHERE @lp IS NULL OR lp = @lp
+  ORDER BY block_number, log_index
+`;
+
+/**
+ * Every LP that ever deposited, largest net share count first
+ */
+export const getLpPositions = (db: IndexerDb, page: Page = {}) => {
+  const { limit, offset } = pageParams(page);
+  const positions = toLpPositions(db.prepare(LP_EVENTS_QUERY).all({ lp: null }) as LpEventRow[]);
+  return positions
+    .sort((a, b) => {
+      const diff = BigInt(b.netShares) - BigInt(a.netShares);
+      return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+    })
+    .slice(offset, offset + limit);
+};
+
+/**
+ * One LP's position and their events, newest first
+ */
+export const getLpPosition = (db: IndexerDb, lp: Address, page: Page = {}) => {
+  const rows = db.prepare(LP_EVENTS_QUERY).all({ lp }) as LpEventRow[];
+  if (rows.length === 0) return undefined;
+
+  const { limit, offset } = pageParams(page);
+  const events = rows
+    .slice()
+    .reverse()
+    .slice(offset, offset + limit)
+    .map(
+      (row): LpEvent => ({
+        kind: row.kind,
+        assets: row.assets === null ? null : String(row.assets),
+        shares: row.shares,
+        blockNumber: row.block_number,
+        txHash: row.tx_hash,
+        timestamp: row.timestamp,
+      }),
+    );
+  return { position: toLpPositions(rows)[0], events };
+};
+
+/* ========== POOL SNAPSHOTS ========== */
+
+export type PoolSnapshot = {
+  blockNumber: number;
+  timestamp: number | null;
+  totalPool: string;
+  vaultPool: string;
+  totalSupply: string;
+  sharePrice: string;
+};
+
+type SnapshotRow = {
+  block_number: number;
+  timestamp: number | null;
+  total_pool: string;
+  vault_pool: string;
+  total_supply: string;
+  share_price: string;
+};
+
+/**
+ * HousePool state after every block that touched it, newest first, optionally within [fromBlock, toBlock]
+ */
+export const getPoolSnapshots = (
+  db: IndexerDb,
+  { fromBlock, toBlock, ...page }: Page & { fromBlock?: number; toBlock?: number } = {},
+): PoolSnapshot[] => {
+  const rows = db
+    .prepare(
+      `SELECT pool_snapshots.*, blocks.timestamp FROM pool_snapshots
+       LEFT JOIN blocks ON blocks.number = pool_snapshots.block_number
+       WHERE (@fromBlock IS NULL OR block_number >= @fromBlock) AND (@toBlock IS NULL OR block_number <= @toBlock)
+       ORDER BY block_number DESC
+       LIMIT @limit OFFSET @offset`,
+    )
+    .all({ fromBlock: fromBlock ?? null, toBlock: toBlock ?? null, ...pageParams(page) }) as SnapshotRow[];
+
+  return rows.map(row => ({
+    blockNumber: row.block_number,
+    timestamp: row.timestamp,
+    totalPool: row.total_pool,
+    vaultPool: row.vault_pool,
+    totalSupply: row.total_supply,
+    sharePrice: row.share_price,
+  }));
+};
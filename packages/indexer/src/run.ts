@@ -0,0 +1,46 @@
+import { loadConfig, loadContracts } from "./config";
+import { openIndexerDb } from "./db";
+import { createIndexer } from "./indexer";
+import { createPublicClient, http } from "viem";
+
+/**
+ * `yarn indexer`: index until stopped. `yarn indexer:sync` (`--once`) catches up to the head and exits.
+ */
+
+const once = process.argv.includes("--once");
+
+const config = loadConfig();
+const contracts = loadContracts(config.chainId);
+const db = openIndexerDb(config.dbPath);
+const client = createPublicClient({ transport: http(config.rpcUrl) });
+const indexer = createIndexer({ db, client, config, contracts });
+
+console.log(`Indexing chain ${config.chainId} from ${config.rpcUrl} into ${config.dbPath}`);
+
+let stopped = false;
+const stop = () => {
+  stopped = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+while (!stopped) {
+  try {
+    const lastBlock = await indexer.syncOnce();
+    if (once) {
+      console.log(`Synced to block ${lastBlock}`);
+      break;
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    if (once) {
+      process.exitCode = 1;
+      break;
+    }
+  }
+  await sleep(config.pollIntervalMs);
+}
+
+db.close();
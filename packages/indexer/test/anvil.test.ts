@@ -0,0 +1,131 @@
+import { getLpPosition, getPoolSnapshots, getRolls } from "../src";
+import { IndexerConfig } from "../src/config";
+import { IndexerDb, openIndexerDb } from "../src/db";
+import { createIndexer } from "../src/indexer";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+  Abi,
+  Address,
+  Hex,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  http,
+  keccak256,
+  maxUint256,
+  toHex,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+
+/**
+ * End-to-end sync against a real node. Opt-in, since it needs anvil and the Foundry build:
+ *
+ *   yarn chain & yarn compile
+ *   INDEXER_TEST_RPC_URL=http://127.0.0.1:8545 yarn workspace @se-2/indexer test
+ *
+ * DiceGame is deployed with the mock USDC and vault of the Foundry tests, so a plain anvil (no Base fork, chain id
+ * 31337) is enough. The chain is restored to its state before the test at the end.
+ */
+
+const RPC_URL = process.env.INDEXER_TEST_RPC_URL;
+const ARTIFACTS_DIR = path.resolve(process.cwd(), "..", "foundry", "out");
+
+// anvil's first default account
+const account = privateKeyToAccount("0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80");
+
+const USDC = 10n ** 6n;
+
+const count = (db: IndexerDb, table: string) =>
+  (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+describe("sync against anvil", { skip: !RPC_URL && "set INDEXER_TEST_RPC_URL to run against anvil" }, () => {
+  const transport = http(RPC_URL);
+  // No block number cache, so every sync sees the blocks just mined
+  const client = createPublicClient({ chain: foundry, transport, cacheTime: 0 });
+  const wallet = createWalletClient({ account, chain: foundry, transport });
+  const testClient = createTestClient({ chain: foundry, mode: "anvil", transport });
+
+  let snapshot: Hex;
+
+  const send = async (hash: Hex) => {
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    assert.equal(receipt.status, "success");
+    return receipt;
+  };
+
+  const deploy = async (file: string, contractName: string, args: unknown[] = []) => {
+    const artifact = JSON.parse(readFileSync(path.join(ARTIFACTS_DIR, file, `${contractName}.json`), "utf8"));
+    const abi = artifact.abi as Abi;
+    const receipt = await send(await wallet.deployContract({ abi, bytecode: artifact.bytecode.object, args }));
+    return { contract: { abi, address: receipt.contractAddress as Address }, deployBlock: receipt.blockNumber };
+  };
+
+  const write = async (contract: { abi: Abi; address: Address }, functionName: string, args: unknown[]) => {
+    return send(await wallet.writeContract({ ...contract, functionName, args }));
+  };
+
+  before(async () => {
+    snapshot = await testClient.snapshot();
+  });
+
+  after(async () => {
+    if (snapshot) await testClient.revert({ id: snapshot });
+  });
+
+  it("indexes a deployment, then rolls back a reorg", async () => {
+    const { contract: usdc } = await deploy("HousePool.t.sol", "MockUSDC");
+    const { contract: vault } = await deploy("HousePool.t.sol", "MockFleetCommander", [usdc.address]);
+    const { contract: diceGame, deployBlock } = await deploy("DiceGame.sol", "DiceGame", [usdc.address, vault.address]);
+    const housePoolAbi = JSON.parse(readFileSync(path.join(ARTIFACTS_DIR, "HousePool.sol", "HousePool.json"), "utf8"))
+      .abi as Abi;
+    const read = (functionName: string) => client.readContract({ ...diceGame, functionName }) as Promise<Address>;
+    const housePool = { abi: housePoolAbi, address: await read("housePool") };
+    const vaultManager = await read("vaultManager");
+
+    await write(usdc, "mint", [account.address, 1_000n * USDC]);
+    await write(usdc, "approve", [housePool.address, maxUint256]);
+    await write(housePool, "deposit", [100n * USDC]);
+    await write(diceGame, "commitRoll", [keccak256(keccak256(toHex("anvil")))]);
+
+    const db = openIndexerDb(":memory:");
+    const config: IndexerConfig = {
+      rpcUrl: RPC_URL as string,
+      chainId: foundry.id,
+      dbPath: ":memory:",
+      startBlock: deployBlock,
+      batchSize: 2000,
+      confirmations: 0,
+      pollIntervalMs: 0,
+    };
+    const indexer = createIndexer({
+      db,
+      client,
+      config,
+      contracts: { diceGame: diceGame.address, housePool: housePool.address, vaultManager },
+    });
+
+    const head = await client.getBlockNumber();
+    assert.equal(await indexer.syncOnce(), head);
+    assert.equal(getLpPosition(db, account.address)?.position.deposited, (100n * USDC).toString());
+    assert.equal(getRolls(db, { player: account.address }).length, 1);
+    assert.ok(getPoolSnapshots(db).length > 0);
+    assert.equal(count(db, "lp_events"), 1);
+
+    // A second deposit that a reorg replaces with empty blocks
+    const beforeReorg = await testClient.snapshot();
+    await write(housePool, "deposit", [50n * USDC]);
+    await indexer.syncOnce();
+    assert.equal(count(db, "lp_events"), 2);
+
+    await testClient.revert({ id: beforeReorg });
+    await testClient.mine({ blocks: 3 });
+
+    assert.equal(await indexer.syncOnce(), await client.getBlockNumber());
+    assert.equal(count(db, "lp_events"), 1);
+    assert.equal(getLpPosition(db, account.address)?.position.deposited, (100n * USDC).toString());
+  });
+});
@@ -0,0 +1,340 @@
+import {
+  getIndexerStatus,
+  getLpPosition,
+  getLpPositions,
+  getPlayer,
+  getPlayers,
+  getPoolSnapshots,
+  getRolls,
+} from "../src";
+import { IndexerDb, openIndexerDb } from "../src/db";
+import { REORG_CHECK_DEPTH, createIndexer } from "../src/indexer";
+import { LP, OTHER_PLAYER, PLAYER, config, contracts, createRecordedChain } from "./recordedChain";
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { keccak256, toHex } from "viem";
+
+const USDC = 10n ** 6n;
+const HOUSE = 10n ** 18n;
+const commitment = (label: string) => keccak256(toHex(label));
+
+const setup = (overrides: Partial<typeof config> = {}) => {
+  const chain = createRecordedChain();
+  const db = openIndexerDb(":memory:");
+  const indexer = createIndexer({ db, client: chain.client, config: { ...config, ...overrides }, contracts });
+  return { chain, db, indexer };
+};
+
+const count = (db: IndexerDb, table: string) =>
+  (db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+describe("syncOnce", () => {
+  it("indexes the events of all three contracts and the pool snapshots", async () => {
+    const { chain, db, indexer } = setup();
+    const pool = { totalPool: 100n * USDC, vaultPool: 80n * USDC, totalSupply: 100n * HOUSE, sharePrice: HOUSE };
+    chain.housePool("Deposit", { sender: LP, owner: LP, assets: 100n * USDC, shares: 100n * HOUSE }, pool);
+    chain.housePool("DepositedToVault", { amount: 80n * USDC });
+    chain.vaultManager("DepositedIntoVault", { usdcAmount: 80n * USDC, sharesReceived: 79n * USDC });
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 2n, tier: 2 });
+    chain.housePool("PaymentReceived", { player: PLAYER, amount: 200_000n });
+    chain.mine();
+
+    assert.equal(await indexer.syncOnce(), chain.head);
+    assert.equal(indexer.getLastBlock(), chain.head);
+
+    assert.equal(count(db, "lp_events"), 1);
+    assert.equal(count(db, "rolls"), 1);
+    assert.equal(count(db, "payments"), 1);
+    assert.deepEqual(db.prepare("SELECT source, name, amount, vault_shares FROM vault_events").all(), [
+      { source: "HousePool", name: "DepositedToVault", amount: 80_000_000, vault_shares: null },
+      { source: "VaultManager", name: "DepositedIntoVault", amount: 80_000_000, vault_shares: "79000000" },
+    ]);
+
+    // One snapshot per block with HousePool events
+    const snapshots = getPoolSnapshots(db);
+    assert.deepEqual(
+      snapshots.map(snapshot => snapshot.blockNumber),
+      [5, 2, 1],
+    );
+    assert.equal(snapshots[2].totalPool, "100000000");
+    assert.equal(snapshots[2].totalSupply, (100n * HOUSE).toString());
+
+    assert.deepEqual(getIndexerStatus(db), {
+      chainId: config.chainId,
+      lastBlock: Number(chain.head),
+      lastBlockTimestamp: 1_700_000_000 + Number(chain.head) * 2,
+    });
+  });
+
+  it("syncs in batches and resumes after the last indexed block", async () => {
+    const { chain, db, indexer } = setup({ batchSize: 2 });
+    for (const label of ["a", "b", "c"]) {
+      chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment(label), rolls: 1n, tier: 2 });
+    }
+    await indexer.syncOnce();
+    assert.equal(count(db, "rolls"), 3);
+
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("d"), rolls: 1n, tier: 0 });
+    assert.equal(await indexer.syncOnce(), 4n);
+    assert.equal(count(db, "rolls"), 4);
+  });
+
+  it("stays the confirmations behind the head", async () => {
+    const { chain, db, indexer } = setup({ confirmations: 2 });
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    chain.mine();
+    assert.equal(await indexer.syncOnce(), 0n);
+    assert.equal(count(db, "rolls"), 0);
+
+    chain.mine();
+    assert.equal(await indexer.syncOnce(), 1n);
+    assert.equal(count(db, "rolls"), 1);
+  });
+
+  it("refuses an RPC on another chain than the database", async () => {
+    const { chain, db, indexer } = setup();
+    await indexer.syncOnce();
+
+    const otherChain = createIndexer({ db, client: chain.client, config: { ...config, chainId: 8453 }, contracts });
+    await assert.rejects(otherChain.syncOnce(), /RPC is on chain 31337, expected 8453/);
+  });
+});
+
+describe("reveals", () => {
+  it("settle the player's latest unrevealed commitment", async () => {
+    const { chain, db, indexer } = setup();
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("first"), rolls: 1n, tier: 2 });
+    // Committing again forfeits the first commitment, which is never revealed
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("second"), rolls: 3n, tier: 1 });
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("other"), rolls: 1n, tier: 2 });
+    const reveal = chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 545_454n, rolls: 3n, wins: 1n });
+    await indexer.syncOnce();
+
+    const [other, second, first] = getRolls(db);
+    assert.equal(first.commitment, commitment("first"));
+    assert.equal(first.reveal, null);
+    assert.equal(other.reveal, null);
+    assert.deepEqual(second.reveal, {
+      blockNumber: Number(reveal.blockNumber),
+      txHash: reveal.transactionHash,
+      won: true,
+      wins: 1,
+      payout: "545454",
+    });
+
+    assert.deepEqual(
+      getRolls(db, { player: OTHER_PLAYER }).map(roll => roll.commitment),
+      [commitment("other")],
+    );
+  });
+
+  it("never settle a commitment twice", async () => {
+    const { chain, db, indexer } = setup();
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    const reveal = chain.diceGame("RollRevealed", { player: PLAYER, won: false, payout: 0n, rolls: 1n, wins: 0n });
+    chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 1_000_000n, rolls: 1n, wins: 1n });
+    await indexer.syncOnce();
+
+    const [roll] = getRolls(db);
+    assert.equal(roll.reveal?.won, false);
+    assert.equal(roll.reveal?.blockNumber, Number(reveal.blockNumber));
+  });
+});
+
+describe("rollBackReorgs", () => {
+  it("deletes the rows of replaced blocks and reopens their reveals", async () => {
+    const { chain, db, indexer } = setup();
+    chain.housePool("Deposit", { sender: LP, owner: LP, assets: 100n * USDC, shares: 100n * HOUSE });
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    chain.housePool("PaymentReceived", { player: PLAYER, amount: 100_000n });
+    const kept = chain.head;
+    chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 1_000_000n, rolls: 1n, wins: 1n });
+    chain.housePool("PayoutSent", { player: PLAYER, amount: 1_000_000n });
+    chain.housePool("WithdrawalRequested", { lp: LP, shares: 10n * HOUSE, unlockTime: 1n, queueId: 0n });
+    await indexer.syncOnce();
+    assert.equal(getRolls(db)[0].reveal?.won, true);
+    assert.equal(count(db, "payments"), 2);
+
+    // The reveal, the payout and the request are reorged out; the new blocks hold a losing reveal
+    chain.reorg(kept);
+    chain.diceGame("RollRevealed", { player: PLAYER, won: false, payout: 0n, rolls: 1n, wins: 0n });
+    await indexer.syncOnce();
+
+    const [roll] = getRolls(db);
+    assert.equal(roll.reveal?.won, false);
+    assert.equal(roll.reveal?.blockNumber, Number(chain.head));
+    assert.deepEqual(db.prepare("SELECT kind FROM payments").all(), [{ kind: "bet" }]);
+    assert.equal(getLpPosition(db, LP)?.position.pendingShares, "0");
+    assert.deepEqual(
+      getPoolSnapshots(db).map(snapshot => snapshot.blockNumber),
+      [3, 1],
+    );
+  });
+
+  it("keeps the reveals of blocks still on the chain", async () => {
+    const { chain, db, indexer } = setup();
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 1_000_000n, rolls: 1n, wins: 1n });
+    const kept = chain.head;
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("b"), rolls: 1n, tier: 2 });
+    chain.mine();
+    await indexer.syncOnce();
+
+    chain.reorg(kept);
+    await indexer.syncOnce();
+
+    const rolls = getRolls(db);
+    assert.equal(rolls.length, 1);
+    assert.equal(rolls[0].reveal?.won, true);
+  });
+
+  it("reindexes from the start block after an anvil restart", async () => {
+    const { chain, db, indexer } = setup();
+    chain.housePool("Deposit", { sender: LP, owner: LP, assets: 100n * USDC, shares: 100n * HOUSE });
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 1_000_000n, rolls: 1n, wins: 1n });
+    await indexer.syncOnce();
+
+    // The new chain is shorter than the index, and its blocks have other hashes
+    chain.restart();
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("b"), rolls: 1n, tier: 0 });
+    assert.equal(await indexer.syncOnce(), 1n);
+
+    assert.deepEqual(
+      getRolls(db).map(roll => [roll.player, roll.reveal]),
+      [[OTHER_PLAYER, null]],
+    );
+    assert.equal(count(db, "lp_events"), 0);
+    assert.equal(count(db, "pool_snapshots"), 0);
+  });
+
+  it("reindexes when the reorg is deeper than the checked blocks", async () => {
+    const { chain, db, indexer } = setup({ batchSize: 1 });
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 1n, tier: 2 });
+    for (let i = 0; i < REORG_CHECK_DEPTH; i++) chain.mine();
+    await indexer.syncOnce();
+
+    chain.reorg(0n);
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("b"), rolls: 1n, tier: 2 });
+    await indexer.syncOnce();
+
+    assert.deepEqual(
+      getRolls(db).map(roll => roll.player),
+      [OTHER_PLAYER],
+    );
+  });
+});
+
+describe("queries", () => {
+  it("count deferred payouts as winnings and claimed IOUs as paid out", async () => {
+    const { chain, db, indexer } = setup();
+    chain.diceGame("RollCommitted", { player: PLAYER, commitment: commitment("a"), rolls: 20n, tier: 3 });
+    chain.housePool("PaymentReceived", { player: PLAYER, amount: 2_000_000n });
+    chain.diceGame("RollRevealed", { player: PLAYER, won: true, payout: 9_090_909n, rolls: 20n, wins: 1n });
+    // The vault was short: 4 USDC paid on the spot, the rest owed and claimed in two parts
+    chain.housePool("PayoutSent", { player: PLAYER, amount: 4_000_000n });
+    chain.housePool("PayoutDeferred", { player: PLAYER, amount: 5_090_909n });
+    chain.housePool("OwedClaimed", { player: PLAYER, amount: 3_000_000n });
+
+    chain.diceGame("RollCommitted", { player: OTHER_PLAYER, commitment: commitment("b"), rolls: 1n, tier: 2 });
+    chain.housePool("PaymentReceived", { player: OTHER_PLAYER, amount: 100_000n });
+    chain.diceGame("RollRevealed", { player: OTHER_PLAYER, won: false, payout: 0n, rolls: 1n, wins: 0n });
+    await indexer.syncOnce();
+
+    const { player, sessions, rolls, wins, wagered, paidOut, owed, profit } = getPlayer(db, PLAYER)!;
+    assert.deepEqual(
+      { player, sessions, rolls, wins, wagered, paidOut, owed, profit },
+      {
+        player: PLAYER,
+        sessions: 1,
+        rolls: 20,
+        wins: 1,
+        wagered: "2000000",
+        paidOut: "7000000",
+        owed: "2090909",
+        profit: "7090909",
+      },
+    );
+
+    chain.housePool("OwedClaimed", { player: PLAYER, amount: 2_090_909n });
+    await indexer.syncOnce();
+    const settled = getPlayer(db, PLAYER);
+    assert.equal(settled?.paidOut, "9090909");
+    assert.equal(settled?.owed, "0");
+    assert.equal(settled?.profit, "7090909");
+
+    assert.deepEqual(
+      getPlayers(db, { sort: "profit" }).map(stats => [stats.player, stats.profit]),
+      [
+        [PLAYER, "7090909"],
+        [OTHER_PLAYER, "-100000"],
+      ],
+    );
+    assert.deepEqual(
+      getPlayers(db, { sort: "recent", limit: 1 }).map(stats => stats.player),
+      [OTHER_PLAYER],
+    );
+    assert.equal(getPlayer(db, LP), undefined);
+  });
+
+  it("track LP positions through requests, cancels, fills and emergency exits", async () => {
+    const { chain, db, indexer } = setup();
+    chain.housePool("Deposit", { sender: LP, owner: LP, assets: 100n * USDC, shares: 100n * HOUSE });
+    chain.housePool("WithdrawalRequested", { lp: LP, shares: 40n * HOUSE, unlockTime: 1n, queueId: 0n });
+    chain.housePool("WithdrawalCancelled", { lp: LP, shares: 40n * HOUSE });
+    chain.housePool("WithdrawalRequested", { lp: LP, shares: 30n * HOUSE, unlockTime: 2n, queueId: 1n });
+    chain.housePool("Withdraw", { sender: LP, receiver: LP, owner: LP, assets: 10n * USDC, shares: 10n * HOUSE });
+    chain.housePool("EmergencyExit", { lp: LP, sharesIn: 5n * HOUSE, usdcOut: 5n * USDC });
+    chain.housePool("Deposit", { sender: PLAYER, owner: PLAYER, assets: USDC, shares: HOUSE });
+    await indexer.syncOnce();
+
+    const lp = getLpPosition(db, LP);
+    assert.deepEqual(lp?.position, {
+      lp: LP,
+      deposited: "100000000",
+      withdrawn: "15000000",
+      sharesMinted: (100n * HOUSE).toString(),
+      sharesRedeemed: (15n * HOUSE).toString(),
+      netShares: (85n * HOUSE).toString(),
+      pendingShares: (20n * HOUSE).toString(),
+      firstBlock: 1,
+      lastBlock: 6,
+    });
+    assert.deepEqual(
+      lp?.events.map(event => event.kind),
+      ["emergency_exit", "withdraw", "request", "cancel", "request", "deposit"],
+    );
+    assert.deepEqual(
+      getLpPosition(db, LP, { limit: 2, offset: 1 })?.events.map(event => event.kind),
+      ["withdraw", "request"],
+    );
+
+    assert.deepEqual(
+      getLpPositions(db).map(position => position.lp),
+      [LP, PLAYER],
+    );
+    assert.deepEqual(
+      getLpPositions(db, { offset: 1 }).map(position => position.lp),
+      [PLAYER],
+    );
+    assert.equal(getLpPosition(db, OTHER_PLAYER), undefined);
+  });
+
+  it("filter pool snapshots by block range", async () => {
+    const { chain, db, indexer } = setup();
+    for (let i = 1n; i <= 4n; i++) {
+      const pool = { totalPool: i * USDC, vaultPool: 0n, totalSupply: i * HOUSE, sharePrice: HOUSE };
+      chain.housePool("Deposit", { sender: LP, owner: LP, assets: USDC, shares: HOUSE }, pool);
+    }
+    await indexer.syncOnce();
+
+    assert.deepEqual(
+      getPoolSnapshots(db, { fromBlock: 2, toBlock: 3 }).map(snapshot => [snapshot.blockNumber, snapshot.totalPool]),
+      [
+        [3, "3000000"],
+        [2, "2000000"],
+      ],
+    );
+    assert.equal(getPoolSnapshots(db, { limit: 1 })[0].blockNumber, 4);
+  });
+});
@@ -0,0 +1,167 @@
+import { diceGameEvents, housePoolEvents, vaultManagerEvents } from "../src/abis";
+import { IndexedContracts, IndexerConfig } from "../src/config";
+import {
+  Abi,
+  AbiEvent,
+  Address,
+  ContractEventName,
+  GetEventArgs,
+  Hash,
+  Hex,
+  Log,
+  PublicClient,
+  encodeAbiParameters,
+  encodeEventTopics,
+  keccak256,
+  parseEventLogs,
+  toHex,
+} from "viem";
+
+/**
+ * A chain of recorded logs served through the few PublicClient methods the indexer calls. Block hashes depend on
+ * a fork counter, so `reorg` and `restart` make the indexed hashes stale like a real reorg or anvil restart.
+ */
+
+export const CHAIN_ID = 31337;
+
+export const contracts: IndexedContracts = {
+  diceGame: "0x700b6A60ce7EaaEA56F065753d8dcB9653dbAD35",
+  housePool: "0x7F65d50b2915D5B2Ca6cbb879cd5fe940FD44b86",
+  vaultManager: "0xA44B9f3F5Bb8C278c1ee85D8F32517c6EFa64B0D",
+};
+
+export const config: IndexerConfig = {
+  rpcUrl: "http://127.0.0.1:8545",
+  chainId: CHAIN_ID,
+  dbPath: ":memory:",
+  startBlock: 0n,
+  batchSize: 2000,
+  confirmations: 0,
+  pollIntervalMs: 0,
+};
+
+export const PLAYER: Address = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+export const OTHER_PLAYER: Address = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+export const LP: Address = "0x90F79bf6EB2c4f870365E785982E1f101E93b906";
+
+// Every argument of the event, indexed or not
+type EventArgs<abi extends Abi, eventName extends string> = GetEventArgs<
+  abi,
+  eventName,
+  { EnableUnion: false; IndexedOnly: false; Required: true }
+>;
+
+type PoolState = { totalPool: bigint; vaultPool: bigint; totalSupply: bigint; sharePrice: bigint };
+
+const EMPTY_POOL: PoolState = { totalPool: 0n, vaultPool: 0n, totalSupply: 0n, sharePrice: 10n ** 18n };
+
+const encodeLog = (abi: Abi, address: Address, eventName: string, args: Record<string, unknown>) => {
+  const event = abi.find((item): item is AbiEvent => item.type === "event" && item.name === eventName);
+  if (!event) throw new Error(`Unknown event ${eventName}`);
+  const data = event.inputs.filter(input => !input.indexed);
+
+  return {
+    address,
+    topics: encodeEventTopics({ abi: [event], args }) as [Hex, ...Hex[]],
+    data: encodeAbiParameters(
+      data,
+      data.map(input => args[input.name as string]),
+    ),
+  };
+};
+
+export const createRecordedChain = () => {
+  let head = 0n;
+  let fork = 0;
+  // Fork at which each block was (re)mined
+  const blockForks = new Map<bigint, number>([[0n, 0]]);
+  const logs: (Log & { topics: [Hex, ...Hex[]] })[] = [];
+  const poolStates = new Map<bigint, PoolState>();
+
+  const blockHash = (blockNumber: bigint): Hash => keccak256(toHex(`${blockForks.get(blockNumber)}:${blockNumber}`));
+
+  const mine = () => {
+    head++;
+    blockForks.set(head, fork);
+    return head;
+  };
+
+  // Every log is mined in a block of its own
+  const addLog = (encoded: ReturnType<typeof encodeLog>) => {
+    const blockNumber = mine();
+    const transactionHash = keccak256(toHex(`tx:${fork}:${blockNumber}`));
+    logs.push({
+      ...encoded,
+      blockNumber,
+      blockHash: blockHash(blockNumber),
+      logIndex: 0,
+      transactionHash,
+      transactionIndex: 0,
+      removed: false,
+    });
+    return { blockNumber, transactionHash };
+  };
+
+  return {
+    get head() {
+      return head;
+    },
+    mine,
+    diceGame: <eventName extends ContractEventName<typeof diceGameEvents>>(
+      eventName: eventName,
+      args: EventArgs<typeof diceGameEvents, eventName>,
+    ) => addLog(encodeLog(diceGameEvents, contracts.diceGame, eventName, args as Record<string, unknown>)),
+    housePool: <eventName extends ContractEventName<typeof housePoolEvents>>(
+      eventName: eventName,
+      args: EventArgs<typeof housePoolEvents, eventName>,
+      poolState?: PoolState,
+    ) => {
+      const mined = addLog(encodeLog(housePoolEvents, contracts.housePool, eventName, args as Record<string, unknown>));
+      if (poolState) poolStates.set(mined.blockNumber, poolState);
+      return mined;
+    },
+    vaultManager: <eventName extends ContractEventName<typeof vaultManagerEvents>>(
+      eventName: eventName,
+      args: EventArgs<typeof vaultManagerEvents, eventName>,
+    ) => addLog(encodeLog(vaultManagerEvents, contracts.vaultManager, eventName, args as Record<string, unknown>)),
+
+    /** Replace every block after `blockNumber` with empty blocks on a new fork (same height) */
+    reorg: (blockNumber: bigint) => {
+      fork++;
+      for (let number = blockNumber + 1n; number <= head; number++) blockForks.set(number, fork);
+      const kept = logs.filter(log => log.blockNumber! <= blockNumber);
+      logs.splice(0, logs.length, ...kept);
+      for (const number of poolStates.keys()) if (number > blockNumber) poolStates.delete(number);
+    },
+
+    /** A fresh anvil: a new genesis and no blocks */
+    restart: () => {
+      fork++;
+      head = 0n;
+      blockForks.clear();
+      blockForks.set(0n, fork);
+      logs.splice(0, logs.length);
+      poolStates.clear();
+    },
+
+    client: {
+      getChainId: async () => CHAIN_ID,
+      getBlockNumber: async () => head,
+      getBlock: async ({ blockNumber }: { blockNumber: bigint }) => {
+        if (blockNumber > head) throw new Error(`Block ${blockNumber} not found`);
+        return { number: blockNumber, hash: blockHash(blockNumber), timestamp: 1_700_000_000n + blockNumber * 2n };
+      },
+      // Decoded the same way as getLogs({ events, strict: true })
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: bigint; toBlock: bigint }) =>
+        parseEventLogs({
+          abi: [...diceGameEvents, ...housePoolEvents, ...vaultManagerEvents],
+          logs: logs.filter(log => log.blockNumber! >= fromBlock && log.blockNumber! <= toBlock),
+          strict: true,
+        }),
+      readContract: async ({ functionName, blockNumber }: { functionName: keyof PoolState; blockNumber: bigint }) => {
+        if (blockNumber > head) throw new Error(`Block ${blockNumber} not found`);
+        return (poolStates.get(blockNumber) ?? EMPTY_POOL)[functionName];
+      },
+    } as unknown as PublicClient,
+  };
+};
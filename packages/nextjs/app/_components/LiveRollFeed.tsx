@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { Address } from "@scaffold-ui/components";
+import { formatUnits } from "viem";
+import { SignalIcon } from "@heroicons/react/24/outline";
+import { useScaffoldWatchContractEvent } from "~~/hooks/scaffold-eth";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+
+const MAX_FEED_ITEMS = 12;
+
+type FeedItem = {
+  key: string;
+  player: `0x${string}`;
+  rolls: bigint;
+} & ({ kind: "commit" } | { kind: "reveal"; wins: bigint; payout: bigint });
+
+/**
+ * Rolls from every player as they land on-chain (commits and reveals)
+ */
+export const LiveRollFeed = () => {
+  const [items, setItems] = useState<FeedItem[]>([]);
+
+  const pushItems = (newItems: FeedItem[]) =>
+    setItems(prev => {
+      const seen = new Set(prev.map(item => item.key));
+      return [...newItems.filter(item => !seen.has(item.key)).reverse(), ...prev].slice(0, MAX_FEED_ITEMS);
+    });
+
+  useScaffoldWatchContractEvent({
+    contractName: "DiceGame",
+    eventName: "RollCommitted",
+    onLogs: logs =>
+      pushItems(
+        logs.map(log => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          kind: "commit",
+          player: (log.args.player ?? "0x") as `0x${string}`,
+          rolls: log.args.rolls ?? 1n,
+        })),
+      ),
+  });
+
+  useScaffoldWatchContractEvent({
+    contractName: "DiceGame",
+    eventName: "RollRevealed",
+    onLogs: logs =>
+      pushItems(
+        logs.map(log => ({
+          key: `${log.transactionHash}-${log.logIndex}`,
+          kind: "reveal",
+          player: (log.args.player ?? "0x") as `0x${string}`,
+          rolls: log.args.rolls ?? 1n,
+          wins: log.args.wins ?? 0n,
+          payout: log.args.payout ?? 0n,
+        })),
+      ),
+  });
+
+  return (
+    <div className="bg-base-100 rounded-3xl p-6 shadow-xl border border-base-300">
+      <h2 className="text-xl font-bold flex items-center gap-2 mb-4">
+        <SignalIcon className="h-6 w-6" />
+        Live Rolls
+        <span className="badge badge-success badge-xs animate-pulse"></span>
+      </h2>
+
+      {items.length === 0 ? (
+        <p className="text-center text-base-content/50 py-4">Waiting for the next roll...</p>
+      ) : (
+        <ul className="space-y-2">
+          {items.map(item => (
+            <li key={item.key} className="flex items-center justify-between gap-2 bg-base-200 rounded-xl px-3 py-2">
+              <Address address={item.player} size="sm" onlyEnsOrAddress />
+              {item.kind === "commit" ? (
+                <span className="text-sm text-base-content/60">
+                  🎲 rolled {item.rolls > 1n ? `${item.rolls}×` : ""}
+                </span>
+              ) : item.wins > 0n ? (
+                <span className="text-sm font-bold text-success">
+                  🎉 won ${formatUnits(item.payout, USDC_DECIMALS)}
+                  {item.rolls > 1n && ` (${item.wins}/${item.rolls})`}
+                </span>
+              ) : (
+                <span className="text-sm text-base-content/60">💀 lost</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+"use client";
+
+import { useState } from "react";
+import { formatUnits, parseUnits } from "viem";
+import { ShieldExclamationIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+
+type PlayLimitsProps = {
+  player: string;
+  onChange?: () => void;
+};
+
+const EXCLUSION_OPTIONS = [
+  { label: "1 day", seconds: 24 * 60 * 60 },
+  { label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { label: "30 days", seconds: 30 * 24 * 60 * 60 },
+  { label: "6 months", seconds: 182 * 24 * 60 * 60 },
+];
+
+const formatDate = (timestamp: bigint) => new Date(Number(timestamp) * 1000).toLocaleString();
+
+/**
+ * Self-set daily spend cap, hourly roll limit and self-exclusion (enforced by DiceGame on every commit)
+ */
+export const PlayLimits = ({ player, onChange }: PlayLimitsProps) => {
+  // Undefined until edited: the field shows, and saving keeps, the current limit
+  const [dailyCapInput, setDailyCapInput] = useState<string>();
+  const [rollsPerHourInput, setRollsPerHourInput] = useState<string>();
+  const [exclusionSeconds, setExclusionSeconds] = useState(EXCLUSION_OPTIONS[0].seconds);
+
+  const { data: limits, refetch: refetchLimits } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "getLimits",
+    args: [player],
+  });
+
+  const { data: loosenDelay } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "LIMIT_LOOSEN_DELAY",
+  });
+
+  const { writeContractAsync: writeDiceGame, isPending } = useScaffoldWriteContract({ contractName: "DiceGame" });
+
+  const [dailySpendCap, maxRollsPerHour, excludedUntil, pendingDailySpendCap, pendingMaxRollsPerHour, pendingAt] =
+    limits ?? [0n, 0n, 0n, 0n, 0n, 0n];
+  const isExcluded = excludedUntil * 1000n > BigInt(Date.now());
+
+  const refetch = () => {
+    refetchLimits();
+    onChange?.();
+  };
+
+  const dailyCapValue = dailyCapInput ?? (dailySpendCap === 0n ? "" : formatUnits(dailySpendCap, USDC_DECIMALS));
+  const rollsPerHourValue = rollsPerHourInput ?? (maxRollsPerHour === 0n ? "" : maxRollsPerHour.toString());
+
+  const handleSaveLimits = async () => {
+    const nextDailyCap = dailyCapValue ? parseUnits(dailyCapValue, USDC_DECIMALS) : 0n;
+    const nextRollsPerHour = rollsPerHourValue ? BigInt(rollsPerHourValue) : 0n;
+
+    const removed = [
+      dailySpendCap > 0n && nextDailyCap === 0n ? "daily spend cap" : undefined,
+      maxRollsPerHour > 0n && nextRollsPerHour === 0n ? "hourly roll limit" : undefined,
+    ].filter(Boolean);
+    if (
+      removed.length > 0 &&
+      !confirm(`Remove your ${removed.join(" and ")}? Once the delay is over you can play without it.`)
+    ) {
+      return;
+    }
+
+    try {
+      await writeDiceGame({
+        functionName: "setLimits",
+        args: [nextDailyCap, nextRollsPerHour],
+      });
+      setDailyCapInput(undefined);
+      setRollsPerHourInput(undefined);
+      refetch();
+    } catch (error) {
+      console.error("Set limits failed:", error);
+    }
+  };
+
+  const handleCancelPending = async () => {
+    try {
+      await writeDiceGame({ functionName: "cancelPendingLimits" });
+      refetch();
+    } catch (error) {
+      console.error("Cancel pending limits failed:", error);
+    }
+  };
+
+  const handleSelfExclude = async () => {
+    const option = EXCLUSION_OPTIONS.find(o => o.seconds === exclusionSeconds);
+    if (!confirm(`You won't be able to roll for ${option?.label}. This can't be undone. Continue?`)) return;
+    try {
+      await writeDiceGame({ functionName: "selfExclude", args: [BigInt(exclusionSeconds)] });
+      refetch();
+    } catch (error) {
+      console.error("Self-exclusion failed:", error);
+    }
+  };
+
+  const describeCap = (cap: bigint) => (cap === 0n ? "no limit" : `$${formatUnits(cap, USDC_DECIMALS)}`);
+  const describeRolls = (rolls: bigint) => (rolls === 0n ? "no limit" : rolls.toString());
+
+  return (
+    <div className="collapse collapse-arrow bg-base-100 rounded-3xl shadow-xl border border-base-300">
+      <input type="checkbox" />
+      <div className="collapse-title text-xl font-bold flex items-center gap-2">
+        <ShieldExclamationIcon className="h-6 w-6" />
+        Play Limits
+      </div>
+      <div className="collapse-content space-y-4">
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <div className="bg-base-200 rounded-xl p-3">
+            <p className="text-xs text-base-content/60">Daily spend cap</p>
+            <p className="font-bold">{describeCap(dailySpendCap)}</p>
+          </div>
+          <div className="bg-base-200 rounded-xl p-3">
+            <p className="text-xs text-base-content/60">Rolls per hour</p>
+            <p className="font-bold">{describeRolls(maxRollsPerHour)}</p>
+          </div>
+        </div>
+
+        {pendingAt > 0n && (
+          <div className="bg-warning/10 rounded-xl p-3 text-sm flex items-center justify-between gap-2">
+            <span>
+              Looser limits ({describeCap(pendingDailySpendCap)} / day, {describeRolls(pendingMaxRollsPerHour)} rolls /
+              hour) apply on {formatDate(pendingAt)}
+            </span>
+            <button className="btn btn-ghost btn-xs" onClick={handleCancelPending} disabled={isPending}>
+              Cancel
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              className="input input-bordered input-sm"
+              placeholder="Daily cap (USDC)"
+              value={dailyCapValue}
+              onChange={e => setDailyCapInput(e.target.value)}
+            />
+            <input
+              type="number"
+              min="0"
+              step="1"
+              className="input input-bordered input-sm"
+              placeholder="Max rolls / hour"
+              value={rollsPerHourValue}
+              onChange={e => setRollsPerHourInput(e.target.value)}
+            />
+          </div>
+          <button className="btn btn-sm btn-primary w-full" onClick={handleSaveLimits} disabled={isPending || !limits}>
+            Save limits
+          </button>
+          <p className="text-xs text-base-content/50">
+            Leave a field empty for no limit. Stricter limits apply immediately; raising or removing one takes{" "}
+            {loosenDelay ? `${Number(loosenDelay) / 3600} hours` : "a delay"}.
+          </p>
+        </div>
+
+        <div className="divider my-0"></div>
+
+        {isExcluded ? (
+          <p className="text-sm text-error">Self-excluded until {formatDate(excludedUntil)}</p>
+        ) : (
+          <div className="flex gap-2">
+            <select
+              className="select select-bordered select-sm flex-1"
+              value={exclusionSeconds}
+              onChange={e => setExclusionSeconds(Number(e.target.value))}
+            >
+              {EXCLUSION_OPTIONS.map(option => (
+                <option key={option.seconds} value={option.seconds}>
+                  Take a break for {option.label}
+                </option>
+              ))}
+            </select>
+            <button className="btn btn-sm btn-error btn-outline" onClick={handleSelfExclude} disabled={isPending}>
+              Self-exclude
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
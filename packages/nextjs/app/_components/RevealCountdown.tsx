@@ -0,0 +1,38 @@
+"use client";
+
+import { useBlockNumber } from "wagmi";
+import { EXPIRY_WARNING_BLOCKS, REVEAL_WINDOW_BLOCKS, getBlocksLeft } from "~~/utils/autoReveal";
+
+type RevealCountdownProps = {
+  commitBlock: bigint;
+};
+
+/**
+ * Blocks left before a pending commitment can no longer be revealed
+ */
+export const RevealCountdown = ({ commitBlock }: RevealCountdownProps) => {
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  if (!blockNumber) return null;
+
+  const blocksLeft = getBlocksLeft(commitBlock, blockNumber);
+  if (blocksLeft <= 0n) return null;
+
+  const isUrgent = blocksLeft <= EXPIRY_WARNING_BLOCKS;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs">
+        <span className="text-base-content/60">Reveal window</span>
+        <span className={isUrgent ? "text-error font-semibold" : "text-base-content/60"}>
+          {blocksLeft.toString()} blocks left
+        </span>
+      </div>
+      <progress
+        className={`progress w-full ${isUrgent ? "progress-error" : "progress-primary"}`}
+        value={Number(blocksLeft)}
+        max={Number(REVEAL_WINDOW_BLOCKS)}
+      />
+    </div>
+  );
+};
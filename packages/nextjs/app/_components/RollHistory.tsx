@@ -0,0 +1,229 @@
+"use client";
+
+import { useMemo } from "react";
+import Link from "next/link";
+import { Hash, Hex, formatUnits } from "viem";
+import { useBlockNumber } from "wagmi";
+import { ArrowDownTrayIcon, ClockIcon } from "@heroicons/react/24/outline";
+import { useScaffoldEventHistory, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import {
+  RollCommitLog,
+  RollRevealLog,
+  RollStatus,
+  buildRollHistory,
+  rollHistoryToCsv,
+  summarizeRollHistory,
+} from "~~/utils/rollHistory";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+
+type RollHistoryProps = {
+  player: string;
+};
+
+const STATUS_LABELS: Record<RollStatus, { label: string; className: string }> = {
+  won: { label: "🎉 Won", className: "badge-success" },
+  lost: { label: "💀 Lost", className: "badge-ghost" },
+  unrevealed: { label: "💀 Lost (not revealed)", className: "badge-ghost" },
+  expired: { label: "⌛ Expired", className: "badge-warning" },
+  pending: { label: "⏳ Pending", className: "badge-info" },
+};
+
+const formatUsdc = (value: bigint) => formatUnits(value, USDC_DECIMALS);
+const formatPercent = (value: number | undefined) => (value === undefined ? "-" : `${(value * 100).toFixed(1)}%`);
+
+/**
+ * Every commit / reveal of the connected player with running P&L and a CSV export
+ */
+export const RollHistory = ({ player }: RollHistoryProps) => {
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  const { data: rollCost } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "ROLL_COST",
+  });
+
+  const { data: tiers } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "getTiers",
+  });
+
+  const { data: commitEvents, isLoading: isLoadingCommits } = useScaffoldEventHistory({
+    contractName: "DiceGame",
+    eventName: "RollCommitted",
+    filters: { player },
+    watch: true,
+  });
+
+  const { data: revealEvents, isLoading: isLoadingReveals } = useScaffoldEventHistory({
+    contractName: "DiceGame",
+    eventName: "RollRevealed",
+    filters: { player },
+    watch: true,
+  });
+
+  const { data: paymentEvents } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "PaymentReceived",
+    filters: { player },
+    watch: true,
+  });
+
+  const { data: payoutEvents } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "PayoutSent",
+    filters: { player },
+    watch: true,
+  });
+
+  // Winnings the pool could not pay straight away become IOUs, settled later by OwedClaimed
+  const { data: deferredEvents } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "PayoutDeferred",
+    filters: { player },
+    watch: true,
+  });
+
+  const { data: claimedEvents } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "OwedClaimed",
+    filters: { player },
+    watch: true,
+  });
+
+  const entries = useMemo(() => {
+    if (!commitEvents || !revealEvents || rollCost === undefined || blockNumber === undefined) return [];
+
+    const commits: RollCommitLog[] = commitEvents.map(event => ({
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash as Hash,
+      commitment: event.args.commitment as Hex,
+      rolls: event.args.rolls ?? 1n,
+      tier: event.args.tier ?? 0,
+    }));
+    const reveals: RollRevealLog[] = revealEvents.map(event => ({
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash as Hash,
+      payout: event.args.payout ?? 0n,
+      rolls: event.args.rolls ?? 1n,
+      wins: event.args.wins ?? 0n,
+    }));
+
+    return buildRollHistory({ commits, reveals, currentBlock: blockNumber, rollCost, modulos: tiers?.[0] });
+  }, [commitEvents, revealEvents, rollCost, blockNumber, tiers]);
+
+  const summary = useMemo(() => {
+    const sumAmounts = (events: { args: { amount?: bigint } }[] | undefined) =>
+      (events ?? []).reduce((sum, event) => sum + (event.args.amount ?? 0n), 0n);
+    const deferred = sumAmounts(deferredEvents);
+    // A claim pays out winnings already counted when they were deferred
+    const winnings = sumAmounts(payoutEvents) + deferred;
+    return {
+      ...summarizeRollHistory(entries, sumAmounts(paymentEvents), winnings),
+      owed: deferred - sumAmounts(claimedEvents),
+    };
+  }, [entries, paymentEvents, payoutEvents, deferredEvents, claimedEvents]);
+
+  const handleDownload = () => {
+    const blob = new Blob([rollHistoryToCsv(entries)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `roll-history-${player.slice(0, 8)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const isLoading = isLoadingCommits || isLoadingReveals;
+
+  return (
+    <div className="bg-base-100 rounded-3xl p-6 shadow-xl border border-base-300">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold flex items-center gap-2">
+          <ClockIcon className="h-6 w-6" />
+          Your Rolls
+        </h2>
+        <button className="btn btn-sm btn-ghost gap-1" onClick={handleDownload} disabled={entries.length === 0}>
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="bg-base-200 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Spent</p>
+          <p className="font-bold">${formatUsdc(summary.spent)}</p>
+        </div>
+        <div className="bg-base-200 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Winnings</p>
+          <p className="font-bold">${formatUsdc(summary.winnings)}</p>
+          {summary.owed > 0n && <p className="text-xs text-base-content/50">${formatUsdc(summary.owed)} still owed</p>}
+        </div>
+        <div className="bg-base-200 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Net P&amp;L</p>
+          <p className={`font-bold ${summary.net >= 0n ? "text-success" : "text-error"}`}>
+            {summary.net >= 0n ? "+" : "-"}${formatUsdc(summary.net >= 0n ? summary.net : -summary.net)}
+          </p>
+        </div>
+        <div className="bg-base-200 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Win Rate</p>
+          <p className="font-bold">{formatPercent(summary.winRate)}</p>
+          <p className="text-xs text-base-content/50">expected {formatPercent(summary.expectedWinRate)}</p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <span className="loading loading-spinner loading-md"></span>
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="text-center text-base-content/50 py-6">No rolls yet</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96">
+          <table className="table table-sm table-pin-rows">
+            <thead>
+              <tr>
+                <th>Block</th>
+                <th>Rolls</th>
+                <th>Odds</th>
+                <th>Cost</th>
+                <th>Result</th>
+                <th>Payout</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.commitTx}>
+                  <td className="font-mono">{entry.commitBlock.toString()}</td>
+                  <td>{entry.rolls}</td>
+                  <td>{entry.modulo ? `1 in ${entry.modulo}` : "-"}</td>
+                  <td>${formatUsdc(entry.cost)}</td>
+                  <td>
+                    <span className={`badge badge-sm whitespace-nowrap ${STATUS_LABELS[entry.status].className}`}>
+                      {STATUS_LABELS[entry.status].label}
+                    </span>
+                    {entry.rolls > 1 && entry.revealTx && (
+                      <span className="text-xs text-base-content/50 ml-1">
+                        {entry.wins}/{entry.rolls}
+                      </span>
+                    )}
+                  </td>
+                  <td>
+                    {entry.revealTx ? (
+                      <Link href={`/verify?tx=${entry.revealTx}`} className="link link-hover" title="Verify this roll">
+                        ${formatUsdc(entry.payout)}
+                      </Link>
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+type RollResultsProps = {
+  results: readonly boolean[];
+};
+
+/**
+ * Grid of every roll outcome in a batch (🎉 win / 💀 loss)
+ */
+export const RollResults = ({ results }: RollResultsProps) => {
+  const wins = results.filter(Boolean).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap justify-center gap-2">
+        {results.map((won, index) => (
+          <div
+            key={index}
+            title={`Roll ${index + 1}: ${won ? "win" : "loss"}`}
+            className={`w-10 h-10 rounded-lg flex items-center justify-center text-xl border ${
+              won ? "bg-green-500/20 border-green-500" : "bg-base-200 border-base-300 opacity-60"
+            }`}
+          >
+            {won ? "🎉" : "💀"}
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-base-content/60 text-center">
+        {wins} of {results.length} rolls won
+      </p>
+    </div>
+  );
+};
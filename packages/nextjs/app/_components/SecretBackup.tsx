@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { ArrowDownTrayIcon, ArrowUpTrayIcon, QrCodeIcon } from "@heroicons/react/24/outline";
+import { SecretVaultEntry, getBackupFileName, serializeBackup } from "~~/utils/secretVault";
+
+type SecretBackupProps = {
+  entry?: SecretVaultEntry;
+  onImport: (text: string) => void;
+};
+
+const QR_MODAL_ID = "secret-backup-qr-modal";
+
+/**
+ * Export/import controls for the encrypted commit secret (JSON file + QR code)
+ */
+export const SecretBackup = ({ entry, onImport }: SecretBackupProps) => {
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    if (!entry) return;
+    const blob = new Blob([serializeBackup(entry)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getBackupFileName(entry);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = (text: string) => {
+    try {
+      onImport(text);
+      setImportText("");
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Import failed");
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleImport(await file.text());
+  };
+
+  return (
+    <div className="bg-base-200 rounded-xl p-4 space-y-3">
+      <p className="text-sm font-semibold">🔐 Secret Backup</p>
+
+      {entry ? (
+        <>
+          <p className="text-xs text-base-content/60">
+            Your secret is encrypted with a key only your wallet can recreate. Save a backup to reveal from another
+            device.
+          </p>
+          <div className="flex gap-2">
+            <button className="btn btn-outline btn-sm flex-1 gap-1" onClick={handleDownload}>
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Download
+            </button>
+            <label htmlFor={QR_MODAL_ID} className="btn btn-outline btn-sm flex-1 gap-1">
+              <QrCodeIcon className="h-4 w-4" />
+              QR Code
+            </label>
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-base-content/60">No secret stored on this device. Import a backup to recover it.</p>
+      )}
+
+      <div className="space-y-2">
+        <label className="btn btn-ghost btn-sm w-full gap-1">
+          <ArrowUpTrayIcon className="h-4 w-4" />
+          Import backup file
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={e => handleFile(e.target.files?.[0])}
+          />
+        </label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1 font-mono text-xs"
+            placeholder="…or paste backup / scanned QR text"
+            value={importText}
+            onChange={e => setImportText(e.target.value)}
+          />
+          <button className="btn btn-sm" onClick={() => handleImport(importText)} disabled={!importText}>
+            Import
+          </button>
+        </div>
+        {importError && <p className="text-xs text-error">{importError}</p>}
+      </div>
+
+      {entry && (
+        <div>
+          <input type="checkbox" id={QR_MODAL_ID} className="modal-toggle" />
+          <label htmlFor={QR_MODAL_ID} className="modal cursor-pointer">
+            <label className="modal-box relative">
+              {/* dummy input to capture event onclick on modal box */}
+              <input className="h-0 w-0 absolute top-0 left-0" />
+              <label htmlFor={QR_MODAL_ID} className="btn btn-ghost btn-sm btn-circle absolute right-3 top-3">
+                ✕
+              </label>
+              <div className="flex flex-col items-center gap-4 py-6">
+                <QRCodeSVG value={serializeBackup(entry)} size={256} />
+                <p className="text-xs text-base-content/60 text-center">
+                  Scan on another device and paste the text into &quot;Import&quot;. The secret stays encrypted.
+                </p>
+              </div>
+            </label>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
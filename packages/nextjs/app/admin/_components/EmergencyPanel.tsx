@@ -0,0 +1,201 @@
+"use client";
+
+import { useState } from "react";
+import { Address, AddressInput } from "@scaffold-ui/components";
+import { Address as AddressType, formatUnits, isAddress } from "viem";
+import { useAccount } from "wagmi";
+import { ShieldExclamationIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+const formatUsdc = (value: bigint | undefined) =>
+  parseFloat(formatUnits(value ?? 0n, 6)).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const sameAddress = (a: string | undefined, b: string | undefined) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Emergency mode controls: the guardian or owner pulls the brake, anyone unwinds what the vault frees up later,
+ * and the owner (ideally a timelocked multisig) resumes the game
+ */
+export const EmergencyPanel = () => {
+  const { address: connectedAddress } = useAccount();
+  const [newGuardian, setNewGuardian] = useState("");
+
+  const { data: emergency } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "emergency",
+  });
+
+  const { data: guardian } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "guardian",
+  });
+
+  const { data: owner } = useScaffoldReadContract({
+    contractName: "VaultManager",
+    functionName: "owner",
+  });
+
+  const { data: liquidPool } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "liquidPool",
+  });
+
+  const { data: vaultPool } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "vaultPool",
+  });
+
+  const { data: withdrawable } = useScaffoldReadContract({
+    contractName: "VaultManager",
+    functionName: "getWithdrawableValue",
+  });
+
+  const { writeContractAsync: writeHousePoolAsync, isPending } = useScaffoldWriteContract("HousePool");
+
+  const isOwner = sameAddress(connectedAddress, owner);
+  const isGuardian = isOwner || sameAddress(connectedAddress, guardian);
+
+  const send = async (
+    label: string,
+    functionName: "triggerEmergency" | "unwindVault" | "resolveEmergency",
+    confirmText?: string,
+  ) => {
+    if (confirmText && !window.confirm(confirmText)) return;
+    try {
+      await writeHousePoolAsync({ functionName });
+    } catch (error) {
+      console.error(`${label} failed:`, error);
+    }
+  };
+
+  const handleSetGuardian = async () => {
+    if (!isAddress(newGuardian)) return;
+    try {
+      await writeHousePoolAsync({ functionName: "setGuardian", args: [newGuardian] });
+      setNewGuardian("");
+    } catch (error) {
+      console.error("Set guardian failed:", error);
+    }
+  };
+
+  if (emergency === undefined) {
+    return (
+      <div className="flex justify-center py-12">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-center px-5 py-12 w-full">
+      <h1 className="text-4xl font-black mb-2 flex items-center gap-2">
+        <ShieldExclamationIcon className="h-9 w-9" />
+        Admin
+      </h1>
+      <p className="text-base-content/60 mb-8 text-center max-w-lg">
+        Emergency mode unwinds the yield vault into the HousePool, pauses new rolls and deposits, and lets LPs exit
+        pro-rata without the withdrawal cooldown. Rolls already committed can still be revealed.
+      </p>
+
+      <div className="w-full max-w-2xl space-y-6">
+        <div className="bg-base-100 rounded-3xl p-6 shadow-xl border border-base-300 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-bold text-lg">Emergency Mode</h2>
+            <span className={`badge ${emergency ? "badge-error" : "badge-success"}`}>
+              {emergency ? "Active" : "Off"}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 text-center">
+            <div className="bg-base-200 rounded-xl p-3">
+              <p className="text-xs text-base-content/50">Liquid</p>
+              <p className="font-bold font-mono">${formatUsdc(liquidPool)}</p>
+            </div>
+            <div className="bg-base-200 rounded-xl p-3">
+              <p className="text-xs text-base-content/50">In vault</p>
+              <p className="font-bold font-mono">${formatUsdc(vaultPool)}</p>
+            </div>
+            <div className="bg-base-200 rounded-xl p-3">
+              <p className="text-xs text-base-content/50">Withdrawable now</p>
+              <p className="font-bold font-mono">${formatUsdc(withdrawable)}</p>
+            </div>
+          </div>
+
+          {emergency ? (
+            <div className="flex flex-wrap gap-2">
+              <button
+                className="btn btn-warning flex-1"
+                onClick={() => send("Unwind", "unwindVault")}
+                disabled={isPending || !withdrawable}
+              >
+                Unwind Vault
+              </button>
+              <button
+                className="btn btn-outline flex-1"
+                onClick={() =>
+                  send("Resolve", "resolveEmergency", "Resume rolls and deposits and reinvest the liquid excess?")
+                }
+                disabled={isPending || !isOwner}
+              >
+                Resolve Emergency
+              </button>
+            </div>
+          ) : (
+            <button
+              className="btn btn-error w-full"
+              onClick={() =>
+                send(
+                  "Trigger",
+                  "triggerEmergency",
+                  "Unwind the vault and pause rolls and deposits? Only the owner can resume.",
+                )
+              }
+              disabled={isPending || !isGuardian}
+            >
+              Trigger Emergency
+            </button>
+          )}
+          {!isGuardian && (
+            <p className="text-xs text-base-content/50">
+              Connect as the guardian or owner to trigger the emergency; anyone can unwind once it is active.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-base-100 rounded-3xl p-6 shadow-xl border border-base-300 space-y-4">
+          <h2 className="font-bold text-lg">Roles</h2>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-base-content/60">Guardian (triggers)</span>
+            <Address address={guardian as AddressType | undefined} size="sm" />
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm text-base-content/60">Owner (triggers, resolves)</span>
+            <Address address={owner as AddressType | undefined} size="sm" />
+          </div>
+
+          {isOwner && (
+            <div className="flex gap-2 items-center">
+              <div className="flex-1">
+                <AddressInput value={newGuardian} onChange={setNewGuardian} placeholder="New guardian" />
+              </div>
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={handleSetGuardian}
+                disabled={isPending || !isAddress(newGuardian)}
+              >
+                Set Guardian
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-base-content/50">
+            Hand ownership to a timelocked multisig with VaultManager.transferOwnership so resuming the game is delayed,
+            while the guardian can still react immediately.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import { EmergencyPanel } from "./_components/EmergencyPanel";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Admin",
+  description: "Emergency controls for the HousePool and its yield vault",
+});
+
+const Admin: NextPage = () => {
+  return <EmergencyPanel />;
+};
+
+export default Admin;
@@ -0,0 +1,13 @@
+import { NextRequest } from "next/server";
+import { getLpPosition } from "@se-2/indexer";
+import { jsonError, parseAddress, queryIndexer, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/lp/:address?limit&offset: an LP's position and events, newest first
+ */
+export const GET = async (request: NextRequest, { params }: { params: Promise<{ address: string }> }) => {
+  const lp = parseAddress((await params).address);
+  if (!lp) return jsonError("Invalid address", 400);
+
+  return queryIndexer(db => getLpPosition(db, lp, readPage(request.nextUrl.searchParams)));
+};
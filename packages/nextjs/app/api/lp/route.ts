@@ -0,0 +1,9 @@
+import { NextRequest } from "next/server";
+import { getLpPositions } from "@se-2/indexer";
+import { queryIndexer, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/lp?limit&offset: LP positions, largest first
+ */
+export const GET = (request: NextRequest) =>
+  queryIndexer(db => getLpPositions(db, readPage(request.nextUrl.searchParams)));
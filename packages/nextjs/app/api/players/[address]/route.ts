@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { getPlayer, getRolls } from "@se-2/indexer";
+import { jsonError, parseAddress, queryIndexer, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/players/:address?limit&offset: a player's stats and rolls, newest first
+ */
+export const GET = async (request: NextRequest, { params }: { params: Promise<{ address: string }> }) => {
+  const player = parseAddress((await params).address);
+  if (!player) return jsonError("Invalid address", 400);
+
+  return queryIndexer(db => {
+    const stats = getPlayer(db, player);
+    return stats && { ...stats, rolls: getRolls(db, { player, ...readPage(request.nextUrl.searchParams) }) };
+  });
+};
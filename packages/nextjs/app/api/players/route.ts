@@ -0,0 +1,15 @@
+import { NextRequest } from "next/server";
+import { PLAYER_SORTS, PlayerSort, getPlayers } from "@se-2/indexer";
+import { jsonError, queryIndexer, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/players?sort=wagered|profit|rolls|recent&limit&offset: player stats, best first
+ */
+export const GET = (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const sort = searchParams.get("sort") ?? "wagered";
+  if (!PLAYER_SORTS.includes(sort as PlayerSort))
+    return jsonError(`sort must be one of ${PLAYER_SORTS.join(", ")}`, 400);
+
+  return queryIndexer(db => getPlayers(db, { sort: sort as PlayerSort, ...readPage(searchParams) }));
+};
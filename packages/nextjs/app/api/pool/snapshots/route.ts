@@ -0,0 +1,17 @@
+import { NextRequest } from "next/server";
+import { getPoolSnapshots } from "@se-2/indexer";
+import { queryIndexer, readBlock, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/pool/snapshots?fromBlock&toBlock&limit&offset: HousePool state after every block that touched it
+ */
+export const GET = (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  return queryIndexer(db =>
+    getPoolSnapshots(db, {
+      fromBlock: readBlock(searchParams, "fromBlock"),
+      toBlock: readBlock(searchParams, "toBlock"),
+      ...readPage(searchParams),
+    }),
+  );
+};
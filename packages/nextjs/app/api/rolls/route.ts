@@ -0,0 +1,14 @@
+import { NextRequest } from "next/server";
+import { getRolls } from "@se-2/indexer";
+import { jsonError, parseAddress, queryIndexer, readPage } from "~~/utils/indexer";
+
+/**
+ * GET /api/rolls?player&limit&offset: commitments and their reveals, newest first
+ */
+export const GET = (request: NextRequest) => {
+  const { searchParams } = request.nextUrl;
+  const player = parseAddress(searchParams.get("player"));
+  if (searchParams.has("player") && !player) return jsonError("Invalid player address", 400);
+
+  return queryIndexer(db => getRolls(db, { player, ...readPage(searchParams) }));
+};
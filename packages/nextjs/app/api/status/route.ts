@@ -0,0 +1,7 @@
+import { getIndexerStatus } from "@se-2/indexer";
+import { queryIndexer } from "~~/utils/indexer";
+
+/**
+ * GET /api/status: chain and last block covered by the indexer
+ */
+export const GET = () => queryIndexer(getIndexerStatus);
@@ -1,21 +1,58 @@
+import { TransactionHash } from "./TransactionHash";
 import { Address } from "viem";
+import { ArrowLeftIcon, ArrowRightIcon } from "@heroicons/react/24/outline";
 import { useContractLogs } from "~~/hooks/scaffold-eth";
 import { replacer } from "~~/utils/scaffold-eth/common";
 
 export const AddressLogsTab = ({ address }: { address: Address }) => {
-  const contractLogs = useContractLogs(address);
+  const { logs, page, hasNextPage, hasPreviousPage, nextPage, previousPage, fromBlock, toBlock, isLoading, error } =
+    useContractLogs(address);
 
   return (
     <div className="flex flex-col gap-3 p-4">
+      {toBlock !== undefined && (
+        <div className="text-sm text-base-content/60">
+          Blocks {fromBlock.toString()} to {toBlock.toString()}, newest first
+        </div>
+      )}
       <div className="mockup-code overflow-auto max-h-[500px]">
         <pre className="px-5 whitespace-pre-wrap break-words">
-          {contractLogs.map((log, i) => (
-            <div key={i}>
-              <strong>Log:</strong> {JSON.stringify(log, replacer, 2)}
-            </div>
-          ))}
+          {error ? (
+            <div>Failed to fetch logs: {error.message}</div>
+          ) : isLoading ? (
+            <div>Loading logs...</div>
+          ) : logs.length === 0 ? (
+            <div>No logs in this block range</div>
+          ) : (
+            logs.map(log => (
+              <div key={`${log.blockNumber}-${log.logIndex}`} className="mb-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <strong>{log.eventName ?? "Unknown event"}</strong>
+                  {log.contractName && <span className="text-base-content/60">({log.contractName})</span>}
+                  <span className="text-base-content/60">block {log.blockNumber.toString()}</span>
+                  <TransactionHash hash={log.transactionHash} />
+                </div>
+                {log.eventName ? (
+                  <div>{JSON.stringify(log.args, replacer, 2)}</div>
+                ) : (
+                  <div>{JSON.stringify({ topics: log.topics, data: log.data }, null, 2)}</div>
+                )}
+              </div>
+            ))
+          )}
         </pre>
       </div>
+      {(hasPreviousPage || hasNextPage) && (
+        <div className="justify-end flex gap-3">
+          <button className="btn btn-sm btn-primary" disabled={!hasPreviousPage} onClick={previousPage}>
+            <ArrowLeftIcon className="h-4 w-4" />
+          </button>
+          <span className="self-center text-primary-content font-medium">Page {page + 1}</span>
+          <button className="btn btn-sm btn-primary" disabled={!hasNextPage || isLoading} onClick={nextPage}>
+            <ArrowRightIcon className="h-4 w-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 };
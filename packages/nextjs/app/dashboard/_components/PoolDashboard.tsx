@@ -0,0 +1,155 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { ArrowPathIcon, PresentationChartLineIcon } from "@heroicons/react/24/outline";
+import { LineChart } from "~~/components/LineChart";
+import { usePoolHistory } from "~~/hooks/usePoolHistory";
+
+const toUsdc = (value: bigint) => Number(formatUnits(value, 6));
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+const formatDollars = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const ChartCard = ({ title, children }: { title: string; children: React.ReactNode }) => (
+  <div className="bg-base-100 rounded-3xl p-5 shadow-xl border border-base-300">
+    <h2 className="font-bold mb-3">{title}</h2>
+    {children}
+  </div>
+);
+
+/**
+ * Share price, TVL, liquid / vault split and the source of pool growth over the pool's lifetime
+ */
+export const PoolDashboard = () => {
+  const { samples, growth, isLoading, error, refetch } = usePoolHistory();
+
+  const latest = growth[growth.length - 1];
+  const returns = latest ? latest.gameEdge + latest.vaultYield : 0n;
+  const share = (part: bigint) => (returns > 0n ? `${((Number(part) / Number(returns)) * 100).toFixed(1)}%` : "-");
+
+  return (
+    <div className="flex flex-col items-center px-5 py-12 w-full">
+      <h1 className="text-4xl font-black mb-2 flex items-center gap-2">
+        <PresentationChartLineIcon className="h-9 w-9" />
+        Pool Dashboard
+      </h1>
+      <p className="text-base-content/60 mb-8 text-center max-w-lg">
+        HousePool views sampled at historical blocks since deployment. Growth is split into the game edge (roll payments
+        minus payouts) and Summer.fi vault yield.
+      </p>
+
+      {error ? (
+        <p className="text-error text-sm max-w-lg text-center">
+          Could not read historical pool state. The RPC must serve state at past blocks (archive node).
+        </p>
+      ) : isLoading ? (
+        <span className="loading loading-spinner loading-lg"></span>
+      ) : (
+        <div className="w-full max-w-5xl space-y-6">
+          {latest && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="bg-base-100 rounded-2xl p-4 shadow border border-base-300">
+                <p className="text-xs text-base-content/50 uppercase tracking-wide">LP Net Deposits</p>
+                <p className="text-2xl font-bold">{formatDollars(toUsdc(latest.netDeposits))}</p>
+              </div>
+              <div className="bg-base-100 rounded-2xl p-4 shadow border border-base-300">
+                <p className="text-xs text-base-content/50 uppercase tracking-wide">Total Returns</p>
+                <p className="text-2xl font-bold text-primary">{formatDollars(toUsdc(returns))}</p>
+              </div>
+              <div className="bg-base-100 rounded-2xl p-4 shadow border border-base-300">
+                <p className="text-xs text-base-content/50 uppercase tracking-wide">🎲 Game Edge</p>
+                <p className="text-2xl font-bold">{formatDollars(toUsdc(latest.gameEdge))}</p>
+                <p className="text-xs text-base-content/50">{share(latest.gameEdge)} of returns</p>
+              </div>
+              <div className="bg-base-100 rounded-2xl p-4 shadow border border-base-300">
+                <p className="text-xs text-base-content/50 uppercase tracking-wide">📈 Vault Yield</p>
+                <p className="text-2xl font-bold text-emerald-500">{formatDollars(toUsdc(latest.vaultYield))}</p>
+                <p className="text-xs text-base-content/50">{share(latest.vaultYield)} of returns</p>
+              </div>
+            </div>
+          )}
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <ChartCard title="HOUSE Share Price">
+              <LineChart
+                series={[
+                  {
+                    label: "Price",
+                    color: "var(--color-primary)",
+                    points: samples.map(s => ({ x: s.timestamp, y: Number(s.sharePrice) / 1e6 })),
+                  },
+                ]}
+                formatX={formatDate}
+                formatY={y => `$${y.toFixed(6)}`}
+              />
+            </ChartCard>
+
+            <ChartCard title="TVL">
+              <LineChart
+                series={[
+                  {
+                    label: "Total pool",
+                    color: "var(--color-primary)",
+                    points: samples.map(s => ({ x: s.timestamp, y: toUsdc(s.totalPool) })),
+                  },
+                  {
+                    label: "Effective pool",
+                    color: "var(--color-secondary)",
+                    dashed: true,
+                    points: samples.map(s => ({ x: s.timestamp, y: toUsdc(s.effectivePool) })),
+                  },
+                ]}
+                formatX={formatDate}
+                formatY={formatDollars}
+              />
+            </ChartCard>
+
+            <ChartCard title="Liquid / Vault Split">
+              <LineChart
+                series={[
+                  {
+                    label: "Vault",
+                    color: "var(--color-success)",
+                    points: samples.map(s => ({ x: s.timestamp, y: toUsdc(s.vaultPool) })),
+                  },
+                  {
+                    label: "Liquid",
+                    color: "var(--color-warning)",
+                    points: samples.map(s => ({ x: s.timestamp, y: toUsdc(s.liquidPool) })),
+                  },
+                ]}
+                formatX={formatDate}
+                formatY={formatDollars}
+              />
+            </ChartCard>
+
+            <ChartCard title="Where Returns Come From (cumulative)">
+              <LineChart
+                series={[
+                  {
+                    label: "Game edge",
+                    color: "var(--color-primary)",
+                    points: growth.map(g => ({ x: g.timestamp, y: toUsdc(g.gameEdge) })),
+                  },
+                  {
+                    label: "Vault yield",
+                    color: "var(--color-success)",
+                    points: growth.map(g => ({ x: g.timestamp, y: toUsdc(g.vaultYield) })),
+                  },
+                ]}
+                formatX={formatDate}
+                formatY={formatDollars}
+              />
+            </ChartCard>
+          </div>
+
+          <div className="text-center">
+            <button className="btn btn-ghost btn-sm gap-2" onClick={() => refetch()}>
+              <ArrowPathIcon className="h-4 w-4" />
+              Refresh to latest block
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,14 @@
+import { PoolDashboard } from "./_components/PoolDashboard";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Pool Dashboard",
+  description: "HOUSE share price, TVL and where the pool's returns come from",
+});
+
+const Dashboard: NextPage = () => {
+  return <PoolDashboard />;
+};
+
+export default Dashboard;
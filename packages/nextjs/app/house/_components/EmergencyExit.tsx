@@ -0,0 +1,67 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { useAccount } from "wagmi";
+import { ShieldExclamationIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Shown during emergency mode: deposits are paused and LPs can redeem their HOUSE pro-rata without the cooldown
+ */
+export const EmergencyExit = () => {
+  const { address: connectedAddress } = useAccount();
+
+  const { data: emergency } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "emergency",
+  });
+
+  const { data: houseBalance } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "balanceOf",
+    args: [connectedAddress],
+    query: { enabled: !!connectedAddress },
+  });
+
+  const { data: usdcValue } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "usdcValue",
+    args: [connectedAddress],
+    query: { enabled: !!connectedAddress },
+  });
+
+  const { writeContractAsync: writeHousePoolAsync, isPending } = useScaffoldWriteContract("HousePool");
+
+  if (!emergency) return null;
+
+  const handleExit = async () => {
+    if (!houseBalance) return;
+    try {
+      await writeHousePoolAsync({ functionName: "emergencyExit", args: [houseBalance] });
+    } catch (error) {
+      console.error("Emergency exit failed:", error);
+    }
+  };
+
+  return (
+    <div className="alert alert-error w-full max-w-4xl mb-6 items-start">
+      <ShieldExclamationIcon className="h-6 w-6 shrink-0" />
+      <div className="flex-1">
+        <p className="font-bold">Emergency mode</p>
+        <p className="text-sm">
+          The vault has been unwound and new rolls and deposits are paused. You can exit now for your pro-rata share,
+          without the withdrawal cooldown. HOUSE in a pending sale must be cancelled first.
+        </p>
+      </div>
+      {!!houseBalance && (
+        <button className="btn btn-sm" onClick={handleExit} disabled={isPending}>
+          {isPending ? (
+            <span className="loading loading-spinner loading-xs"></span>
+          ) : (
+            `Exit ≈ $${parseFloat(formatUnits(usdcValue ?? 0n, 6)).toFixed(2)}`
+          )}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { BanknotesIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+const formatUsdc = (value: bigint | undefined) =>
+  parseFloat(formatUnits(value ?? 0n, 6)).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+// Percentage of the bar's scale, clamped so markers stay on the bar
+const toPercent = (value: bigint, scale: bigint) =>
+  scale > 0n ? Math.min(100, Number((value * 10_000n) / scale) / 100) : 0;
+
+/**
+ * Liquid USDC held by the HousePool vs the vault, drawn against the buffer band, with a keeper rebalance button
+ */
+export const LiquidBuffer = () => {
+  const { data: liquidPool } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "liquidPool",
+  });
+
+  const { data: vaultPool } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "vaultPool",
+  });
+
+  const { data: bufferMin } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "bufferMin",
+  });
+
+  const { data: bufferMax } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "bufferMax",
+  });
+
+  const { data: bufferTarget } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "bufferTarget",
+  });
+
+  const { writeContractAsync: writeHousePoolAsync, isPending } = useScaffoldWriteContract("HousePool");
+
+  if (liquidPool === undefined || bufferMin === undefined || bufferMax === undefined) {
+    return (
+      <div className="flex justify-center py-4">
+        <span className="loading loading-spinner loading-sm"></span>
+      </div>
+    );
+  }
+
+  const isBelow = liquidPool < bufferMin;
+  const isAbove = liquidPool > bufferMax;
+  // The vault can refill the buffer only if it holds something
+  const canRebalance = isAbove || (isBelow && !!vaultPool && vaultPool > 0n);
+
+  // Bar scale: the band plus headroom, or the liquid balance if it overflows that
+  const headroom = bufferMax + bufferMax / 2n;
+  const scale = liquidPool > headroom ? liquidPool : headroom;
+
+  const handleRebalance = async () => {
+    try {
+      await writeHousePoolAsync({ functionName: "rebalanceBuffer" });
+    } catch (error) {
+      console.error("Buffer rebalance failed:", error);
+    }
+  };
+
+  return (
+    <div className="bg-base-100/50 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <BanknotesIcon className="h-4 w-4 text-base-content/60" />
+        <p className="text-sm text-base-content/60">Liquid Buffer</p>
+        <span className={`badge badge-sm ${isBelow || isAbove ? "badge-warning" : "badge-success"}`}>
+          {isBelow ? "Below band" : isAbove ? "Above band" : "In band"}
+        </span>
+        <button
+          className={`btn btn-xs ml-auto ${canRebalance ? "btn-warning" : "btn-ghost"}`}
+          onClick={handleRebalance}
+          disabled={isPending || !canRebalance}
+        >
+          {isPending ? <span className="loading loading-spinner loading-xs"></span> : "Rebalance"}
+        </button>
+      </div>
+
+      <div className="flex justify-between items-end mb-2">
+        <div>
+          <p className="text-xs text-base-content/50">Liquid (payouts)</p>
+          <p className="text-xl font-bold font-mono">${formatUsdc(liquidPool)}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs text-base-content/50">In vault</p>
+          <p className="text-xl font-bold font-mono text-emerald-500">${formatUsdc(vaultPool)}</p>
+        </div>
+      </div>
+
+      <div className="relative h-3 rounded-full bg-base-300 overflow-hidden">
+        <div
+          className="absolute inset-y-0 bg-emerald-500/30"
+          style={{ left: `${toPercent(bufferMin, scale)}%`, right: `${100 - toPercent(bufferMax, scale)}%` }}
+        />
+        <div
+          className={`absolute inset-y-0 left-0 rounded-full ${isBelow || isAbove ? "bg-warning" : "bg-primary"}`}
+          style={{ width: `${toPercent(liquidPool, scale)}%` }}
+        />
+      </div>
+      <p className="text-xs text-base-content/50 mt-2">
+        Band ${formatUsdc(bufferMin)} – ${formatUsdc(bufferMax)}, refilled / swept back to ${formatUsdc(bufferTarget)}.
+        Rolls are paid from the buffer; the vault is only touched when it leaves the band.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+"use client";
+
+import { Address, formatUnits } from "viem";
+import { ChartBarIcon } from "@heroicons/react/24/outline";
+import { LineChart } from "~~/components/LineChart";
+import { useLpAnalytics } from "~~/hooks/useLpAnalytics";
+
+type LpAnalyticsProps = {
+  lp: Address;
+};
+
+const formatUsdc = (value: bigint) =>
+  parseFloat(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 });
+
+const formatSignedUsdc = (value: bigint) => `${value >= 0n ? "+" : "-"}$${formatUsdc(value >= 0n ? value : -value)}`;
+
+const pnlClass = (value: bigint) => (value > 0n ? "text-success" : value < 0n ? "text-error" : "");
+
+/**
+ * Cost basis, realized / unrealized P&L, annualized return and position value chart for the connected LP
+ */
+export const LpAnalytics = ({ lp }: LpAnalyticsProps) => {
+  const { position, history, isLoading } = useLpAnalytics(lp);
+
+  if (isLoading || !position) {
+    return (
+      <div className="flex justify-center py-6">
+        <span className="loading loading-spinner loading-md"></span>
+      </div>
+    );
+  }
+
+  if (position.totalDeposited === 0n) {
+    return <p className="text-sm text-base-content/50 text-center py-4">Buy HOUSE to start tracking your returns.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-base font-bold flex items-center gap-2">
+        <ChartBarIcon className="h-5 w-5" />
+        Performance
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-base-100/50 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Cost Basis</p>
+          <p className="font-bold font-mono">${formatUsdc(position.costBasis)}</p>
+        </div>
+        <div className="bg-base-100/50 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Unrealized P&amp;L</p>
+          <p className={`font-bold font-mono ${pnlClass(position.unrealizedPnl)}`}>
+            {formatSignedUsdc(position.unrealizedPnl)}
+          </p>
+        </div>
+        <div className="bg-base-100/50 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Realized P&amp;L</p>
+          <p className={`font-bold font-mono ${pnlClass(position.realizedPnl)}`}>
+            {formatSignedUsdc(position.realizedPnl)}
+          </p>
+        </div>
+        <div className="bg-base-100/50 rounded-xl p-3">
+          <p className="text-xs text-base-content/60">Annualized Return</p>
+          <p className="font-bold font-mono">
+            {position.apy === undefined ? "-" : `${(position.apy * 100).toFixed(2)}%`}
+          </p>
+          {position.firstDepositAt && (
+            <p className="text-[10px] text-base-content/50">
+              since {new Date(position.firstDepositAt * 1000).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-base-100/50 rounded-xl p-3">
+        <LineChart
+          series={[
+            {
+              label: "Value",
+              color: "var(--color-primary)",
+              points: history.map(point => ({ x: point.timestamp, y: point.value })),
+            },
+            {
+              label: "Cost basis",
+              color: "var(--color-base-content)",
+              dashed: true,
+              points: history.map(point => ({ x: point.timestamp, y: point.costBasis })),
+            },
+          ]}
+          formatX={x => new Date(x * 1000).toLocaleDateString()}
+          formatY={y => `$${y.toFixed(2)}`}
+        />
+      </div>
+
+      <p className="text-xs text-base-content/50">
+        Deposited ${formatUsdc(position.totalDeposited)} · withdrawn ${formatUsdc(position.totalWithdrawn)}. Cost basis
+        uses the average price paid; HOUSE moved by plain transfers is not included.
+      </p>
+    </div>
+  );
+};
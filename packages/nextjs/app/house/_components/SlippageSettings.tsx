@@ -0,0 +1,52 @@
+import { useState } from "react";
+import { AdjustmentsHorizontalIcon } from "@heroicons/react/24/outline";
+import { MAX_SLIPPAGE_BPS, SLIPPAGE_OPTIONS_BPS, formatSlippage } from "~~/utils/slippage";
+
+type SlippageSettingsProps = {
+  slippageBps: number;
+  onChange: (slippageBps: number) => void;
+};
+
+/**
+ * Slippage tolerance picker (presets + custom %) for HOUSE buys and sells
+ */
+export const SlippageSettings = ({ slippageBps, onChange }: SlippageSettingsProps) => {
+  const [customInput, setCustomInput] = useState("");
+
+  const handleCustom = (value: string) => {
+    setCustomInput(value);
+    const bps = Math.round(parseFloat(value) * 100);
+    if (bps >= 0 && bps <= MAX_SLIPPAGE_BPS) onChange(bps);
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <AdjustmentsHorizontalIcon className="h-4 w-4 text-base-content/60" />
+      <span className="text-base-content/60">Slippage</span>
+      <div className="join">
+        {SLIPPAGE_OPTIONS_BPS.map(option => (
+          <button
+            key={option}
+            className={`join-item btn btn-xs ${slippageBps === option ? "btn-primary" : ""}`}
+            onClick={() => {
+              setCustomInput("");
+              onChange(option);
+            }}
+          >
+            {formatSlippage(option)}
+          </button>
+        ))}
+      </div>
+      <input
+        type="number"
+        min="0"
+        max={MAX_SLIPPAGE_BPS / 100}
+        step="0.1"
+        className="input input-bordered input-xs w-20"
+        placeholder="Custom %"
+        value={customInput}
+        onChange={e => handleCustom(e.target.value)}
+      />
+    </div>
+  );
+};
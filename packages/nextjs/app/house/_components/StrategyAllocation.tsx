@@ -0,0 +1,151 @@
+"use client";
+
+import { Address } from "@scaffold-ui/components";
+import { Address as AddressType, erc20Abi, formatUnits } from "viem";
+import { useReadContracts } from "wagmi";
+import { ScaleIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+// Weights are basis points of VaultManager.TOTAL_WEIGHT
+const TOTAL_WEIGHT = 10_000;
+
+// Flag a strategy once it drifts this far (in bps of the vault total) from its target
+const DRIFT_WARNING_BPS = 500;
+
+const formatUsdc = (value: bigint) =>
+  parseFloat(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(1)}%`;
+
+/**
+ * Per-strategy balances of the VaultManager: target weight vs actual allocation, with a keeper rebalance button.
+ * Weights the owner scheduled are shown next to the current targets until they are applied.
+ */
+export const StrategyAllocation = () => {
+  const { data: strategies } = useScaffoldReadContract({
+    contractName: "VaultManager",
+    functionName: "getStrategies",
+  });
+
+  const { data: pendingWeights } = useScaffoldReadContract({
+    contractName: "VaultManager",
+    functionName: "getPendingWeights",
+  });
+
+  const [vaultAddresses, weights, values, , withdrawable] = strategies ?? [[], [], [], [], []];
+  const [scheduledWeights, scheduledAt] = pendingWeights ?? [[], 0n];
+  const isScheduled = scheduledAt > 0n;
+  const isScheduleDue = isScheduled && Date.now() / 1000 >= Number(scheduledAt);
+  const vaults = vaultAddresses as readonly AddressType[];
+
+  // Vault share token symbols, so strategies are recognizable (e.g. LVUSDC, aUSDC)
+  const { data: symbols } = useReadContracts({
+    contracts: vaults.map(vault => ({ address: vault, abi: erc20Abi, functionName: "symbol" }) as const),
+    query: { enabled: vaults.length > 0 },
+  });
+
+  const { writeContractAsync: writeHousePoolAsync, isPending } = useScaffoldWriteContract("HousePool");
+  const { writeContractAsync: writeVaultManagerAsync, isPending: isApplying } =
+    useScaffoldWriteContract("VaultManager");
+
+  const total = values.reduce((sum, value) => sum + value, 0n);
+  const actualBps = values.map(value => (total > 0n ? Number((value * BigInt(TOTAL_WEIGHT)) / total) : 0));
+  const needsRebalance = weights.some((weight, i) => Math.abs(Number(weight) - actualBps[i]) > DRIFT_WARNING_BPS);
+
+  const handleRebalance = async () => {
+    try {
+      await writeHousePoolAsync({ functionName: "rebalanceVault" });
+    } catch (error) {
+      console.error("Rebalance failed:", error);
+    }
+  };
+
+  const handleApplyWeights = async () => {
+    try {
+      await writeVaultManagerAsync({ functionName: "applyWeights" });
+    } catch (error) {
+      console.error("Applying weights failed:", error);
+    }
+  };
+
+  if (!strategies) {
+    return (
+      <div className="flex justify-center py-4">
+        <span className="loading loading-spinner loading-sm"></span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-base-100/50 rounded-xl p-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ScaleIcon className="h-4 w-4 text-base-content/60" />
+        <p className="text-sm text-base-content/60">Yield Strategies</p>
+        <button
+          className={`btn btn-xs ml-auto ${needsRebalance ? "btn-warning" : "btn-ghost"}`}
+          onClick={handleRebalance}
+          disabled={isPending || vaults.length < 2}
+        >
+          {isPending ? <span className="loading loading-spinner loading-xs"></span> : "Rebalance"}
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="table table-sm">
+          <thead>
+            <tr>
+              <th>Vault</th>
+              <th className="text-right">Balance</th>
+              <th className="text-right">Actual</th>
+              <th className="text-right">Target</th>
+            </tr>
+          </thead>
+          <tbody>
+            {vaults.map((vault, i) => (
+              <tr key={vault}>
+                <td>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{(symbols?.[i]?.result as string | undefined) ?? "ERC-4626"}</span>
+                    <Address address={vault} size="xs" onlyEnsOrAddress />
+                  </div>
+                </td>
+                <td className="text-right font-mono">
+                  ${formatUsdc(values[i])}
+                  {withdrawable[i] < values[i] && (
+                    <p className="text-xs text-warning">${formatUsdc(withdrawable[i])} withdrawable</p>
+                  )}
+                </td>
+                <td
+                  className={`text-right font-mono ${
+                    Math.abs(Number(weights[i]) - actualBps[i]) > DRIFT_WARNING_BPS ? "text-warning" : ""
+                  }`}
+                >
+                  {formatBps(actualBps[i])}
+                </td>
+                <td className="text-right font-mono">
+                  {formatBps(Number(weights[i]))}
+                  {isScheduled && scheduledWeights[i] !== weights[i] && (
+                    <p className="text-xs text-info">→ {formatBps(Number(scheduledWeights[i]))}</p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {isScheduled && (
+        <div className="flex items-center gap-2 mt-2 text-xs text-base-content/60">
+          <span>
+            {isScheduleDue
+              ? "New targets are due"
+              : `New targets apply after ${new Date(Number(scheduledAt) * 1000).toLocaleString()}`}
+          </span>
+          {isScheduleDue && (
+            <button className="btn btn-xs btn-ghost ml-auto" onClick={handleApplyWeights} disabled={isApplying}>
+              {isApplying ? <span className="loading loading-spinner loading-xs"></span> : "Apply"}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
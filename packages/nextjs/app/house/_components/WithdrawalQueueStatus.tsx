@@ -0,0 +1,91 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { QueueListIcon } from "@heroicons/react/24/outline";
+
+type WithdrawalQueueStatusProps = {
+  // getWithdrawalRequest(lp): shares, unlockTime, position, canWithdraw, sharesAhead
+  request: readonly [bigint, bigint, bigint, boolean, bigint];
+  totalPool: bigint | undefined;
+  totalSupply: bigint | undefined;
+  availableLiquidity: bigint | undefined;
+  countdownSeconds: number | null;
+  autoExecute: boolean;
+  onAutoExecuteChange: (enabled: boolean) => void;
+};
+
+const formatUsdc = (value: bigint) =>
+  parseFloat(formatUnits(value, 6)).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Where a pending sale stands in the FIFO withdrawal queue and when it should be filled
+ */
+export const WithdrawalQueueStatus = ({
+  request,
+  totalPool,
+  totalSupply,
+  availableLiquidity,
+  countdownSeconds,
+  autoExecute,
+  onAutoExecuteChange,
+}: WithdrawalQueueStatusProps) => {
+  const [shares, , position, canWithdraw, sharesAhead] = request;
+
+  const toUsdc = (amount: bigint) => (totalSupply ? (amount * (totalPool ?? 0n)) / totalSupply : 0n);
+  const valueAhead = toUsdc(sharesAhead);
+  const value = toUsdc(shares);
+
+  // Liquidity is spent on the requests ahead first
+  const liquidityLeft =
+    availableLiquidity === undefined
+      ? undefined
+      : availableLiquidity > valueAhead
+        ? availableLiquidity - valueAhead
+        : 0n;
+
+  const unlock = canWithdraw ? "now" : countdownSeconds ? `in ${countdownSeconds}s` : "in a moment";
+  const estimate =
+    liquidityLeft === undefined
+      ? "-"
+      : liquidityLeft >= value
+        ? canWithdraw
+          ? "Ready now"
+          : `In full ${unlock}`
+        : liquidityLeft > 0n
+          ? `$${formatUsdc(liquidityLeft)} ${unlock}, the rest when the vault frees up`
+          : "When the vault frees up";
+
+  return (
+    <div className="bg-base-100 rounded-lg p-3 text-sm space-y-1">
+      <div className="flex items-center gap-2 text-base-content/60">
+        <QueueListIcon className="h-4 w-4" />
+        <span>Withdrawal queue</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-base-content/60">Position</span>
+        <span className="font-bold">
+          {position === 0n ? "Next in line" : `#${Number(position) + 1}`}
+          {position > 0n && (
+            <span className="font-normal text-base-content/60"> (${formatUsdc(valueAhead)} ahead)</span>
+          )}
+        </span>
+      </div>
+      <div className="flex justify-between gap-2">
+        <span className="text-base-content/60 shrink-0">Estimated fill</span>
+        <span className="text-right">{estimate}</span>
+      </div>
+      <label className="flex justify-between items-center cursor-pointer pt-1">
+        <span className="text-base-content/60">Auto-execute when unlocked</span>
+        <input
+          type="checkbox"
+          className="toggle toggle-sm toggle-secondary"
+          checked={autoExecute}
+          onChange={e => onAutoExecuteChange(e.target.checked)}
+        />
+      </label>
+      <p className="text-xs text-base-content/50">
+        Requests never expire. Once unlocked, anyone can fill the queue, in order, so a keeper may pay you out first.
+      </p>
+    </div>
+  );
+};
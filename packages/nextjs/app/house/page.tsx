@@ -1,10 +1,17 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import { EmergencyExit } from "./_components/EmergencyExit";
+import { LiquidBuffer } from "./_components/LiquidBuffer";
+import { LpAnalytics } from "./_components/LpAnalytics";
+import { SlippageSettings } from "./_components/SlippageSettings";
+import { StrategyAllocation } from "./_components/StrategyAllocation";
+import { WithdrawalQueueStatus } from "./_components/WithdrawalQueueStatus";
 import type { NextPage } from "next";
+import { useLocalStorage } from "usehooks-ts";
 import { formatUnits, parseUnits } from "viem";
-import { useAccount, useReadContract, useWriteContract } from "wagmi";
+import { useAccount, usePublicClient, useWriteContract } from "wagmi";
 import {
   ArrowTrendingUpIcon,
   BanknotesIcon,
@@ -14,16 +21,37 @@ import {
   PlusCircleIcon,
   SparklesIcon,
 } from "@heroicons/react/24/outline";
+import { LiquidityWarning } from "~~/components/LiquidityWarning";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useHousePoolState } from "~~/hooks/useHousePoolState";
+import { trackTransaction, waitForTrackedTransaction } from "~~/services/store/transactionStore";
+import { isContractRevert } from "~~/utils/contractErrors";
+import { DEFAULT_SLIPPAGE_BPS, SLIPPAGE_KEY, applySlippage, formatSlippage, isSlippageError } from "~~/utils/slippage";
 
 // USDC has 6 decimals, HOUSE has 18 decimals
 const USDC_DECIMALS = 6;
 const HOUSE_DECIMALS = 18;
 
+// Whether to send withdraw() automatically once a pending sale unlocks
+const AUTO_WITHDRAW_KEY = "rollHouse.autoWithdraw";
+
+// Queue entries to clear with processWithdrawals() when withdraw() reverts with QueueBacklog
+const QUEUE_BACKLOG_BATCH = 200n;
+
+// Amount typed into an input, or undefined while it is empty or not a valid amount
+const parseAmountInput = (value: string, decimals: number) => {
+  try {
+    const amount = parseUnits(value, decimals);
+    return amount > 0n ? amount : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
 // Base USDC address
 const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
 
-// USDC ABI for approve and balance
+// USDC ABI for approve
 const USDC_ABI = [
   {
     inputs: [
@@ -35,26 +63,27 @@ const USDC_ABI = [
     stateMutability: "nonpayable",
     type: "function",
   },
-  {
-    inputs: [{ name: "account", type: "address" }],
-    name: "balanceOf",
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-    type: "function",
-  },
 ] as const;
 
 // NOTE: HousePool ABI is auto-loaded from deployedContracts.ts via useScaffoldReadContract/useScaffoldWriteContract
 // This ensures the ABI always stays in sync when the contract is updated and redeployed.
 
 const HousePage: NextPage = () => {
-  const { address: connectedAddress } = useAccount();
+  const { address: connectedAddress, chainId } = useAccount();
+  const publicClient = usePublicClient();
 
   // State for user inputs
   const [depositAmount, setDepositAmount] = useState("");
   const [withdrawShares, setWithdrawShares] = useState("");
   const [isWaitingForApproval, setIsWaitingForApproval] = useState(false);
   const [countdownSeconds, setCountdownSeconds] = useState<number | null>(null);
+  const [slippageBps, setSlippageBps] = useLocalStorage(SLIPPAGE_KEY, DEFAULT_SLIPPAGE_BPS, {
+    initializeWithValue: false,
+  });
+  // Quote locked in when the user reviews a buy; its minimum is what gets sent on-chain
+  const [depositQuote, setDepositQuote] = useState<{ usdcAmount: bigint; shares: bigint; minShares: bigint }>();
+  const [slippageError, setSlippageError] = useState<string>();
+  const [autoWithdraw, setAutoWithdraw] = useLocalStorage(AUTO_WITHDRAW_KEY, false, { initializeWithValue: false });
 
   // Read HousePool address from DiceGame contract
   const { data: housePoolAddress } = useScaffoldReadContract({
@@ -62,70 +91,52 @@ const HousePage: NextPage = () => {
     functionName: "housePool",
   });
 
-  // Read canPlay from DiceGame (game checks its own reserve requirements)
-  const { data: canPlay, refetch: refetchCanPlay } = useScaffoldReadContract({
-    contractName: "DiceGame",
-    functionName: "canPlay",
-  });
-
-  // Read pool stats from HousePool (auto-uses ABI from deployedContracts.ts)
-  const { data: totalPool, refetch: refetchTotalPool } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "totalPool",
-  });
-
-  const { data: vaultPool, refetch: refetchVaultPool } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "vaultPool",
-  });
-
-  const { data: effectivePool, refetch: refetchEffectivePool } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "effectivePool",
-  });
-
-  const { data: sharePrice, refetch: refetchSharePrice } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "sharePrice",
-  });
-
-  const { data: totalSupply, refetch: refetchTotalSupply } = useScaffoldReadContract({
+  // Pool, vault and position state, all read at the same block (one multicall per block)
+  const { data: poolState } = useHousePoolState(connectedAddress);
+  const {
+    totalPool,
+    vaultPool,
+    effectivePool,
+    sharePrice,
+    totalSupply,
+    availableLiquidity,
+    canPlay,
+    vaultPrincipal,
+    vaultYield,
+    vaultApyBps,
+    user: position,
+  } = poolState ?? {};
+  const userHouseBalance = position?.houseBalance;
+  const userUsdcValue = position?.usdcValue;
+  const userUsdcBalance = position?.usdcBalance;
+  const withdrawalRequest = position?.withdrawalRequest;
+
+  // Standard ERC-4626 quotes: HOUSE minted for the typed USDC, USDC value of the typed and pending sales.
+  // Pinned to the snapshot's block so they match the numbers shown next to them.
+  const depositUsdc = parseAmountInput(depositAmount, USDC_DECIMALS);
+  const sellShares = parseAmountInput(withdrawShares, HOUSE_DECIMALS);
+  const { data: previewDepositShares, refetch: refetchPreviewDeposit } = useScaffoldReadContract({
     contractName: "HousePool",
-    functionName: "totalSupply",
+    functionName: "previewDeposit",
+    args: [depositUsdc],
+    blockNumber: poolState?.blockNumber,
+    watch: false,
   });
 
-  const { refetch: refetchTotalPendingShares } = useScaffoldReadContract({
+  const { data: sellQuote } = useScaffoldReadContract({
     contractName: "HousePool",
-    functionName: "totalPendingShares",
+    functionName: "convertToAssets",
+    args: [sellShares],
+    blockNumber: poolState?.blockNumber,
+    watch: false,
   });
 
-  // Read user balances (auto-uses ABI from deployedContracts.ts)
-  // Pass undefined in tuple to disable query when not connected
-  const { data: userHouseBalance, refetch: refetchUserHouseBalance } = useScaffoldReadContract({
+  const { data: withdrawQuote } = useScaffoldReadContract({
     contractName: "HousePool",
-    functionName: "balanceOf",
-    args: [connectedAddress],
-  });
-
-  const { data: userUsdcValue, refetch: refetchUserUsdcValue } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "usdcValue",
-    args: [connectedAddress],
-  });
-
-  // USDC balance still uses raw wagmi hook since it's an external contract
-  const { data: userUsdcBalance, refetch: refetchUserUsdcBalance } = useReadContract({
-    address: USDC_ADDRESS,
-    abi: USDC_ABI,
-    functionName: "balanceOf",
-    args: connectedAddress ? [connectedAddress] : undefined,
-  });
-
-  // Read withdrawal request (auto-uses ABI from deployedContracts.ts)
-  const { data: withdrawalRequest, refetch: refetchWithdrawalRequest } = useScaffoldReadContract({
-    contractName: "HousePool",
-    functionName: "getWithdrawalRequest",
-    args: [connectedAddress],
+    functionName: "convertToAssets",
+    args: [withdrawalRequest?.[0]],
+    blockNumber: poolState?.blockNumber,
+    watch: false,
   });
 
   // Write hooks (HousePool uses scaffold hook for auto-ABI, USDC uses raw wagmi)
@@ -133,39 +144,6 @@ const HousePage: NextPage = () => {
     useScaffoldWriteContract("HousePool");
   const { writeContractAsync: writeUsdc, isPending: isUsdcWritePending } = useWriteContract();
 
-  // Refetch all data
-  const refetchAll = useCallback(() => {
-    refetchTotalPool();
-    refetchVaultPool();
-    refetchEffectivePool();
-    refetchSharePrice();
-    refetchCanPlay();
-    refetchTotalSupply();
-    refetchTotalPendingShares();
-    refetchUserHouseBalance();
-    refetchUserUsdcValue();
-    refetchUserUsdcBalance();
-    refetchWithdrawalRequest();
-  }, [
-    refetchTotalPool,
-    refetchVaultPool,
-    refetchEffectivePool,
-    refetchSharePrice,
-    refetchCanPlay,
-    refetchTotalSupply,
-    refetchTotalPendingShares,
-    refetchUserHouseBalance,
-    refetchUserUsdcValue,
-    refetchUserUsdcBalance,
-    refetchWithdrawalRequest,
-  ]);
-
-  // Auto-refresh
-  useEffect(() => {
-    const interval = setInterval(refetchAll, 10000);
-    return () => clearInterval(interval);
-  }, [refetchAll]);
-
   // Countdown timer for pending withdrawal
   useEffect(() => {
     if (!withdrawalRequest || withdrawalRequest[0] === 0n) {
@@ -175,9 +153,8 @@ const HousePage: NextPage = () => {
 
     const unlockTime = Number(withdrawalRequest[1]) * 1000;
     const canWithdraw = withdrawalRequest[3];
-    const isExpired = withdrawalRequest[4];
 
-    if (canWithdraw || isExpired) {
+    if (canWithdraw) {
       setCountdownSeconds(null);
       return;
     }
@@ -186,48 +163,65 @@ const HousePage: NextPage = () => {
       const now = Date.now();
       const remaining = Math.max(0, Math.ceil((unlockTime - now) / 1000));
       setCountdownSeconds(remaining);
-
-      if (remaining === 0) {
-        refetchWithdrawalRequest();
-      }
     };
 
     updateCountdown();
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
-  }, [withdrawalRequest, refetchWithdrawalRequest]);
+  }, [withdrawalRequest]);
+
+  // Quote the buy with a fresh previewDeposit before asking for any signature
+  const handleReviewDeposit = async () => {
+    if (depositUsdc === undefined) return;
+
+    const { data: shares } = await refetchPreviewDeposit();
+    if (shares === undefined) return;
+    setSlippageError(undefined);
+    setDepositQuote({ usdcAmount: depositUsdc, shares, minShares: applySlippage(shares, slippageBps) });
+  };
 
   // Handle deposit
   const handleDeposit = async () => {
-    if (!depositAmount || !housePoolAddress) return;
+    if (!depositQuote || !housePoolAddress) return;
+    const { usdcAmount: amountUsdc, minShares } = depositQuote;
 
     try {
-      const amountUsdc = parseUnits(depositAmount, USDC_DECIMALS);
-
       // Approve USDC
-      await writeUsdc({
+      const approveHash = await writeUsdc({
         address: USDC_ADDRESS,
         abi: USDC_ABI,
         functionName: "approve",
         args: [housePoolAddress, amountUsdc],
       });
 
-      // Wait 3 seconds for approval to settle on-chain
+      // Wait for the approval to be mined, following it if it is sped up from the pending transactions menu
       setIsWaitingForApproval(true);
-      await new Promise(resolve => setTimeout(resolve, 3000));
+      if (connectedAddress && chainId && publicClient) {
+        trackTransaction({ hash: approveHash, chainId, from: connectedAddress, description: "USDC approve" });
+        const { receipt, cancelled } = await waitForTrackedTransaction(publicClient, approveHash);
+        if (cancelled || receipt.status !== "success") throw new Error("USDC approval did not go through");
+      }
       setIsWaitingForApproval(false);
 
-      // Deposit - uses the single-arg version (no slippage protection)
+      // Deposit with the reviewed minimum (reverts with SlippageExceeded below it)
       await writeHousePoolAsync({
         functionName: "deposit",
-        args: [amountUsdc],
-      } as Parameters<typeof writeHousePoolAsync>[0]);
+        args: [amountUsdc, minShares],
+      });
 
       setDepositAmount("");
-      refetchAll();
+      setDepositQuote(undefined);
     } catch (error) {
       console.error("Deposit failed:", error);
       setIsWaitingForApproval(false);
+      if (isSlippageError(error)) {
+        setDepositQuote(undefined);
+        setSlippageError(
+          `The HOUSE price moved more than your ${formatSlippage(slippageBps)} tolerance since the quote, so you would ` +
+            `have received fewer than ${formatHouse(minShares)} HOUSE. Nothing was bought - review the new quote ` +
+            `or raise the tolerance.`,
+        );
+      }
     }
   };
 
@@ -245,26 +239,46 @@ const HousePage: NextPage = () => {
       });
 
       setWithdrawShares("");
-      refetchAll();
     } catch (error) {
       console.error("Request withdrawal failed:", error);
     }
   };
 
   // Handle execute withdrawal
+  // Live quote for the pending sale (convertToAssets); the minimum is sent with withdraw(minUsdcOut)
+  const minWithdrawUsdc = withdrawQuote !== undefined ? applySlippage(withdrawQuote, slippageBps) : undefined;
+
   const handleWithdraw = async () => {
-    if (!housePoolAddress) return;
+    if (!housePoolAddress || minWithdrawUsdc === undefined) return;
 
     try {
-      // Uses auto-updated ABI from deployedContracts.ts (no-arg overload)
-      await writeHousePoolAsync({
-        functionName: "withdraw",
-        args: [],
-      } as Parameters<typeof writeHousePoolAsync>[0]);
-
-      refetchAll();
+      setSlippageError(undefined);
+      const sendWithdraw = () =>
+        writeHousePoolAsync({
+          functionName: "withdraw",
+          args: [minWithdrawUsdc],
+        });
+
+      try {
+        await sendWithdraw();
+      } catch (error) {
+        if (!isContractRevert(error, "QueueBacklog")) throw error;
+        // Too many cancelled entries ahead for withdraw() to skip inline: clear them first, then sell
+        await writeHousePoolAsync({
+          functionName: "processWithdrawals",
+          args: [QUEUE_BACKLOG_BATCH],
+        });
+        await sendWithdraw();
+      }
     } catch (error) {
       console.error("Withdraw failed:", error);
+      if (isSlippageError(error)) {
+        setSlippageError(
+          `The pool value dropped more than your ${formatSlippage(slippageBps)} tolerance since the quote, so the ` +
+            `sale would have paid less than $${formatUsdcPrecise(minWithdrawUsdc)}. Your HOUSE is still pending - ` +
+            `confirm again at the new quote or raise the tolerance.`,
+        );
+      }
     }
   };
 
@@ -277,8 +291,6 @@ const HousePage: NextPage = () => {
       await writeHousePoolAsync({
         functionName: "cancelWithdrawal",
       });
-
-      refetchAll();
     } catch (error) {
       console.error("Cancel withdrawal failed:", error);
     }
@@ -305,24 +317,29 @@ const HousePage: NextPage = () => {
     return priceInUsdc.toFixed(6);
   };
 
-  // Calculate HOUSE tokens for a given USDC amount
-  const calculateHouseOut = (usdcAmount: string) => {
-    if (!usdcAmount || parseFloat(usdcAmount) === 0) return "0";
-    if (!totalPool || totalPool === 0n) {
-      return parseFloat(usdcAmount).toFixed(4);
-    }
-    if (!sharePrice) return "0";
-    return ((parseFloat(usdcAmount) * 1e6) / Number(sharePrice)).toFixed(4);
-  };
-
   // Calculate vault percentage
   const vaultPercentage =
     totalPool && totalPool > 0n && vaultPool ? ((Number(vaultPool) / Number(totalPool)) * 100).toFixed(1) : "0";
 
+  // The vault can report a loss (negative yield)
+  const isVaultLoss = vaultYield !== undefined && vaultYield < 0n;
+
   // Parse withdrawal request
   const hasWithdrawalRequest = withdrawalRequest && withdrawalRequest[0] > 0n;
-  const withdrawalCanExecute = withdrawalRequest && withdrawalRequest[3];
-  const withdrawalIsExpired = withdrawalRequest && withdrawalRequest[4];
+  // The snapshot only moves with new blocks, so trust the countdown once it reaches zero
+  const withdrawalCanExecute = withdrawalRequest && (withdrawalRequest[3] || countdownSeconds === 0);
+
+  // Auto-execute: send the sale once, as soon as it unlocks (a keeper may still fill it first)
+  const handleWithdrawRef = useRef(handleWithdraw);
+  handleWithdrawRef.current = handleWithdraw;
+  const autoWithdrawnUnlock = useRef<bigint>(undefined);
+  useEffect(() => {
+    if (!autoWithdraw || !withdrawalCanExecute || !withdrawalRequest || minWithdrawUsdc === undefined) return;
+    if (autoWithdrawnUnlock.current === withdrawalRequest[1]) return;
+
+    autoWithdrawnUnlock.current = withdrawalRequest[1];
+    handleWithdrawRef.current();
+  }, [autoWithdraw, withdrawalCanExecute, withdrawalRequest, minWithdrawUsdc]);
 
   return (
     <div className="flex flex-col items-center pt-8 px-4 pb-12 min-h-screen bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-primary/10 via-base-100 to-base-100">
@@ -335,6 +352,9 @@ const HousePage: NextPage = () => {
         Buy HOUSE tokens to own the casino. Your tokens grow in value as the house profits from gambling + DeFi yield.
       </p>
 
+      <EmergencyExit />
+      <LiquidityWarning note="Sales are filled as far as liquidity allows; the rest of your HOUSE stays pending." />
+
       {/* Pool Stats */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-3 w-full max-w-4xl mb-6">
         <div className="bg-base-100/80 backdrop-blur rounded-2xl p-4 shadow-lg border border-base-300">
@@ -366,19 +386,39 @@ const HousePage: NextPage = () => {
         <h2 className="text-lg font-bold mb-4 flex items-center gap-2">
           <ArrowTrendingUpIcon className="h-5 w-5 text-emerald-500" />
           DeFi Yield Generation
-          <span className="ml-auto text-sm font-normal text-base-content/60">via Summer.fi</span>
+          <span className="ml-auto text-sm font-normal text-base-content/60">via ERC-4626 strategies</span>
         </h2>
-        <div className="bg-base-100/50 rounded-xl p-4">
-          <p className="text-sm text-base-content/60 flex items-center gap-1">
-            <CubeIcon className="h-4 w-4" />
-            In Vault (Earning Yield)
-          </p>
-          <p className="text-2xl font-bold text-emerald-500 font-mono">${formatUsdcPrecise(vaultPool)}</p>
-          <p className="text-xs text-base-content/50">{vaultPercentage}% of pool earning yield</p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="bg-base-100/50 rounded-xl p-4">
+            <p className="text-sm text-base-content/60 flex items-center gap-1">
+              <CubeIcon className="h-4 w-4" />
+              In Vault (Earning Yield)
+            </p>
+            <p className="text-2xl font-bold text-emerald-500 font-mono">${formatUsdcPrecise(vaultPool)}</p>
+            <p className="text-xs text-base-content/50">{vaultPercentage}% of pool earning yield</p>
+          </div>
+          <div className="bg-base-100/50 rounded-xl p-4">
+            <p className="text-sm text-base-content/60">Yield Earned</p>
+            <p className={`text-2xl font-bold font-mono ${isVaultLoss ? "text-error" : "text-emerald-500"}`}>
+              {isVaultLoss ? "-" : "+"}${formatUsdcPrecise(isVaultLoss ? -vaultYield : vaultYield)}
+            </p>
+            <p className="text-xs text-base-content/50">on ${formatUsdc(vaultPrincipal)} net principal</p>
+          </div>
+          <div className="bg-base-100/50 rounded-xl p-4">
+            <p className="text-sm text-base-content/60">Vault APY</p>
+            <p className="text-2xl font-bold font-mono">
+              {vaultApyBps !== undefined ? `${(Number(vaultApyBps) / 100).toFixed(2)}%` : "-"}
+            </p>
+            <p className="text-xs text-base-content/50">running, since the first deposit</p>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+          <LiquidBuffer />
+          <StrategyAllocation />
         </div>
         <p className="text-xs text-base-content/50 mt-3 text-center">
-          100% of idle USDC is deposited into Summer.fi&apos;s LVUSDC vault to earn yield. Withdrawals happen instantly
-          on demand.
+          USDC above the liquid buffer is split across the yield strategies by target weight (Summer.fi&apos;s LVUSDC
+          vault by default). Withdrawals happen instantly on demand.
         </p>
       </div>
 
@@ -400,9 +440,13 @@ const HousePage: NextPage = () => {
             </div>
             <div className="bg-base-100/50 rounded-xl p-4">
               <p className="text-sm text-base-content/60">Wallet USDC</p>
-              <p className="text-2xl font-bold">${formatUsdc(userUsdcBalance as bigint | undefined)}</p>
+              <p className="text-2xl font-bold">${formatUsdc(userUsdcBalance)}</p>
             </div>
           </div>
+
+          <div className="border-t border-violet-500/20 mt-5 pt-5">
+            <LpAnalytics lp={connectedAddress} />
+          </div>
         </div>
       )}
 
@@ -413,6 +457,19 @@ const HousePage: NextPage = () => {
           Buy & Sell HOUSE
         </h3>
 
+        <div className="mb-5">
+          <SlippageSettings slippageBps={slippageBps} onChange={setSlippageBps} />
+        </div>
+
+        {slippageError && (
+          <div className="alert alert-warning text-sm mb-5">
+            <span>{slippageError}</span>
+            <button className="btn btn-ghost btn-xs" onClick={() => setSlippageError(undefined)}>
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* Buy Section */}
         <div className="space-y-3 mb-6">
           <h4 className="text-sm font-semibold text-base-content/80">Buy HOUSE</h4>
@@ -421,23 +478,59 @@ const HousePage: NextPage = () => {
             className="input input-bordered w-full"
             placeholder="USDC to spend"
             value={depositAmount}
-            onChange={e => setDepositAmount(e.target.value)}
+            onChange={e => {
+              setDepositAmount(e.target.value);
+              setDepositQuote(undefined);
+            }}
           />
-          {depositAmount && <p className="text-sm text-base-content/60">≈ {calculateHouseOut(depositAmount)} HOUSE</p>}
-          <button
-            className="btn btn-primary w-full"
-            onClick={handleDeposit}
-            disabled={isLoading || !depositAmount || !connectedAddress || !housePoolAddress}
-          >
-            {isLoading ? (
-              <>
-                <span className="loading loading-spinner loading-sm"></span>
-                {isWaitingForApproval && <span className="ml-2">Waiting for approval...</span>}
-              </>
-            ) : (
-              "Buy HOUSE"
-            )}
-          </button>
+          {depositQuote ? (
+            <div className="bg-base-200 rounded-xl p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-base-content/60">You pay</span>
+                <span className="font-bold">${formatUsdcPrecise(depositQuote.usdcAmount)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-base-content/60">Expected</span>
+                <span className="font-bold">{formatHouse(depositQuote.shares)} HOUSE</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-base-content/60">Minimum ({formatSlippage(slippageBps)} slippage)</span>
+                <span>{formatHouse(depositQuote.minShares)} HOUSE</span>
+              </div>
+              <div className="flex gap-2 pt-1">
+                <button
+                  className="btn btn-primary flex-1"
+                  onClick={handleDeposit}
+                  disabled={isLoading || !connectedAddress || !housePoolAddress}
+                >
+                  {isLoading ? (
+                    <>
+                      <span className="loading loading-spinner loading-sm"></span>
+                      {isWaitingForApproval && <span className="ml-2">Waiting for approval...</span>}
+                    </>
+                  ) : (
+                    "Confirm Buy"
+                  )}
+                </button>
+                <button className="btn btn-outline" onClick={() => setDepositQuote(undefined)} disabled={isLoading}>
+                  Back
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {depositAmount && (
+                <p className="text-sm text-base-content/60">≈ {formatHouse(previewDepositShares)} HOUSE</p>
+              )}
+              <button
+                className="btn btn-primary w-full"
+                onClick={handleReviewDeposit}
+                disabled={isLoading || depositUsdc === undefined || !connectedAddress || !housePoolAddress}
+              >
+                Review Buy
+              </button>
+            </>
+          )}
         </div>
 
         {/* Sell Section */}
@@ -454,13 +547,8 @@ const HousePage: NextPage = () => {
                 <span className="font-bold">{formatHouse(withdrawalRequest[0])} HOUSE</span>
               </div>
 
-              {withdrawalIsExpired ? (
-                <div className="text-error text-sm">Sale expired. Please try again.</div>
-              ) : withdrawalCanExecute ? (
-                <>
-                  <div className="text-success text-sm font-semibold">Ready to confirm sale!</div>
-                  <div className="text-xs text-base-content/60">Expires in 60 seconds</div>
-                </>
+              {withdrawalCanExecute ? (
+                <div className="text-success text-sm font-semibold">Ready to confirm sale!</div>
               ) : (
                 <div className="text-warning text-sm flex items-center gap-1">
                   <ClockIcon className="h-4 w-4" />
@@ -472,11 +560,34 @@ const HousePage: NextPage = () => {
                 </div>
               )}
 
+              <WithdrawalQueueStatus
+                request={withdrawalRequest}
+                totalPool={totalPool}
+                totalSupply={totalSupply}
+                availableLiquidity={availableLiquidity}
+                countdownSeconds={countdownSeconds}
+                autoExecute={autoWithdraw}
+                onAutoExecuteChange={setAutoWithdraw}
+              />
+
+              {withdrawQuote !== undefined && minWithdrawUsdc !== undefined && (
+                <div className="text-sm space-y-1">
+                  <div className="flex justify-between">
+                    <span className="text-base-content/60">You receive</span>
+                    <span className="font-bold">≈ ${formatUsdcPrecise(withdrawQuote)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-base-content/60">Minimum ({formatSlippage(slippageBps)} slippage)</span>
+                    <span>${formatUsdcPrecise(minWithdrawUsdc)}</span>
+                  </div>
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <button
                   className="btn btn-secondary flex-1"
                   onClick={handleWithdraw}
-                  disabled={isLoading || !withdrawalCanExecute}
+                  disabled={isLoading || !withdrawalCanExecute || minWithdrawUsdc === undefined}
                 >
                   Confirm Sale
                 </button>
@@ -503,16 +614,8 @@ const HousePage: NextPage = () => {
                   MAX
                 </button>
               </div>
-              {withdrawShares && (
-                <p className="text-sm text-base-content/60">
-                  ≈ $
-                  {!totalPool || totalPool === 0n
-                    ? parseFloat(withdrawShares).toFixed(2)
-                    : ((parseFloat(withdrawShares) * Number(sharePrice)) / 1e6).toFixed(2)}{" "}
-                  USDC
-                </p>
-              )}
-              <p className="text-xs text-base-content/50">10 sec cooldown, then 1 min to confirm</p>
+              {withdrawShares && <p className="text-sm text-base-content/60">≈ ${formatUsdc(sellQuote)} USDC</p>}
+              <p className="text-xs text-base-content/50">10 sec cooldown, then filled in queue order</p>
               <button
                 className="btn btn-secondary w-full"
                 onClick={handleRequestWithdrawal}
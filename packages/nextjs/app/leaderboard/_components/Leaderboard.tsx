@@ -0,0 +1,165 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Address } from "@scaffold-ui/components";
+import { formatUnits } from "viem";
+import { TrophyIcon } from "@heroicons/react/24/outline";
+import { LiveRollFeed } from "~~/app/_components/LiveRollFeed";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useRollIndex } from "~~/hooks/useRollIndex";
+import { LEADERBOARD_WINDOWS, LeaderboardSort, LeaderboardWindow, rankPlayers } from "~~/utils/rollIndex";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: { value: LeaderboardSort; label: string }[] = [
+  { value: "net", label: "Net winnings" },
+  { value: "rolls", label: "Rolls" },
+  { value: "streak", label: "Best streak" },
+];
+
+const formatSignedUsdc = (value: bigint) =>
+  `${value >= 0n ? "+" : "-"}$${formatUnits(value >= 0n ? value : -value, USDC_DECIMALS)}`;
+
+/**
+ * Player rankings over a time window, built from the locally cached roll index
+ */
+export const Leaderboard = () => {
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>("7d");
+  const [sortBy, setSortBy] = useState<LeaderboardSort>("net");
+  const [page, setPage] = useState(0);
+
+  const { events, sinceBlock, lastBlock, isSyncing, error } = useRollIndex(timeWindow);
+
+  const { data: rollCost } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "ROLL_COST",
+  });
+
+  const players = useMemo(
+    () =>
+      rollCost === undefined || sinceBlock === undefined ? [] : rankPlayers({ events, sinceBlock, sortBy, rollCost }),
+    [events, sinceBlock, sortBy, rollCost],
+  );
+
+  const pageCount = Math.max(1, Math.ceil(players.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const visiblePlayers = players.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  return (
+    <div className="flex flex-col items-center px-5 py-12 w-full">
+      <h1 className="text-4xl font-black mb-2 flex items-center gap-2">
+        <TrophyIcon className="h-9 w-9" />
+        Leaderboard
+      </h1>
+      <p className="text-base-content/60 mb-8 text-center max-w-lg">
+        Rankings are computed in your browser from DiceGame events. The event index is cached locally, so only new
+        blocks are fetched on later visits.
+      </p>
+
+      <div className="w-full max-w-5xl grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-base-100 rounded-3xl p-6 shadow-xl border border-base-300">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="join">
+              {LEADERBOARD_WINDOWS.map(option => (
+                <button
+                  key={option.value}
+                  className={`join-item btn btn-sm ${timeWindow === option.value ? "btn-primary" : "btn-ghost"}`}
+                  onClick={() => {
+                    setTimeWindow(option.value);
+                    setPage(0);
+                  }}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <select
+              className="select select-bordered select-sm"
+              value={sortBy}
+              onChange={e => {
+                setSortBy(e.target.value as LeaderboardSort);
+                setPage(0);
+              }}
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  Sort by {option.label.toLowerCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && <p className="text-error text-sm mb-2">{error}</p>}
+
+          {players.length === 0 ? (
+            <div className="flex justify-center py-10 text-base-content/50">
+              {isSyncing ? <span className="loading loading-spinner loading-md"></span> : "No rolls in this window"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Player</th>
+                    <th className="text-right">Net</th>
+                    <th className="text-right">Rolls</th>
+                    <th className="text-right">Wins</th>
+                    <th className="text-right">Best streak</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visiblePlayers.map((player, index) => (
+                    <tr key={player.player}>
+                      <td>{currentPage * PAGE_SIZE + index + 1}</td>
+                      <td>
+                        <Address address={player.player} size="sm" onlyEnsOrAddress />
+                      </td>
+                      <td className={`text-right font-bold ${player.net >= 0n ? "text-success" : "text-error"}`}>
+                        {formatSignedUsdc(player.net)}
+                      </td>
+                      <td className="text-right">{player.rolls}</td>
+                      <td className="text-right">{player.wins}</td>
+                      <td className="text-right">{player.bestStreak}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between mt-4 text-xs text-base-content/50">
+            <span>
+              {isSyncing ? "Indexing" : "Indexed"} up to block {lastBlock ?? "-"}
+              {isSyncing && <span className="loading loading-dots loading-xs ml-1"></span>}
+            </span>
+            {pageCount > 1 && (
+              <div className="join">
+                <button
+                  className="join-item btn btn-xs"
+                  onClick={() => setPage(currentPage - 1)}
+                  disabled={currentPage === 0}
+                >
+                  «
+                </button>
+                <span className="join-item btn btn-xs pointer-events-none">
+                  {currentPage + 1} / {pageCount}
+                </span>
+                <button
+                  className="join-item btn btn-xs"
+                  onClick={() => setPage(currentPage + 1)}
+                  disabled={currentPage >= pageCount - 1}
+                >
+                  »
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <LiveRollFeed />
+      </div>
+    </div>
+  );
+};
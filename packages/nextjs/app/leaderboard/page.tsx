@@ -0,0 +1,14 @@
+import { Leaderboard } from "./_components/Leaderboard";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Leaderboard",
+  description: "Top players by net winnings, rolls and win streaks",
+});
+
+const LeaderboardPage: NextPage = () => {
+  return <Leaderboard />;
+};
+
+export default LeaderboardPage;
@@ -3,16 +3,30 @@
 import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import type { NextPage } from "next";
-import { decodeEventLog, formatUnits, keccak256, toHex } from "viem";
-import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { useLocalStorage } from "usehooks-ts";
+import { Hex, decodeEventLog, formatUnits, keccak256, maxUint256, toHex } from "viem";
+import { useAccount, useReadContract, useWaitForTransactionReceipt } from "wagmi";
 import { ArrowPathIcon, CubeIcon, HomeModernIcon, SparklesIcon } from "@heroicons/react/24/outline";
+import { LiveRollFeed } from "~~/app/_components/LiveRollFeed";
+import { PlayLimits } from "~~/app/_components/PlayLimits";
+import { RevealCountdown } from "~~/app/_components/RevealCountdown";
+import { RollHistory } from "~~/app/_components/RollHistory";
+import { RollResults } from "~~/app/_components/RollResults";
+import { SecretBackup } from "~~/app/_components/SecretBackup";
+import { LiquidityWarning } from "~~/components/LiquidityWarning";
 import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { AUTO_REVEAL_KEY } from "~~/hooks/useAutoReveal";
+import { useCommitRoll } from "~~/hooks/useCommitRoll";
+import { useDerivedSecret } from "~~/hooks/useDerivedSecret";
+import { useSecretVault } from "~~/hooks/useSecretVault";
+import { useGlobalState } from "~~/services/store/store";
+import { USDC_ABI, USDC_ADDRESS, USDC_DECIMALS } from "~~/utils/usdc";
 
-// USDC has 6 decimals
-const USDC_DECIMALS = 6;
+// Plain-text secret key used before the encrypted vault (read once for migration)
+const LEGACY_SECRET_KEY = "pendingGamblingSecret";
 
-// Base USDC address
-const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+// Remembers whether the player prefers wallet-derived secrets
+const DERIVED_MODE_KEY = "rollHouse.derivedSecrets";
 
 // RollRevealed event ABI for decoding (from DiceGame)
 const rollRevealedAbi = [
@@ -23,30 +37,14 @@ const rollRevealedAbi = [
       { name: "player", type: "address", indexed: true },
       { name: "won", type: "bool", indexed: false },
       { name: "payout", type: "uint256", indexed: false },
+      { name: "rolls", type: "uint256", indexed: false },
+      { name: "wins", type: "uint256", indexed: false },
     ],
   },
 ] as const;
 
-// USDC ABI for approve and balance
-const USDC_ABI = [
-  {
-    inputs: [
-      { name: "spender", type: "address" },
-      { name: "amount", type: "uint256" },
-    ],
-    name: "approve",
-    outputs: [{ name: "", type: "bool" }],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [{ name: "account", type: "address" }],
-    name: "balanceOf",
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
+// Batch sizes offered on the Roll page (capped by DiceGame.MAX_ROLLS)
+const ROLL_COUNT_OPTIONS = [1, 5, 10, 20];
 
 // HousePool ABI (minimal - only for effectivePool)
 const HOUSE_POOL_ABI = [
@@ -64,10 +62,33 @@ const Home: NextPage = () => {
 
   // State for gambling
   const [gamblingSecret, setGamblingSecret] = useState("");
-  const [pendingSecret, setPendingSecret] = useState<string | null>(null);
-  const [lastRollResult, setLastRollResult] = useState<{ won: boolean; payout: string } | null>(null);
-  const [revealTxHash, setRevealTxHash] = useState<`0x${string}` | undefined>(undefined);
-  const [isWaitingForApproval, setIsWaitingForApproval] = useState(false);
+  const [lastRollResult, setLastRollResult] = useState<{
+    won: boolean;
+    payout: string;
+    rolls: number;
+    wins: number;
+    txHash: `0x${string}`;
+  } | null>(null);
+  const [rollCount, setRollCount] = useState(1);
+  const [selectedTier, setSelectedTier] = useState<number>();
+  const [isUnlockingSecret, setIsUnlockingSecret] = useState(false);
+  const [isDerivedMode, setIsDerivedMode] = useState(false);
+
+  // Pending secret and reveal tx are shared with the app-wide auto-reveal watcher
+  const pendingSecret = useGlobalState(state => state.pendingSecret);
+  const setPendingSecret = useGlobalState(state => state.setPendingSecret);
+  const revealTxHash = useGlobalState(state => state.revealTxHash);
+  const setRevealTxHash = useGlobalState(state => state.setRevealTxHash);
+  const isAutoRevealing = useGlobalState(state => state.isAutoRevealing);
+  const [isAutoRevealEnabled, setIsAutoRevealEnabled] = useLocalStorage(AUTO_REVEAL_KEY, true, {
+    initializeWithValue: false,
+  });
+
+  // Encrypted per-address/per-chain storage for the pending secret
+  const secretVault = useSecretVault();
+
+  // Deterministic secrets rebuilt from an EIP-712 signature (no backup needed)
+  const derivedSecret = useDerivedSecret();
 
   // Read HousePool address from DiceGame contract
   const { data: housePoolAddress } = useScaffoldReadContract({
@@ -82,6 +103,12 @@ const Home: NextPage = () => {
     functionName: "effectivePool",
   });
 
+  // Emergency mode pauses new rolls (committed ones can still be revealed)
+  const { data: isEmergency } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "emergency",
+  });
+
   // Read canPlay from DiceGame (replaces canRoll from HousePool)
   const { data: canPlay, refetch: refetchCanPlay } = useScaffoldReadContract({
     contractName: "DiceGame",
@@ -94,9 +121,36 @@ const Home: NextPage = () => {
     functionName: "ROLL_COST",
   });
 
-  const { data: rollPayout } = useScaffoldReadContract({
+  // Odds tiers: [modulos, payouts], a roll at tier i wins with probability 1/modulos[i]
+  const { data: tiers } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "getTiers",
+  });
+
+  const { data: defaultTier } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "DEFAULT_TIER",
+  });
+
+  const tier = selectedTier ?? defaultTier ?? 0;
+
+  // Whether the pool can cover the selected batch all winning
+  const { data: canPlayBatch } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "canPlayRolls",
+    args: [BigInt(rollCount), tier],
+  });
+
+  const { data: maxRolls } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "MAX_ROLLS",
+  });
+
+  // What the player's own limits still allow (max uint = no limit)
+  const { data: allowance, refetch: refetchAllowance } = useScaffoldReadContract({
     contractName: "DiceGame",
-    functionName: "ROLL_PAYOUT",
+    functionName: "remainingAllowance",
+    args: [connectedAddress],
   });
 
   // Read user USDC balance
@@ -114,19 +168,26 @@ const Home: NextPage = () => {
     args: [connectedAddress],
   });
 
-  // Check roll result from DiceGame (only when we have a pending secret)
+  // Number of rolls in the pending commitment
+  const { data: commitRecord } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "commits",
+    args: [connectedAddress],
+  });
+
+  // Check every roll of the batch (only when we have a pending secret)
   const { data: rollCheck, refetch: refetchRollCheck } = useScaffoldReadContract({
     contractName: "DiceGame",
-    functionName: "checkRoll",
+    functionName: "checkRolls",
     args: [connectedAddress, pendingSecret as `0x${string}` | undefined],
   });
 
-  // Write hooks - DiceGame for gambling, USDC for approvals
+  // Write hooks - DiceGame for reveals, useCommitRoll pays and commits (permit / batch / approve)
   const { writeContractAsync: writeDiceGame, isPending: isDiceGameWritePending } = useScaffoldWriteContract({
     contractName: "DiceGame",
   });
 
-  const { writeContractAsync: writeUsdc, isPending: isUsdcWritePending } = useWriteContract();
+  const { commitRoll, step: commitStep } = useCommitRoll();
 
   // Watch for reveal transaction receipt
   const { data: revealReceipt } = useWaitForTransactionReceipt({
@@ -147,13 +208,15 @@ const Home: NextPage = () => {
             });
 
             if (decoded.eventName === "RollRevealed") {
-              const won = decoded.args.won;
-              const payout = decoded.args.payout;
+              const { won, payout, rolls, wins } = decoded.args;
               const payoutUsdc = Number(payout) / 1e6;
 
               setLastRollResult({
                 won,
                 payout: payoutUsdc.toFixed(2),
+                rolls: Number(rolls),
+                wins: Number(wins),
+                txHash: revealReceipt.transactionHash,
               });
               setRevealTxHash(undefined);
               break;
@@ -164,7 +227,7 @@ const Home: NextPage = () => {
         }
       }
     }
-  }, [revealReceipt, revealTxHash]);
+  }, [revealReceipt, revealTxHash, setRevealTxHash]);
 
   // Parse commitment (needed early for auto-refresh logic)
   const hasCommitment =
@@ -177,7 +240,15 @@ const Home: NextPage = () => {
     refetchUserUsdcBalance();
     refetchCommitment();
     refetchRollCheck();
-  }, [refetchEffectivePool, refetchCanPlay, refetchUserUsdcBalance, refetchCommitment, refetchRollCheck]);
+    refetchAllowance();
+  }, [
+    refetchEffectivePool,
+    refetchCanPlay,
+    refetchUserUsdcBalance,
+    refetchCommitment,
+    refetchRollCheck,
+    refetchAllowance,
+  ]);
 
   // Auto-refresh (faster when waiting for result)
   useEffect(() => {
@@ -193,47 +264,88 @@ const Home: NextPage = () => {
     return secret;
   };
 
+  // Rebuild the secret of the pending commitment from the wallet signature
+  const rebuildDerivedSecret = async () => {
+    if (!commitment) return;
+
+    try {
+      setIsUnlockingSecret(true);
+      const secret = await derivedSecret.recoverSecret(commitment[0]);
+      if (secret) {
+        setPendingSecret(secret);
+      } else {
+        alert("This commitment was not made with a wallet-derived secret.");
+      }
+    } catch (error) {
+      console.error("Rebuilding derived secret failed:", error);
+    } finally {
+      setIsUnlockingSecret(false);
+    }
+  };
+
+  const handleToggleDerivedMode = (enabled: boolean) => {
+    setIsDerivedMode(enabled);
+    localStorage.setItem(DERIVED_MODE_KEY, String(enabled));
+  };
+
+  // Decrypt the vault entry for the on-chain commitment (asks the wallet for a signature once per session)
+  const unlockSavedSecret = async () => {
+    if (!commitment) return undefined;
+
+    try {
+      setIsUnlockingSecret(true);
+      const secret = await secretVault.unlock(commitment[0]);
+      if (secret) setPendingSecret(secret);
+      return secret;
+    } catch (error) {
+      console.error("Unlocking saved secret failed:", error);
+      return undefined;
+    } finally {
+      setIsUnlockingSecret(false);
+    }
+  };
+
+  // Forget the pending secret everywhere once it is no longer needed
+  const clearPendingSecret = () => {
+    setPendingSecret(null);
+    secretVault.clear();
+    localStorage.removeItem(LEGACY_SECRET_KEY);
+  };
+
   // Handle commit roll
   const handleCommitRoll = async () => {
     if (!housePoolAddress || !rollCost) return;
 
     try {
-      const secret = gamblingSecret || generateSecret();
+      const secret = gamblingSecret || (isDerivedMode ? await derivedSecret.deriveNextSecret() : generateSecret());
       const commitHash = keccak256(secret as `0x${string}`);
 
+      // Encrypt and store random secrets before paying, so the stake can always be recovered
+      // (derived secrets can be rebuilt from the wallet instead)
+      if (!isDerivedMode || gamblingSecret) {
+        await secretVault.save(secret as Hex);
+      }
       setPendingSecret(secret);
-      localStorage.setItem("pendingGamblingSecret", secret);
-
-      // Approve HousePool (DiceGame calls housePool.receivePayment which does transferFrom)
-      await writeUsdc({
-        address: USDC_ADDRESS,
-        abi: USDC_ABI,
-        functionName: "approve",
-        args: [housePoolAddress, rollCost],
-      });
 
-      // Wait 3 seconds for approval to settle on-chain
-      setIsWaitingForApproval(true);
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      setIsWaitingForApproval(false);
-
-      // Call DiceGame.commitRoll (not HousePool)
-      await writeDiceGame({
-        functionName: "commitRoll",
-        args: [commitHash],
+      // HousePool pulls the payment (DiceGame calls housePool.receivePayment which does transferFrom)
+      await commitRoll({
+        commitHash,
+        housePool: housePoolAddress as `0x${string}`,
+        rolls: BigInt(rollCount),
+        tier,
+        totalCost: rollCost * BigInt(rollCount),
       });
 
       setGamblingSecret("");
       refetchAll();
     } catch (error) {
       console.error("Commit roll failed:", error);
-      setIsWaitingForApproval(false);
     }
   };
 
   // Handle reveal roll
   const handleRevealRoll = async () => {
-    const secret = pendingSecret || localStorage.getItem("pendingGamblingSecret");
+    const secret = pendingSecret || (await unlockSavedSecret());
     if (!secret) {
       alert("No pending secret found. Please commit first.");
       return;
@@ -252,11 +364,12 @@ const Home: NextPage = () => {
         functionName: "revealRoll",
         args: [secret as `0x${string}`],
       });
+      // Nothing was mined (e.g. wrong network): keep the secret, the roll can only be claimed with it
+      if (!hash) return;
 
       setRevealTxHash(hash);
 
-      setPendingSecret(null);
-      localStorage.removeItem("pendingGamblingSecret");
+      clearPendingSecret();
       refetchAll();
     } catch (error) {
       console.error("Reveal roll failed:", error);
@@ -265,23 +378,23 @@ const Home: NextPage = () => {
 
   // Reset pending commit
   const handleResetCommit = () => {
-    setPendingSecret(null);
-    localStorage.removeItem("pendingGamblingSecret");
+    clearPendingSecret();
     setGamblingSecret("");
     alert(
       "Local data cleared! If you have a pending on-chain commit, you MUST reveal within 256 blocks or forfeit your stake.",
     );
   };
 
-  // Check for pending secret on load
+  // Check for a legacy plain-text secret on load (stored before the encrypted vault existed)
   useEffect(() => {
-    const stored = localStorage.getItem("pendingGamblingSecret");
+    const stored = localStorage.getItem(LEGACY_SECRET_KEY);
     if (stored) {
       setPendingSecret(stored);
     }
-  }, []);
+    setIsDerivedMode(localStorage.getItem(DERIVED_MODE_KEY) === "true");
+  }, [setPendingSecret]);
 
-  const isLoading = isDiceGameWritePending || isUsdcWritePending || isWaitingForApproval;
+  const isLoading = isDiceGameWritePending || Boolean(commitStep) || isAutoRevealing;
 
   // Format helpers
   const formatUsdc = (value: bigint | undefined) =>
@@ -291,9 +404,38 @@ const Home: NextPage = () => {
   const commitmentCanReveal = commitment && commitment[2];
   const commitmentIsExpired = commitment && commitment[3];
 
+  // Whether the vault holds the secret for the current on-chain commitment
+  const hasSavedSecret = Boolean(commitment && secretVault.entry?.commitHash === commitment[0]);
+
   // Parse roll check result
   const canCheckRoll = rollCheck && rollCheck[0];
-  const isWinner = rollCheck && rollCheck[1];
+  const rollResults = rollCheck?.[1] ?? [];
+  const totalPayout = rollCheck?.[2];
+  const isWinner = Boolean(totalPayout && totalPayout > 0n);
+  const pendingRolls = commitRecord ? Number(commitRecord[2]) : 0;
+  const batchCost = rollCost ? rollCost * BigInt(rollCount) : undefined;
+
+  const [spendLeft, rollsLeft, isSelfExcluded] = allowance ?? [maxUint256, maxUint256, false];
+  const limitReason = isSelfExcluded
+    ? "You are self-excluded"
+    : batchCost !== undefined && batchCost > spendLeft
+      ? "Daily spend cap reached"
+      : BigInt(rollCount) > rollsLeft
+        ? "Hourly roll limit reached"
+        : undefined;
+
+  // Selected tier odds and expected value per roll (payout / modulo - cost)
+  const tierModulo = tiers?.[0][tier];
+  const tierPayout = tiers?.[1][tier];
+  const winChance = tierModulo ? 100 / Number(tierModulo) : undefined;
+  const expectedValue =
+    tierModulo && tierPayout && rollCost
+      ? Number(formatUnits(tierPayout, USDC_DECIMALS)) / Number(tierModulo) -
+        Number(formatUnits(rollCost, USDC_DECIMALS))
+      : undefined;
+
+  const formatChance = (chance: number | undefined) =>
+    chance === undefined ? "-" : `${chance.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
 
   return (
     <div className="flex flex-col items-center min-h-screen bg-[radial-gradient(ellipse_at_top,_var(--tw-gradient-stops))] from-base-300 via-base-100 to-base-100">
@@ -305,7 +447,8 @@ const Home: NextPage = () => {
           </span>
         </h1>
         <p className="text-base-content/60 mb-6 text-center max-w-md">
-          Pay ${formatUsdc(rollCost)}, ~9% chance to win ${formatUsdc(rollPayout)}. Fair commit-reveal randomness.
+          Pay ${formatUsdc(rollCost)}, {formatChance(winChance)} chance to win ${formatUsdc(tierPayout)}. Fair
+          commit-reveal randomness.
         </p>
       </div>
 
@@ -330,11 +473,17 @@ const Home: NextPage = () => {
         </div>
         <div className="bg-base-100/50 backdrop-blur rounded-xl px-6 py-3 border border-base-300">
           <p className="text-xs text-base-content/50 uppercase">Win Rate</p>
-          <p className="text-xl font-bold text-amber-400">~9%</p>
+          <p className="text-xl font-bold text-amber-400">{formatChance(winChance)}</p>
         </div>
         <div className="bg-base-100/50 backdrop-blur rounded-xl px-6 py-3 border border-base-300">
           <p className="text-xs text-base-content/50 uppercase">Payout</p>
-          <p className="text-xl font-bold text-green-400">${formatUsdc(rollPayout)}</p>
+          <p className="text-xl font-bold text-green-400">${formatUsdc(tierPayout)}</p>
+        </div>
+        <div className="bg-base-100/50 backdrop-blur rounded-xl px-6 py-3 border border-base-300">
+          <p className="text-xs text-base-content/50 uppercase">EV / Roll</p>
+          <p className="text-xl font-bold text-error">
+            {expectedValue === undefined ? "-" : `-$${Math.abs(expectedValue).toFixed(4)}`}
+          </p>
         </div>
         <div className="bg-base-100/50 backdrop-blur rounded-xl px-6 py-3 border border-base-300">
           <p className="text-xs text-base-content/50 uppercase">Pool</p>
@@ -342,6 +491,11 @@ const Home: NextPage = () => {
         </div>
       </div>
 
+      <LiquidityWarning
+        player={connectedAddress}
+        note="Winnings the pool cannot pay on the spot are recorded and can be claimed as soon as the vault frees up."
+      />
+
       {/* Main Gambling Panel */}
       <div className="bg-base-100 rounded-3xl p-8 shadow-2xl border border-base-300 w-full max-w-lg mb-8">
         {/* Roll Result Display */}
@@ -358,20 +512,36 @@ const Home: NextPage = () => {
               {lastRollResult.won ? "WINNER!" : "Better luck next time"}
             </p>
             {lastRollResult.won && <p className="text-2xl mt-2 font-bold">+{lastRollResult.payout} USDC</p>}
-            <button className="btn btn-ghost btn-sm mt-4 opacity-60" onClick={() => setLastRollResult(null)}>
-              Dismiss
-            </button>
+            {lastRollResult.rolls > 1 && (
+              <p className="text-sm text-base-content/60 mt-1">
+                {lastRollResult.wins} of {lastRollResult.rolls} rolls won
+              </p>
+            )}
+            <div className="flex justify-center gap-2 mt-4">
+              <Link href={`/verify?tx=${lastRollResult.txHash}`} className="btn btn-ghost btn-sm opacity-60">
+                Verify
+              </Link>
+              <button className="btn btn-ghost btn-sm opacity-60" onClick={() => setLastRollResult(null)}>
+                Dismiss
+              </button>
+            </div>
           </div>
         )}
 
-        {!canPlay ? (
+        {!canPlay && !hasCommitment ? (
           <div className="bg-error/10 border border-error/30 rounded-xl p-6 text-center">
             <div className="text-4xl mb-2">🚫</div>
             <p className="text-error font-bold text-lg">Rolling Disabled</p>
-            <p className="text-sm text-base-content/60 mt-1">Pool needs more liquidity</p>
-            <Link href="/house" className="btn btn-outline btn-sm mt-4">
-              Add Liquidity →
-            </Link>
+            {isEmergency ? (
+              <p className="text-sm text-base-content/60 mt-1">The house is in emergency mode</p>
+            ) : (
+              <>
+                <p className="text-sm text-base-content/60 mt-1">Pool needs more liquidity</p>
+                <Link href="/house" className="btn btn-outline btn-sm mt-4">
+                  Add Liquidity →
+                </Link>
+              </>
+            )}
           </div>
         ) : hasCommitment ? (
           <div className="space-y-4">
@@ -381,12 +551,28 @@ const Home: NextPage = () => {
                 <div className="rounded-2xl p-8 text-center border-2 bg-gradient-to-br from-green-500/20 to-emerald-500/20 border-green-500">
                   <div className="text-6xl mb-3">🎉</div>
                   <p className="text-3xl font-black text-green-400">YOU WON!</p>
-                  <p className="text-xl mt-2">Claim your ${formatUsdc(rollPayout)} below</p>
+                  {rollResults.length > 1 && (
+                    <div className="mt-4">
+                      <RollResults results={rollResults} />
+                    </div>
+                  )}
+                  <p className="text-xl mt-2">
+                    {isAutoRevealing ? "Claiming" : "Claim"} your ${formatUsdc(totalPayout)}
+                    {isAutoRevealing ? " automatically..." : " below"}
+                  </p>
+                  <div className="mt-4 text-left">
+                    <RevealCountdown commitBlock={commitment[1]} />
+                  </div>
                 </div>
               ) : (
                 <div className="rounded-2xl p-8 text-center border-2 bg-gradient-to-br from-red-500/20 to-orange-500/20 border-red-500">
                   <div className="text-6xl mb-3">💀</div>
                   <p className="text-3xl font-black text-red-400">You Lost</p>
+                  {rollResults.length > 1 && (
+                    <div className="mt-4">
+                      <RollResults results={rollResults} />
+                    </div>
+                  )}
                   <p className="text-base-content/60 mt-2">No need to reveal - try again!</p>
                 </div>
               )
@@ -398,10 +584,19 @@ const Home: NextPage = () => {
                   </div>
                   <div>
                     <span className="font-bold text-lg">Roll Pending</span>
-                    <p className="text-sm text-base-content/60">Block: {commitment[1].toString()}</p>
+                    <p className="text-sm text-base-content/60">
+                      Block: {commitment[1].toString()}
+                      {pendingRolls > 1 && ` · ${pendingRolls} rolls`}
+                    </p>
                   </div>
                 </div>
 
+                {!commitmentIsExpired && (
+                  <div className="mb-3">
+                    <RevealCountdown commitBlock={commitment[1]} />
+                  </div>
+                )}
+
                 {commitmentIsExpired ? (
                   <div className="bg-error/10 rounded-lg p-3 text-error text-sm">
                     ⚠️ Commitment expired (256 blocks passed) - stake forfeited to house
@@ -409,9 +604,13 @@ const Home: NextPage = () => {
                 ) : commitmentCanReveal ? (
                   pendingSecret ? (
                     <div className="bg-warning/10 rounded-lg p-3 text-warning text-sm">⏳ Checking result...</div>
+                  ) : hasSavedSecret ? (
+                    <div className="bg-info/10 rounded-lg p-3 text-info text-sm">
+                      🔐 Secret saved on this device. Unlock it with your wallet to see the result.
+                    </div>
                   ) : (
                     <div className="bg-error/10 rounded-lg p-3 text-error text-sm">
-                      ⚠️ Secret lost! Enter it below or wait for expiry to cancel.
+                      ⚠️ Secret lost! Import a backup, enter it below or wait for expiry to cancel.
                     </div>
                   )
                 ) : (
@@ -422,6 +621,26 @@ const Home: NextPage = () => {
               </div>
             )}
 
+            {/* Unlock the encrypted secret saved for this commitment */}
+            {!pendingSecret && !commitmentIsExpired && hasSavedSecret && (
+              <button className="btn btn-info w-full gap-2" onClick={unlockSavedSecret} disabled={isUnlockingSecret}>
+                {isUnlockingSecret ? <span className="loading loading-spinner loading-sm"></span> : "🔓"}
+                Unlock Saved Secret
+              </button>
+            )}
+
+            {/* Rebuild a wallet-derived secret (works on any device) */}
+            {!pendingSecret && !commitmentIsExpired && !hasSavedSecret && (
+              <button
+                className="btn btn-outline w-full gap-2"
+                onClick={rebuildDerivedSecret}
+                disabled={isUnlockingSecret || !derivedSecret.isReady}
+              >
+                {isUnlockingSecret ? <span className="loading loading-spinner loading-sm"></span> : "✍️"}
+                Rebuild Secret From Wallet
+              </button>
+            )}
+
             {/* Manual secret entry if lost */}
             {!pendingSecret && !commitmentIsExpired && (
               <div className="form-control">
@@ -437,7 +656,6 @@ const Home: NextPage = () => {
                     setGamblingSecret(e.target.value);
                     if (e.target.value.startsWith("0x") && e.target.value.length === 66) {
                       setPendingSecret(e.target.value);
-                      localStorage.setItem("pendingGamblingSecret", e.target.value);
                     }
                   }}
                 />
@@ -456,7 +674,7 @@ const Home: NextPage = () => {
                 ) : (
                   <>
                     <ArrowPathIcon className="h-6 w-6" />
-                    CLAIM ${formatUsdc(rollPayout)}!
+                    CLAIM ${formatUsdc(totalPayout)}!
                   </>
                 )}
               </button>
@@ -468,8 +686,7 @@ const Home: NextPage = () => {
                 className="btn btn-primary btn-lg w-full gap-2 text-lg"
                 onClick={async () => {
                   // Clear old secret and start new commit
-                  setPendingSecret(null);
-                  localStorage.removeItem("pendingGamblingSecret");
+                  clearPendingSecret();
                   await handleCommitRoll();
                 }}
                 disabled={isLoading}
@@ -477,12 +694,13 @@ const Home: NextPage = () => {
                 {isLoading ? (
                   <>
                     <span className="loading loading-spinner loading-md"></span>
-                    {isWaitingForApproval && <span>Waiting for approval...</span>}
+                    {commitStep === "approving" && <span>Waiting for approval...</span>}
+                    {commitStep === "signing" && <span>Sign the USDC permit...</span>}
                   </>
                 ) : (
                   <>
                     <SparklesIcon className="h-6 w-6" />
-                    ROLL AGAIN (${formatUsdc(rollCost)})
+                    ROLL AGAIN (${formatUsdc(batchCost)})
                   </>
                 )}
               </button>
@@ -492,15 +710,12 @@ const Home: NextPage = () => {
               <div className="bg-error/20 border border-error/40 rounded-xl p-4 text-center">
                 <div className="text-3xl mb-2">💸</div>
                 <p className="text-error font-bold">Commitment Expired</p>
-                <p className="text-sm text-base-content/60 mt-1">
-                  Your ${formatUsdc(rollCost)} stake was forfeited to the house.
-                </p>
+                <p className="text-sm text-base-content/60 mt-1">Your stake was forfeited to the house.</p>
                 <button
                   className="btn btn-primary btn-sm mt-3"
                   onClick={async () => {
                     // Just clear local state and start fresh
-                    setPendingSecret(null);
-                    localStorage.removeItem("pendingGamblingSecret");
+                    clearPendingSecret();
                     refetchAll();
                   }}
                 >
@@ -509,6 +724,13 @@ const Home: NextPage = () => {
               </div>
             )}
 
+            {!commitmentIsExpired && (
+              <SecretBackup
+                entry={hasSavedSecret ? secretVault.entry : undefined}
+                onImport={secretVault.importBackup}
+              />
+            )}
+
             <button className="btn btn-ghost btn-sm w-full text-error/60" onClick={handleResetCommit}>
               Clear Local Data
             </button>
@@ -519,27 +741,117 @@ const Home: NextPage = () => {
               Two-step process: Click to start, wait a moment, then reveal.
             </p>
 
+            {tiers && (
+              <div className="bg-base-200 rounded-xl px-4 py-3">
+                <p className="text-sm mb-2">Risk level</p>
+                <div className="join w-full">
+                  {tiers[0].map((modulo, index) => (
+                    <button
+                      key={index}
+                      className={`join-item btn btn-sm flex-1 flex-col h-auto py-1 ${tier === index ? "btn-primary" : ""}`}
+                      onClick={() => setSelectedTier(index)}
+                    >
+                      <span>1/{modulo.toString()}</span>
+                      <span className="text-[10px] font-normal opacity-70">${formatUsdc(tiers[1][index])}</span>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="bg-base-200 rounded-xl px-4 py-3">
+              <p className="text-sm mb-2">Rolls per commit</p>
+              <div className="join w-full">
+                {ROLL_COUNT_OPTIONS.filter(option => !maxRolls || BigInt(option) <= maxRolls).map(option => (
+                  <button
+                    key={option}
+                    className={`join-item btn btn-sm flex-1 ${rollCount === option ? "btn-primary" : ""}`}
+                    onClick={() => setRollCount(option)}
+                  >
+                    {option}×
+                  </button>
+                ))}
+              </div>
+              {canPlayBatch === false && (
+                <p className="text-xs text-error mt-2">The pool can&apos;t cover {rollCount} rolls right now</p>
+              )}
+            </div>
+
+            <label className="label cursor-pointer justify-start gap-3 bg-base-200 rounded-xl px-4 py-3">
+              <input
+                type="checkbox"
+                className="toggle toggle-primary toggle-sm"
+                checked={isDerivedMode}
+                onChange={e => handleToggleDerivedMode(e.target.checked)}
+              />
+              <span className="text-sm">
+                Derive secret from a wallet signature
+                <span className="block text-xs text-base-content/50">Recoverable on any device with this wallet</span>
+              </span>
+            </label>
+
+            <label className="label cursor-pointer justify-start gap-3 bg-base-200 rounded-xl px-4 py-3">
+              <input
+                type="checkbox"
+                className="toggle toggle-primary toggle-sm"
+                checked={isAutoRevealEnabled}
+                onChange={e => setIsAutoRevealEnabled(e.target.checked)}
+              />
+              <span className="text-sm">
+                Claim winning rolls automatically
+                <span className="block text-xs text-base-content/50">
+                  Works from any page while this app is open in a tab
+                </span>
+              </span>
+            </label>
+
             <button
               className="btn btn-primary btn-lg w-full gap-2 text-lg"
               onClick={handleCommitRoll}
-              disabled={isLoading || !connectedAddress || !rollCost}
+              disabled={
+                isLoading ||
+                !connectedAddress ||
+                !rollCost ||
+                !canPlayBatch ||
+                !!limitReason ||
+                (isDerivedMode && !derivedSecret.isReady)
+              }
             >
               {isLoading ? (
                 <>
                   <span className="loading loading-spinner loading-md"></span>
-                  {isWaitingForApproval && <span>Waiting for approval...</span>}
+                  {commitStep === "approving" && <span>Waiting for approval...</span>}
+                  {commitStep === "signing" && <span>Sign the USDC permit...</span>}
                 </>
               ) : (
                 <>
                   <SparklesIcon className="h-6 w-6" />
-                  ROLL (${formatUsdc(rollCost)})
+                  ROLL {rollCount > 1 && `${rollCount}× `}(${formatUsdc(batchCost)})
                 </>
               )}
             </button>
+
+            {(limitReason || spendLeft !== maxUint256 || rollsLeft !== maxUint256) && (
+              <p className={`text-xs text-center ${limitReason ? "text-error" : "text-base-content/60"}`}>
+                {limitReason ??
+                  [
+                    spendLeft !== maxUint256 && `$${formatUsdc(spendLeft)} left today`,
+                    rollsLeft !== maxUint256 && `${rollsLeft} rolls left this hour`,
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+              </p>
+            )}
           </div>
         )}
       </div>
 
+      <div className="w-full max-w-2xl mb-8 space-y-8">
+        {connectedAddress && <PlayLimits player={connectedAddress} onChange={refetchAll} />}
+        {connectedAddress && <RollHistory player={connectedAddress} />}
+        <LiveRollFeed />
+      </div>
+
       {/* Link to House */}
       <div className="text-center pb-12">
         <p className="text-base-content/50 mb-3">Want to be the house instead?</p>
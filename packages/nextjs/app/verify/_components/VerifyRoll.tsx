@@ -0,0 +1,232 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Address } from "@scaffold-ui/components";
+import { Abi, Hash, Hex, formatUnits, isHash, isHex } from "viem";
+import { usePublicClient } from "wagmi";
+import { CheckCircleIcon, ShieldCheckIcon, XCircleIcon } from "@heroicons/react/24/outline";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+import { RollVerification, verifyRollTx } from "~~/utils/verifyRoll";
+
+const Check = ({ ok }: { ok: boolean }) =>
+  ok ? (
+    <CheckCircleIcon className="h-5 w-5 text-success shrink-0" />
+  ) : (
+    <XCircleIcon className="h-5 w-5 text-error shrink-0" />
+  );
+
+const Mono = ({ children }: { children: React.ReactNode }) => (
+  <code className="font-mono text-xs break-all bg-base-200 rounded px-1">{children}</code>
+);
+
+const Step = ({ index, title, children }: { index: number; title: string; children: React.ReactNode }) => (
+  <div className="bg-base-100 rounded-2xl p-5 border border-base-300 space-y-2">
+    <p className="font-bold">
+      <span className="text-primary mr-2">{index}.</span>
+      {title}
+    </p>
+    <div className="text-sm space-y-2">{children}</div>
+  </div>
+);
+
+/**
+ * Recomputes a RollRevealed outcome from the reveal tx and shows every step of the check
+ */
+export const VerifyRoll = () => {
+  const searchParams = useSearchParams();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: diceGame } = useDeployedContractInfo({ contractName: "DiceGame" });
+
+  const [txHash, setTxHash] = useState(searchParams.get("tx") ?? "");
+  const [secretOverride, setSecretOverride] = useState("");
+  const [result, setResult] = useState<RollVerification>();
+  const [error, setError] = useState<string>();
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const verify = useCallback(
+    async (hash: string) => {
+      if (!publicClient || !diceGame) return;
+      if (!isHash(hash)) {
+        setError("Enter a valid transaction hash");
+        return;
+      }
+      if (secretOverride && (!isHex(secretOverride) || secretOverride.length !== 66)) {
+        setError("The secret must be a 32-byte hex value");
+        return;
+      }
+
+      try {
+        setIsVerifying(true);
+        setError(undefined);
+        setResult(undefined);
+        setResult(
+          await verifyRollTx(
+            publicClient,
+            { address: diceGame.address, abi: diceGame.abi as Abi },
+            hash as Hash,
+            (secretOverride || undefined) as Hex | undefined,
+          ),
+        );
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Verification failed");
+      } finally {
+        setIsVerifying(false);
+      }
+    },
+    [publicClient, diceGame, secretOverride],
+  );
+
+  // Verify straight away when linked with ?tx=
+  const linkedTx = searchParams.get("tx");
+  const hasVerifiedLink = useRef(false);
+  useEffect(() => {
+    if (hasVerifiedLink.current || !linkedTx || !publicClient || !diceGame) return;
+    hasVerifiedLink.current = true;
+    verify(linkedTx);
+  }, [linkedTx, publicClient, diceGame, verify]);
+
+  const formatUsdc = (value: bigint) => formatUnits(value, USDC_DECIMALS);
+
+  return (
+    <div className="flex flex-col items-center px-5 py-12 w-full">
+      <h1 className="text-4xl font-black mb-2 flex items-center gap-2">
+        <ShieldCheckIcon className="h-9 w-9" />
+        Verify a Roll
+      </h1>
+      <p className="text-base-content/60 mb-8 text-center max-w-lg">
+        Paste a reveal transaction hash. The outcome is recomputed in your browser from the revealed secret and the
+        commit block hash - no trust in this site required.
+      </p>
+
+      <div className="w-full max-w-2xl space-y-3 mb-8">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            className="input input-bordered flex-1 font-mono text-sm"
+            placeholder="Reveal transaction hash (0x...)"
+            value={txHash}
+            onChange={e => setTxHash(e.target.value.trim())}
+          />
+          <button className="btn btn-primary" onClick={() => verify(txHash)} disabled={isVerifying || !diceGame}>
+            {isVerifying ? <span className="loading loading-spinner loading-sm"></span> : "Verify"}
+          </button>
+        </div>
+        <input
+          type="text"
+          className="input input-bordered input-sm w-full font-mono text-xs"
+          placeholder="Secret (only needed if the reveal was sent through a smart wallet)"
+          value={secretOverride}
+          onChange={e => setSecretOverride(e.target.value.trim())}
+        />
+        {error && <p className="text-error text-sm">{error}</p>}
+      </div>
+
+      {result && (
+        <div className="w-full max-w-2xl space-y-4">
+          <div
+            className={`rounded-2xl p-6 text-center border-2 ${
+              result.isFair ? "bg-success/10 border-success" : "bg-error/10 border-error"
+            }`}
+          >
+            <p className={`text-2xl font-black ${result.isFair ? "text-success" : "text-error"}`}>
+              {result.isFair ? "✅ Outcome verified" : "❌ Outcome does not match"}
+            </p>
+            <p className="text-sm text-base-content/60 mt-1">
+              {result.computedWins} of {result.rolls.length} rolls won · payout ${formatUsdc(result.computedPayout)}
+            </p>
+          </div>
+
+          <Step index={1} title="Reveal transaction">
+            <div className="flex items-center gap-2">
+              Player: <Address address={result.player} format="long" onlyEnsOrAddress />
+            </div>
+            <p>
+              Block: <Mono>{result.revealBlock.toString()}</Mono>
+            </p>
+            <p>
+              Secret from <Mono>revealRoll(secret)</Mono>: <Mono>{result.secret}</Mono>
+            </p>
+          </Step>
+
+          <Step index={2} title="Secret matches the commitment">
+            <p>
+              Commit tx: <Mono>{result.commitTxHash}</Mono>
+            </p>
+            <p>
+              Committed hash: <Mono>{result.commitHash}</Mono>
+            </p>
+            <p>
+              keccak256(secret): <Mono>{result.secretHash}</Mono>
+            </p>
+            <div className="flex items-center gap-2">
+              <Check ok={result.secretMatches} />
+              {result.secretMatches ? "The revealed secret is the one committed" : "Hashes differ"}
+            </div>
+          </Step>
+
+          <Step index={3} title="Commit block hash">
+            <p>
+              Commit block: <Mono>{result.commitBlock.toString()}</Mono> (unknown to the player when committing)
+            </p>
+            <p>
+              blockhash: <Mono>{result.commitBlockHash}</Mono>
+            </p>
+          </Step>
+
+          <Step index={4} title="Recompute each roll">
+            <p>
+              Tier {result.tier}: a roll wins when <Mono>entropy % {result.modulo.toString()} == 0</Mono>
+            </p>
+            <p>
+              Roll 0: <Mono>entropy = keccak256(secret, blockhash)</Mono>
+              {result.rolls.length > 1 && (
+                <>
+                  {" "}
+                  · roll i: <Mono>keccak256(entropy₀, i)</Mono>
+                </>
+              )}
+            </p>
+            <div className="overflow-x-auto">
+              <table className="table table-xs">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    <th>Entropy</th>
+                    <th>% {result.modulo.toString()}</th>
+                    <th>Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.rolls.map(roll => (
+                    <tr key={roll.index}>
+                      <td>{roll.index}</td>
+                      <td className="font-mono">
+                        {roll.entropy.slice(0, 10)}…{roll.entropy.slice(-8)}
+                      </td>
+                      <td className="font-mono">{roll.remainder.toString()}</td>
+                      <td>{roll.won ? "🎉 win" : "💀 loss"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Step>
+
+          <Step index={5} title="Compare with the RollRevealed event">
+            <div className="flex items-center gap-2">
+              <Check ok={BigInt(result.computedWins) === result.reported.wins} />
+              Wins: computed {result.computedWins}, event {result.reported.wins.toString()}
+            </div>
+            <div className="flex items-center gap-2">
+              <Check ok={result.computedPayout === result.reported.payout} />
+              Payout: computed ${formatUsdc(result.computedPayout)}, event ${formatUsdc(result.reported.payout)}
+            </div>
+          </Step>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,19 @@
+import { Suspense } from "react";
+import { VerifyRoll } from "./_components/VerifyRoll";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Verify a Roll",
+  description: "Recompute any revealed roll from its secret and commit block hash",
+});
+
+const Verify: NextPage = () => {
+  return (
+    <Suspense>
+      <VerifyRoll />
+    </Suspense>
+  );
+};
+
+export default Verify;
@@ -0,0 +1,11 @@
+"use client";
+
+import { useAutoReveal } from "~~/hooks/useAutoReveal";
+
+/**
+ * Mounted once for the whole app so winning rolls are claimed from any page
+ */
+export const AutoRevealWatcher = () => {
+  useAutoReveal();
+  return null;
+};
@@ -4,8 +4,17 @@ import React, { useRef } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
 import { hardhat } from "viem/chains";
-import { Bars3Icon, BugAntIcon, HomeModernIcon, SparklesIcon } from "@heroicons/react/24/outline";
-import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
+import {
+  Bars3Icon,
+  BugAntIcon,
+  HomeModernIcon,
+  PresentationChartLineIcon,
+  ShieldCheckIcon,
+  ShieldExclamationIcon,
+  SparklesIcon,
+  TrophyIcon,
+} from "@heroicons/react/24/outline";
+import { FaucetButton, PendingTransactions, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { useOutsideClick, useTargetNetwork } from "~~/hooks/scaffold-eth";
 
 type HeaderMenuLink = {
@@ -25,6 +34,26 @@ export const menuLinks: HeaderMenuLink[] = [
     href: "/house",
     icon: <HomeModernIcon className="h-4 w-4" />,
   },
+  {
+    label: "Leaderboard",
+    href: "/leaderboard",
+    icon: <TrophyIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Dashboard",
+    href: "/dashboard",
+    icon: <PresentationChartLineIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Verify",
+    href: "/verify",
+    icon: <ShieldCheckIcon className="h-4 w-4" />,
+  },
+  {
+    label: "Admin",
+    href: "/admin",
+    icon: <ShieldExclamationIcon className="h-4 w-4" />,
+  },
   {
     label: "Debug",
     href: "/debug",
@@ -100,6 +129,7 @@ export const Header = () => {
         </ul>
       </div>
       <div className="navbar-end grow mr-4">
+        <PendingTransactions />
         <RainbowKitCustomConnectButton />
         {isLocalNetwork && <FaucetButton />}
       </div>
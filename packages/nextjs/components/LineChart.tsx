@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from "react";
+
+export type LineChartSeries = {
+  label: string;
+  // Any CSS color, e.g. "var(--color-primary)"
+  color: string;
+  points: { x: number; y: number }[];
+  dashed?: boolean;
+};
+
+type LineChartProps = {
+  series: LineChartSeries[];
+  height?: number;
+  formatX?: (x: number) => string;
+  formatY?: (y: number) => string;
+};
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 56 };
+
+/**
+ * Minimal responsive SVG line chart with a hover readout (no chart library)
+ */
+export const LineChart = ({ series, height = 220, formatX = String, formatY = String }: LineChartProps) => {
+  const [hoverX, setHoverX] = useState<number>();
+
+  const allPoints = series.flatMap(s => s.points);
+  if (allPoints.length < 2) {
+    return (
+      <div className="flex items-center justify-center text-sm text-base-content/50" style={{ height }}>
+        Not enough history yet
+      </div>
+    );
+  }
+
+  const minX = Math.min(...allPoints.map(p => p.x));
+  const maxX = Math.max(...allPoints.map(p => p.x));
+  let minY = Math.min(...allPoints.map(p => p.y));
+  let maxY = Math.max(...allPoints.map(p => p.y));
+  if (minY === maxY) {
+    minY -= 1;
+    maxY += 1;
+  }
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const scaleX = (x: number) => PADDING.left + (maxX === minX ? 0 : ((x - minX) / (maxX - minX)) * plotWidth);
+  const scaleY = (y: number) => PADDING.top + plotHeight - ((y - minY) / (maxY - minY)) * plotHeight;
+
+  // Step lines: a value holds until the next point
+  const toPath = (points: { x: number; y: number }[]) =>
+    points.map((p, i) => (i === 0 ? `M${scaleX(p.x)},${scaleY(p.y)}` : `H${scaleX(p.x)}V${scaleY(p.y)}`)).join("");
+
+  const valueAt = (points: { x: number; y: number }[], x: number) => [...points].reverse().find(p => p.x <= x)?.y;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const svgX = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = Math.min(1, Math.max(0, (svgX - PADDING.left) / plotWidth));
+    setHoverX(minX + ratio * (maxX - minX));
+  };
+
+  const yTicks = [minY, (minY + maxY) / 2, maxY];
+
+  return (
+    <div className="space-y-2">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full"
+        onMouseMove={handleMove}
+        onMouseLeave={() => setHoverX(undefined)}
+      >
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={scaleY(tick)}
+              y2={scaleY(tick)}
+              stroke="currentColor"
+              strokeOpacity={0.1}
+            />
+            <text
+              x={PADDING.left - 6}
+              y={scaleY(tick)}
+              textAnchor="end"
+              dominantBaseline="middle"
+              fontSize={10}
+              fill="currentColor"
+              fillOpacity={0.5}
+            >
+              {formatY(tick)}
+            </text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={height - 6} fontSize={10} fill="currentColor" fillOpacity={0.5}>
+          {formatX(minX)}
+        </text>
+        <text
+          x={WIDTH - PADDING.right}
+          y={height - 6}
+          textAnchor="end"
+          fontSize={10}
+          fill="currentColor"
+          fillOpacity={0.5}
+        >
+          {formatX(maxX)}
+        </text>
+
+        {series.map(s => (
+          <path
+            key={s.label}
+            d={toPath(s.points)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            strokeDasharray={s.dashed ? "4 4" : undefined}
+          />
+        ))}
+
+        {hoverX !== undefined && (
+          <line
+            x1={scaleX(hoverX)}
+            x2={scaleX(hoverX)}
+            y1={PADDING.top}
+            y2={PADDING.top + plotHeight}
+            stroke="currentColor"
+            strokeOpacity={0.3}
+          />
+        )}
+      </svg>
+
+      <div className="flex flex-wrap justify-center gap-4 text-xs">
+        {hoverX !== undefined && <span className="text-base-content/60">{formatX(hoverX)}</span>}
+        {series.map(s => {
+          const value = hoverX !== undefined ? valueAt(s.points, hoverX) : s.points[s.points.length - 1]?.y;
+          return (
+            <span key={s.label} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: s.color }}></span>
+              {s.label}
+              {value !== undefined && <span className="font-mono">{formatY(value)}</span>}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+"use client";
+
+import { formatUnits } from "viem";
+import { ExclamationTriangleIcon } from "@heroicons/react/24/outline";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+
+type LiquidityWarningProps = {
+  // What the shortfall means on this page (e.g. partial sale fills, deferred winnings)
+  note: string;
+  // Player whose unpaid winnings to show with a claim button
+  player?: string;
+};
+
+const formatUsdc = (value: bigint | undefined) =>
+  parseFloat(formatUnits(value ?? 0n, 6)).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+/**
+ * "Vault liquidity constrained" banner, shown while the vault cannot release all of its funds or winnings are owed
+ */
+export const LiquidityWarning = ({ note, player }: LiquidityWarningProps) => {
+  const { data: isConstrained } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "isLiquidityConstrained",
+  });
+
+  const { data: availableLiquidity } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "availableLiquidity",
+  });
+
+  const { data: owed } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "owed",
+    args: [player],
+    query: { enabled: !!player },
+  });
+
+  const { writeContractAsync: writeHousePoolAsync, isPending } = useScaffoldWriteContract("HousePool");
+
+  const hasOwed = owed !== undefined && owed > 0n;
+  if (!isConstrained && !hasOwed) return null;
+
+  const handleClaim = async () => {
+    if (!player) return;
+    try {
+      await writeHousePoolAsync({ functionName: "claimOwed", args: [player] });
+    } catch (error) {
+      console.error("Claim failed:", error);
+    }
+  };
+
+  return (
+    <div className="alert alert-warning w-full max-w-4xl mb-6 items-start">
+      <ExclamationTriangleIcon className="h-6 w-6 shrink-0" />
+      <div className="flex-1">
+        <p className="font-bold">Vault liquidity constrained</p>
+        <p className="text-sm">
+          Only ${formatUsdc(availableLiquidity)} can be paid out right now. {note}
+        </p>
+        {hasOwed && (
+          <div className="flex items-center gap-3 mt-2">
+            <p className="text-sm">
+              You are owed <span className="font-bold font-mono">${formatUsdc(owed)}</span> in winnings.
+            </p>
+            <button className="btn btn-sm" onClick={handleClaim} disabled={isPending}>
+              {isPending ? <span className="loading loading-spinner loading-xs"></span> : "Claim"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
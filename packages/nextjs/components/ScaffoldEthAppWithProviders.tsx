@@ -7,8 +7,10 @@ import { AppProgressBar as ProgressBar } from "next-nprogress-bar";
 import { useTheme } from "next-themes";
 import { Toaster } from "react-hot-toast";
 import { WagmiProvider } from "wagmi";
+import { AutoRevealWatcher } from "~~/components/AutoRevealWatcher";
 import { Footer } from "~~/components/Footer";
 import { Header } from "~~/components/Header";
+import { TransactionWatcher } from "~~/components/TransactionWatcher";
 import { BlockieAvatar } from "~~/components/scaffold-eth";
 import { wagmiConfig } from "~~/services/web3/wagmiConfig";
 
@@ -21,6 +23,8 @@ const ScaffoldEthApp = ({ children }: { children: React.ReactNode }) => {
         <Footer />
       </div>
       <Toaster />
+      <AutoRevealWatcher />
+      <TransactionWatcher />
     </>
   );
 };
@@ -0,0 +1,11 @@
+"use client";
+
+import { useTransactionWatcher } from "~~/hooks/scaffold-eth";
+
+/**
+ * Mounted once for the whole app so transactions sent before a reload keep being followed
+ */
+export const TransactionWatcher = () => {
+  useTransactionWatcher();
+  return null;
+};
@@ -0,0 +1,124 @@
+import { useRef } from "react";
+import { ArrowTopRightOnSquareIcon, ClockIcon, XMarkIcon } from "@heroicons/react/24/outline";
+import { useOutsideClick, useTransactionManager } from "~~/hooks/scaffold-eth";
+import { TrackedTransaction, TrackedTransactionStatus } from "~~/services/store/transactionStore";
+import { getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+
+const STATUS_BADGES: Record<TrackedTransactionStatus, string> = {
+  pending: "badge-warning",
+  confirmed: "badge-success",
+  reverted: "badge-error",
+  replaced: "badge-ghost",
+  cancelled: "badge-ghost",
+  dropped: "badge-error",
+};
+
+const formatAge = (timestamp: number) => {
+  const seconds = Math.max(Math.floor((Date.now() - timestamp) / 1000), 0);
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return `${Math.floor(seconds / 3600)}h ago`;
+};
+
+const TransactionRow = ({
+  transaction,
+  onSpeedUp,
+  onCancel,
+  onDismiss,
+}: {
+  transaction: TrackedTransaction;
+  onSpeedUp: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+}) => {
+  const isPending = transaction.status === "pending";
+  const blockExplorerLink = getBlockExplorerTxLink(transaction.chainId, transaction.hash);
+  // Replacements need the nonce and gas of the original, filled in once the node returns it
+  const canReplace = isPending && transaction.nonce !== undefined;
+
+  return (
+    <li className="flex flex-col gap-1 p-2 rounded-xl bg-base-100">
+      <div className="flex items-center justify-between gap-2 p-0 hover:bg-transparent">
+        <span className="font-medium truncate max-w-48">{transaction.description}</span>
+        <span className={`badge badge-sm ${STATUS_BADGES[transaction.status]}`}>{transaction.status}</span>
+      </div>
+      <div className="flex items-center justify-between gap-2 p-0 text-xs text-base-content/60 hover:bg-transparent">
+        <span>{formatAge(transaction.submittedAt)}</span>
+        <div className="flex items-center gap-2">
+          {blockExplorerLink && (
+            <a href={blockExplorerLink} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1">
+              {transaction.hash.slice(0, 6)}...{transaction.hash.slice(-4)}
+              <ArrowTopRightOnSquareIcon className="h-3 w-3" />
+            </a>
+          )}
+          {!isPending && (
+            <button className="btn btn-ghost btn-xs px-1" onClick={onDismiss} aria-label="Dismiss">
+              <XMarkIcon className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      </div>
+      {isPending && (
+        <div className="flex gap-2 p-0 hover:bg-transparent">
+          <button className="btn btn-primary btn-xs" disabled={!canReplace} onClick={onSpeedUp}>
+            Speed up
+          </button>
+          <button className="btn btn-ghost btn-xs" disabled={!canReplace} onClick={onCancel}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Header indicator of the connected account's transactions, with speed up and cancel actions for pending ones
+ */
+export const PendingTransactions = () => {
+  const { transactions, pendingTransactions, speedUp, cancel, dismiss, clearFinished } = useTransactionManager();
+  const dropdownRef = useRef<HTMLDetailsElement>(null);
+
+  const closeDropdown = () => {
+    dropdownRef.current?.removeAttribute("open");
+  };
+
+  useOutsideClick(dropdownRef, closeDropdown);
+
+  if (transactions.length === 0) return null;
+
+  const hasFinished = transactions.length > pendingTransactions.length;
+
+  return (
+    <details ref={dropdownRef} className="dropdown dropdown-end leading-3 mr-2">
+      <summary className="btn btn-sm btn-ghost gap-1 shadow-md dropdown-toggle">
+        {pendingTransactions.length > 0 ? (
+          <>
+            <span className="loading loading-spinner loading-xs"></span>
+            <span className="badge badge-warning badge-sm">{pendingTransactions.length}</span>
+          </>
+        ) : (
+          <ClockIcon className="h-4 w-4" />
+        )}
+      </summary>
+      <ul className="dropdown-content menu z-2 p-2 mt-2 w-80 shadow-center shadow-accent bg-base-200 rounded-box gap-1 max-h-96 flex-nowrap overflow-y-auto">
+        {transactions.map(transaction => (
+          <TransactionRow
+            key={transaction.hash}
+            transaction={transaction}
+            onSpeedUp={() => speedUp(transaction.hash)}
+            onCancel={() => cancel(transaction.hash)}
+            onDismiss={() => dismiss(transaction.hash)}
+          />
+        ))}
+        {hasFinished && (
+          <li>
+            <button className="btn btn-ghost btn-xs" onClick={clearFinished}>
+              Clear finished
+            </button>
+          </li>
+        )}
+      </ul>
+    </details>
+  );
+};
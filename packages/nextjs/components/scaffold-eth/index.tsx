@@ -1,4 +1,5 @@
 export * from "./BlockieAvatar";
 export * from "./Faucet";
 export * from "./FaucetButton";
+export * from "./PendingTransactions";
 export * from "./RainbowKitCustomConnectButton";
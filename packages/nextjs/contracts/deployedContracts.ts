@@ -1638,6 +1638,84 @@ const deployedContracts = {
           ],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "BUFFER_MAX",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "BUFFER_MIN",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "DEFAULT_TIER",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "LIMIT_LOOSEN_DELAY",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "MAX_ROLLS",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "MAX_SELF_EXCLUSION",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "MIN_RESERVE",
@@ -1677,6 +1755,19 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "TIER_COUNT",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "WIN_MODULO",
@@ -1703,6 +1794,37 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "canPlayRolls",
+          inputs: [
+            {
+              name: "rolls",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "cancelPendingLimits",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "checkRoll",
@@ -1732,6 +1854,40 @@ const deployedContracts = {
           ],
           stateMutability: "view",
         },
+        {
+          type: "function",
+          name: "checkRolls",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "secret",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          outputs: [
+            {
+              name: "canCheck",
+              type: "bool",
+              internalType: "bool",
+            },
+            {
+              name: "results",
+              type: "bool[]",
+              internalType: "bool[]",
+            },
+            {
+              name: "totalPayout",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
         {
           type: "function",
           name: "commitRoll",
@@ -1745,6 +1901,105 @@ const deployedContracts = {
           outputs: [],
           stateMutability: "nonpayable",
         },
+        {
+          type: "function",
+          name: "commitRollWithPermit",
+          inputs: [
+            {
+              name: "commitHash",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "deadline",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "v",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "r",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "s",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "commitRolls",
+          inputs: [
+            {
+              name: "commitHash",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "rolls",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "commitRollsWithPermit",
+          inputs: [
+            {
+              name: "commitHash",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "rolls",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "deadline",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "v",
+              type: "uint8",
+              internalType: "uint8",
+            },
+            {
+              name: "r",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+            {
+              name: "s",
+              type: "bytes32",
+              internalType: "bytes32",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
         {
           type: "function",
           name: "commits",
@@ -1766,6 +2021,16 @@ const deployedContracts = {
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "rolls",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
+            },
           ],
           stateMutability: "view",
         },
@@ -1805,166 +2070,117 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "housePool",
-          inputs: [],
-          outputs: [
+          name: "getLimits",
+          inputs: [
             {
-              name: "",
+              name: "player",
               type: "address",
-              internalType: "contract HousePool",
+              internalType: "address",
             },
           ],
-          stateMutability: "view",
-        },
-        {
-          type: "function",
-          name: "revealRoll",
-          inputs: [
+          outputs: [
             {
-              name: "secret",
-              type: "bytes32",
-              internalType: "bytes32",
+              name: "dailySpendCap",
+              type: "uint256",
+              internalType: "uint256",
             },
-          ],
-          outputs: [
             {
-              name: "won",
-              type: "bool",
-              internalType: "bool",
+              name: "maxRollsPerHour",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "excludedUntil",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "pendingDailySpendCap",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "pendingMaxRollsPerHour",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "pendingEffectiveAt",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "usdc",
+          name: "getTiers",
           inputs: [],
           outputs: [
             {
-              name: "",
-              type: "address",
-              internalType: "contract IERC20",
+              name: "modulos",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+            {
+              name: "payouts",
+              type: "uint256[]",
+              internalType: "uint256[]",
             },
           ],
-          stateMutability: "view",
+          stateMutability: "pure",
         },
         {
           type: "function",
-          name: "vaultManager",
+          name: "housePool",
           inputs: [],
           outputs: [
             {
               name: "",
               type: "address",
-              internalType: "contract VaultManager",
+              internalType: "contract HousePool",
             },
           ],
           stateMutability: "view",
         },
         {
-          type: "event",
-          name: "RollCommitted",
+          type: "function",
+          name: "limits",
           inputs: [
             {
-              name: "player",
+              name: "",
               type: "address",
-              indexed: true,
               internalType: "address",
             },
-            {
-              name: "commitment",
-              type: "bytes32",
-              indexed: false,
-              internalType: "bytes32",
-            },
           ],
-          anonymous: false,
-        },
-        {
-          type: "event",
-          name: "RollRevealed",
-          inputs: [
-            {
-              name: "player",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
+          outputs: [
             {
-              name: "won",
-              type: "bool",
-              indexed: false,
-              internalType: "bool",
+              name: "dailySpendCap",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "payout",
+              name: "maxRollsPerHour",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
-          ],
-          anonymous: false,
-        },
-        {
-          type: "error",
-          name: "GameNotPlayable",
-          inputs: [],
-        },
-        {
-          type: "error",
-          name: "InvalidReveal",
-          inputs: [],
-        },
-        {
-          type: "error",
-          name: "NoCommitment",
-          inputs: [],
-        },
-        {
-          type: "error",
-          name: "TooEarly",
-          inputs: [],
-        },
-        {
-          type: "error",
-          name: "TooLate",
-          inputs: [],
-        },
-      ],
-      inheritedFunctions: {},
-      deployedOnBlock: 40212480,
-    },
-    HousePool: {
-      address: "0x06613A0B36a41ae459A03A2Fd9aF588E2c07ec6F",
-      abi: [
-        {
-          type: "constructor",
-          inputs: [
             {
-              name: "_usdc",
-              type: "address",
-              internalType: "address",
+              name: "excludedUntil",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "_game",
-              type: "address",
-              internalType: "address",
+              name: "pendingDailySpendCap",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "_vaultManager",
-              type: "address",
-              internalType: "address",
+              name: "pendingMaxRollsPerHour",
+              type: "uint256",
+              internalType: "uint256",
             },
-          ],
-          stateMutability: "nonpayable",
-        },
-        {
-          type: "function",
-          name: "MIN_FIRST_DEPOSIT",
-          inputs: [],
-          outputs: [
             {
-              name: "",
+              name: "pendingEffectiveAt",
               type: "uint256",
               internalType: "uint256",
             },
@@ -1973,43 +2189,46 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "WITHDRAWAL_DELAY",
-          inputs: [],
+          name: "remainingAllowance",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              internalType: "address",
+            },
+          ],
           outputs: [
             {
-              name: "",
+              name: "spendLeft",
               type: "uint256",
               internalType: "uint256",
             },
-          ],
-          stateMutability: "view",
-        },
-        {
-          type: "function",
-          name: "WITHDRAWAL_WINDOW",
-          inputs: [],
-          outputs: [
             {
-              name: "",
+              name: "rollsLeft",
               type: "uint256",
               internalType: "uint256",
             },
+            {
+              name: "excluded",
+              type: "bool",
+              internalType: "bool",
+            },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "allowance",
+          name: "requiredReserve",
           inputs: [
             {
-              name: "owner",
-              type: "address",
-              internalType: "address",
+              name: "rolls",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "spender",
-              type: "address",
-              internalType: "address",
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
             },
           ],
           outputs: [
@@ -2019,26 +2238,21 @@ const deployedContracts = {
               internalType: "uint256",
             },
           ],
-          stateMutability: "view",
+          stateMutability: "pure",
         },
         {
           type: "function",
-          name: "approve",
+          name: "revealRoll",
           inputs: [
             {
-              name: "spender",
-              type: "address",
-              internalType: "address",
-            },
-            {
-              name: "value",
-              type: "uint256",
-              internalType: "uint256",
+              name: "secret",
+              type: "bytes32",
+              internalType: "bytes32",
             },
           ],
           outputs: [
             {
-              name: "",
+              name: "won",
               type: "bool",
               internalType: "bool",
             },
@@ -2047,38 +2261,30 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "balanceOf",
+          name: "selfExclude",
           inputs: [
             {
-              name: "account",
-              type: "address",
-              internalType: "address",
-            },
-          ],
-          outputs: [
-            {
-              name: "",
+              name: "duration",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          stateMutability: "view",
-        },
-        {
-          type: "function",
-          name: "cancelWithdrawal",
-          inputs: [],
           outputs: [],
           stateMutability: "nonpayable",
         },
         {
           type: "function",
-          name: "cleanupExpiredWithdrawal",
+          name: "setLimits",
           inputs: [
             {
-              name: "lp",
-              type: "address",
-              internalType: "address",
+              name: "dailySpendCap",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "maxRollsPerHour",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
           outputs: [],
@@ -2086,229 +2292,351 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "decimals",
-          inputs: [],
-          outputs: [
+          name: "tierModulo",
+          inputs: [
             {
-              name: "",
+              name: "tier",
               type: "uint8",
               internalType: "uint8",
             },
           ],
-          stateMutability: "view",
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "pure",
         },
         {
           type: "function",
-          name: "deposit",
+          name: "tierPayout",
           inputs: [
             {
-              name: "usdcAmount",
-              type: "uint256",
-              internalType: "uint256",
+              name: "tier",
+              type: "uint8",
+              internalType: "uint8",
             },
           ],
           outputs: [
             {
-              name: "shares",
+              name: "",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "pure",
         },
         {
           type: "function",
-          name: "deposit",
+          name: "usage",
           inputs: [
             {
-              name: "usdcAmount",
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "day",
               type: "uint256",
               internalType: "uint256",
             },
             {
-              name: "minSharesOut",
+              name: "spent",
               type: "uint256",
               internalType: "uint256",
             },
-          ],
-          outputs: [
             {
-              name: "shares",
+              name: "hour",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "rolls",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "effectivePool",
+          name: "usdc",
           inputs: [],
           outputs: [
             {
               name: "",
-              type: "uint256",
-              internalType: "uint256",
+              type: "address",
+              internalType: "contract IERC20",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "game",
+          name: "vaultManager",
           inputs: [],
           outputs: [
             {
               name: "",
               type: "address",
-              internalType: "address",
+              internalType: "contract VaultManager",
             },
           ],
           stateMutability: "view",
         },
         {
-          type: "function",
-          name: "getWithdrawalRequest",
+          type: "event",
+          name: "LimitsLooseningScheduled",
           inputs: [
             {
-              name: "lp",
+              name: "player",
               type: "address",
+              indexed: true,
               internalType: "address",
             },
-          ],
-          outputs: [
             {
-              name: "shares",
+              name: "dailySpendCap",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
             {
-              name: "unlockTime",
+              name: "maxRollsPerHour",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
             {
-              name: "expiryTime",
+              name: "effectiveAt",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
-            {
-              name: "canWithdraw",
-              type: "bool",
-              internalType: "bool",
-            },
-            {
-              name: "isExpired",
-              type: "bool",
-              internalType: "bool",
-            },
           ],
-          stateMutability: "view",
+          anonymous: false,
         },
         {
-          type: "function",
-          name: "liquidPool",
-          inputs: [],
-          outputs: [
+          type: "event",
+          name: "LimitsUpdated",
+          inputs: [
             {
-              name: "",
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "dailySpendCap",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
-          ],
-          stateMutability: "view",
-        },
-        {
-          type: "function",
-          name: "name",
-          inputs: [],
-          outputs: [
             {
-              name: "",
-              type: "string",
-              internalType: "string",
+              name: "maxRollsPerHour",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
             },
           ],
-          stateMutability: "view",
+          anonymous: false,
         },
         {
-          type: "function",
-          name: "payout",
+          type: "event",
+          name: "RollCommitted",
           inputs: [
             {
               name: "player",
               type: "address",
+              indexed: true,
               internalType: "address",
             },
             {
-              name: "amount",
+              name: "commitment",
+              type: "bytes32",
+              indexed: false,
+              internalType: "bytes32",
+            },
+            {
+              name: "rolls",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
+            {
+              name: "tier",
+              type: "uint8",
+              indexed: false,
+              internalType: "uint8",
+            },
           ],
-          outputs: [],
-          stateMutability: "nonpayable",
+          anonymous: false,
         },
         {
-          type: "function",
-          name: "receivePayment",
+          type: "event",
+          name: "RollRevealed",
           inputs: [
             {
               name: "player",
               type: "address",
+              indexed: true,
               internalType: "address",
             },
             {
-              name: "amount",
+              name: "won",
+              type: "bool",
+              indexed: false,
+              internalType: "bool",
+            },
+            {
+              name: "payout",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "rolls",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "wins",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
           ],
-          outputs: [],
-          stateMutability: "nonpayable",
+          anonymous: false,
         },
         {
-          type: "function",
-          name: "requestWithdrawal",
+          type: "event",
+          name: "SelfExclusionSet",
           inputs: [
             {
-              name: "shares",
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "excludedUntil",
               type: "uint256",
+              indexed: false,
               internalType: "uint256",
             },
           ],
-          outputs: [],
-          stateMutability: "nonpayable",
+          anonymous: false,
         },
         {
-          type: "function",
-          name: "sharePrice",
+          type: "error",
+          name: "DailySpendLimitExceeded",
           inputs: [],
-          outputs: [
+        },
+        {
+          type: "error",
+          name: "GameNotPlayable",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "GamePaused",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "HourlyRollLimitExceeded",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidDuration",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidReveal",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidRollCount",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidTier",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "NoCommitment",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "SelfExcluded",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "TooEarly",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "TooLate",
+          inputs: [],
+        },
+      ],
+      inheritedFunctions: {},
+      deployedOnBlock: 40212480,
+    },
+    HousePool: {
+      address: "0x06613A0B36a41ae459A03A2Fd9aF588E2c07ec6F",
+      abi: [
+        {
+          type: "constructor",
+          inputs: [
             {
-              name: "",
+              name: "_usdc",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "_game",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "_vaultManager",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "_bufferMin",
               type: "uint256",
               internalType: "uint256",
             },
-          ],
-          stateMutability: "view",
-        },
-        {
-          type: "function",
-          name: "symbol",
-          inputs: [],
-          outputs: [
             {
-              name: "",
-              type: "string",
-              internalType: "string",
+              name: "_bufferMax",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "_guardian",
+              type: "address",
+              internalType: "address",
             },
           ],
-          stateMutability: "view",
+          stateMutability: "nonpayable",
         },
         {
           type: "function",
-          name: "totalPendingShares",
+          name: "MAX_INLINE_REQUESTS",
           inputs: [],
           outputs: [
             {
@@ -2321,7 +2649,7 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "totalPool",
+          name: "MIN_FIRST_DEPOSIT",
           inputs: [],
           outputs: [
             {
@@ -2334,7 +2662,7 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "totalSupply",
+          name: "WITHDRAWAL_DELAY",
           inputs: [],
           outputs: [
             {
@@ -2347,39 +2675,34 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "transfer",
+          name: "allowance",
           inputs: [
             {
-              name: "to",
+              name: "owner",
               type: "address",
               internalType: "address",
             },
             {
-              name: "value",
-              type: "uint256",
-              internalType: "uint256",
+              name: "spender",
+              type: "address",
+              internalType: "address",
             },
           ],
           outputs: [
             {
               name: "",
-              type: "bool",
-              internalType: "bool",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "transferFrom",
+          name: "approve",
           inputs: [
             {
-              name: "from",
-              type: "address",
-              internalType: "address",
-            },
-            {
-              name: "to",
+              name: "spender",
               type: "address",
               internalType: "address",
             },
@@ -2400,27 +2723,21 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "usdc",
+          name: "asset",
           inputs: [],
           outputs: [
             {
               name: "",
               type: "address",
-              internalType: "contract IERC20",
+              internalType: "address",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "usdcValue",
-          inputs: [
-            {
-              name: "lp",
-              type: "address",
-              internalType: "address",
-            },
-          ],
+          name: "availableLiquidity",
+          inputs: [],
           outputs: [
             {
               name: "",
@@ -2432,20 +2749,26 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "vaultManager",
-          inputs: [],
+          name: "balanceOf",
+          inputs: [
+            {
+              name: "account",
+              type: "address",
+              internalType: "address",
+            },
+          ],
           outputs: [
             {
               name: "",
-              type: "address",
-              internalType: "contract VaultManager",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "vaultPool",
+          name: "bufferMax",
           inputs: [],
           outputs: [
             {
@@ -2458,483 +2781,2321 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "withdraw",
-          inputs: [
-            {
-              name: "minUsdcOut",
-              type: "uint256",
-              internalType: "uint256",
-            },
-          ],
+          name: "bufferMin",
+          inputs: [],
           outputs: [
             {
-              name: "usdcOut",
+              name: "",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          stateMutability: "nonpayable",
+          stateMutability: "view",
         },
         {
           type: "function",
-          name: "withdraw",
+          name: "bufferTarget",
           inputs: [],
           outputs: [
             {
-              name: "usdcOut",
+              name: "",
               type: "uint256",
               internalType: "uint256",
             },
           ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "cancelWithdrawal",
+          inputs: [],
+          outputs: [],
           stateMutability: "nonpayable",
         },
         {
           type: "function",
-          name: "withdrawals",
+          name: "claimOwed",
           inputs: [
             {
-              name: "",
+              name: "player",
               type: "address",
               internalType: "address",
             },
           ],
           outputs: [
             {
-              name: "shares",
-              type: "uint256",
-              internalType: "uint256",
-            },
-            {
-              name: "unlockTime",
-              type: "uint256",
-              internalType: "uint256",
-            },
-            {
-              name: "expiryTime",
+              name: "paid",
               type: "uint256",
               internalType: "uint256",
             },
           ],
-          stateMutability: "view",
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "Approval",
+          type: "function",
+          name: "claimableRedeemRequest",
           inputs: [
             {
-              name: "owner",
-              type: "address",
-              indexed: true,
-              internalType: "address",
+              name: "requestId",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "spender",
+              name: "controller",
               type: "address",
-              indexed: true,
               internalType: "address",
             },
+          ],
+          outputs: [
             {
-              name: "value",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "Deposit",
+          type: "function",
+          name: "convertToAssets",
           inputs: [
             {
-              name: "lp",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
-            {
-              name: "usdcIn",
+              name: "shares",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          outputs: [
             {
-              name: "sharesOut",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "DepositedToVault",
+          type: "function",
+          name: "convertToShares",
           inputs: [
             {
-              name: "amount",
+              name: "assets",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
-        },
-        {
-          type: "event",
-          name: "PaymentReceived",
-          inputs: [
-            {
-              name: "player",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
+          outputs: [
             {
-              name: "amount",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "PayoutSent",
-          inputs: [
-            {
-              name: "player",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
+          type: "function",
+          name: "decimals",
+          inputs: [],
+          outputs: [
             {
-              name: "amount",
-              type: "uint256",
-              indexed: false,
-              internalType: "uint256",
+              name: "",
+              type: "uint8",
+              internalType: "uint8",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "Transfer",
+          type: "function",
+          name: "deposit",
           inputs: [
             {
-              name: "from",
-              type: "address",
-              indexed: true,
-              internalType: "address",
+              name: "assets",
+              type: "uint256",
+              internalType: "uint256",
             },
             {
-              name: "to",
+              name: "receiver",
               type: "address",
-              indexed: true,
               internalType: "address",
             },
+          ],
+          outputs: [
             {
-              name: "value",
+              name: "shares",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "Withdraw",
+          type: "function",
+          name: "deposit",
           inputs: [
             {
-              name: "lp",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
-            {
-              name: "sharesIn",
+              name: "usdcAmount",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          outputs: [
             {
-              name: "usdcOut",
+              name: "shares",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "WithdrawalCancelled",
+          type: "function",
+          name: "deposit",
           inputs: [
             {
-              name: "lp",
-              type: "address",
-              indexed: true,
-              internalType: "address",
+              name: "usdcAmount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "minSharesOut",
+              type: "uint256",
+              internalType: "uint256",
             },
+          ],
+          outputs: [
             {
               name: "shares",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "nonpayable",
         },
         {
-          type: "event",
-          name: "WithdrawalExpiredCleanup",
-          inputs: [
-            {
-              name: "lp",
-              type: "address",
-              indexed: true,
-              internalType: "address",
-            },
+          type: "function",
+          name: "effectivePool",
+          inputs: [],
+          outputs: [
             {
-              name: "shares",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "WithdrawalRequested",
-          inputs: [
+          type: "function",
+          name: "emergency",
+          inputs: [],
+          outputs: [
             {
-              name: "lp",
-              type: "address",
-              indexed: true,
-              internalType: "address",
+              name: "",
+              type: "bool",
+              internalType: "bool",
             },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "emergencyExit",
+          inputs: [
             {
               name: "shares",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          outputs: [
             {
-              name: "unlockTime",
+              name: "usdcOut",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "filledRequests",
+          inputs: [],
+          outputs: [
             {
-              name: "expiryTime",
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "event",
-          name: "WithdrawnFromVault",
-          inputs: [
-            {
-              name: "amount",
+          type: "function",
+          name: "filledShares",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
               type: "uint256",
-              indexed: false,
               internalType: "uint256",
             },
           ],
-          anonymous: false,
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InsufficientAllowance",
+          type: "function",
+          name: "game",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getWithdrawalRequest",
           inputs: [
             {
-              name: "spender",
+              name: "lp",
               type: "address",
               internalType: "address",
             },
+          ],
+          outputs: [
             {
-              name: "allowance",
+              name: "shares",
               type: "uint256",
               internalType: "uint256",
             },
             {
-              name: "needed",
+              name: "unlockTime",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "position",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "canWithdraw",
+              type: "bool",
+              internalType: "bool",
+            },
+            {
+              name: "sharesAhead",
               type: "uint256",
               internalType: "uint256",
             },
           ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "guardian",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InsufficientBalance",
+          type: "function",
+          name: "isLiquidityConstrained",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "isOperator",
           inputs: [
             {
-              name: "sender",
+              name: "",
               type: "address",
               internalType: "address",
             },
             {
-              name: "balance",
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "liquidPool",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
               type: "uint256",
               internalType: "uint256",
             },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "lockedPendingShares",
+          inputs: [],
+          outputs: [
             {
-              name: "needed",
+              name: "shares",
               type: "uint256",
               internalType: "uint256",
             },
           ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InvalidApprover",
+          type: "function",
+          name: "maxDeposit",
           inputs: [
             {
-              name: "approver",
+              name: "",
               type: "address",
               internalType: "address",
             },
           ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InvalidReceiver",
+          type: "function",
+          name: "maxMint",
           inputs: [
             {
-              name: "receiver",
+              name: "",
               type: "address",
               internalType: "address",
             },
           ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InvalidSender",
+          type: "function",
+          name: "maxRedeem",
           inputs: [
             {
-              name: "sender",
+              name: "controller",
               type: "address",
               internalType: "address",
             },
           ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ERC20InvalidSpender",
+          type: "function",
+          name: "maxWithdraw",
           inputs: [
             {
-              name: "spender",
+              name: "controller",
               type: "address",
               internalType: "address",
             },
           ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "InsufficientPool",
-          inputs: [],
+          type: "function",
+          name: "mint",
+          inputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "receiver",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "assets",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
         },
         {
-          type: "error",
-          name: "InsufficientShares",
+          type: "function",
+          name: "name",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "string",
+              internalType: "string",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "NoPendingWithdrawal",
-          inputs: [],
+          type: "function",
+          name: "owed",
+          inputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "SlippageExceeded",
-          inputs: [],
+          type: "function",
+          name: "payout",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
-          type: "error",
-          name: "TransferFailed",
-          inputs: [],
+          type: "function",
+          name: "pendingRedeemRequest",
+          inputs: [
+            {
+              name: "requestId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "controller",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "Unauthorized",
+          type: "function",
+          name: "previewDeposit",
+          inputs: [
+            {
+              name: "assets",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "previewMint",
+          inputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "previewRedeem",
+          inputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+        },
+        {
+          type: "function",
+          name: "previewWithdraw",
+          inputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+        },
+        {
+          type: "function",
+          name: "processWithdrawals",
+          inputs: [
+            {
+              name: "maxRequests",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "filled",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "queueHead",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "queueLength",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "queueTail",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "rebalanceBuffer",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "rebalanceVault",
+          inputs: [],
+          outputs: [
+            {
+              name: "moved",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "receivePayment",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "redeem",
+          inputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "receiver",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "controller",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "assets",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "requestRedeem",
+          inputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "controller",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "requestId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "requestWithdrawal",
+          inputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "resolveEmergency",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setBufferBand",
+          inputs: [
+            {
+              name: "_bufferMin",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "_bufferMax",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setGuardian",
+          inputs: [
+            {
+              name: "_guardian",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "setOperator",
+          inputs: [
+            {
+              name: "operator",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "approved",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "share",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "sharePrice",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "supportsInterface",
+          inputs: [
+            {
+              name: "interfaceId",
+              type: "bytes4",
+              internalType: "bytes4",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "pure",
+        },
+        {
+          type: "function",
+          name: "symbol",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "string",
+              internalType: "string",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalAssets",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalOwed",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalPendingShares",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalPool",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalRequestedShares",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "totalSupply",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "transfer",
+          inputs: [
+            {
+              name: "to",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "value",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "transferFrom",
+          inputs: [
+            {
+              name: "from",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "to",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "value",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "triggerEmergency",
+          inputs: [],
+          outputs: [
+            {
+              name: "recovered",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "unwindVault",
+          inputs: [],
+          outputs: [
+            {
+              name: "recovered",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "usdc",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "contract IERC20",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "usdcValue",
+          inputs: [
+            {
+              name: "lp",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "vaultManager",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "contract VaultManager",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "vaultPool",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "withdraw",
+          inputs: [
+            {
+              name: "minUsdcOut",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "usdcOut",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "withdraw",
+          inputs: [],
+          outputs: [
+            {
+              name: "usdcOut",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "withdraw",
+          inputs: [
+            {
+              name: "assets",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "receiver",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "controller",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "withdrawalQueue",
+          inputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "withdrawals",
+          inputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "unlockTime",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "queueId",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "sharesBefore",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "event",
+          name: "Approval",
+          inputs: [
+            {
+              name: "owner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "spender",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "value",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "BufferBandUpdated",
+          inputs: [
+            {
+              name: "bufferMin",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "bufferMax",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Deposit",
+          inputs: [
+            {
+              name: "sender",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "owner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "assets",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "shares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "DepositedToVault",
+          inputs: [
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "EmergencyExit",
+          inputs: [
+            {
+              name: "lp",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "sharesIn",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "usdcOut",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "EmergencyResolved",
+          inputs: [
+            {
+              name: "by",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "EmergencyTriggered",
+          inputs: [
+            {
+              name: "by",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "recovered",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "GuardianUpdated",
+          inputs: [
+            {
+              name: "guardian",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "OperatorSet",
+          inputs: [
+            {
+              name: "controller",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "operator",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "approved",
+              type: "bool",
+              indexed: false,
+              internalType: "bool",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "OwedClaimed",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "PaymentReceived",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "PayoutDeferred",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "PayoutSent",
+          inputs: [
+            {
+              name: "player",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "RedeemRequest",
+          inputs: [
+            {
+              name: "controller",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "owner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "requestId",
+              type: "uint256",
+              indexed: true,
+              internalType: "uint256",
+            },
+            {
+              name: "sender",
+              type: "address",
+              indexed: false,
+              internalType: "address",
+            },
+            {
+              name: "shares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Transfer",
+          inputs: [
+            {
+              name: "from",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "to",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "value",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "VaultRebalanced",
+          inputs: [
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "VaultUnwound",
+          inputs: [
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Withdraw",
+          inputs: [
+            {
+              name: "sender",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "receiver",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "owner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "assets",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "shares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WithdrawalCancelled",
+          inputs: [
+            {
+              name: "lp",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "shares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WithdrawalPartiallyFilled",
+          inputs: [
+            {
+              name: "lp",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "remainingShares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WithdrawalRequested",
+          inputs: [
+            {
+              name: "lp",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "shares",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "unlockTime",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+            {
+              name: "queueId",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WithdrawnFromVault",
+          inputs: [
+            {
+              name: "amount",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "error",
+          name: "AsyncRedeem",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ERC20InsufficientAllowance",
+          inputs: [
+            {
+              name: "spender",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "allowance",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "needed",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC20InsufficientBalance",
+          inputs: [
+            {
+              name: "sender",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "balance",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "needed",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC20InvalidApprover",
+          inputs: [
+            {
+              name: "approver",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC20InvalidReceiver",
+          inputs: [
+            {
+              name: "receiver",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC20InvalidSender",
+          inputs: [
+            {
+              name: "sender",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "ERC20InvalidSpender",
+          inputs: [
+            {
+              name: "spender",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+        },
+        {
+          type: "error",
+          name: "EmergencyActive",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InsufficientLiquidity",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InsufficientPool",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InsufficientShares",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "InvalidBufferBand",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "NoPendingWithdrawal",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "NotInEmergency",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "NothingOwed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "QueueBacklog",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "QueueFull",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "SlippageExceeded",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "TransferFailed",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "Unauthorized",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "WithdrawalAlreadyPending",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "WithdrawalNotReady",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ZeroAddress",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ZeroAmount",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ZeroShares",
+          inputs: [],
+        },
+      ],
+      inheritedFunctions: {},
+    },
+    VaultManager: {
+      address: "0x974fb78aE31079d3a44Da3791875AE6B9db63619",
+      abi: [
+        {
+          type: "constructor",
+          inputs: [
+            {
+              name: "_fleetCommander",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "_usdc",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "_owner",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "receive",
+          stateMutability: "payable",
+        },
+        {
+          type: "function",
+          name: "MAX_STRATEGIES",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "STRATEGY_DELAY",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "WithdrawalAlreadyPending",
+          type: "function",
+          name: "TOTAL_WEIGHT",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "WithdrawalExpired",
+          type: "function",
+          name: "accruedYield",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "int256",
+              internalType: "int256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "addStrategy",
+          inputs: [
+            {
+              name: "vault",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "applyWeights",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "cancelStrategy",
+          inputs: [
+            {
+              name: "vault",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "cancelWeights",
+          inputs: [],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "depositIntoVault",
+          inputs: [
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          outputs: [
+            {
+              name: "shares",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "emergencyWithdraw",
+          inputs: [
+            {
+              name: "token",
+              type: "address",
+              internalType: "address",
+            },
+            {
+              name: "amount",
+              type: "uint256",
+              internalType: "uint256",
+            },
+            {
+              name: "to",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          outputs: [],
+          stateMutability: "nonpayable",
+        },
+        {
+          type: "function",
+          name: "fleetCommander",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "contract IERC4626",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getCurrentValue",
+          inputs: [],
+          outputs: [
+            {
+              name: "value",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getPendingWeights",
+          inputs: [],
+          outputs: [
+            {
+              name: "weights",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+            {
+              name: "readyAt",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getStrategies",
+          inputs: [],
+          outputs: [
+            {
+              name: "vaults",
+              type: "address[]",
+              internalType: "address[]",
+            },
+            {
+              name: "weights",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+            {
+              name: "values",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+            {
+              name: "shares",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+            {
+              name: "withdrawable",
+              type: "uint256[]",
+              internalType: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getTotalValue",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getUSDCBalance",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getVaultShares",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "getWithdrawableValue",
+          inputs: [],
+          outputs: [
+            {
+              name: "value",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "housePool",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "housePoolSet",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "bool",
+              internalType: "bool",
+            },
+          ],
+          stateMutability: "view",
+        },
+        {
+          type: "function",
+          name: "lastAccountedAt",
+          inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "WithdrawalNotReady",
+          type: "function",
+          name: "netPrincipal",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ZeroAddress",
+          type: "function",
+          name: "owner",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ZeroAmount",
+          type: "function",
+          name: "pendingWeightsAt",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
         {
-          type: "error",
-          name: "ZeroShares",
+          type: "function",
+          name: "principalSeconds",
           inputs: [],
+          outputs: [
+            {
+              name: "",
+              type: "uint256",
+              internalType: "uint256",
+            },
+          ],
+          stateMutability: "view",
         },
-      ],
-      inheritedFunctions: {},
-    },
-    VaultManager: {
-      address: "0x974fb78aE31079d3a44Da3791875AE6B9db63619",
-      abi: [
         {
-          type: "constructor",
+          type: "function",
+          name: "proposeStrategy",
           inputs: [
             {
-              name: "_fleetCommander",
-              type: "address",
-              internalType: "address",
-            },
-            {
-              name: "_usdc",
+              name: "vault",
               type: "address",
               internalType: "address",
             },
           ],
+          outputs: [],
           stateMutability: "nonpayable",
         },
-        {
-          type: "receive",
-          stateMutability: "payable",
-        },
         {
           type: "function",
-          name: "depositIntoVault",
+          name: "rebalance",
           inputs: [
             {
-              name: "amount",
+              name: "minLiquidity",
               type: "uint256",
               internalType: "uint256",
             },
           ],
           outputs: [
             {
-              name: "shares",
+              name: "moved",
               type: "uint256",
               internalType: "uint256",
             },
@@ -2943,20 +5104,10 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "emergencyWithdraw",
+          name: "removeStrategy",
           inputs: [
             {
-              name: "token",
-              type: "address",
-              internalType: "address",
-            },
-            {
-              name: "amount",
-              type: "uint256",
-              internalType: "uint256",
-            },
-            {
-              name: "to",
+              name: "vault",
               type: "address",
               internalType: "address",
             },
@@ -2966,46 +5117,46 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "fleetCommander",
+          name: "runningApy",
           inputs: [],
           outputs: [
             {
               name: "",
-              type: "address",
-              internalType: "contract IERC4626",
+              type: "int256",
+              internalType: "int256",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "getCurrentValue",
-          inputs: [],
-          outputs: [
+          name: "setHousePool",
+          inputs: [
             {
-              name: "",
-              type: "uint256",
-              internalType: "uint256",
+              name: "_housePool",
+              type: "address",
+              internalType: "address",
             },
           ],
-          stateMutability: "view",
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
           type: "function",
-          name: "getTotalValue",
-          inputs: [],
-          outputs: [
+          name: "setWeights",
+          inputs: [
             {
-              name: "",
-              type: "uint256",
-              internalType: "uint256",
+              name: "weights",
+              type: "uint256[]",
+              internalType: "uint256[]",
             },
           ],
-          stateMutability: "view",
+          outputs: [],
+          stateMutability: "nonpayable",
         },
         {
           type: "function",
-          name: "getUSDCBalance",
+          name: "strategyCount",
           inputs: [],
           outputs: [
             {
@@ -3018,8 +5169,14 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "getVaultShares",
-          inputs: [],
+          name: "strategyReadyAt",
+          inputs: [
+            {
+              name: "",
+              type: "address",
+              internalType: "address",
+            },
+          ],
           outputs: [
             {
               name: "",
@@ -3031,36 +5188,36 @@ const deployedContracts = {
         },
         {
           type: "function",
-          name: "housePool",
+          name: "totalDeposited",
           inputs: [],
           outputs: [
             {
               name: "",
-              type: "address",
-              internalType: "address",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "housePoolSet",
+          name: "totalWithdrawn",
           inputs: [],
           outputs: [
             {
               name: "",
-              type: "bool",
-              internalType: "bool",
+              type: "uint256",
+              internalType: "uint256",
             },
           ],
           stateMutability: "view",
         },
         {
           type: "function",
-          name: "setHousePool",
+          name: "transferOwnership",
           inputs: [
             {
-              name: "_housePool",
+              name: "newOwner",
               type: "address",
               internalType: "address",
             },
@@ -3157,6 +5314,115 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "event",
+          name: "OwnershipTransferred",
+          inputs: [
+            {
+              name: "previousOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "newOwner",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "Rebalanced",
+          inputs: [
+            {
+              name: "usdcMoved",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "StrategyAdded",
+          inputs: [
+            {
+              name: "vault",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "StrategyProposed",
+          inputs: [
+            {
+              name: "vault",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+            {
+              name: "readyAt",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "StrategyRemoved",
+          inputs: [
+            {
+              name: "vault",
+              type: "address",
+              indexed: true,
+              internalType: "address",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WeightsScheduled",
+          inputs: [
+            {
+              name: "weights",
+              type: "uint256[]",
+              indexed: false,
+              internalType: "uint256[]",
+            },
+            {
+              name: "readyAt",
+              type: "uint256",
+              indexed: false,
+              internalType: "uint256",
+            },
+          ],
+          anonymous: false,
+        },
+        {
+          type: "event",
+          name: "WeightsUpdated",
+          inputs: [
+            {
+              name: "weights",
+              type: "uint256[]",
+              indexed: false,
+              internalType: "uint256[]",
+            },
+          ],
+          anonymous: false,
+        },
         {
           type: "event",
           name: "WithdrawnFromVault",
@@ -3176,6 +5442,21 @@ const deployedContracts = {
           ],
           anonymous: false,
         },
+        {
+          type: "error",
+          name: "AssetMismatch",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "CannotRemoveFleetCommander",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "ChangeNotReady",
+          inputs: [],
+        },
         {
           type: "error",
           name: "ETHTransferFailed",
@@ -3201,6 +5482,16 @@ const deployedContracts = {
           name: "InvalidAddress",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "InvalidWeights",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "LiquidityShortfall",
+          inputs: [],
+        },
         {
           type: "error",
           name: "NoFundsInVault",
@@ -3222,11 +5513,36 @@ const deployedContracts = {
             },
           ],
         },
+        {
+          type: "error",
+          name: "StrategyAlreadyRegistered",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "StrategyHasWeight",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "StrategyNotEmpty",
+          inputs: [],
+        },
+        {
+          type: "error",
+          name: "TooManyStrategies",
+          inputs: [],
+        },
         {
           type: "error",
           name: "Unauthorized",
           inputs: [],
         },
+        {
+          type: "error",
+          name: "UnknownStrategy",
+          inputs: [],
+        },
       ],
       inheritedFunctions: {},
     },
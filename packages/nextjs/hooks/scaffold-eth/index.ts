@@ -10,5 +10,7 @@ export * from "./useScaffoldReadContract";
 export * from "./useScaffoldWatchContractEvent";
 export * from "./useScaffoldWriteContract";
 export * from "./useTargetNetwork";
+export * from "./useTransactionManager";
+export * from "./useTransactionWatcher";
 export * from "./useTransactor";
 export * from "./useSelectedNetwork";
@@ -1,40 +1,187 @@
 import { useEffect, useState } from "react";
 import { useTargetNetwork } from "./useTargetNetwork";
-import { Address, Log } from "viem";
-import { usePublicClient } from "wagmi";
+import { QueryClient, keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Address, PublicClient } from "viem";
+import { useBlockNumber, usePublicClient } from "wagmi";
+import { GenericContract, contracts } from "~~/utils/scaffold-eth/contract";
+import { DecodedLog, decodeContractLog } from "~~/utils/scaffold-eth/decodeLogs";
 
-export const useContractLogs = (address: Address) => {
-  const [logs, setLogs] = useState<Log[]>([]);
+export type UseContractLogsConfig = {
+  // Oldest block to read (defaults to the contract's `deployedOnBlock`, or 0)
+  fromBlock?: bigint;
+  // Newest block to read (defaults to the latest block, followed while on the first page if `watch` is set)
+  toBlock?: bigint;
+  // Logs per page (default: 20)
+  pageSize?: number;
+  // Blocks per getLogs call (default: 500)
+  blocksBatchSize?: number;
+  // Most blocks scanned below `toBlock`, whatever `fromBlock` is (default: 10000)
+  maxWindow?: number;
+  watch?: boolean;
+};
+
+// Where a page starts: the newest block not scanned yet, plus the logs the previous page scanned but did not show
+type LogsCursor = {
+  toBlock: bigint;
+  buffered: DecodedLog[];
+};
+
+type LogsPage = {
+  logs: DecodedLog[];
+  next?: LogsCursor;
+};
+
+/**
+ * Walk down from `cursor` in batches until a page is full or `lowestBlock` is reached.
+ * Batches start at multiples of `blocksBatchSize`, so all but the newest one are the same from one head to the next
+ * and come from the query cache (and are garbage collected with it).
+ */
+const fetchLogsPage = async ({
+  queryClient,
+  publicClient,
+  chainId,
+  address,
+  cursor,
+  lowestBlock,
+  pageSize,
+  blocksBatchSize,
+}: {
+  queryClient: QueryClient;
+  publicClient: PublicClient;
+  chainId: number;
+  address: Address;
+  cursor: LogsCursor;
+  lowestBlock: bigint;
+  pageSize: number;
+  blocksBatchSize: number;
+}): Promise<LogsPage> => {
+  const batchSize = BigInt(blocksBatchSize);
+  const logs = [...cursor.buffered];
+  let toBlock = cursor.toBlock;
+
+  while (logs.length < pageSize && toBlock >= lowestBlock) {
+    const batchStart = toBlock - (toBlock % batchSize);
+    const fromBlock = batchStart > lowestBlock ? batchStart : lowestBlock;
+    const batch = await queryClient.fetchQuery({
+      queryKey: ["contractLogsBatch", chainId, address, fromBlock.toString(), toBlock.toString()],
+      queryFn: async () => {
+        const batchLogs = await publicClient.getLogs({ address, fromBlock, toBlock });
+        return batchLogs.map(log => decodeContractLog(log, chainId));
+      },
+      staleTime: Infinity,
+    });
+    // Newest first
+    logs.push(...[...batch].reverse());
+    toBlock = fromBlock - 1n;
+  }
+
+  const hasMore = logs.length > pageSize || toBlock >= lowestBlock;
+  return {
+    logs: logs.slice(0, pageSize),
+    next: hasMore ? { toBlock, buffered: logs.slice(pageSize) } : undefined,
+  };
+};
+
+/**
+ * Logs emitted by `address`, newest first, one page at a time and decoded with the ABIs of deployedContracts.ts and
+ * externalContracts.ts. At most `maxWindow` blocks are scanned, so it stays usable on long-lived chains.
+ */
+export const useContractLogs = (
+  address: Address,
+  {
+    fromBlock,
+    toBlock,
+    pageSize = 20,
+    blocksBatchSize = 500,
+    maxWindow = 10_000,
+    watch = true,
+  }: UseContractLogsConfig = {},
+) => {
   const { targetNetwork } = useTargetNetwork();
-  const client = usePublicClient({ chainId: targetNetwork.id });
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const queryClient = useQueryClient();
+  const { data: latestBlock } = useBlockNumber({
+    watch: watch && toBlock === undefined,
+    chainId: targetNetwork.id,
+  });
+
+  const [page, setPage] = useState(0);
+  // Head the pages after the first were read from, and where each of them starts (index 0 is unused)
+  const [pinnedHead, setPinnedHead] = useState<bigint>();
+  const [cursors, setCursors] = useState<LogsCursor[]>([]);
 
   useEffect(() => {
-    const fetchLogs = async () => {
-      if (!client) return console.error("Client not found");
-      try {
-        const existingLogs = await client.getLogs({
-          address: address,
-          fromBlock: 0n,
-          toBlock: "latest",
-        });
-        setLogs(existingLogs);
-      } catch (error) {
-        console.error("Failed to fetch logs:", error);
-      }
-    };
-    fetchLogs();
-
-    return client?.watchBlockNumber({
-      onBlockNumber: async (_blockNumber, prevBlockNumber) => {
-        const newLogs = await client.getLogs({
-          address: address,
-          fromBlock: prevBlockNumber,
-          toBlock: "latest",
-        });
-        setLogs(prevLogs => [...prevLogs, ...newLogs]);
-      },
+    setPage(0);
+    setCursors([]);
+  }, [address, targetNetwork.id]);
+
+  const head = page === 0 ? (toBlock ?? latestBlock) : pinnedHead;
+  const deployedOnBlock = Object.values((contracts?.[targetNetwork.id] ?? {}) as Record<string, GenericContract>).find(
+    contract => contract.address.toLowerCase() === address.toLowerCase(),
+  )?.deployedOnBlock;
+  const startBlock = fromBlock ?? BigInt(deployedOnBlock ?? 0);
+  const windowStart = head === undefined ? 0n : head - BigInt(maxWindow) + 1n;
+  const lowestBlock = windowStart > startBlock ? windowStart : startBlock;
+
+  const cursor = page === 0 ? (head === undefined ? undefined : { toBlock: head, buffered: [] }) : cursors[page];
+
+  const query = useQuery({
+    queryKey: [
+      "contractLogs",
+      targetNetwork.id,
+      address,
+      head?.toString(),
+      lowestBlock.toString(),
+      pageSize,
+      blocksBatchSize,
+      page,
+    ],
+    enabled: Boolean(publicClient && cursor),
+    queryFn: async () => {
+      if (!publicClient || !cursor) throw new Error("Client not found");
+      const logsPage = await fetchLogsPage({
+        queryClient,
+        publicClient,
+        chainId: targetNetwork.id,
+        address,
+        cursor,
+        lowestBlock,
+        pageSize,
+        blocksBatchSize,
+      });
+      return { ...logsPage, page };
+    },
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
+
+  const next = query.isPlaceholderData ? undefined : query.data?.next;
+
+  const nextPage = () => {
+    if (!next) return;
+    if (page === 0) setPinnedHead(head);
+    setCursors(previous => {
+      const updated = previous.slice(0, page + 1);
+      updated[page + 1] = next;
+      return updated;
     });
-  }, [address, client]);
+    setPage(page + 1);
+  };
+
+  const previousPage = () => setPage(Math.max(page - 1, 0));
 
-  return logs;
+  return {
+    logs: query.data?.logs ?? [],
+    page,
+    hasNextPage: next !== undefined,
+    hasPreviousPage: page > 0,
+    nextPage,
+    previousPage,
+    // Block range being paged through
+    fromBlock: lowestBlock,
+    toBlock: head,
+    // The previous page stays in `logs` while another one loads
+    isLoading: query.isLoading || query.data?.page !== page,
+    error: query.error,
+  };
 };
@@ -1,9 +1,9 @@
-import { useEffect, useState } from "react";
-import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { Abi, AbiEvent, ExtractAbiEventNames } from "abitype";
-import { BlockNumber, GetLogsParameters } from "viem";
+import { Hash, PublicClient } from "viem";
 import { hardhat } from "viem/chains";
-import { Config, UsePublicClientReturnType, useBlockNumber, usePublicClient } from "wagmi";
+import { useBlockNumber, usePublicClient } from "wagmi";
 import { useSelectedNetwork } from "~~/hooks/scaffold-eth";
 import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
 import { AllowedChainIds } from "~~/utils/scaffold-eth";
@@ -14,52 +14,61 @@ import {
   UseScaffoldEventHistoryConfig,
   UseScaffoldEventHistoryData,
 } from "~~/utils/scaffold-eth/contract";
+import { CachedLog, syncLogCache } from "~~/utils/scaffold-eth/logCache";
+
+// Blocks, transactions and receipts never change for a given hash, so they are fetched once per session
+const details = new Map<string, Promise<unknown>>();
+
+const fetchOnce = <T>(key: string, fetch: () => Promise<T>) => {
+  if (!details.has(key)) {
+    const pending = fetch();
+    // Failed fetches are retried next time
+    pending.catch(() => details.delete(key));
+    details.set(key, pending);
+  }
+  return details.get(key) as Promise<T>;
+};
 
-const getEvents = async (
-  getLogsParams: GetLogsParameters<AbiEvent | undefined, AbiEvent[] | undefined, boolean, BlockNumber, BlockNumber>,
-  publicClient?: UsePublicClientReturnType<Config, number>,
-  Options?: {
-    blockData?: boolean;
-    transactionData?: boolean;
-    receiptData?: boolean;
-  },
+const withDetails = async (
+  publicClient: PublicClient,
+  log: CachedLog,
+  options: { blockData?: boolean; transactionData?: boolean; receiptData?: boolean },
 ) => {
-  const logs = await publicClient?.getLogs({
-    address: getLogsParams.address,
-    fromBlock: getLogsParams.fromBlock,
-    toBlock: getLogsParams.toBlock,
-    args: getLogsParams.args,
-    event: getLogsParams.event,
-  });
-  if (!logs) return undefined;
-
-  const finalEvents = await Promise.all(
-    logs.map(async log => {
-      return {
-        ...log,
-        blockData:
-          Options?.blockData && log.blockHash ? await publicClient?.getBlock({ blockHash: log.blockHash }) : null,
-        transactionData:
-          Options?.transactionData && log.transactionHash
-            ? await publicClient?.getTransaction({ hash: log.transactionHash })
-            : null,
-        receiptData:
-          Options?.receiptData && log.transactionHash
-            ? await publicClient?.getTransactionReceipt({ hash: log.transactionHash })
-            : null,
-      };
-    }),
-  );
+  const chainId = publicClient.chain?.id;
+  const blockHash = log.blockHash as Hash;
+  const hash = log.transactionHash as Hash;
 
-  return finalEvents;
+  return {
+    ...log,
+    blockData: options.blockData
+      ? await fetchOnce(`${chainId}:block:${blockHash}`, () => publicClient.getBlock({ blockHash }))
+      : null,
+    transactionData: options.transactionData
+      ? await fetchOnce(`${chainId}:tx:${hash}`, () => publicClient.getTransaction({ hash }))
+      : null,
+    receiptData: options.receiptData
+      ? await fetchOnce(`${chainId}:receipt:${hash}`, () => publicClient.getTransactionReceipt({ hash }))
+      : null,
+  };
 };
 
+const sameValue = (a: unknown, b: unknown) =>
+  typeof a === "string" && typeof b === "string" ? a.toLowerCase() === b.toLowerCase() : a === b;
+
+// The cache holds every log of the event, so filters (value or list of values per arg) are applied here
+const matchesFilters = (log: CachedLog, filters: Record<string, unknown> | undefined) =>
+  Object.entries(filters ?? {}).every(([name, value]) => {
+    if (value === undefined || value === null) return true;
+    const arg = (log.args as Record<string, unknown> | undefined)?.[name];
+    return (Array.isArray(value) ? value : [value]).some(option => sameValue(arg, option));
+  });
+
 /**
- * @deprecated **Recommended only for local (hardhat/anvil) chains and development.**
- * It uses getLogs which can overload RPC endpoints (especially on L2s with short block times).
- * For production, use an indexer such as ponder.sh or similar to query contract events efficiently.
+ * Reads events from a deployed contract, backed by a persistent IndexedDB log cache (see utils/scaffold-eth/logCache).
+ * The first visit backfills with getLogs from `deployedOnBlock`; later ones only fetch the blocks mined since, and
+ * components asking for the same event share one backfill. For production history at scale, an indexer such as
+ * ponder.sh is still the better fit.
  *
- * Reads events from a deployed contract.
  * @param config - The config settings
  * @param config.contractName - deployed contract name
  * @param config.eventName - name of the event to listen for
@@ -100,7 +109,7 @@ export const useScaffoldEventHistory = <
   useEffect(() => {
     if (selectedNetwork.id !== hardhat.id) {
       console.log(
-        "⚠️ useScaffoldEventHistory is not optimized for production use. It can overload RPC endpoints (especially on L2s)",
+        "⚠️ useScaffoldEventHistory backfills with getLogs on the first visit. It can overload RPC endpoints (especially on L2s)",
       );
     }
   }, [selectedNetwork.id]);
@@ -108,9 +117,6 @@ export const useScaffoldEventHistory = <
   const publicClient = usePublicClient({
     chainId: selectedNetwork.id,
   });
-  const [liveEvents, setLiveEvents] = useState<any[]>([]);
-  const [lastFetchedBlock, setLastFetchedBlock] = useState<bigint | null>(null);
-  const [isPollingActive, setIsPollingActive] = useState(false);
 
   const { data: blockNumber } = useBlockNumber({ watch: watch, chainId: selectedNetwork.id });
 
@@ -123,8 +129,6 @@ export const useScaffoldEventHistory = <
     deployedContractData &&
     ((deployedContractData.abi as Abi).find(part => part.type === "event" && part.name === eventName) as AbiEvent);
 
-  const isContractAddressAndClientReady = Boolean(deployedContractData?.address) && Boolean(publicClient);
-
   const fromBlockValue =
     fromBlock !== undefined
       ? fromBlock
@@ -134,159 +138,70 @@ export const useScaffoldEventHistory = <
             : 0,
         );
 
-  const query = useInfiniteQuery({
+  // Sync up to the current block, or toBlock if that is earlier
+  const targetBlock =
+    toBlock !== undefined && (blockNumber === undefined || toBlock < blockNumber) ? toBlock : blockNumber;
+
+  const query = useQuery({
     queryKey: [
       "eventHistory",
       {
         contractName,
         address: deployedContractData?.address,
         eventName,
-        fromBlock: fromBlockValue?.toString(),
-        toBlock: toBlock?.toString(),
+        fromBlock: fromBlockValue.toString(),
+        toBlock: targetBlock?.toString(),
         chainId: selectedNetwork.id,
         filters: JSON.stringify(filters, replacer),
-        blocksBatchSize: blocksBatchSize.toString(),
+        blockData,
+        transactionData,
+        receiptData,
       },
     ],
-    queryFn: async ({ pageParam }) => {
-      if (!isContractAddressAndClientReady) return undefined;
-
-      // Calculate the toBlock for this batch
-      let batchToBlock = toBlock;
-      const batchEndBlock = pageParam + BigInt(blocksBatchSize) - 1n;
-      const maxBlock = toBlock || (blockNumber ? BigInt(blockNumber) : undefined);
-      if (maxBlock) {
-        batchToBlock = batchEndBlock < maxBlock ? batchEndBlock : maxBlock;
-      }
+    queryFn: async () => {
+      if (!publicClient || !deployedContractData || !event || targetBlock === undefined) return undefined;
 
-      const data = await getEvents(
-        {
-          address: deployedContractData?.address,
-          event,
-          fromBlock: pageParam,
-          toBlock: batchToBlock,
-          args: filters,
-        },
-        publicClient,
-        { blockData, transactionData, receiptData },
+      const entry = await syncLogCache({
+        publicClient: publicClient as PublicClient,
+        chainId: selectedNetwork.id,
+        address: deployedContractData.address,
+        event,
+        fromBlock: fromBlockValue,
+        toBlock: targetBlock,
+        batchSize: blocksBatchSize,
+      });
+
+      const logs = entry.logs.filter(
+        log =>
+          log.blockNumber >= fromBlockValue &&
+          log.blockNumber <= targetBlock &&
+          matchesFilters(log, filters as Record<string, unknown> | undefined),
+      );
+      const events = await Promise.all(
+        logs.map(log => withDetails(publicClient as PublicClient, log, { blockData, transactionData, receiptData })),
       );
 
-      setLastFetchedBlock(batchToBlock || blockNumber || 0n);
-
-      return data;
-    },
-    enabled: enabled && isContractAddressAndClientReady && !isPollingActive, // Disable when polling starts
-    initialPageParam: fromBlockValue,
-    getNextPageParam: (lastPage, allPages, lastPageParam) => {
-      if (!blockNumber || fromBlockValue >= blockNumber) return undefined;
-
-      const nextBlock = lastPageParam + BigInt(blocksBatchSize);
-
-      // Don't go beyond the specified toBlock or current block
-      const maxBlock = toBlock && toBlock < blockNumber ? toBlock : blockNumber;
-
-      if (nextBlock > maxBlock) return undefined;
-
-      return nextBlock;
-    },
-    select: data => {
-      const events = data.pages.flat() as unknown as UseScaffoldEventHistoryData<
+      // Newest first
+      return events.reverse() as unknown as UseScaffoldEventHistoryData<
         TContractName,
         TEventName,
         TBlockData,
         TTransactionData,
         TReceiptData
       >;
-
-      return {
-        pages: events?.reverse(),
-        pageParams: data.pageParams,
-      };
     },
+    enabled: enabled && Boolean(deployedContractData?.address && publicClient && event && targetBlock !== undefined),
+    // Keep showing the previous block's events while the next block syncs
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
   });
 
-  // Check if we're caught up and should start polling
-  const shouldStartPolling = () => {
-    if (!watch || !blockNumber || isPollingActive) return false;
-
-    return !query.hasNextPage && query.status === "success";
-  };
-
-  // Poll for new events when watch mode is enabled
-  useQuery({
-    queryKey: ["liveEvents", contractName, eventName, blockNumber?.toString(), lastFetchedBlock?.toString()],
-    enabled: Boolean(
-      watch && enabled && isContractAddressAndClientReady && blockNumber && (shouldStartPolling() || isPollingActive),
-    ),
-    queryFn: async () => {
-      if (!isContractAddressAndClientReady || !blockNumber) return null;
-
-      if (!isPollingActive && shouldStartPolling()) {
-        setIsPollingActive(true);
-      }
-
-      const maxBlock = toBlock && toBlock < blockNumber ? toBlock : blockNumber;
-      const startBlock = lastFetchedBlock || maxBlock;
-
-      // Only fetch if there are new blocks to check
-      if (startBlock >= maxBlock) return null;
-
-      const newEvents = await getEvents(
-        {
-          address: deployedContractData?.address,
-          event,
-          fromBlock: startBlock + 1n,
-          toBlock: maxBlock,
-          args: filters,
-        },
-        publicClient,
-        { blockData, transactionData, receiptData },
-      );
-
-      if (newEvents && newEvents.length > 0) {
-        setLiveEvents(prev => [...newEvents, ...prev]);
-      }
-
-      setLastFetchedBlock(maxBlock);
-      return newEvents;
-    },
-    refetchInterval: false,
-  });
-
-  // Manual trigger to fetch next page when previous page completes (only when not polling)
-  useEffect(() => {
-    if (
-      !isPollingActive &&
-      query.status === "success" &&
-      query.hasNextPage &&
-      !query.isFetchingNextPage &&
-      !query.error
-    ) {
-      query.fetchNextPage();
-    }
-  }, [query, isPollingActive]);
-
-  // Combine historical data from infinite query with live events from watch hook
-  const historicalEvents = query.data?.pages || [];
-  const allEvents = [...liveEvents, ...historicalEvents] as typeof historicalEvents;
-
-  // remove duplicates
-  const seenEvents = new Set<string>();
-  const combinedEvents = allEvents.filter(event => {
-    const eventKey = `${event?.transactionHash}-${event?.logIndex}-${event?.blockHash}`;
-    if (seenEvents.has(eventKey)) {
-      return false;
-    }
-    seenEvents.add(eventKey);
-    return true;
-  }) as typeof historicalEvents;
-
   return {
-    data: combinedEvents,
+    data: query.data,
     status: query.status,
     error: query.error,
     isLoading: query.isLoading,
-    isFetchingNewEvent: query.isFetchingNextPage,
+    isFetchingNewEvent: query.isFetching,
     refetch: query.refetch,
   };
 };
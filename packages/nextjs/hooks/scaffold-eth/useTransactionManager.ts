@@ -0,0 +1,109 @@
+import { useMemo } from "react";
+import { useTargetNetwork } from "./useTargetNetwork";
+import { Hash, PublicClient, SendTransactionParameters } from "viem";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { TrackedTransaction, trackTransaction, useTransactionStore } from "~~/services/store/transactionStore";
+import { getParsedError, notification } from "~~/utils/scaffold-eth";
+
+// Nodes only accept a replacement paying at least 10% more, so fees are bumped a bit beyond that
+const FEE_BUMP_PERCENT = 15n;
+
+const bump = (fee: bigint) => fee + (fee * FEE_BUMP_PERCENT + 99n) / 100n;
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+/**
+ * Fees for a replacement of `transaction`: its own fees bumped, or the current network fees if they are higher
+ */
+const getReplacementFees = async (publicClient: PublicClient, transaction: TrackedTransaction) => {
+  if (transaction.maxFeePerGas === undefined) {
+    const gasPrice = await publicClient.getGasPrice();
+    return { gasPrice: max(bump(BigInt(transaction.gasPrice ?? 0)), gasPrice) };
+  }
+
+  const current = await publicClient.estimateFeesPerGas();
+  const maxPriorityFeePerGas = max(bump(BigInt(transaction.maxPriorityFeePerGas ?? 0)), current.maxPriorityFeePerGas);
+  const maxFeePerGas = max(max(bump(BigInt(transaction.maxFeePerGas)), current.maxFeePerGas), maxPriorityFeePerGas);
+  return { maxFeePerGas, maxPriorityFeePerGas };
+};
+
+/**
+ * The connected account's transactions on the target network (see services/store/transactionStore), newest first,
+ * with "speed up" and "cancel" actions. Both re-send at the same nonce with bumped fees: a speed-up repeats the
+ * transaction, a cancellation sends nothing to the account itself. Some wallets pick their own nonce and may queue
+ * the replacement behind the stuck transaction instead.
+ */
+export const useTransactionManager = () => {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: walletClient } = useWalletClient();
+  const allTransactions = useTransactionStore(state => state.transactions);
+  const removeTransaction = useTransactionStore(state => state.removeTransaction);
+  const clearFinished = useTransactionStore(state => state.clearFinished);
+
+  const transactions = useMemo(
+    () =>
+      allTransactions.filter(
+        transaction =>
+          transaction.chainId === targetNetwork.id && transaction.from.toLowerCase() === address?.toLowerCase(),
+      ),
+    [allTransactions, targetNetwork.id, address],
+  );
+  const pendingTransactions = useMemo(
+    () => transactions.filter(transaction => transaction.status === "pending"),
+    [transactions],
+  );
+
+  const replace = async (hash: Hash, kind: "speedUp" | "cancel") => {
+    const transaction = transactions.find(tracked => tracked.hash === hash);
+    try {
+      if (!transaction || transaction.status !== "pending") throw new Error("Transaction is no longer pending");
+      if (!walletClient?.account || !publicClient) throw new Error("Please connect your wallet");
+      if (walletClient.account.address.toLowerCase() !== transaction.from.toLowerCase()) {
+        throw new Error("Switch to the account that sent the transaction");
+      }
+      if (transaction.nonce === undefined || transaction.gas === undefined) {
+        throw new Error("The transaction has not reached the network yet, try again in a moment");
+      }
+
+      const fees = await getReplacementFees(publicClient, transaction);
+      const request =
+        kind === "cancel"
+          ? { to: transaction.from, value: 0n, data: "0x" as const, gas: 21000n }
+          : {
+              to: transaction.to ?? undefined,
+              value: BigInt(transaction.value ?? 0),
+              data: transaction.input,
+              gas: BigInt(transaction.gas),
+            };
+      const replacementHash = await walletClient.sendTransaction({
+        ...request,
+        ...fees,
+        nonce: transaction.nonce,
+        account: walletClient.account,
+        chain: walletClient.chain,
+      } as SendTransactionParameters);
+
+      trackTransaction({
+        hash: replacementHash,
+        chainId: transaction.chainId,
+        from: transaction.from,
+        description: kind === "cancel" ? `Cancel ${transaction.description}` : transaction.description,
+        replaces: { hash: transaction.hash, kind },
+      });
+      notification.info(kind === "cancel" ? "Cancellation sent" : "Sped-up transaction sent");
+      return replacementHash;
+    } catch (error) {
+      notification.error(getParsedError(error));
+    }
+  };
+
+  return {
+    transactions,
+    pendingTransactions,
+    speedUp: (hash: Hash) => replace(hash, "speedUp"),
+    cancel: (hash: Hash) => replace(hash, "cancel"),
+    dismiss: removeTransaction,
+    clearFinished,
+  };
+};
@@ -0,0 +1,113 @@
+import { useEffect, useRef } from "react";
+import { useTargetNetwork } from "./useTargetNetwork";
+import { Hash, PublicClient, Transaction } from "viem";
+import { useBlockNumber, usePublicClient } from "wagmi";
+import { TrackedTransaction, TrackedTransactionStatus, useTransactionStore } from "~~/services/store/transactionStore";
+
+// A transaction the node has not known for this long, with its nonce still free, is considered dropped
+const DROP_AFTER_MS = 5 * 60 * 1000;
+
+const transactionDetails = (transaction: Transaction): Partial<TrackedTransaction> => ({
+  nonce: transaction.nonce,
+  to: transaction.to,
+  value: transaction.value.toString(),
+  input: transaction.input,
+  gas: transaction.gas.toString(),
+  maxFeePerGas: transaction.maxFeePerGas?.toString(),
+  maxPriorityFeePerGas: transaction.maxPriorityFeePerGas?.toString(),
+  gasPrice: transaction.maxFeePerGas === undefined ? transaction.gasPrice?.toString() : undefined,
+});
+
+/**
+ * Record a mined transaction and close the other transactions that shared its nonce: they were replaced, or
+ * cancelled when the mined one is a cancellation.
+ */
+const settle = (mined: TrackedTransaction, status: TrackedTransactionStatus) => {
+  const { transactions, updateTransaction } = useTransactionStore.getState();
+  updateTransaction(mined.hash, { status, nonce: mined.nonce });
+  if (mined.nonce === undefined) return;
+
+  for (const other of transactions) {
+    const sameNonce =
+      other.hash !== mined.hash &&
+      other.chainId === mined.chainId &&
+      other.nonce === mined.nonce &&
+      other.from.toLowerCase() === mined.from.toLowerCase();
+    if (!sameNonce || other.status === "confirmed" || other.status === "reverted") continue;
+    updateTransaction(other.hash, {
+      status: mined.replaces?.kind === "cancel" ? "cancelled" : "replaced",
+      replacedBy: mined.hash,
+    });
+  }
+};
+
+const checkTransaction = async (publicClient: PublicClient, hash: Hash) => {
+  const { transactions, updateTransaction } = useTransactionStore.getState();
+  // Settled meanwhile along with a transaction of the same nonce
+  const tracked = transactions.find(transaction => transaction.hash === hash);
+  if (tracked?.status !== "pending") return;
+
+  const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => undefined);
+  if (receipt) {
+    const nonce = tracked.nonce ?? (await publicClient.getTransaction({ hash }).catch(() => undefined))?.nonce;
+    settle({ ...tracked, nonce }, receipt.status === "success" ? "confirmed" : "reverted");
+    return;
+  }
+
+  const transaction = await publicClient.getTransaction({ hash }).catch(() => undefined);
+  if (transaction) {
+    updateTransaction(hash, { ...transactionDetails(transaction), lastSeenAt: Date.now() });
+    return;
+  }
+
+  // Unknown to the node: either another transaction took its nonce, or it left the mempool
+  if (tracked.nonce !== undefined) {
+    const accountNonce = await publicClient.getTransactionCount({ address: tracked.from, blockTag: "latest" });
+    if (accountNonce > tracked.nonce) {
+      // The replacement, if sent from the app, sets `replacedBy` once it is found mined
+      updateTransaction(hash, { status: "replaced" });
+      return;
+    }
+  }
+  if (Date.now() - tracked.lastSeenAt > DROP_AFTER_MS) updateTransaction(hash, { status: "dropped" });
+};
+
+/**
+ * Follows the pending transactions of the transaction store on every block: fills in their nonce and fees, and
+ * marks them confirmed, reverted, replaced, cancelled or dropped. Mounted once for the whole app, so transactions
+ * sent before a reload are still followed.
+ */
+export const useTransactionWatcher = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const hasPending = useTransactionStore(state =>
+    state.transactions.some(
+      transaction => transaction.status === "pending" && transaction.chainId === targetNetwork.id,
+    ),
+  );
+  const { data: blockNumber } = useBlockNumber({ watch: hasPending, chainId: targetNetwork.id });
+  const isChecking = useRef(false);
+
+  useEffect(() => {
+    if (!publicClient || !hasPending || blockNumber === undefined || isChecking.current) return;
+
+    const pending = useTransactionStore
+      .getState()
+      .transactions.filter(transaction => transaction.status === "pending" && transaction.chainId === targetNetwork.id)
+      .map(transaction => transaction.hash);
+
+    // One at a time, so a settled nonce is never overwritten by a check of the same nonce still in flight
+    const checkAll = async () => {
+      for (const hash of pending) {
+        await checkTransaction(publicClient, hash).catch(error =>
+          console.error(`Failed to check transaction ${hash}:`, error),
+        );
+      }
+    };
+
+    isChecking.current = true;
+    checkAll().finally(() => {
+      isChecking.current = false;
+    });
+  }, [blockNumber, hasPending, publicClient, targetNetwork.id]);
+};
@@ -1,8 +1,9 @@
-import { Hash, SendTransactionParameters, TransactionReceipt, WalletClient } from "viem";
+import { Hash, PublicClient, SendTransactionParameters, TransactionReceipt, WalletClient } from "viem";
 import { Config, useWalletClient } from "wagmi";
 import { getPublicClient } from "wagmi/actions";
 import { SendTransactionMutate } from "wagmi/query";
 import scaffoldConfig from "~~/scaffold.config";
+import { trackTransaction, waitForTrackedTransaction } from "~~/services/store/transactionStore";
 import { wagmiConfig } from "~~/services/web3/wagmiConfig";
 import { AllowedChainIds, getBlockExplorerTxLink, notification } from "~~/utils/scaffold-eth";
 import { TransactorFuncOptions, getParsedErrorWithAllAbis } from "~~/utils/scaffold-eth/contract";
@@ -69,18 +70,33 @@ export const useTransactor = (_walletClient?: WalletClient): TransactionFunc =>
       }
       notification.remove(notificationId);
 
+      // Followed by the pending transactions menu, where it can be sped up or cancelled
+      const from =
+        walletClient.account?.address ??
+        (typeof tx === "function" ? undefined : typeof tx.account === "string" ? tx.account : tx.account?.address);
+      if (from) {
+        trackTransaction({ hash: transactionHash, chainId, from, description: options?.description ?? "Transaction" });
+      }
+
       blockExplorerTxURL = chainId ? getBlockExplorerTxLink(chainId, transactionHash) : "";
 
       notificationId = notification.loading(
         <TxnNotification message="Waiting for transaction to complete." blockExplorerLink={blockExplorerTxURL} />,
       );
 
-      transactionReceipt = await publicClient.waitForTransactionReceipt({
-        hash: transactionHash,
-        confirmations: options?.blockConfirmations,
-      });
+      const { receipt, cancelled } = await waitForTrackedTransaction(
+        publicClient as PublicClient,
+        transactionHash,
+        options?.blockConfirmations,
+      );
+      transactionReceipt = receipt;
       notification.remove(notificationId);
 
+      // A sped-up transaction completes with the replacement's receipt
+      transactionHash = transactionReceipt.transactionHash;
+      blockExplorerTxURL = chainId ? getBlockExplorerTxLink(chainId, transactionHash) : "";
+
+      if (cancelled) throw new Error("Transaction cancelled");
       if (transactionReceipt.status === "reverted") throw new Error("Transaction reverted");
 
       notification.success(
@@ -0,0 +1,113 @@
+import { useEffect, useRef } from "react";
+import { useLocalStorage } from "usehooks-ts";
+import { useAccount, useBlockNumber } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { useSecretVault } from "~~/hooks/useSecretVault";
+import { useGlobalState } from "~~/services/store/store";
+import { EXPIRY_WARNING_BLOCKS, getBlocksLeft } from "~~/utils/autoReveal";
+import { notification } from "~~/utils/scaffold-eth";
+
+// Remembers whether the player wants winning rolls claimed automatically
+export const AUTO_REVEAL_KEY = "rollHouse.autoReveal";
+
+/**
+ * In-tab watcher for the connected player's pending roll.
+ * Polls `checkRoll` with the secret in memory and submits `revealRoll` as soon as the roll is a winner,
+ * warning the player when a roll that may still win is about to expire.
+ * `yarn auto-reveal` (scripts/autoReveal.ts) does the same without the tab open.
+ */
+export const useAutoReveal = () => {
+  const { address } = useAccount();
+  const [isEnabled] = useLocalStorage(AUTO_REVEAL_KEY, true, { initializeWithValue: false });
+  const pendingSecret = useGlobalState(state => state.pendingSecret);
+  const setPendingSecret = useGlobalState(state => state.setPendingSecret);
+  const setRevealTxHash = useGlobalState(state => state.setRevealTxHash);
+  const setIsAutoRevealing = useGlobalState(state => state.setIsAutoRevealing);
+  const { clear: clearSavedSecret } = useSecretVault();
+
+  // Commitments we already tried to reveal / warned about (keyed by commit hash)
+  const attemptedReveal = useRef<string | undefined>(undefined);
+  const warnedExpiry = useRef<string | undefined>(undefined);
+
+  const { data: blockNumber } = useBlockNumber({ watch: true });
+
+  const { data: commitment } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "getCommitment",
+    args: [address],
+  });
+
+  const { data: rollCheck } = useScaffoldReadContract({
+    contractName: "DiceGame",
+    functionName: "checkRoll",
+    args: [address, pendingSecret as `0x${string}` | undefined],
+  });
+
+  const { writeContractAsync: writeDiceGame } = useScaffoldWriteContract({ contractName: "DiceGame" });
+
+  const commitHash = commitment && commitment[1] > 0n ? commitment[0] : undefined;
+  const blocksLeft = commitment && blockNumber && commitHash ? getBlocksLeft(commitment[1], blockNumber) : undefined;
+  const canCheckRoll = rollCheck && rollCheck[0];
+  const isWinner = rollCheck && rollCheck[1];
+
+  // Claim winners as soon as checkRoll reports them
+  useEffect(() => {
+    if (!isEnabled || !pendingSecret || !commitHash || !canCheckRoll || !isWinner) return;
+    if (attemptedReveal.current === commitHash) return;
+    attemptedReveal.current = commitHash;
+
+    const reveal = async () => {
+      try {
+        setIsAutoRevealing(true);
+        await writeDiceGame(
+          {
+            functionName: "revealRoll",
+            args: [pendingSecret as `0x${string}`],
+          },
+          {
+            // Only called for a successful receipt: until then the secret is the only way to claim the roll
+            onBlockConfirmation: receipt => {
+              setRevealTxHash(receipt.transactionHash);
+              setPendingSecret(null);
+              clearSavedSecret();
+              notification.success("🎉 Winning roll claimed automatically!", { duration: 6000 });
+            },
+          },
+        );
+      } catch (error) {
+        // Rejected or failed: leave the secret in place so the player can still claim manually
+        console.error("Auto-reveal failed:", error);
+      } finally {
+        setIsAutoRevealing(false);
+      }
+    };
+
+    reveal();
+  }, [
+    isEnabled,
+    pendingSecret,
+    commitHash,
+    canCheckRoll,
+    isWinner,
+    writeDiceGame,
+    setIsAutoRevealing,
+    setRevealTxHash,
+    setPendingSecret,
+    clearSavedSecret,
+  ]);
+
+  // Warn once per commitment when it is close to expiring and might still be a winner
+  useEffect(() => {
+    if (!commitHash || blocksLeft === undefined || blocksLeft <= 0n || blocksLeft > EXPIRY_WARNING_BLOCKS) return;
+    if (canCheckRoll && !isWinner) return;
+    if (warnedExpiry.current === commitHash) return;
+    warnedExpiry.current = commitHash;
+
+    notification.warning(
+      canCheckRoll
+        ? `Your winning roll expires in ${blocksLeft} blocks. Claim it now!`
+        : `Your pending roll expires in ${blocksLeft} blocks. Unlock your secret to check it.`,
+      { duration: 10000 },
+    );
+  }, [commitHash, blocksLeft, canCheckRoll, isWinner]);
+};
@@ -0,0 +1,183 @@
+import { useCallback, useState } from "react";
+import { BaseError, Hex, UserRejectedRequestError, encodeFunctionData, parseSignature } from "viem";
+import { useAccount, useCapabilities, usePublicClient, useSendCalls, useSignTypedData, useWriteContract } from "wagmi";
+import { waitForCallsStatus } from "wagmi/actions";
+import { useDeployedContractInfo, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { trackTransaction, waitForTrackedTransaction } from "~~/services/store/transactionStore";
+import { wagmiConfig } from "~~/services/web3/wagmiConfig";
+import { notification } from "~~/utils/scaffold-eth";
+import { USDC_ABI, USDC_ADDRESS, getPermitTypedData } from "~~/utils/usdc";
+
+export type CommitRollStep = "approving" | "signing" | "committing";
+
+export type CommitRollParams = {
+  commitHash: Hex;
+  housePool: `0x${string}`;
+  rolls: bigint;
+  tier: number;
+  // rolls * ROLL_COST, approved to the HousePool
+  totalCost: bigint;
+};
+
+const isUserRejection = (error: unknown) =>
+  error instanceof BaseError && Boolean(error.walk(e => e instanceof UserRejectedRequestError));
+
+/**
+ * Pays for and commits a batch of rolls in as few wallet prompts as possible:
+ * 1. existing allowance -> `commitRolls`
+ * 2. wallets with atomic EIP-5792 batching -> `approve` + `commitRolls` in one `wallet_sendCalls`
+ * 3. USDC EIP-2612 permit signature -> `commitRollsWithPermit`
+ * 4. fallback -> `approve`, wait for its receipt, then `commitRolls`
+ * A path only falls back to the next one if it failed before anything was sent.
+ */
+export const useCommitRoll = () => {
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: diceGame } = useDeployedContractInfo({ contractName: "DiceGame" });
+  const { data: capabilities } = useCapabilities({ query: { enabled: Boolean(address), retry: false } });
+  const { sendCallsAsync } = useSendCalls();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { writeContractAsync: writeUsdc } = useWriteContract();
+  const { writeContractAsync: writeDiceGame } = useScaffoldWriteContract({ contractName: "DiceGame" });
+  const [step, setStep] = useState<CommitRollStep | undefined>();
+
+  const atomicStatus = chainId ? capabilities?.[chainId]?.atomic?.status : undefined;
+  const canBatch = atomicStatus === "supported" || atomicStatus === "ready";
+
+  // Sends `approve` + `commitRolls` as one atomic batch and returns its id
+  const submitBatch = useCallback(
+    async ({ commitHash, housePool, rolls, tier, totalCost }: CommitRollParams) => {
+      if (!diceGame) throw new Error("DiceGame is not deployed on this network");
+
+      setStep("committing");
+      const { id } = await sendCallsAsync({
+        forceAtomic: true,
+        calls: [
+          {
+            to: USDC_ADDRESS,
+            data: encodeFunctionData({ abi: USDC_ABI, functionName: "approve", args: [housePool, totalCost] }),
+          },
+          {
+            to: diceGame.address,
+            data: encodeFunctionData({
+              abi: diceGame.abi,
+              functionName: "commitRolls",
+              args: [commitHash, rolls, tier],
+            }),
+          },
+        ],
+      });
+      return id;
+    },
+    [diceGame, sendCallsAsync],
+  );
+
+  const waitForBatch = useCallback(async (id: string) => {
+    const notificationId = notification.loading("Waiting for roll to be confirmed");
+    try {
+      const { status } = await waitForCallsStatus(wagmiConfig, { id });
+      if (status !== "success") throw new Error("Batched roll failed");
+      notification.success("Roll committed!");
+    } finally {
+      notification.remove(notificationId);
+    }
+  }, []);
+
+  // Signs the USDC permit and checks that `commitRollsWithPermit` accepts it, returning the call's arguments
+  const preparePermit = useCallback(
+    async ({ commitHash, housePool, rolls, tier, totalCost }: CommitRollParams) => {
+      if (!address || !publicClient || !diceGame) throw new Error("Connect a wallet to roll");
+
+      setStep("signing");
+      const { deadline, typedData } = await getPermitTypedData(
+        publicClient,
+        USDC_ADDRESS,
+        address,
+        housePool,
+        totalCost,
+      );
+      const { v, yParity, r, s } = parseSignature(await signTypedDataAsync(typedData));
+      const args = [commitHash, rolls, tier, deadline, v ? Number(v) : yParity + 27, r, s] as const;
+
+      await publicClient.simulateContract({
+        account: address,
+        address: diceGame.address,
+        abi: diceGame.abi,
+        functionName: "commitRollsWithPermit",
+        args,
+      });
+      return args;
+    },
+    [address, publicClient, diceGame, signTypedDataAsync],
+  );
+
+  const commitWithApproval = useCallback(
+    async ({ commitHash, housePool, rolls, tier, totalCost }: CommitRollParams) => {
+      if (!address || !chainId || !publicClient) throw new Error("Connect a wallet to roll");
+
+      setStep("approving");
+      const approveHash = await writeUsdc({
+        address: USDC_ADDRESS,
+        abi: USDC_ABI,
+        functionName: "approve",
+        args: [housePool, totalCost],
+      });
+      // Shown in the pending transactions menu, where a stuck approve can be sped up or cancelled
+      trackTransaction({ hash: approveHash, chainId, from: address, description: "USDC approve" });
+      const { receipt, cancelled } = await waitForTrackedTransaction(publicClient, approveHash);
+      if (cancelled || receipt.status !== "success") throw new Error("USDC approval did not go through");
+
+      setStep("committing");
+      await writeDiceGame({ functionName: "commitRolls", args: [commitHash, rolls, tier] });
+    },
+    [address, chainId, publicClient, writeUsdc, writeDiceGame],
+  );
+
+  const commitRoll = useCallback(
+    async (params: CommitRollParams) => {
+      const { commitHash, housePool, rolls, tier, totalCost } = params;
+      if (!address || !publicClient) throw new Error("Connect a wallet to roll");
+
+      try {
+        const allowance = await publicClient.readContract({
+          address: USDC_ADDRESS,
+          abi: USDC_ABI,
+          functionName: "allowance",
+          args: [address, housePool],
+        });
+        if (allowance >= totalCost) {
+          setStep("committing");
+          await writeDiceGame({ functionName: "commitRolls", args: [commitHash, rolls, tier] });
+          return;
+        }
+
+        // Only failures before anything is sent fall back: a sent batch or permit roll may still land, and
+        // committing again would charge the rolls twice and overwrite the first commitment
+        if (canBatch) {
+          const batchId = await submitBatch(params).catch(error => {
+            if (isUserRejection(error)) throw error;
+            console.warn("Batched roll failed, trying permit:", error);
+          });
+          if (batchId) return await waitForBatch(batchId);
+        }
+
+        const permitArgs = await preparePermit(params).catch(error => {
+          if (isUserRejection(error)) throw error;
+          console.warn("Permit roll failed, falling back to approve:", error);
+        });
+        if (permitArgs) {
+          setStep("committing");
+          await writeDiceGame({ functionName: "commitRollsWithPermit", args: permitArgs });
+          return;
+        }
+
+        await commitWithApproval(params);
+      } finally {
+        setStep(undefined);
+      }
+    },
+    [address, publicClient, canBatch, submitBatch, waitForBatch, preparePermit, commitWithApproval, writeDiceGame],
+  );
+
+  return { commitRoll, step, canBatch };
+};
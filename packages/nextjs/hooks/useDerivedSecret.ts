@@ -0,0 +1,63 @@
+import { useCallback } from "react";
+import { Hex, keccak256 } from "viem";
+import { useAccount, useSignTypedData } from "wagmi";
+import { useDeployedContractInfo, useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import { MAX_NONCE_LOOKBACK, getRollSecretTypedData, secretFromSignature } from "~~/utils/derivedSecret";
+
+/**
+ * Derives commit secrets from an EIP-712 wallet signature so a pending roll can be revealed from any device.
+ * The nonce is the number of `RollCommitted` events the player has emitted so far.
+ */
+export const useDerivedSecret = () => {
+  const { address, chainId } = useAccount();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { data: diceGame } = useDeployedContractInfo({ contractName: "DiceGame" });
+
+  const {
+    data: commits,
+    isLoading,
+    isFetchingNewEvent,
+  } = useScaffoldEventHistory({
+    contractName: "DiceGame",
+    eventName: "RollCommitted",
+    filters: { player: address },
+    watch: true,
+    enabled: Boolean(address),
+  });
+
+  const commitCount = BigInt(commits?.length ?? 0);
+  const isReady = Boolean(address && chainId && diceGame) && !isLoading && !isFetchingNewEvent;
+
+  const deriveSecret = useCallback(
+    async (nonce: bigint): Promise<Hex> => {
+      if (!address || !chainId || !diceGame) throw new Error("Connect a wallet to derive a secret");
+      const signature = await signTypedDataAsync(getRollSecretTypedData(diceGame.address, chainId, address, nonce));
+      return secretFromSignature(signature);
+    },
+    [address, chainId, diceGame, signTypedDataAsync],
+  );
+
+  /**
+   * Secret for the next commit (nonce = commits so far)
+   */
+  const deriveNextSecret = useCallback(() => {
+    if (!isReady) throw new Error("Roll history is still loading");
+    return deriveSecret(commitCount);
+  }, [commitCount, deriveSecret, isReady]);
+
+  /**
+   * Rebuilds the secret behind `commitHash`, starting from the latest nonce and walking back a few
+   */
+  const recoverSecret = useCallback(
+    async (commitHash: Hex) => {
+      for (let offset = 1n; offset <= BigInt(MAX_NONCE_LOOKBACK) && commitCount - offset >= 0n; offset++) {
+        const secret = await deriveSecret(commitCount - offset);
+        if (keccak256(secret) === commitHash) return secret;
+      }
+      return undefined;
+    },
+    [commitCount, deriveSecret],
+  );
+
+  return { commitCount, isReady, deriveNextSecret, recoverSecret };
+};
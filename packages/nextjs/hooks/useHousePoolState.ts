@@ -0,0 +1,118 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Address, zeroAddress } from "viem";
+import { useBlockNumber, useConfig } from "wagmi";
+import { readContracts } from "wagmi/actions";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+// getWithdrawalRequest(lp): shares, unlockTime, position, canWithdraw, sharesAhead
+export type WithdrawalRequestTuple = readonly [bigint, bigint, bigint, boolean, bigint];
+
+/**
+ * Everything the House page shows, read at one block
+ */
+export type HousePoolSnapshot = {
+  blockNumber: bigint;
+  totalPool: bigint;
+  vaultPool: bigint;
+  effectivePool: bigint;
+  sharePrice: bigint;
+  totalSupply: bigint;
+  totalPendingShares: bigint;
+  availableLiquidity: bigint;
+  canPlay: boolean;
+  vaultPrincipal: bigint;
+  vaultYield: bigint;
+  vaultApyBps: bigint;
+  // Only when an account is given
+  user?: {
+    houseBalance: bigint;
+    usdcValue: bigint;
+    usdcBalance: bigint;
+    withdrawalRequest: WithdrawalRequestTuple;
+  };
+};
+
+/**
+ * HousePool, DiceGame and VaultManager state plus `account`'s position, read in one multicall per block.
+ * Every value comes from the same block, and the previous snapshot is kept while the next one loads.
+ */
+export const useHousePoolState = (account: Address | undefined) => {
+  const config = useConfig();
+  const { targetNetwork } = useTargetNetwork();
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+  const { data: housePool } = useDeployedContractInfo({ contractName: "HousePool" });
+  const { data: diceGame } = useDeployedContractInfo({ contractName: "DiceGame" });
+  const { data: vaultManager } = useDeployedContractInfo({ contractName: "VaultManager" });
+  const { data: usdc } = useDeployedContractInfo({ contractName: "USDC" });
+
+  return useQuery({
+    queryKey: ["housePoolState", targetNetwork.id, housePool?.address, account, blockNumber?.toString()],
+    enabled: Boolean(blockNumber !== undefined && housePool && diceGame && vaultManager && usdc),
+    queryFn: async (): Promise<HousePoolSnapshot | undefined> => {
+      if (blockNumber === undefined || !housePool || !diceGame || !vaultManager || !usdc) return undefined;
+
+      // The user calls are always sent (for the zero address without an account) so the result stays a fixed tuple
+      const user = account ?? zeroAddress;
+      const chainId = targetNetwork.id;
+      const pool = { address: housePool.address, abi: housePool.abi, chainId } as const;
+      const game = { address: diceGame.address, abi: diceGame.abi, chainId } as const;
+      const vault = { address: vaultManager.address, abi: vaultManager.abi, chainId } as const;
+
+      const [
+        totalPool,
+        vaultPool,
+        effectivePool,
+        sharePrice,
+        totalSupply,
+        totalPendingShares,
+        availableLiquidity,
+        canPlay,
+        vaultPrincipal,
+        vaultYield,
+        vaultApyBps,
+        houseBalance,
+        usdcValue,
+        usdcBalance,
+        withdrawalRequest,
+      ] = await readContracts(config, {
+        contracts: [
+          { ...pool, functionName: "totalPool" },
+          { ...pool, functionName: "vaultPool" },
+          { ...pool, functionName: "effectivePool" },
+          { ...pool, functionName: "sharePrice" },
+          { ...pool, functionName: "totalSupply" },
+          { ...pool, functionName: "totalPendingShares" },
+          { ...pool, functionName: "availableLiquidity" },
+          { ...game, functionName: "canPlay" },
+          { ...vault, functionName: "netPrincipal" },
+          { ...vault, functionName: "accruedYield" },
+          { ...vault, functionName: "runningApy" },
+          { ...pool, functionName: "balanceOf", args: [user] },
+          { ...pool, functionName: "usdcValue", args: [user] },
+          { address: usdc.address, abi: usdc.abi, chainId, functionName: "balanceOf", args: [user] },
+          { ...pool, functionName: "getWithdrawalRequest", args: [user] },
+        ],
+        blockNumber,
+        allowFailure: false,
+      });
+
+      return {
+        blockNumber,
+        totalPool,
+        vaultPool,
+        effectivePool,
+        sharePrice,
+        totalSupply,
+        totalPendingShares,
+        availableLiquidity,
+        canPlay,
+        vaultPrincipal,
+        vaultYield,
+        vaultApyBps,
+        user: account ? { houseBalance, usdcValue, usdcBalance, withdrawalRequest } : undefined,
+      };
+    },
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
+};
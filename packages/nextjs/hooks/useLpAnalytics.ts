@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import { Address, Block } from "viem";
+import { useScaffoldEventHistory, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { LpEvent, buildLpPosition, buildPositionHistory, buildPriceSeries } from "~~/utils/lpAnalytics";
+
+// blockData is fetched (blockData: true) but missing from the hook's inferred event type
+const blockTimestamp = (event: object) => Number((event as { blockData?: Block }).blockData?.timestamp ?? 0n);
+
+/**
+ * Cost basis, P&L, APY and value history for one LP.
+ * Reads every Deposit / Withdraw / EmergencyExit (all LPs, for the share price history) with block timestamps.
+ */
+export const useLpAnalytics = (lp: Address | undefined) => {
+  const { data: sharePrice } = useScaffoldReadContract({
+    contractName: "HousePool",
+    functionName: "sharePrice",
+  });
+
+  const { data: depositEvents, isLoading: isLoadingDeposits } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "Deposit",
+    blockData: true,
+    watch: true,
+  });
+
+  const { data: withdrawEvents, isLoading: isLoadingWithdrawals } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "Withdraw",
+    blockData: true,
+    watch: true,
+  });
+
+  // emergencyExit burns shares without an ERC-4626 Withdraw event
+  const { data: emergencyExitEvents, isLoading: isLoadingEmergencyExits } = useScaffoldEventHistory({
+    contractName: "HousePool",
+    eventName: "EmergencyExit",
+    blockData: true,
+    watch: true,
+  });
+
+  const events = useMemo<LpEvent[]>(
+    () => [
+      ...(depositEvents ?? []).map(event => ({
+        kind: "deposit" as const,
+        lp: event.args.owner as Address,
+        usdc: event.args.assets ?? 0n,
+        shares: event.args.shares ?? 0n,
+        timestamp: blockTimestamp(event),
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+      })),
+      ...(withdrawEvents ?? []).map(event => ({
+        kind: "withdraw" as const,
+        lp: event.args.owner as Address,
+        usdc: event.args.assets ?? 0n,
+        shares: event.args.shares ?? 0n,
+        timestamp: blockTimestamp(event),
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+      })),
+      ...(emergencyExitEvents ?? []).map(event => ({
+        kind: "withdraw" as const,
+        lp: event.args.lp as Address,
+        usdc: event.args.usdcOut ?? 0n,
+        shares: event.args.sharesIn ?? 0n,
+        timestamp: blockTimestamp(event),
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+      })),
+    ],
+    [depositEvents, withdrawEvents, emergencyExitEvents],
+  );
+
+  const analytics = useMemo(() => {
+    if (!lp || sharePrice === undefined) return undefined;
+
+    const now = Math.floor(Date.now() / 1000);
+    const lpEvents = events.filter(event => event.lp.toLowerCase() === lp.toLowerCase());
+    return {
+      position: buildLpPosition(lpEvents, sharePrice, now),
+      history: buildPositionHistory(lpEvents, buildPriceSeries(events), sharePrice, now),
+    };
+  }, [lp, events, sharePrice]);
+
+  return {
+    position: analytics?.position,
+    history: analytics?.history ?? [],
+    isLoading: isLoadingDeposits || isLoadingWithdrawals || isLoadingEmergencyExits,
+  };
+};
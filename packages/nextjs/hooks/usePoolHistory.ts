@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Abi } from "viem";
+import { useBlockNumber, usePublicClient } from "wagmi";
+import { useDeployedContractInfo, useScaffoldEventHistory, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { PoolFlow, getSampleBlocks, samplePool, splitPoolGrowth } from "~~/utils/poolHistory";
+
+const SAMPLE_COUNT = 40;
+
+/**
+ * Sampled HousePool views from deployment to the latest block, plus the growth split from events
+ */
+export const usePoolHistory = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: housePool } = useDeployedContractInfo({ contractName: "HousePool" });
+  // Not watched: the samples are pinned to the block seen on load, `refetch` moves them forward
+  const { data: latestBlock, refetch: refetchBlock } = useBlockNumber({ chainId: targetNetwork.id });
+
+  const deployedOnBlock = BigInt(
+    housePool && "deployedOnBlock" in housePool ? Number(housePool.deployedOnBlock || 0) : 0,
+  );
+
+  const samplesQuery = useQuery({
+    queryKey: ["poolHistory", housePool?.address, deployedOnBlock.toString(), latestBlock?.toString()],
+    enabled: Boolean(publicClient && housePool && latestBlock),
+    queryFn: async () => {
+      if (!publicClient || !housePool || !latestBlock) return [];
+      const blocks = getSampleBlocks(deployedOnBlock, latestBlock, SAMPLE_COUNT);
+      return Promise.all(
+        blocks.map(blockNumber =>
+          samplePool(publicClient, { address: housePool.address, abi: housePool.abi as Abi }, blockNumber),
+        ),
+      );
+    },
+    staleTime: Infinity,
+  });
+
+  const { data: deposits } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "Deposit" });
+  const { data: withdrawals } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "Withdraw" });
+  const { data: emergencyExits } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "EmergencyExit" });
+  const { data: payments } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "PaymentReceived" });
+  const { data: payouts } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "PayoutSent" });
+  const { data: deferredPayouts } = useScaffoldEventHistory({ contractName: "HousePool", eventName: "PayoutDeferred" });
+
+  const flows = useMemo<PoolFlow[]>(
+    () => [
+      ...(deposits ?? []).map(e => ({
+        kind: "deposit" as const,
+        blockNumber: e.blockNumber,
+        amount: e.args.assets ?? 0n,
+      })),
+      ...(withdrawals ?? []).map(e => ({
+        kind: "withdraw" as const,
+        blockNumber: e.blockNumber,
+        amount: e.args.assets ?? 0n,
+      })),
+      // emergencyExit pays LPs out without an ERC-4626 Withdraw event
+      ...(emergencyExits ?? []).map(e => ({
+        kind: "withdraw" as const,
+        blockNumber: e.blockNumber,
+        amount: e.args.usdcOut ?? 0n,
+      })),
+      ...(payments ?? []).map(e => ({
+        kind: "payment" as const,
+        blockNumber: e.blockNumber,
+        amount: e.args.amount ?? 0n,
+      })),
+      ...[...(payouts ?? []), ...(deferredPayouts ?? [])].map(e => ({
+        kind: "payout" as const,
+        blockNumber: e.blockNumber,
+        amount: e.args.amount ?? 0n,
+      })),
+    ],
+    [deposits, withdrawals, emergencyExits, payments, payouts, deferredPayouts],
+  );
+
+  const samples = useMemo(() => samplesQuery.data ?? [], [samplesQuery.data]);
+  const growth = useMemo(() => splitPoolGrowth(samples, flows), [samples, flows]);
+
+  return {
+    samples,
+    growth,
+    isLoading: samplesQuery.isLoading,
+    error: samplesQuery.error,
+    refetch: refetchBlock,
+  };
+};
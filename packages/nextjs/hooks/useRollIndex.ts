@@ -0,0 +1,123 @@
+import { useEffect } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Abi, AbiEvent, PublicClient } from "viem";
+import { useBlockNumber, usePublicClient } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { LEADERBOARD_WINDOWS, LeaderboardWindow, toRollEvents } from "~~/utils/rollIndex";
+import { syncLogCache } from "~~/utils/scaffold-eth/logCache";
+
+const BLOCKS_BATCH_SIZE = 500;
+
+// localStorage key of the index kept before the log cache, removed on the next visit
+const LEGACY_STORAGE_KEY = "rollHouse.rollIndex";
+
+// Block timestamps looked up this session
+const timestamps = new Map<string, Promise<number>>();
+
+const blockTimestamp = (publicClient: PublicClient, chainId: number, blockNumber: number) => {
+  const key = `${chainId}:${blockNumber}`;
+  if (!timestamps.has(key)) {
+    const pending = publicClient.getBlock({ blockNumber: BigInt(blockNumber) }).then(block => Number(block.timestamp));
+    // Failed lookups are retried next time
+    pending.catch(() => timestamps.delete(key));
+    timestamps.set(key, pending);
+  }
+  return timestamps.get(key) as Promise<number>;
+};
+
+/**
+ * First of `blockNumbers` (ascending) mined at or after `since`, by binary search on block timestamps
+ */
+const firstBlockSince = async (publicClient: PublicClient, chainId: number, blockNumbers: number[], since: number) => {
+  let low = 0;
+  let high = blockNumbers.length;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if ((await blockTimestamp(publicClient, chainId, blockNumbers[mid])) >= since) high = mid;
+    else low = mid + 1;
+  }
+  return blockNumbers[low];
+};
+
+/**
+ * DiceGame roll events for the leaderboard, synced through the shared log cache (IndexedDB, reorg checks), plus
+ * the first block of `timeWindow`. Only the blocks mined since the last visit are fetched.
+ */
+export const useRollIndex = (timeWindow: LeaderboardWindow) => {
+  const { targetNetwork } = useTargetNetwork();
+  const publicClient = usePublicClient({ chainId: targetNetwork.id });
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+  const { data: diceGame } = useDeployedContractInfo({ contractName: "DiceGame" });
+
+  useEffect(() => {
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  }, []);
+
+  const findEvent = (name: string) =>
+    diceGame && ((diceGame.abi as Abi).find(part => part.type === "event" && part.name === name) as AbiEvent);
+  const commitEvent = findEvent("RollCommitted");
+  const revealEvent = findEvent("RollRevealed");
+
+  const deployedOnBlock = BigInt(diceGame && "deployedOnBlock" in diceGame ? diceGame.deployedOnBlock || 0 : 0);
+
+  const indexQuery = useQuery({
+    queryKey: [
+      "rollIndex",
+      { chainId: targetNetwork.id, address: diceGame?.address, toBlock: blockNumber?.toString() },
+    ],
+    queryFn: async () => {
+      if (!publicClient || !diceGame || !commitEvent || !revealEvent || blockNumber === undefined) return undefined;
+
+      const sync = (event: AbiEvent) =>
+        syncLogCache({
+          publicClient: publicClient as PublicClient,
+          chainId: targetNetwork.id,
+          address: diceGame.address,
+          event,
+          fromBlock: deployedOnBlock,
+          toBlock: blockNumber,
+          batchSize: BLOCKS_BATCH_SIZE,
+        });
+      const [commits, reveals] = await Promise.all([sync(commitEvent), sync(revealEvent)]);
+
+      // Another reader may have synced past this block already
+      const upToBlock = (entry: typeof commits) => entry.logs.filter(log => log.blockNumber <= blockNumber);
+      return { events: toRollEvents(upToBlock(commits), upToBlock(reveals)), lastBlock: Number(blockNumber) };
+    },
+    enabled: Boolean(publicClient && commitEvent && revealEvent && blockNumber !== undefined),
+    // Keep showing the previous block's index while the next block syncs
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
+
+  const events = indexQuery.data?.events;
+  const lastBlock = indexQuery.data?.lastBlock;
+  const seconds = LEADERBOARD_WINDOWS.find(option => option.value === timeWindow)?.seconds;
+
+  const windowQuery = useQuery({
+    queryKey: ["rollIndexWindow", { chainId: targetNetwork.id, address: diceGame?.address, timeWindow, lastBlock }],
+    queryFn: async () => {
+      if (!publicClient || !events || lastBlock === undefined) return undefined;
+      if (!seconds) return { timeWindow, sinceBlock: 0 };
+
+      const blockNumbers = [...new Set(events.map(event => event.blockNumber))];
+      const since = Math.floor(Date.now() / 1000) - seconds;
+      const sinceBlock = await firstBlockSince(publicClient as PublicClient, targetNetwork.id, blockNumbers, since);
+      return { timeWindow, sinceBlock: sinceBlock ?? lastBlock + 1 };
+    },
+    enabled: Boolean(publicClient && events && lastBlock !== undefined),
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  });
+
+  const error = indexQuery.error ?? windowQuery.error;
+
+  return {
+    events: events ?? [],
+    // Undefined while the window is being resolved (the placeholder may still be the previous window's)
+    sinceBlock: windowQuery.data?.timeWindow === timeWindow ? windowQuery.data.sinceBlock : undefined,
+    lastBlock,
+    isSyncing: indexQuery.isFetching || windowQuery.isFetching,
+    error: error ? error.message || "Failed to index rolls" : undefined,
+  };
+};
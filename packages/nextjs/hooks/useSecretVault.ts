@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { Hex } from "viem";
+import { useAccount, useSignMessage } from "wagmi";
+import {
+  SecretVaultEntry,
+  decryptSecret,
+  deriveVaultKey,
+  encryptSecret,
+  getVaultKeyMessage,
+  parseBackup,
+  readVaultEntry,
+  removeVaultEntry,
+  serializeBackup,
+  writeVaultEntry,
+} from "~~/utils/secretVault";
+
+// Derived keys live in memory only, so the wallet is asked to sign once per page load
+const keyCache = new Map<string, CryptoKey>();
+
+/**
+ * Encrypted, exportable storage for the connected player's pending commit secret.
+ * Entries are scoped to the connected address and chain.
+ */
+export const useSecretVault = () => {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [entry, setEntry] = useState<SecretVaultEntry | undefined>();
+
+  useEffect(() => {
+    setEntry(address && chainId ? readVaultEntry(chainId, address) : undefined);
+  }, [address, chainId]);
+
+  const getKey = useCallback(async () => {
+    if (!address || !chainId) throw new Error("Connect a wallet to use the secret vault");
+
+    const cacheKey = `${chainId}:${address.toLowerCase()}`;
+    const cached = keyCache.get(cacheKey);
+    if (cached) return cached;
+
+    const signature = await signMessageAsync({ message: getVaultKeyMessage(chainId, address) });
+    const key = await deriveVaultKey(signature, chainId, address);
+    keyCache.set(cacheKey, key);
+    return key;
+  }, [address, chainId, signMessageAsync]);
+
+  /**
+   * Encrypts and stores the secret, replacing any previous entry for this address and chain
+   */
+  const save = useCallback(
+    async (secret: Hex) => {
+      if (!address || !chainId) throw new Error("Connect a wallet to use the secret vault");
+      const newEntry = await encryptSecret(await getKey(), secret, chainId, address);
+      writeVaultEntry(newEntry);
+      setEntry(newEntry);
+      return newEntry;
+    },
+    [address, chainId, getKey],
+  );
+
+  /**
+   * Decrypts the stored secret. Pass the on-chain commitment hash to make sure the entry belongs to it.
+   */
+  const unlock = useCallback(
+    async (commitHash?: Hex) => {
+      if (!entry) return undefined;
+      if (commitHash && entry.commitHash !== commitHash) return undefined;
+      return decryptSecret(await getKey(), entry);
+    },
+    [entry, getKey],
+  );
+
+  const clear = useCallback(() => {
+    if (!address || !chainId) return;
+    removeVaultEntry(chainId, address);
+    setEntry(undefined);
+  }, [address, chainId]);
+
+  const exportBackup = useCallback(() => (entry ? serializeBackup(entry) : undefined), [entry]);
+
+  /**
+   * Restores an entry from a backup file or scanned QR payload
+   */
+  const importBackup = useCallback(
+    (text: string) => {
+      const imported = parseBackup(text);
+      if (!address || !chainId) throw new Error("Connect a wallet to import a backup");
+      if (imported.address.toLowerCase() !== address.toLowerCase() || imported.chainId !== chainId) {
+        throw new Error("This backup belongs to a different wallet or network");
+      }
+      writeVaultEntry(imported);
+      setEntry(imported);
+      return imported;
+    },
+    [address, chainId],
+  );
+
+  return { entry, save, unlock, clear, exportBackup, importBackup };
+};
@@ -0,0 +1,183 @@
+import { readFileSync } from "fs";
+import { Hex, createPublicClient, createWalletClient, http, isHex, keccak256 } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import deployedContracts from "~~/contracts/deployedContracts";
+import scaffoldConfig from "~~/scaffold.config";
+import { EXPIRY_WARNING_BLOCKS, getBlocksLeft } from "~~/utils/autoReveal";
+import { MAX_NONCE_LOOKBACK, getRollSecretTypedData, secretFromSignature } from "~~/utils/derivedSecret";
+import { decryptSecret, deriveVaultKey, getVaultKeyMessage, parseBackup } from "~~/utils/secretVault";
+
+/**
+ * `yarn auto-reveal`: claims the player's winning rolls without the app open.
+ *
+ * `revealRoll` pays its sender, so this runs with the player's own key (AUTO_REVEAL_PRIVATE_KEY). The secret of the
+ * pending commitment comes from a secret vault backup (AUTO_REVEAL_BACKUP, the JSON file exported from the app) or,
+ * for rolls committed with derived secrets, is rebuilt from a signature of that key. Every block it checks the roll
+ * with `checkRoll` and sends `revealRoll` as soon as it is a winner.
+ */
+
+const privateKey = process.env.AUTO_REVEAL_PRIVATE_KEY;
+if (!privateKey || !isHex(privateKey)) {
+  console.error("Set AUTO_REVEAL_PRIVATE_KEY to the private key of the player account");
+  process.exit(1);
+}
+const backupPath = process.env.AUTO_REVEAL_BACKUP;
+
+const account = privateKeyToAccount(privateKey);
+const chain = scaffoldConfig.targetNetworks[0];
+const transport = http(process.env.AUTO_REVEAL_RPC_URL || undefined);
+const publicClient = createPublicClient({ chain, transport });
+const walletClient = createWalletClient({ account, chain, transport });
+const diceGame = deployedContracts[chain.id].DiceGame;
+
+// Secrets found so far, and commitments for which none was found (keyed by commit hash)
+const secrets = new Map<Hex, Hex | undefined>();
+// Messages already printed for a commitment, so each state is only reported once
+const reported = new Set<string>();
+
+const reportOnce = (commitHash: Hex, state: string, message: string) => {
+  if (reported.has(`${commitHash}:${state}`)) return;
+  reported.add(`${commitHash}:${state}`);
+  console.log(message);
+};
+
+const secretFromBackup = async (commitHash: Hex) => {
+  if (!backupPath) return undefined;
+  const entry = parseBackup(readFileSync(backupPath, "utf8"));
+  if (entry.chainId !== chain.id || entry.commitHash.toLowerCase() !== commitHash.toLowerCase()) return undefined;
+
+  const signature = await account.signMessage({ message: getVaultKeyMessage(entry.chainId, entry.address) });
+  return decryptSecret(await deriveVaultKey(signature, entry.chainId, entry.address), entry);
+};
+
+// Blocks per getLogs call, like the in-app event history
+const LOG_BATCH_SIZE = 500n;
+// The player's RollCommitted events counted so far, up to `lastBlock`
+const commitScan = { lastBlock: BigInt(diceGame.deployedOnBlock) - 1n, count: 0n };
+
+// Only the blocks after the previous count are fetched, in LOG_BATCH_SIZE batches
+const countCommits = async () => {
+  const head = await publicClient.getBlockNumber();
+  while (commitScan.lastBlock < head) {
+    const fromBlock = commitScan.lastBlock + 1n;
+    const batchEnd = fromBlock + LOG_BATCH_SIZE - 1n;
+    const toBlock = batchEnd < head ? batchEnd : head;
+
+    const commits = await publicClient.getContractEvents({
+      address: diceGame.address,
+      abi: diceGame.abi,
+      eventName: "RollCommitted",
+      args: { player: account.address },
+      fromBlock,
+      toBlock,
+    });
+    commitScan.count += BigInt(commits.length);
+    commitScan.lastBlock = toBlock;
+  }
+  return commitScan.count;
+};
+
+// Same lookup as useDerivedSecret: the nonce is the number of RollCommitted events, walking back a few
+const derivedSecret = async (commitHash: Hex) => {
+  const commitCount = await countCommits();
+
+  for (let offset = 1n; offset <= BigInt(MAX_NONCE_LOOKBACK) && commitCount - offset >= 0n; offset++) {
+    const signature = await account.signTypedData(
+      getRollSecretTypedData(diceGame.address, chain.id, account.address, commitCount - offset),
+    );
+    const secret = secretFromSignature(signature);
+    if (keccak256(secret) === commitHash) return secret;
+  }
+  return undefined;
+};
+
+const findSecret = async (commitHash: Hex) => {
+  if (!secrets.has(commitHash)) {
+    secrets.set(commitHash, (await secretFromBackup(commitHash)) ?? (await derivedSecret(commitHash)));
+  }
+  return secrets.get(commitHash);
+};
+
+const checkCommitment = async () => {
+  const blockNumber = await publicClient.getBlockNumber();
+  const [commitHash, commitBlock, canReveal, isExpired] = await publicClient.readContract({
+    address: diceGame.address,
+    abi: diceGame.abi,
+    functionName: "getCommitment",
+    args: [account.address],
+  });
+  if (commitBlock === 0n) return;
+  if (isExpired) {
+    reportOnce(commitHash, "expired", `Roll ${commitHash} expired before it could be claimed`);
+    return;
+  }
+  // Still in its commit block
+  if (!canReveal) return;
+
+  const blocksLeft = getBlocksLeft(commitBlock, blockNumber);
+  const secret = await findSecret(commitHash);
+  if (!secret) {
+    reportOnce(
+      commitHash,
+      "noSecret",
+      `No secret for roll ${commitHash} (${blocksLeft} blocks left): export a backup from the app and set AUTO_REVEAL_BACKUP`,
+    );
+    return;
+  }
+
+  const [canCheck, isWinner] = await publicClient.readContract({
+    address: diceGame.address,
+    abi: diceGame.abi,
+    functionName: "checkRoll",
+    args: [account.address, secret],
+  });
+  if (!canCheck) return;
+  if (!isWinner) {
+    reportOnce(commitHash, "lost", `Roll ${commitHash} lost, nothing to claim`);
+    return;
+  }
+  if (blocksLeft <= EXPIRY_WARNING_BLOCKS) {
+    reportOnce(commitHash, "expiring", `Winning roll ${commitHash} expires in ${blocksLeft} blocks`);
+  }
+
+  const { request } = await publicClient.simulateContract({
+    account,
+    address: diceGame.address,
+    abi: diceGame.abi,
+    functionName: "revealRoll",
+    args: [secret],
+  });
+  const hash = await walletClient.writeContract(request);
+  console.log(`Claiming winning roll ${commitHash} in ${hash}`);
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status === "success") {
+    console.log(`🎉 Winning roll claimed in block ${receipt.blockNumber}`);
+  } else {
+    // The commitment is still there, so the next check tries again
+    console.error(`Reveal ${hash} reverted`);
+  }
+};
+
+let stopped = false;
+const stop = () => {
+  stopped = true;
+};
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const main = async () => {
+  console.log(`Watching rolls of ${account.address} on ${chain.name} (DiceGame ${diceGame.address})`);
+  while (!stopped) {
+    try {
+      await checkCommitment();
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+    }
+    await sleep(scaffoldConfig.pollingInterval);
+  }
+};
+
+main();
@@ -14,6 +14,13 @@ import { ChainWithAttributes, NETWORKS_EXTRA_DATA } from "~~/utils/scaffold-eth"
 type GlobalState = {
   targetNetwork: ChainWithAttributes;
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => void;
+  // Secret behind the connected player's on-chain commitment (memory only, shared with the auto-reveal watcher)
+  pendingSecret: string | null;
+  setPendingSecret: (pendingSecret: string | null) => void;
+  revealTxHash: `0x${string}` | undefined;
+  setRevealTxHash: (revealTxHash: `0x${string}` | undefined) => void;
+  isAutoRevealing: boolean;
+  setIsAutoRevealing: (isAutoRevealing: boolean) => void;
 };
 
 export const useGlobalState = create<GlobalState>(set => ({
@@ -22,4 +29,10 @@ export const useGlobalState = create<GlobalState>(set => ({
     ...NETWORKS_EXTRA_DATA[scaffoldConfig.targetNetworks[0].id],
   },
   setTargetNetwork: (newTargetNetwork: ChainWithAttributes) => set(() => ({ targetNetwork: newTargetNetwork })),
+  pendingSecret: null,
+  setPendingSecret: (pendingSecret: string | null) => set(() => ({ pendingSecret })),
+  revealTxHash: undefined,
+  setRevealTxHash: (revealTxHash: `0x${string}` | undefined) => set(() => ({ revealTxHash })),
+  isAutoRevealing: false,
+  setIsAutoRevealing: (isAutoRevealing: boolean) => set(() => ({ isAutoRevealing })),
 }));
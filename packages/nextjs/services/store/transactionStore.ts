@@ -0,0 +1,129 @@
+import { Address, Hash, Hex, PublicClient } from "viem";
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+/**
+ * Transactions sent from the app, kept in localStorage so a transaction still pending after a reload keeps being
+ * followed (see useTransactionWatcher) and can be sped up or cancelled. Amounts are decimal strings to survive JSON.
+ */
+
+// Finished transactions kept for the pending-transactions menu
+const MAX_FINISHED_TRANSACTIONS = 20;
+
+export type TrackedTransactionStatus = "pending" | "confirmed" | "reverted" | "replaced" | "cancelled" | "dropped";
+
+export type TrackedTransaction = {
+  hash: Hash;
+  chainId: number;
+  from: Address;
+  description: string;
+  status: TrackedTransactionStatus;
+  submittedAt: number;
+  // Last time the node still knew the transaction, used to tell dropped ones
+  lastSeenAt: number;
+  // Filled once the node returns the transaction, needed to re-send it
+  nonce?: number;
+  to?: Address | null;
+  value?: string;
+  input?: Hex;
+  gas?: string;
+  // EIP-1559 fees, or gasPrice for legacy transactions
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+  // Set on speed-ups and cancellations sent from the app
+  replaces?: { hash: Hash; kind: "speedUp" | "cancel" };
+  // Transaction that took this one's nonce
+  replacedBy?: Hash;
+};
+
+type TransactionStoreState = {
+  transactions: TrackedTransaction[];
+  addTransaction: (transaction: TrackedTransaction) => void;
+  updateTransaction: (hash: Hash, update: Partial<TrackedTransaction>) => void;
+  removeTransaction: (hash: Hash) => void;
+  clearFinished: () => void;
+};
+
+const pruneFinished = (transactions: TrackedTransaction[]) => {
+  const finished = transactions.filter(transaction => transaction.status !== "pending");
+  if (finished.length <= MAX_FINISHED_TRANSACTIONS) return transactions;
+  const dropped = new Set(finished.slice(MAX_FINISHED_TRANSACTIONS).map(transaction => transaction.hash));
+  return transactions.filter(transaction => !dropped.has(transaction.hash));
+};
+
+export const useTransactionStore = create<TransactionStoreState>()(
+  persist(
+    set => ({
+      transactions: [],
+      // Newest first
+      addTransaction: transaction =>
+        set(state => ({
+          transactions: pruneFinished([
+            transaction,
+            ...state.transactions.filter(existing => existing.hash !== transaction.hash),
+          ]),
+        })),
+      updateTransaction: (hash, update) =>
+        set(state => ({
+          transactions: pruneFinished(
+            state.transactions.map(transaction =>
+              transaction.hash === hash ? { ...transaction, ...update } : transaction,
+            ),
+          ),
+        })),
+      removeTransaction: hash =>
+        set(state => ({ transactions: state.transactions.filter(transaction => transaction.hash !== hash) })),
+      clearFinished: () =>
+        set(state => ({ transactions: state.transactions.filter(transaction => transaction.status === "pending") })),
+    }),
+    {
+      name: "scaffold-eth.transactions",
+      partialize: state => ({ transactions: state.transactions }),
+    },
+  ),
+);
+
+/**
+ * Start following a transaction just handed to the wallet. Its nonce and fees are filled in by the watcher.
+ */
+export const trackTransaction = ({
+  hash,
+  chainId,
+  from,
+  description,
+  replaces,
+}: Pick<TrackedTransaction, "hash" | "chainId" | "from" | "description" | "replaces">) => {
+  const now = Date.now();
+  useTransactionStore.getState().addTransaction({
+    hash,
+    chainId,
+    from,
+    description,
+    replaces,
+    status: "pending",
+    submittedAt: now,
+    lastSeenAt: now,
+  });
+};
+
+/**
+ * Wait for a tracked transaction to be mined, following it through speed-ups and cancellations (from the app or the
+ * wallet). Resolves with the receipt of whichever transaction took its nonce, and records the outcome in the store.
+ */
+export const waitForTrackedTransaction = async (publicClient: PublicClient, hash: Hash, confirmations?: number) => {
+  const { updateTransaction } = useTransactionStore.getState();
+  let cancelled = false;
+
+  const receipt = await publicClient.waitForTransactionReceipt({
+    hash,
+    confirmations,
+    onReplaced: ({ reason, transaction }) => {
+      cancelled = reason === "cancelled";
+      updateTransaction(hash, { status: cancelled ? "cancelled" : "replaced", replacedBy: transaction.hash });
+    },
+  });
+  updateTransaction(receipt.transactionHash, { status: receipt.status === "success" ? "confirmed" : "reverted" });
+
+  return { receipt, cancelled };
+};
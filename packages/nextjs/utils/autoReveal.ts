@@ -0,0 +1,11 @@
+// Blockhashes are only available for the last 256 blocks, so a commitment can be revealed until commit block + 256
+export const REVEAL_WINDOW_BLOCKS = 256n;
+
+// Warn the player once fewer blocks than this are left to reveal
+export const EXPIRY_WARNING_BLOCKS = 32n;
+
+/**
+ * Blocks left before a commitment made at `commitBlock` expires (0 or less means expired)
+ */
+export const getBlocksLeft = (commitBlock: bigint, currentBlock: bigint) =>
+  commitBlock + REVEAL_WINDOW_BLOCKS - currentBlock;
@@ -0,0 +1,12 @@
+import { BaseError, ContractFunctionRevertedError } from "viem";
+
+/**
+ * Whether a failed write was a revert with the custom error `errorName` (simulation or on-chain)
+ */
+export const isContractRevert = (error: unknown, errorName: string) => {
+  if (error instanceof BaseError) {
+    const revert = error.walk(e => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) return revert.data?.errorName === errorName;
+  }
+  return error instanceof Error && error.message.includes(errorName);
+};
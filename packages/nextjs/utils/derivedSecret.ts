@@ -0,0 +1,33 @@
+import { Address, Hex, keccak256 } from "viem";
+
+/**
+ * Deterministic commit secrets.
+ *
+ * The secret for a player's n-th roll is keccak256 of an EIP-712 signature over
+ * (DiceGame address, chainId, player, nonce). Wallets sign deterministically (RFC 6979),
+ * so any device holding the same wallet can rebuild the secret of a pending commitment.
+ */
+
+export const ROLL_SECRET_TYPES = {
+  RollSecret: [
+    { name: "player", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+// How many nonces below the latest commit count to try when rebuilding a secret
+export const MAX_NONCE_LOOKBACK = 3;
+
+export const getRollSecretTypedData = (diceGame: Address, chainId: number, player: Address, nonce: bigint) => ({
+  domain: {
+    name: "Roll House",
+    version: "1",
+    chainId,
+    verifyingContract: diceGame,
+  },
+  types: ROLL_SECRET_TYPES,
+  primaryType: "RollSecret" as const,
+  message: { player, nonce },
+});
+
+export const secretFromSignature = (signature: Hex): Hex => keccak256(signature);
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { IndexerDb, Page, getDbPath, openIndexerDb } from "@se-2/indexer";
+import { Address, getAddress, isAddress } from "viem";
+
+/**
+ * Helpers of the `app/api` routes serving the indexer database (server only).
+ * The database is written by `yarn indexer` and opened read-only here, once per server process.
+ */
+
+let db: IndexerDb | undefined;
+
+const getIndexerDb = () => {
+  db ??= openIndexerDb(getDbPath(), { readonly: true });
+  return db;
+};
+
+export const jsonError = (error: string, status: number) => NextResponse.json({ error }, { status });
+
+/**
+ * Run `query` against the indexer database and answer with its result, 404 when it returns undefined
+ */
+export const queryIndexer = (query: (db: IndexerDb) => unknown) => {
+  let indexerDb: IndexerDb;
+  try {
+    indexerDb = getIndexerDb();
+  } catch {
+    return jsonError(`No indexer database at ${getDbPath()}, start the indexer with \`yarn indexer\``, 503);
+  }
+
+  const result = query(indexerDb);
+  if (result === undefined) return jsonError("Not found", 404);
+  return NextResponse.json(result);
+};
+
+const readInteger = (searchParams: URLSearchParams, name: string) => {
+  const value = searchParams.get(name);
+  if (value === null || !/^\d+$/.test(value)) return undefined;
+  return Number(value);
+};
+
+export const readPage = (searchParams: URLSearchParams): Page => ({
+  limit: readInteger(searchParams, "limit"),
+  offset: readInteger(searchParams, "offset"),
+});
+
+export const readBlock = readInteger;
+
+export const parseAddress = (value: string | null): Address | undefined =>
+  value && isAddress(value) ? getAddress(value) : undefined;
@@ -0,0 +1,164 @@
+import { Address } from "viem";
+
+/**
+ * LP position analytics rebuilt from HousePool's Deposit / Withdraw events.
+ *
+ * Cost basis uses the average-cost method: a withdrawal removes the same fraction of cost as of shares,
+ * and the difference with the USDC received is realized P&L. HOUSE moved with plain ERC-20 transfers is
+ * not tracked. Share prices use `sharePrice` units (USDC base units per 1e18 HOUSE).
+ */
+
+const PRICE_PRECISION = 10n ** 18n;
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+export type LpEvent = {
+  kind: "deposit" | "withdraw";
+  lp: Address;
+  usdc: bigint;
+  shares: bigint;
+  timestamp: number;
+  blockNumber: bigint;
+  logIndex: number;
+};
+
+export type LpPosition = {
+  shares: bigint;
+  costBasis: bigint;
+  currentValue: bigint;
+  totalDeposited: bigint;
+  totalWithdrawn: bigint;
+  realizedPnl: bigint;
+  unrealizedPnl: bigint;
+  totalPnl: bigint;
+  firstDepositAt: number | undefined;
+  // Annualized money-weighted return since the first deposit (undefined until there is history)
+  apy: number | undefined;
+};
+
+export type PricePoint = { timestamp: number; price: bigint };
+export type PositionPoint = { timestamp: number; value: number; costBasis: number };
+
+const byPosition = (a: LpEvent, b: LpEvent) =>
+  a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+
+const toUsdc = (value: bigint) => Number(value) / 1e6;
+
+export const shareValue = (shares: bigint, sharePrice: bigint) => (shares * sharePrice) / PRICE_PRECISION;
+
+/**
+ * Modified Dietz return (each cash flow weighted by the time it was invested), annualized
+ */
+const annualizedReturn = (events: LpEvent[], totalPnl: bigint, start: number, now: number) => {
+  const period = now - start;
+  if (period <= 0) return undefined;
+
+  const weightedCapital = events.reduce((sum, event) => {
+    const weight = (now - event.timestamp) / period;
+    return sum + (event.kind === "deposit" ? 1 : -1) * toUsdc(event.usdc) * weight;
+  }, 0);
+  if (weightedCapital <= 0) return undefined;
+
+  const periodReturn = toUsdc(totalPnl) / weightedCapital;
+  return Math.pow(1 + periodReturn, SECONDS_PER_YEAR / period) - 1;
+};
+
+/**
+ * Replays one LP's events into shares held, remaining cost basis and realized P&L
+ */
+export const buildLpPosition = (events: LpEvent[], sharePrice: bigint, now: number): LpPosition => {
+  const ordered = [...events].sort(byPosition);
+
+  let shares = 0n;
+  let costBasis = 0n;
+  let realizedPnl = 0n;
+  let totalDeposited = 0n;
+  let totalWithdrawn = 0n;
+
+  for (const event of ordered) {
+    if (event.kind === "deposit") {
+      shares += event.shares;
+      costBasis += event.usdc;
+      totalDeposited += event.usdc;
+    } else {
+      const costRemoved = shares > 0n ? (costBasis * event.shares) / shares : 0n;
+      shares -= event.shares;
+      costBasis -= costRemoved;
+      realizedPnl += event.usdc - costRemoved;
+      totalWithdrawn += event.usdc;
+    }
+  }
+
+  const currentValue = shareValue(shares, sharePrice);
+  const unrealizedPnl = currentValue - costBasis;
+  const totalPnl = realizedPnl + unrealizedPnl;
+  const firstDepositAt = ordered.find(event => event.kind === "deposit")?.timestamp;
+
+  return {
+    shares,
+    costBasis,
+    currentValue,
+    totalDeposited,
+    totalWithdrawn,
+    realizedPnl,
+    unrealizedPnl,
+    totalPnl,
+    firstDepositAt,
+    apy: firstDepositAt === undefined ? undefined : annualizedReturn(ordered, totalPnl, firstDepositAt, now),
+  };
+};
+
+/**
+ * Share price history implied by every LP's deposits and withdrawals (usdc / shares at that moment)
+ */
+export const buildPriceSeries = (events: LpEvent[]): PricePoint[] =>
+  [...events]
+    .sort(byPosition)
+    .filter(event => event.shares > 0n)
+    .map(event => ({ timestamp: event.timestamp, price: (event.usdc * PRICE_PRECISION) / event.shares }));
+
+/**
+ * Value and cost basis of one LP's position after each of their events and at every pool price change,
+ * ending with the current price
+ */
+export const buildPositionHistory = (
+  lpEvents: LpEvent[],
+  priceSeries: PricePoint[],
+  sharePrice: bigint,
+  now: number,
+): PositionPoint[] => {
+  const ordered = [...lpEvents].sort(byPosition);
+  if (ordered.length === 0) return [];
+
+  const start = ordered[0].timestamp;
+  const timestamps = [...new Set([...ordered, ...priceSeries].map(point => point.timestamp))]
+    .filter(timestamp => timestamp >= start)
+    .sort((a, b) => a - b);
+
+  const points: PositionPoint[] = [];
+  let eventIndex = 0;
+  let priceIndex = 0;
+  let shares = 0n;
+  let costBasis = 0n;
+  // 1 USDC per HOUSE (the first-deposit price) until the first price point
+  let price = 10n ** 6n;
+
+  for (const timestamp of timestamps) {
+    while (eventIndex < ordered.length && ordered[eventIndex].timestamp <= timestamp) {
+      const event = ordered[eventIndex++];
+      if (event.kind === "deposit") {
+        shares += event.shares;
+        costBasis += event.usdc;
+      } else {
+        costBasis -= shares > 0n ? (costBasis * event.shares) / shares : 0n;
+        shares -= event.shares;
+      }
+    }
+    while (priceIndex < priceSeries.length && priceSeries[priceIndex].timestamp <= timestamp) {
+      price = priceSeries[priceIndex++].price;
+    }
+    points.push({ timestamp, value: toUsdc(shareValue(shares, price)), costBasis: toUsdc(costBasis) });
+  }
+
+  points.push({ timestamp: now, value: toUsdc(shareValue(shares, sharePrice)), costBasis: toUsdc(costBasis) });
+  return points;
+};
@@ -0,0 +1,107 @@
+import { Abi, Address, PublicClient } from "viem";
+
+/**
+ * HousePool history for the dashboard.
+ *
+ * Pool views are sampled with eth_call at evenly spaced historical blocks (needs an RPC that serves
+ * historical state). Growth is split with events: game edge = PaymentReceived - PayoutSent - PayoutDeferred
+ * (IOUs leave the pool value when deferred, so OwedClaimed is not a flow), and vault yield is whatever pool
+ * growth is left after LP deposits / withdrawals and the game edge.
+ */
+
+export type PoolSample = {
+  blockNumber: bigint;
+  timestamp: number;
+  sharePrice: bigint;
+  totalPool: bigint;
+  liquidPool: bigint;
+  vaultPool: bigint;
+  effectivePool: bigint;
+  totalSupply: bigint;
+};
+
+export type PoolFlow = {
+  kind: "deposit" | "withdraw" | "payment" | "payout";
+  blockNumber: bigint;
+  amount: bigint;
+};
+
+export type GrowthPoint = {
+  timestamp: number;
+  netDeposits: bigint;
+  gameEdge: bigint;
+  vaultYield: bigint;
+};
+
+/**
+ * `count` block numbers from `fromBlock` to `toBlock` (both included), evenly spaced
+ */
+export const getSampleBlocks = (fromBlock: bigint, toBlock: bigint, count: number) => {
+  if (toBlock <= fromBlock || count < 2) return [toBlock];
+  const span = toBlock - fromBlock;
+  const blocks = Array.from({ length: count }, (_, i) => fromBlock + (span * BigInt(i)) / BigInt(count - 1));
+  return [...new Set(blocks)];
+};
+
+/**
+ * Reads the pool views at one block
+ */
+export const samplePool = async (
+  publicClient: PublicClient,
+  housePool: { address: Address; abi: Abi },
+  blockNumber: bigint,
+): Promise<PoolSample> => {
+  const read = (functionName: string) =>
+    publicClient.readContract({ ...housePool, functionName, blockNumber }) as Promise<bigint>;
+
+  const [block, sharePrice, totalPool, liquidPool, vaultPool, effectivePool, totalSupply] = await Promise.all([
+    publicClient.getBlock({ blockNumber }),
+    read("sharePrice"),
+    read("totalPool"),
+    read("liquidPool"),
+    read("vaultPool"),
+    read("effectivePool"),
+    read("totalSupply"),
+  ]);
+
+  return {
+    blockNumber,
+    timestamp: Number(block.timestamp),
+    sharePrice,
+    totalPool,
+    liquidPool,
+    vaultPool,
+    effectivePool,
+    totalSupply,
+  };
+};
+
+/**
+ * Cumulative LP net deposits, game edge and vault yield at each sample
+ */
+export const splitPoolGrowth = (samples: PoolSample[], flows: PoolFlow[]): GrowthPoint[] => {
+  const ordered = [...flows].sort((a, b) =>
+    a.blockNumber < b.blockNumber ? -1 : a.blockNumber > b.blockNumber ? 1 : 0,
+  );
+
+  let flowIndex = 0;
+  let netDeposits = 0n;
+  let gameEdge = 0n;
+
+  return samples.map(sample => {
+    while (flowIndex < ordered.length && ordered[flowIndex].blockNumber <= sample.blockNumber) {
+      const flow = ordered[flowIndex++];
+      if (flow.kind === "deposit") netDeposits += flow.amount;
+      if (flow.kind === "withdraw") netDeposits -= flow.amount;
+      if (flow.kind === "payment") gameEdge += flow.amount;
+      if (flow.kind === "payout") gameEdge -= flow.amount;
+    }
+
+    return {
+      timestamp: sample.timestamp,
+      netDeposits,
+      gameEdge,
+      vaultYield: sample.totalPool - netDeposits - gameEdge,
+    };
+  });
+};
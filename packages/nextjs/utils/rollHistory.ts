@@ -0,0 +1,171 @@
+import { Hash, Hex, formatUnits } from "viem";
+import { USDC_DECIMALS } from "~~/utils/usdc";
+
+/**
+ * Player roll history built from DiceGame's RollCommitted / RollRevealed events.
+ *
+ * A commitment is settled by the first reveal after it. Commitments that were never revealed
+ * count as losses when the player moved on to a new commit inside the reveal window, and as
+ * expired forfeits when the 256-block window ran out first.
+ */
+
+// Blockhashes are only available for the last 256 blocks, after that a commitment can't be revealed
+const REVEAL_WINDOW_BLOCKS = 256n;
+
+export type RollStatus = "won" | "lost" | "unrevealed" | "expired" | "pending";
+
+export type RollCommitLog = {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  commitment: Hex;
+  rolls: bigint;
+  tier: number;
+};
+
+export type RollRevealLog = {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  payout: bigint;
+  rolls: bigint;
+  wins: bigint;
+};
+
+export type RollHistoryEntry = {
+  commitBlock: bigint;
+  commitTx: Hash;
+  commitment: Hex;
+  rolls: number;
+  tier: number;
+  modulo: bigint | undefined;
+  cost: bigint;
+  status: RollStatus;
+  wins: number;
+  payout: bigint;
+  revealTx?: Hash;
+};
+
+export type RollHistorySummary = {
+  commits: number;
+  rolls: number;
+  settledRolls: number;
+  wins: number;
+  spent: bigint;
+  winnings: bigint;
+  net: bigint;
+  winRate: number | undefined;
+  expectedWinRate: number | undefined;
+};
+
+type LogPosition = { blockNumber: bigint; logIndex: number };
+
+const byPosition = (a: LogPosition, b: LogPosition) =>
+  a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+
+/**
+ * Pairs every commit with its reveal (if any) and classifies it. Returns newest first.
+ */
+export const buildRollHistory = ({
+  commits,
+  reveals,
+  currentBlock,
+  rollCost,
+  modulos,
+}: {
+  commits: RollCommitLog[];
+  reveals: RollRevealLog[];
+  currentBlock: bigint;
+  rollCost: bigint;
+  modulos: readonly bigint[] | undefined;
+}): RollHistoryEntry[] => {
+  const sortedCommits = [...commits].sort(byPosition);
+  const sortedReveals = [...reveals].sort(byPosition);
+
+  const entries = sortedCommits.map((commit, index) => {
+    const nextCommit = sortedCommits[index + 1];
+    const reveal = sortedReveals.find(
+      r => r.blockNumber > commit.blockNumber && (!nextCommit || byPosition(r, nextCommit) < 0),
+    );
+
+    let status: RollStatus;
+    if (reveal) {
+      status = reveal.wins > 0n ? "won" : "lost";
+    } else {
+      const endBlock = nextCommit?.blockNumber ?? currentBlock;
+      if (endBlock > commit.blockNumber + REVEAL_WINDOW_BLOCKS) status = "expired";
+      else status = nextCommit ? "unrevealed" : "pending";
+    }
+
+    return {
+      commitBlock: commit.blockNumber,
+      commitTx: commit.transactionHash,
+      commitment: commit.commitment,
+      rolls: Number(commit.rolls),
+      tier: commit.tier,
+      modulo: modulos?.[commit.tier],
+      cost: commit.rolls * rollCost,
+      status,
+      wins: reveal ? Number(reveal.wins) : 0,
+      payout: reveal?.payout ?? 0n,
+      revealTx: reveal?.transactionHash,
+    };
+  });
+
+  return entries.reverse();
+};
+
+/**
+ * Totals for the history panel. `spent` / `winnings` come from HousePool's PaymentReceived and
+ * PayoutSent + PayoutDeferred so they match the USDC paid and owed.
+ */
+export const summarizeRollHistory = (
+  entries: RollHistoryEntry[],
+  spent: bigint,
+  winnings: bigint,
+): RollHistorySummary => {
+  const settled = entries.filter(entry => entry.status !== "pending");
+  const settledRolls = settled.reduce((sum, entry) => sum + entry.rolls, 0);
+  const wins = settled.reduce((sum, entry) => sum + entry.wins, 0);
+  const expectedWins = settled.reduce((sum, entry) => sum + (entry.modulo ? entry.rolls / Number(entry.modulo) : 0), 0);
+
+  return {
+    commits: entries.length,
+    rolls: entries.reduce((sum, entry) => sum + entry.rolls, 0),
+    settledRolls,
+    wins,
+    spent,
+    winnings,
+    net: winnings - spent,
+    winRate: settledRolls > 0 ? wins / settledRolls : undefined,
+    expectedWinRate: settledRolls > 0 ? expectedWins / settledRolls : undefined,
+  };
+};
+
+export const rollHistoryToCsv = (entries: RollHistoryEntry[]) => {
+  const header = [
+    "commit_block",
+    "commit_tx",
+    "rolls",
+    "tier",
+    "odds",
+    "cost_usdc",
+    "status",
+    "wins",
+    "payout_usdc",
+    "reveal_tx",
+  ];
+  const rows = entries.map(entry => [
+    entry.commitBlock.toString(),
+    entry.commitTx,
+    entry.rolls.toString(),
+    entry.tier.toString(),
+    entry.modulo ? `1/${entry.modulo}` : "",
+    formatUnits(entry.cost, USDC_DECIMALS),
+    entry.status,
+    entry.wins.toString(),
+    formatUnits(entry.payout, USDC_DECIMALS),
+    entry.revealTx ?? "",
+  ]);
+  return [header, ...rows].map(row => row.join(",")).join("\n");
+};
@@ -0,0 +1,123 @@
+import { Address } from "viem";
+import { CachedLog } from "~~/utils/scaffold-eth/logCache";
+
+/**
+ * DiceGame roll events for the leaderboard.
+ *
+ * The RollCommitted and RollRevealed logs come from the shared log cache (utils/scaffold-eth/logCache), which keeps
+ * them in IndexedDB, checks synced block hashes for reorgs and shares one backfill with every other reader of the
+ * same events. Leaderboard windows are resolved to a starting block, so no per-event timestamps are stored.
+ */
+
+export type IndexedRollEvent = {
+  kind: "commit" | "reveal";
+  player: Address;
+  blockNumber: number;
+  logIndex: number;
+  rolls: number;
+  wins: number;
+  payout: bigint;
+};
+
+export type LeaderboardWindow = "24h" | "7d" | "all";
+export type LeaderboardSort = "net" | "rolls" | "streak";
+
+export const LEADERBOARD_WINDOWS: { value: LeaderboardWindow; label: string; seconds?: number }[] = [
+  { value: "24h", label: "24h", seconds: 24 * 60 * 60 },
+  { value: "7d", label: "7 days", seconds: 7 * 24 * 60 * 60 },
+  { value: "all", label: "All time" },
+];
+
+export type PlayerStats = {
+  player: Address;
+  rolls: number;
+  wins: number;
+  spent: bigint;
+  winnings: bigint;
+  net: bigint;
+  // Longest run of consecutive reveals with at least one winning roll
+  bestStreak: number;
+};
+
+type RollLogArgs = {
+  player: Address;
+  rolls?: bigint;
+  wins?: bigint;
+  payout?: bigint;
+};
+
+/**
+ * Cached RollCommitted / RollRevealed logs as leaderboard events, in chain order
+ */
+export const toRollEvents = (commitLogs: CachedLog[], revealLogs: CachedLog[]): IndexedRollEvent[] => {
+  const toEvent = (kind: IndexedRollEvent["kind"]) => (log: CachedLog) => {
+    const args = log.args as unknown as RollLogArgs;
+    return {
+      kind,
+      player: args.player,
+      blockNumber: Number(log.blockNumber),
+      logIndex: log.logIndex,
+      rolls: Number(args.rolls ?? 1n),
+      wins: Number(args.wins ?? 0n),
+      payout: args.payout ?? 0n,
+    };
+  };
+
+  return [...commitLogs.map(toEvent("commit")), ...revealLogs.map(toEvent("reveal"))].sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex,
+  );
+};
+
+/**
+ * Aggregates indexed events per player inside the window and sorts them for the leaderboard
+ */
+export const rankPlayers = ({
+  events,
+  sinceBlock,
+  sortBy,
+  rollCost,
+}: {
+  // In chain order
+  events: IndexedRollEvent[];
+  // First block of the window
+  sinceBlock: number;
+  sortBy: LeaderboardSort;
+  rollCost: bigint;
+}): PlayerStats[] => {
+  const stats = new Map<string, PlayerStats>();
+  const streaks = new Map<string, number>();
+  for (const event of events) {
+    if (event.blockNumber < sinceBlock) continue;
+    const key = event.player.toLowerCase();
+    const player = stats.get(key) ?? {
+      player: event.player,
+      rolls: 0,
+      wins: 0,
+      spent: 0n,
+      winnings: 0n,
+      net: 0n,
+      bestStreak: 0,
+    };
+
+    if (event.kind === "commit") {
+      player.rolls += event.rolls;
+      player.spent += BigInt(event.rolls) * rollCost;
+    } else {
+      player.wins += event.wins;
+      player.winnings += event.payout;
+      const streak = event.wins > 0 ? (streaks.get(key) ?? 0) + 1 : 0;
+      streaks.set(key, streak);
+      player.bestStreak = Math.max(player.bestStreak, streak);
+    }
+    player.net = player.winnings - player.spent;
+    stats.set(key, player);
+  }
+
+  const compare = (a: PlayerStats, b: PlayerStats) => {
+    if (sortBy === "rolls") return b.rolls - a.rolls;
+    if (sortBy === "streak") return b.bestStreak - a.bestStreak;
+    return a.net === b.net ? 0 : a.net < b.net ? 1 : -1;
+  };
+
+  return [...stats.values()].sort(compare);
+};
@@ -151,10 +151,6 @@ export type FunctionNamesWithInputs<
   }
 >["name"];
 
-type Expand<T> = T extends object ? (T extends infer O ? { [K in keyof O]: O[K] } : never) : T;
-
-type UnionToIntersection<U> = Expand<(U extends any ? (k: U) => void : never) extends (k: infer I) => void ? I : never>;
-
 type OptionalTuple<T> = T extends readonly [infer H, ...infer R] ? readonly [H | undefined, ...OptionalTuple<R>] : T;
 
 type UseScaffoldArgsParam<
@@ -163,7 +159,8 @@ type UseScaffoldArgsParam<
 > =
   TFunctionName extends FunctionNamesWithInputs<TContractName>
     ? {
-        args: OptionalTuple<UnionToIntersection<AbiFunctionArguments<ContractAbi<TContractName>, TFunctionName>>>;
+        // Overloaded functions take the arguments of any one of their overloads
+        args: OptionalTuple<AbiFunctionArguments<ContractAbi<TContractName>, TFunctionName>>;
         value?: ExtractAbiFunction<ContractAbi<TContractName>, TFunctionName>["stateMutability"] extends "payable"
           ? bigint | undefined
           : undefined;
@@ -215,6 +212,8 @@ type WriteVariables = WriteContractVariables<Abi, string, any[], Config, number>
 export type TransactorFuncOptions = {
   onBlockConfirmation?: (txnReceipt: TransactionReceipt) => void;
   blockConfirmations?: number;
+  // Label of the transaction in the pending transactions menu
+  description?: string;
 };
 
 export type ScaffoldWriteContractOptions = MutateOptions<
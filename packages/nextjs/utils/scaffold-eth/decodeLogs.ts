@@ -0,0 +1,51 @@
+import { GenericContract, contracts } from "./contract";
+import { Abi, Log, decodeEventLog } from "viem";
+
+export type DecodedLog = Log<bigint, number, false> & {
+  // Deployed or external contract the log was emitted by, when known
+  contractName?: string;
+  // Undefined when no known ABI matches the log
+  eventName?: string;
+  args?: Record<string, unknown> | readonly unknown[];
+};
+
+type ChainAbis = {
+  byAddress: Map<string, { contractName: string; abi: Abi }>;
+  all: Abi[];
+};
+
+const chainAbis = new Map<number, ChainAbis>();
+
+const getChainAbis = (chainId: number) => {
+  let abis = chainAbis.get(chainId);
+  if (!abis) {
+    const chainContracts = Object.entries((contracts?.[chainId] ?? {}) as Record<string, GenericContract>);
+    abis = {
+      byAddress: new Map(
+        chainContracts.map(([contractName, { address, abi }]) => [address.toLowerCase(), { contractName, abi }]),
+      ),
+      all: chainContracts.map(([, { abi }]) => abi),
+    };
+    chainAbis.set(chainId, abis);
+  }
+  return abis;
+};
+
+/**
+ * Decode `log` with the ABIs of deployedContracts.ts and externalContracts.ts for `chainId`: the emitting contract's
+ * first, then every other one (a token transfer emitted by an unknown address still decodes with an ERC-20 ABI).
+ */
+export const decodeContractLog = (log: Log<bigint, number, false>, chainId: number): DecodedLog => {
+  const { byAddress, all } = getChainAbis(chainId);
+  const emitter = byAddress.get(log.address.toLowerCase());
+
+  for (const abi of emitter ? [emitter.abi, ...all] : all) {
+    try {
+      const { eventName, args } = decodeEventLog({ abi, data: log.data, topics: log.topics });
+      return { ...log, contractName: emitter?.contractName, eventName, args };
+    } catch {
+      // Not an event of this ABI
+    }
+  }
+  return { ...log, contractName: emitter?.contractName };
+};
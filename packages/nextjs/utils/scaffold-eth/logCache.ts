@@ -0,0 +1,185 @@
+import { AbiEvent } from "abitype";
+import { Address, Hash, Log, PublicClient, toEventSelector } from "viem";
+
+/**
+ * Persistent getLogs cache behind useScaffoldEventHistory.
+ *
+ * The logs of one event (chain, contract address, event topic) are kept in IndexedDB with the last synced block
+ * and the hashes of the last few synced blocks. A sync first re-checks those hashes and drops whatever a reorg
+ * replaced, then fetches only the blocks after `lastBlock`, saving after every batch so an interrupted backfill
+ * resumes where it stopped. Syncs of the same key run one at a time, so every component asking for the same
+ * event shares a single backfill.
+ */
+
+const DB_NAME = "scaffold-eth.logCache";
+const STORE_NAME = "logs";
+const CACHE_VERSION = 1;
+
+// Synced block hashes kept per key to detect reorgs
+export const REORG_CHECK_DEPTH = 12;
+
+export type CachedLog = Log<bigint, number, false, AbiEvent, false>;
+
+export type LogCacheEntry = {
+  version: number;
+  key: string;
+  fromBlock: bigint;
+  // Last block synced (fromBlock - 1 before the first batch)
+  lastBlock: bigint;
+  // Hashes of the last synced batch ends, oldest first
+  checkpoints: { blockNumber: bigint; hash: Hash }[];
+  // Oldest first
+  logs: CachedLog[];
+};
+
+export type SyncLogCacheParams = {
+  publicClient: PublicClient;
+  chainId: number;
+  address: Address;
+  event: AbiEvent;
+  fromBlock: bigint;
+  toBlock: bigint;
+  batchSize: number;
+};
+
+export const logCacheKey = (chainId: number, address: Address, event: AbiEvent) =>
+  `${chainId}:${address.toLowerCase()}:${toEventSelector(event)}`;
+
+// In-memory mirror of the entries read or written this session
+const memory = new Map<string, LogCacheEntry>();
+// Tail of the sync chain of each key
+const syncs = new Map<string, Promise<LogCacheEntry>>();
+
+let dbPromise: Promise<IDBDatabase | undefined> | undefined;
+
+const openDb = () => {
+  if (typeof indexedDB === "undefined") return Promise.resolve(undefined);
+  dbPromise ??= new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, CACHE_VERSION);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    // Private mode or blocked storage: the cache still works for this session
+    request.onerror = () => resolve(undefined);
+  });
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise<T | undefined>(resolve => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => resolve(undefined);
+  });
+};
+
+const readEntry = async (key: string) => {
+  const cached = memory.get(key);
+  if (cached) return cached;
+
+  const stored = await runRequest<LogCacheEntry>("readonly", store => store.get(key));
+  if (stored?.version !== CACHE_VERSION) return undefined;
+  memory.set(key, stored);
+  return stored;
+};
+
+const writeEntry = async (entry: LogCacheEntry) => {
+  memory.set(entry.key, entry);
+  // Quota exceeded: the entry is still in memory, it just gets re-synced next visit
+  await runRequest("readwrite", store => store.put(entry, entry.key));
+};
+
+const createEntry = (key: string, fromBlock: bigint): LogCacheEntry => ({
+  version: CACHE_VERSION,
+  key,
+  fromBlock,
+  lastBlock: fromBlock - 1n,
+  checkpoints: [],
+  logs: [],
+});
+
+/**
+ * Roll the entry back to its newest checkpoint still on the canonical chain.
+ * The chain is hash-linked, so once a checkpoint matches, everything before it does too.
+ */
+const rollBackReorgs = async (publicClient: PublicClient, entry: LogCacheEntry): Promise<LogCacheEntry> => {
+  const checkpoints = [...entry.checkpoints];
+  while (checkpoints.length > 0) {
+    const checkpoint = checkpoints[checkpoints.length - 1];
+    const block = await publicClient.getBlock({ blockNumber: checkpoint.blockNumber });
+    if (block.hash === checkpoint.hash) break;
+    checkpoints.pop();
+  }
+
+  if (checkpoints.length === entry.checkpoints.length) return entry;
+  // Reorg deeper than the tracked hashes: start over
+  if (checkpoints.length === 0) return createEntry(entry.key, entry.fromBlock);
+
+  const safeBlock = checkpoints[checkpoints.length - 1].blockNumber;
+  return {
+    ...entry,
+    lastBlock: safeBlock,
+    checkpoints,
+    logs: entry.logs.filter(log => log.blockNumber <= safeBlock),
+  };
+};
+
+const runSync = async ({
+  publicClient,
+  chainId,
+  address,
+  event,
+  fromBlock,
+  toBlock,
+  batchSize,
+}: SyncLogCacheParams) => {
+  const key = logCacheKey(chainId, address, event);
+
+  const cached = await readEntry(key);
+  // The cache starts later than requested: backfill from scratch
+  let entry: LogCacheEntry = cached && cached.fromBlock <= fromBlock ? cached : createEntry(key, fromBlock);
+  if (entry.lastBlock >= toBlock) return entry;
+
+  entry = await rollBackReorgs(publicClient, entry);
+
+  while (entry.lastBlock < toBlock) {
+    const batchFrom = entry.lastBlock + 1n;
+    const batchEnd = batchFrom + BigInt(batchSize) - 1n;
+    const batchTo = batchEnd < toBlock ? batchEnd : toBlock;
+
+    const [logs, block] = await Promise.all([
+      publicClient.getLogs({ address, event, fromBlock: batchFrom, toBlock: batchTo }),
+      publicClient.getBlock({ blockNumber: batchTo }),
+    ]);
+
+    entry = {
+      ...entry,
+      lastBlock: batchTo,
+      checkpoints: [...entry.checkpoints, { blockNumber: batchTo, hash: block.hash }].slice(-REORG_CHECK_DEPTH),
+      logs: [...entry.logs, ...(logs as CachedLog[])],
+    };
+    await writeEntry(entry);
+  }
+
+  return entry;
+};
+
+/**
+ * Bring the cached logs of `event` up to `toBlock` and return the entry.
+ * Calls for the same key wait for the sync in flight, which usually leaves nothing left to fetch.
+ */
+export const syncLogCache = (params: SyncLogCacheParams) => {
+  const key = logCacheKey(params.chainId, params.address, params.event);
+  const previous = syncs.get(key);
+
+  const sync = (previous ? previous.catch(() => undefined) : Promise.resolve()).then(() => runSync(params));
+  syncs.set(key, sync);
+  sync
+    .finally(() => {
+      if (syncs.get(key) === sync) syncs.delete(key);
+    })
+    .catch(() => undefined);
+
+  return sync;
+};
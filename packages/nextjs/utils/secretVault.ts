@@ -0,0 +1,152 @@
+import { Address, Hex, bytesToHex, hexToBytes, isHex, keccak256 } from "viem";
+
+/**
+ * Secret vault for pending dice commitments.
+ *
+ * Each (chain, address) pair holds at most one entry: the secret behind the player's current
+ * on-chain commitment, encrypted with an AES-GCM key derived from a wallet signature. The entry
+ * is safe to export (JSON file / QR code) because only the same wallet can re-derive the key.
+ */
+
+const STORAGE_KEY = "rollHouse.secretVault";
+const BACKUP_VERSION = 1;
+
+export type SecretVaultEntry = {
+  version: number;
+  chainId: number;
+  address: Address;
+  // keccak256(secret), i.e. the value committed on-chain
+  commitHash: Hex;
+  iv: Hex;
+  ciphertext: Hex;
+  createdAt: number;
+};
+
+type SecretVaultStore = Record<string, SecretVaultEntry>;
+
+const entryKey = (chainId: number, address: Address) => `${chainId}:${address.toLowerCase()}`;
+
+/**
+ * Message the wallet signs to unlock the vault. It must stay stable: the signature is the key material.
+ */
+export const getVaultKeyMessage = (chainId: number, address: Address) =>
+  `Roll House secret vault\n\nSign to unlock your encrypted dice secrets.\nThis does not cost gas.\n\nAddress: ${address.toLowerCase()}\nChain: ${chainId}`;
+
+/**
+ * Derives the AES-GCM key from a wallet signature (HKDF-SHA256 over the signature bytes)
+ */
+export const deriveVaultKey = async (signature: Hex, chainId: number, address: Address) => {
+  const baseKey = await crypto.subtle.importKey("raw", hexToBytes(signature), "HKDF", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new TextEncoder().encode(entryKey(chainId, address)),
+      info: new TextEncoder().encode("rollhouse-secret-vault-v1"),
+    },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+};
+
+export const encryptSecret = async (
+  key: CryptoKey,
+  secret: Hex,
+  chainId: number,
+  address: Address,
+): Promise<SecretVaultEntry> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, hexToBytes(secret));
+
+  return {
+    version: BACKUP_VERSION,
+    chainId,
+    address,
+    commitHash: keccak256(secret),
+    iv: bytesToHex(iv),
+    ciphertext: bytesToHex(new Uint8Array(ciphertext)),
+    createdAt: Date.now(),
+  };
+};
+
+/**
+ * Decrypts an entry and checks that the plaintext still matches the stored commitment hash
+ */
+export const decryptSecret = async (key: CryptoKey, entry: SecretVaultEntry): Promise<Hex> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: hexToBytes(entry.iv) },
+    key,
+    hexToBytes(entry.ciphertext),
+  );
+  const secret = bytesToHex(new Uint8Array(plaintext));
+  if (keccak256(secret) !== entry.commitHash) throw new Error("Decrypted secret does not match its commitment");
+  return secret;
+};
+
+const readStore = (): SecretVaultStore => {
+  if (typeof window === "undefined") return {};
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeStore = (store: SecretVaultStore) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+};
+
+export const readVaultEntry = (chainId: number, address: Address): SecretVaultEntry | undefined =>
+  readStore()[entryKey(chainId, address)];
+
+export const writeVaultEntry = (entry: SecretVaultEntry) => {
+  const store = readStore();
+  store[entryKey(entry.chainId, entry.address)] = entry;
+  writeStore(store);
+};
+
+export const removeVaultEntry = (chainId: number, address: Address) => {
+  const store = readStore();
+  delete store[entryKey(chainId, address)];
+  writeStore(store);
+};
+
+/**
+ * Serializes an entry for the JSON backup file and the QR code (both carry the same payload)
+ */
+export const serializeBackup = (entry: SecretVaultEntry) => JSON.stringify(entry);
+
+/**
+ * Parses and validates a backup produced by `serializeBackup`
+ */
+export const parseBackup = (text: string): SecretVaultEntry => {
+  let parsed: Partial<SecretVaultEntry>;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    throw new Error("Backup is not valid JSON");
+  }
+
+  if (parsed.version !== BACKUP_VERSION) throw new Error("Unsupported backup version");
+  if (typeof parsed.chainId !== "number" || typeof parsed.address !== "string" || !isHex(parsed.address)) {
+    throw new Error("Backup is missing its chain or address");
+  }
+  if (!isHex(parsed.commitHash) || !isHex(parsed.iv) || !isHex(parsed.ciphertext)) {
+    throw new Error("Backup is missing its encrypted secret");
+  }
+
+  return {
+    version: parsed.version,
+    chainId: parsed.chainId,
+    address: parsed.address,
+    commitHash: parsed.commitHash,
+    iv: parsed.iv,
+    ciphertext: parsed.ciphertext,
+    createdAt: parsed.createdAt ?? Date.now(),
+  };
+};
+
+export const getBackupFileName = (entry: SecretVaultEntry) =>
+  `rollhouse-secret-${entry.chainId}-${entry.address.slice(0, 8).toLowerCase()}.json`;
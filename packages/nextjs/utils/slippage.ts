@@ -0,0 +1,25 @@
+import { isContractRevert } from "./contractErrors";
+
+/**
+ * Slippage helpers for HousePool deposits and withdrawals.
+ *
+ * Quotes come from the contract's ERC-4626 previews (previewDeposit, convertToAssets), so the only difference
+ * between a quote and the executed amount is pool movement between the two.
+ */
+
+export const SLIPPAGE_KEY = "rollHouse.slippageBps";
+export const DEFAULT_SLIPPAGE_BPS = 50;
+export const SLIPPAGE_OPTIONS_BPS = [10, 50, 100];
+export const MAX_SLIPPAGE_BPS = 5000;
+
+/**
+ * Lowest acceptable amount for a quote at `slippageBps` tolerance
+ */
+export const applySlippage = (quote: bigint, slippageBps: number) => (quote * BigInt(10_000 - slippageBps)) / 10_000n;
+
+export const formatSlippage = (slippageBps: number) => `${slippageBps / 100}%`;
+
+/**
+ * Whether a failed write was HousePool's SlippageExceeded revert (simulation or on-chain)
+ */
+export const isSlippageError = (error: unknown) => isContractRevert(error, "SlippageExceeded");
@@ -0,0 +1,116 @@
+import { Address, PublicClient } from "viem";
+
+// USDC has 6 decimals
+export const USDC_DECIMALS = 6;
+
+// Base USDC address
+export const USDC_ADDRESS = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+// USDC ABI for approvals, balances and EIP-2612 permits
+export const USDC_ABI = [
+  {
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    name: "approve",
+    outputs: [{ name: "", type: "bool" }],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    name: "allowance",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ name: "owner", type: "address" }],
+    name: "nonces",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+} as const;
+
+// How long a roll permit stays valid
+const PERMIT_TTL_SECONDS = 20n * 60n;
+
+/**
+ * Builds the EIP-2612 typed data for approving `value` to `spender`.
+ * The domain is read from the token (FiatToken exposes `version()`, OpenZeppelin tokens expose `eip712Domain()`).
+ */
+export const getPermitTypedData = async (
+  publicClient: PublicClient,
+  token: Address,
+  owner: Address,
+  spender: Address,
+  value: bigint,
+) => {
+  const [nonce, eip712Domain] = await Promise.all([
+    publicClient.readContract({ address: token, abi: USDC_ABI, functionName: "nonces", args: [owner] }),
+    publicClient.getEip712Domain({ address: token }).catch(() => undefined),
+  ]);
+
+  // Only the ERC-5267 fields USDC-style permits use (no salt)
+  const domain = eip712Domain
+    ? {
+        name: eip712Domain.domain.name,
+        version: eip712Domain.domain.version,
+        chainId: eip712Domain.domain.chainId,
+        verifyingContract: eip712Domain.domain.verifyingContract,
+      }
+    : {
+        name: await publicClient.readContract({ address: token, abi: USDC_ABI, functionName: "name" }),
+        version: await publicClient.readContract({ address: token, abi: USDC_ABI, functionName: "version" }),
+        chainId: publicClient.chain?.id,
+        verifyingContract: token,
+      };
+
+  const deadline = BigInt(Math.floor(Date.now() / 1000)) + PERMIT_TTL_SECONDS;
+
+  return {
+    deadline,
+    typedData: {
+      domain,
+      types: PERMIT_TYPES,
+      primaryType: "Permit" as const,
+      message: { owner, spender, value, nonce, deadline },
+    },
+  };
+};
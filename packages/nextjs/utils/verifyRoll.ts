@@ -0,0 +1,174 @@
+import {
+  Abi,
+  Address,
+  Hash,
+  Hex,
+  PublicClient,
+  decodeEventLog,
+  decodeFunctionData,
+  encodePacked,
+  keccak256,
+} from "viem";
+
+/**
+ * Provably-fair verification of a revealed roll.
+ *
+ * Mirrors DiceGame's `_isWinner`: roll 0 uses keccak256(secret, commitBlockHash), roll i > 0 uses
+ * keccak256(thatEntropy, i), and a roll wins when entropy % modulo == 0.
+ */
+
+// Blockhashes are only available on-chain for the last 256 blocks, so the commit sits in that range
+const REVEAL_WINDOW_BLOCKS = 256n;
+
+export type VerifiedRoll = {
+  index: number;
+  entropy: Hex;
+  remainder: bigint;
+  won: boolean;
+};
+
+export type RollVerification = {
+  txHash: Hash;
+  player: Address;
+  revealBlock: bigint;
+  secret: Hex;
+  commitTxHash: Hash;
+  commitHash: Hex;
+  secretHash: Hex;
+  secretMatches: boolean;
+  commitBlock: bigint;
+  commitBlockHash: Hex;
+  tier: number;
+  modulo: bigint;
+  payoutPerWin: bigint;
+  rolls: VerifiedRoll[];
+  computedWins: number;
+  computedPayout: bigint;
+  reported: { won: boolean; payout: bigint; rolls: bigint; wins: bigint };
+  isFair: boolean;
+};
+
+export const computeBaseEntropy = (secret: Hex, commitBlockHash: Hex) =>
+  keccak256(encodePacked(["bytes32", "bytes32"], [secret, commitBlockHash]));
+
+export const computeRollEntropy = (baseEntropy: Hex, index: number) =>
+  index === 0 ? baseEntropy : keccak256(encodePacked(["bytes32", "uint256"], [baseEntropy, BigInt(index)]));
+
+/**
+ * Recomputes every roll of a commitment from its secret and commit block hash
+ */
+export const computeRolls = (secret: Hex, commitBlockHash: Hex, rolls: number, modulo: bigint): VerifiedRoll[] => {
+  const baseEntropy = computeBaseEntropy(secret, commitBlockHash);
+  return Array.from({ length: rolls }, (_, index) => {
+    const entropy = computeRollEntropy(baseEntropy, index);
+    const remainder = BigInt(entropy) % modulo;
+    return { index, entropy, remainder, won: remainder === 0n };
+  });
+};
+
+/**
+ * Pulls the reveal tx, its RollRevealed log and the matching RollCommitted log, then recomputes the outcome.
+ * Pass `secretOverride` when the reveal went through a smart wallet and the secret is not in the tx input.
+ */
+export const verifyRollTx = async (
+  publicClient: PublicClient,
+  diceGame: { address: Address; abi: Abi },
+  txHash: Hash,
+  secretOverride?: Hex,
+): Promise<RollVerification> => {
+  const [tx, receipt] = await Promise.all([
+    publicClient.getTransaction({ hash: txHash }),
+    publicClient.getTransactionReceipt({ hash: txHash }),
+  ]);
+
+  const revealLog = receipt.logs
+    .filter(log => log.address.toLowerCase() === diceGame.address.toLowerCase())
+    .map(log => {
+      try {
+        return decodeEventLog({ abi: diceGame.abi, data: log.data, topics: log.topics });
+      } catch {
+        return undefined;
+      }
+    })
+    .find(decoded => decoded?.eventName === "RollRevealed");
+  if (!revealLog) throw new Error("This transaction has no RollRevealed event from DiceGame");
+
+  const reported = revealLog.args as unknown as {
+    player: Address;
+    won: boolean;
+    payout: bigint;
+    rolls: bigint;
+    wins: bigint;
+  };
+
+  let secret = secretOverride;
+  if (!secret) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: diceGame.abi, data: tx.input });
+      if (functionName === "revealRoll") secret = (args as readonly [Hex])[0];
+    } catch {
+      // Not a direct DiceGame call (e.g. smart wallet batch)
+    }
+  }
+  if (!secret) throw new Error("The secret is not in the transaction input. Enter it manually to verify.");
+
+  const commitLogs = await publicClient.getContractEvents({
+    address: diceGame.address,
+    abi: diceGame.abi,
+    eventName: "RollCommitted",
+    args: { player: reported.player },
+    fromBlock: receipt.blockNumber > REVEAL_WINDOW_BLOCKS ? receipt.blockNumber - REVEAL_WINDOW_BLOCKS : 0n,
+    toBlock: receipt.blockNumber - 1n,
+  });
+  const commitLog = commitLogs[commitLogs.length - 1];
+  if (!commitLog) throw new Error("No RollCommitted event found in the 256 blocks before the reveal");
+
+  const { commitment, tier } = (commitLog as unknown as { args: { commitment: Hex; tier: number } }).args;
+  const commitBlock = await publicClient.getBlock({ blockNumber: commitLog.blockNumber });
+
+  const [modulo, payoutPerWin] = await Promise.all([
+    publicClient.readContract({
+      address: diceGame.address,
+      abi: diceGame.abi,
+      functionName: "tierModulo",
+      args: [tier],
+    }) as Promise<bigint>,
+    publicClient.readContract({
+      address: diceGame.address,
+      abi: diceGame.abi,
+      functionName: "tierPayout",
+      args: [tier],
+    }) as Promise<bigint>,
+  ]);
+
+  const secretHash = keccak256(secret);
+  const rolls = computeRolls(secret, commitBlock.hash, Number(reported.rolls), modulo);
+  const computedWins = rolls.filter(roll => roll.won).length;
+  const computedPayout = BigInt(computedWins) * payoutPerWin;
+  const secretMatches = secretHash === commitment;
+
+  return {
+    txHash,
+    player: reported.player,
+    revealBlock: receipt.blockNumber,
+    secret,
+    commitTxHash: commitLog.transactionHash,
+    commitHash: commitment,
+    secretHash,
+    secretMatches,
+    commitBlock: commitLog.blockNumber,
+    commitBlockHash: commitBlock.hash,
+    tier,
+    modulo,
+    payoutPerWin,
+    rolls,
+    computedWins,
+    computedPayout,
+    reported,
+    isFair:
+      secretMatches &&
+      BigInt(computedWins) === reported.wins &&
+      computedPayout === reported.payout &&
+      reported.won === computedWins > 0,
+  };
+};